@@ -8,14 +8,28 @@
  * @module
  */
 
+import type * as account_deletion from "../account_deletion.js";
+import type * as admin from "../admin.js";
 import type * as ai from "../ai.js";
+import type * as analytics from "../analytics.js";
 import type * as app from "../app.js";
+import type * as classes from "../classes.js";
 import type * as constants from "../constants.js";
+import type * as csv from "../csv.js";
+import type * as data_export from "../data_export.js";
 import type * as http from "../http.js";
 import type * as internal_quizzes from "../internal_quizzes.js";
+import type * as internal_users from "../internal_users.js";
 import type * as lib from "../lib.js";
 import type * as multiplayer from "../multiplayer.js";
+import type * as question_bank from "../question_bank.js";
+import type * as question_types from "../question_types.js";
+import type * as quiz_editor from "../quiz_editor.js";
+import type * as quiz_export from "../quiz_export.js";
+import type * as quiz_import from "../quiz_import.js";
 import type * as quizzes from "../quizzes.js";
+import type * as reviews from "../reviews.js";
+import type * as sharing from "../sharing.js";
 import type * as users from "../users.js";
 import type * as utils from "../utils.js";
 
@@ -34,14 +48,28 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  account_deletion: typeof account_deletion;
+  admin: typeof admin;
   ai: typeof ai;
+  analytics: typeof analytics;
   app: typeof app;
+  classes: typeof classes;
   constants: typeof constants;
+  csv: typeof csv;
+  data_export: typeof data_export;
   http: typeof http;
   internal_quizzes: typeof internal_quizzes;
+  internal_users: typeof internal_users;
   lib: typeof lib;
   multiplayer: typeof multiplayer;
+  question_bank: typeof question_bank;
+  question_types: typeof question_types;
+  quiz_editor: typeof quiz_editor;
+  quiz_export: typeof quiz_export;
+  quiz_import: typeof quiz_import;
   quizzes: typeof quizzes;
+  reviews: typeof reviews;
+  sharing: typeof sharing;
   users: typeof users;
   utils: typeof utils;
 }>;
@@ -0,0 +1,317 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, internalMutation, query } from "./_generated/server";
+import { workflow } from "./lib";
+import { deleteUnusedFigure } from "./question_bank";
+import { deleteQuizRelatedBatch, deleteQuizWithRelatedData } from "./quizzes";
+import { vv } from "./schema";
+
+// Documents deleted per mutation, small enough to stay within transaction limits
+const BATCH_SIZE = 50;
+
+// Tables are cleaned up in this order, the user row goes last so an interrupted
+// deletion can be started again by the same user
+export const ACCOUNT_DELETION_STEPS = [
+	"quizzes",
+	"questions",
+	"multiplayer_rooms",
+	"classes",
+	"quiz_attempts",
+	"review_cards",
+	"uploads",
+	"quiz_tasks",
+	"multiplayer_players",
+	"class_members",
+	"data_exports",
+	"users",
+] as const;
+
+type AccountDeletionStep = (typeof ACCOUNT_DELETION_STEPS)[number];
+
+/**
+ * Deletes a file from storage if the string is the ID of one that still exists
+ * and no quiz is made from it anymore: copies of a quiz by other users share its
+ * source file. Quiz contexts and tasks store storage IDs as plain strings.
+ */
+const deleteStoredFile = async (ctx: MutationCtx, storageId?: string) => {
+	const id = storageId && ctx.db.system.normalizeId("_storage", storageId);
+	if (!id || !(await ctx.db.system.get(id))) {
+		return;
+	}
+	const sourceOf = await ctx.db
+		.query("quizzes")
+		.withIndex("by_source_file", (q) => q.eq("quizContext.fileUrl", id))
+		.first();
+	if (!sourceOf) {
+		await ctx.storage.delete(id);
+	}
+};
+
+/**
+ * Deletes the next batch of the user's documents for one step and returns how
+ * many were deleted; 0 means the step is done.
+ */
+const deleteStepBatch = async (
+	ctx: MutationCtx,
+	userId: Id<"users">,
+	step: AccountDeletionStep,
+): Promise<number> => {
+	switch (step) {
+		case "quizzes": {
+			// One quiz at a time, the documents pointing at it in batches
+			const quiz = await ctx.db
+				.query("quizzes")
+				.withIndex("by_created_by", (q) => q.eq("createdBy", userId))
+				.first();
+			if (!quiz) {
+				return 0;
+			}
+			const deleted = await deleteQuizRelatedBatch(ctx, quiz._id, BATCH_SIZE);
+			if (deleted > 0) {
+				return deleted;
+			}
+			await deleteQuizWithRelatedData(ctx, quiz._id);
+			await deleteStoredFile(ctx, quiz.quizContext.fileUrl);
+			return 1;
+		}
+		case "questions": {
+			const questions = await ctx.db
+				.query("questions")
+				.withIndex("by_owner", (q) => q.eq("ownerId", userId))
+				.take(BATCH_SIZE);
+			for (const question of questions) {
+				await ctx.db.delete(question._id);
+				await deleteUnusedFigure(ctx, question.content?.image);
+			}
+			return questions.length;
+		}
+		case "multiplayer_rooms": {
+			const rooms = await ctx.db
+				.query("multiplayer_rooms")
+				.withIndex("by_host", (q) => q.eq("hostId", userId))
+				.take(BATCH_SIZE);
+			for (const room of rooms) {
+				const players = await ctx.db
+					.query("multiplayer_players")
+					.withIndex("by_room", (q) => q.eq("roomId", room._id))
+					.collect();
+				for (const player of players) {
+					await ctx.db.delete(player._id);
+				}
+				await ctx.db.delete(room._id);
+			}
+			return rooms.length;
+		}
+		case "classes": {
+			const classes = await ctx.db
+				.query("classes")
+				.withIndex("by_owner", (q) => q.eq("ownerId", userId))
+				.take(BATCH_SIZE);
+			for (const classDoc of classes) {
+				const [members, assignments] = await Promise.all([
+					ctx.db
+						.query("class_members")
+						.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+						.collect(),
+					ctx.db
+						.query("assignments")
+						.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+						.collect(),
+				]);
+				for (const doc of [...members, ...assignments]) {
+					await ctx.db.delete(doc._id);
+				}
+				await ctx.db.delete(classDoc._id);
+			}
+			return classes.length;
+		}
+		case "quiz_attempts":
+		case "uploads":
+		case "quiz_tasks":
+		case "multiplayer_players":
+		case "class_members":
+		case "data_exports": {
+			const docs = await ctx.db
+				.query(step)
+				.withIndex("by_user", (q) => q.eq("userId", userId))
+				.take(BATCH_SIZE);
+			for (const doc of docs) {
+				if ("contentType" in doc && doc.contentType === "file") {
+					await deleteStoredFile(ctx, doc.content);
+				}
+				if ("storageId" in doc) {
+					await deleteStoredFile(ctx, doc.storageId);
+				}
+				await ctx.db.delete(doc._id);
+			}
+			return docs.length;
+		}
+		case "review_cards": {
+			const cards = await ctx.db
+				.query("review_cards")
+				.withIndex("by_user_due", (q) => q.eq("userId", userId))
+				.take(BATCH_SIZE);
+			for (const card of cards) {
+				await ctx.db.delete(card._id);
+			}
+			return cards.length;
+		}
+		case "users": {
+			const user = await ctx.db.get(userId);
+			if (!user) {
+				return 0;
+			}
+			await ctx.db.delete(user._id);
+			return 1;
+		}
+	}
+};
+
+/**
+ * Records a deletion for the user and starts the workflow that runs it. If a
+ * previous deletion failed or was interrupted it is started over; one that is
+ * still running is left alone.
+ */
+export const startAccountDeletion = async (
+	ctx: MutationCtx,
+	user: Doc<"users">,
+) => {
+	const existing = await ctx.db
+		.query("account_deletions")
+		.withIndex("by_clerk_user_id", (q) => q.eq("clerkUserId", user.userId))
+		.first();
+
+	if (existing?.status === "running") {
+		return existing._id;
+	}
+
+	const deletion = {
+		clerkUserId: user.userId,
+		userId: user._id,
+		status: "running" as const,
+		step: ACCOUNT_DELETION_STEPS[0],
+		deletedCount: 0,
+		error: undefined,
+		startedAt: Date.now(),
+		completedAt: undefined,
+	};
+
+	let deletionId: Id<"account_deletions">;
+	if (existing) {
+		deletionId = existing._id;
+		await ctx.db.replace(deletionId, deletion);
+	} else {
+		deletionId = await ctx.db.insert("account_deletions", deletion);
+	}
+
+	await workflow.start(ctx, internal.account_deletion.deleteAccountWorkflow, {
+		deletionId,
+	});
+
+	return deletionId;
+};
+
+// Called by the account deletion workflow for every batch
+export const deleteAccountBatch = internalMutation({
+	args: {
+		deletionId: vv.id("account_deletions"),
+		step: v.union(...ACCOUNT_DELETION_STEPS.map((step) => v.literal(step))),
+	},
+	handler: async (ctx, args): Promise<number> => {
+		const deletion = await ctx.db.get(args.deletionId);
+		if (!deletion) {
+			throw new Error("Account deletion not found");
+		}
+
+		const deleted = await deleteStepBatch(ctx, deletion.userId, args.step);
+
+		await ctx.db.patch(deletion._id, {
+			step: args.step,
+			deletedCount: deletion.deletedCount + deleted,
+		});
+
+		return deleted;
+	},
+});
+
+// Called by the account deletion workflow once it's done or has failed
+export const finishAccountDeletion = internalMutation({
+	args: {
+		deletionId: vv.id("account_deletions"),
+		error: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		await ctx.db.patch(args.deletionId, {
+			status: args.error ? "failed" : "completed",
+			error: args.error,
+			completedAt: Date.now(),
+		});
+	},
+});
+
+export const deleteAccountWorkflow = workflow.define({
+	args: { deletionId: vv.id("account_deletions") },
+	handler: async (ctx, { deletionId }) => {
+		try {
+			for (const step of ACCOUNT_DELETION_STEPS) {
+				let deleted: number;
+				do {
+					deleted = await ctx.runMutation(
+						internal.account_deletion.deleteAccountBatch,
+						{ deletionId, step },
+					);
+				} while (deleted > 0);
+			}
+
+			await ctx.runMutation(internal.account_deletion.finishAccountDeletion, {
+				deletionId,
+			});
+		} catch (error: unknown) {
+			console.error(`Account deletion ${deletionId} failed:`, error);
+			await ctx.runMutation(internal.account_deletion.finishAccountDeletion, {
+				deletionId,
+				error:
+					error instanceof Error ? error.message : "An unknown error occurred",
+			});
+		}
+	},
+});
+
+/**
+ * Retrieves the progress of the current user's account deletion. Works after
+ * the user row is gone, as long as the Clerk session is still valid.
+ *
+ * @returns The deletion status or null if the account isn't being deleted.
+ */
+export const getMyAccountDeletion = query({
+	args: {},
+	handler: async (ctx) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			return null;
+		}
+
+		const deletion = await ctx.db
+			.query("account_deletions")
+			.withIndex("by_clerk_user_id", (q) =>
+				q.eq("clerkUserId", identity.subject),
+			)
+			.first();
+
+		if (!deletion) {
+			return null;
+		}
+
+		return {
+			status: deletion.status,
+			step: deletion.step as AccountDeletionStep,
+			stepIndex: ACCOUNT_DELETION_STEPS.indexOf(
+				deletion.step as AccountDeletionStep,
+			),
+			stepCount: ACCOUNT_DELETION_STEPS.length,
+			deletedCount: deletion.deletedCount,
+			error: deletion.error,
+		};
+	},
+});
@@ -0,0 +1,103 @@
+import type { Infer } from "convex/values";
+import type { questionDifficulty } from "./schema";
+
+type Difficulty = Infer<typeof questionDifficulty>;
+
+type AdaptiveAnswer = { isCorrect: boolean; timeTaken: number };
+
+const LEVELS: Difficulty[] = ["easy", "medium", "hard"];
+const STARTING_LEVEL = 1; // medium
+
+// Correct answers faster than this count towards stepping up
+const FAST_ANSWER_MS = 10000;
+// Fast correct answers in a row needed to step up a level
+const STEP_UP_STREAK = 2;
+
+/**
+ * The difficulty the next question of an adaptive attempt should have, replaying
+ * the answers so far in the order they were given: a miss steps down a level
+ * and a streak of fast correct answers steps up one.
+ */
+export const getTargetDifficulty = (answers: AdaptiveAnswer[]): Difficulty => {
+	let level = STARTING_LEVEL;
+	let streak = 0;
+	for (const answer of answers) {
+		if (!answer.isCorrect) {
+			level = Math.max(level - 1, 0);
+			streak = 0;
+		} else if (answer.timeTaken <= FAST_ANSWER_MS) {
+			streak++;
+			if (streak >= STEP_UP_STREAK) {
+				level = Math.min(level + 1, LEVELS.length - 1);
+				streak = 0;
+			}
+		} else {
+			streak = 0;
+		}
+	}
+	return LEVELS[level];
+};
+
+/**
+ * Levels ordered by how close they are to the target. Between two equally
+ * close levels, learners getting most answers right get the harder one.
+ */
+const getFallbackLevels = (target: Difficulty, answers: AdaptiveAnswer[]) => {
+	const targetLevel = LEVELS.indexOf(target);
+	const correctCount = answers.filter((answer) => answer.isCorrect).length;
+	const prefersHarder = correctCount * 2 >= answers.length;
+	return [...LEVELS].sort(
+		(a, b) =>
+			Math.abs(LEVELS.indexOf(a) - targetLevel) -
+				Math.abs(LEVELS.indexOf(b) - targetLevel) ||
+			(prefersHarder
+				? LEVELS.indexOf(b) - LEVELS.indexOf(a)
+				: LEVELS.indexOf(a) - LEVELS.indexOf(b)),
+	);
+};
+
+export type AdaptivePick =
+	| { type: "question"; questionIndex: number }
+	| { type: "generate"; difficulty: Difficulty };
+
+/**
+ * Picks the next question of an adaptive attempt: the first question of the
+ * target difficulty that hasn't been served yet. When there is none, asks for
+ * one to be generated if allowed, and otherwise settles for the closest
+ * difficulty left.
+ *
+ * @param questions - Every question the attempt can serve
+ * @param servedOrder - Indexes of the questions served so far
+ * @param answers - The answers so far, in the order they were given
+ * @param canGenerate - Whether a new question may be generated
+ * @returns What to serve next, or null when every question has been served
+ */
+export const pickAdaptiveQuestion = (
+	questions: { difficulty: Difficulty }[],
+	servedOrder: number[],
+	answers: AdaptiveAnswer[],
+	canGenerate: boolean,
+): AdaptivePick | null => {
+	const served = new Set(servedOrder);
+	const target = getTargetDifficulty(answers);
+	const findUnserved = (difficulty: Difficulty) =>
+		questions.findIndex(
+			(question, index) =>
+				!served.has(index) && question.difficulty === difficulty,
+		);
+
+	const questionIndex = findUnserved(target);
+	if (questionIndex !== -1) {
+		return { type: "question", questionIndex };
+	}
+	if (canGenerate) {
+		return { type: "generate", difficulty: target };
+	}
+	for (const difficulty of getFallbackLevels(target, answers)) {
+		const fallbackIndex = findUnserved(difficulty);
+		if (fallbackIndex !== -1) {
+			return { type: "question", questionIndex: fallbackIndex };
+		}
+	}
+	return null;
+};
@@ -0,0 +1,152 @@
+import { createClerkClient } from "@clerk/backend";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import { action } from "./_generated/server";
+import { getQuizQuestions } from "./question_bank";
+import { deleteQuizWithRelatedData } from "./quizzes";
+import { userRole, vv } from "./schema";
+import { adminMutation, adminQuery, hasRole } from "./users";
+
+/**
+ * Lists all users for the admin console, optionally only those with a role.
+ * Users without a stored role count as students.
+ */
+export const listUsers = adminQuery({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		role: v.optional(userRole),
+	},
+	handler: async (ctx, args) => {
+		const users = ctx.db.query("users").order("desc");
+		if (!args.role) {
+			return await users.paginate(args.paginationOpts);
+		}
+
+		return await users
+			.filter((q) =>
+				args.role === "student"
+					? q.or(
+							q.eq(q.field("role"), undefined),
+							q.eq(q.field("role"), "student"),
+						)
+					: q.eq(q.field("role"), args.role),
+			)
+			.paginate(args.paginationOpts);
+	},
+});
+
+/**
+ * Changes a user's role. Roles are managed in Clerk, so the role is written to
+ * the user's Clerk public metadata, which every later sync reads, and applied
+ * here right away. Admins can't change their own role, so there is always at
+ * least one admin left.
+ */
+export const setUserRole = action({
+	args: {
+		userId: vv.id("users"),
+		role: userRole,
+	},
+	handler: async (ctx, args) => {
+		const admin = await ctx.runQuery(api.users.getCurrentUser);
+		if (!admin || !hasRole(admin, "admin")) {
+			throw new Error("Unauthorized: Requires the admin role");
+		}
+
+		if (args.userId === admin._id) {
+			throw new Error("You can't change your own role");
+		}
+
+		const user = await ctx.runQuery(internal.internal_users.getUser, {
+			userId: args.userId,
+		});
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const secretKey = process.env.CLERK_SECRET_KEY;
+		if (!secretKey) {
+			throw new Error("CLERK_SECRET_KEY is not set");
+		}
+		await createClerkClient({ secretKey }).users.updateUserMetadata(
+			user.userId,
+			{ publicMetadata: { role: args.role } },
+		);
+
+		await ctx.runMutation(internal.internal_users.updateUserRole, {
+			userId: user._id,
+			role: args.role,
+		});
+	},
+});
+
+/**
+ * Lists every quiz for moderation, newest first, with its owner's username.
+ */
+export const listAllQuizzes = adminQuery({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		search: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const search = args.search?.trim();
+		const quizzes = search
+			? await ctx.db
+					.query("quizzes")
+					.withSearchIndex("search_text", (q) => q.search("searchText", search))
+					.paginate(args.paginationOpts)
+			: await ctx.db
+					.query("quizzes")
+					.order("desc")
+					.paginate(args.paginationOpts);
+
+		return {
+			...quizzes,
+			page: await Promise.all(
+				quizzes.page.map(async (quiz) => {
+					const owner = await ctx.db.get(quiz.createdBy);
+					return {
+						_id: quiz._id,
+						_creationTime: quiz._creationTime,
+						title: quiz.title,
+						description: quiz.description,
+						visibility: quiz.visibility ?? "private",
+						questionCount: (await getQuizQuestions(ctx, quiz)).length,
+						ownerUsername: owner?.username ?? null,
+					};
+				}),
+			),
+		};
+	},
+});
+
+/**
+ * Makes a quiz private so it's no longer reachable through its share link or
+ * public listings. The owner keeps it in their library.
+ */
+export const unpublishQuiz = adminMutation({
+	args: { quizId: vv.id("quizzes") },
+	handler: async (ctx, args) => {
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		await ctx.db.patch(quiz._id, { visibility: "private" });
+	},
+});
+
+/**
+ * Deletes an abusive quiz and all data related to it.
+ */
+export const deleteQuiz = adminMutation({
+	args: { quizId: vv.id("quizzes") },
+	handler: async (ctx, args) => {
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		await deleteQuizWithRelatedData(ctx, quiz._id);
+	},
+});
@@ -1,12 +1,30 @@
 "use node";
 import { generateObject, generateText } from "ai";
-import { v } from "convex/values";
+import { type Infer, v } from "convex/values";
 import { z } from "zod";
 import { api, internal } from "./_generated/api";
-import { action } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { type ActionCtx, action, internalAction } from "./_generated/server";
+import {
+	type SourceSection,
+	limitSourceSections,
+	locateCitation,
+	sourceSection,
+} from "./citations";
 import { DEFAULT_MODEL, MISTRAL_NEMO_MODEL } from "./constants";
 import { openrouter } from "./lib";
-import { vv } from "./schema";
+import {
+	type QuestionType,
+	type QuizQuestion,
+	assertValidQuestion,
+	formatCorrectAnswer,
+	formatResponse,
+	getAnswerResponse,
+	getQuestionProblem,
+	isChoiceQuestion,
+} from "./question_types";
+import type { QuizWithQuestions } from "./quizzes";
+import { quizQuestionType, vv } from "./schema";
 import {
 	analyzePDFContent,
 	analyzeTextContent,
@@ -16,11 +34,112 @@ import {
 	createWEBUserPrompt,
 	encodePDFFromCloudURL,
 	extractPDFContent,
+	extractPDFFigures,
+	extractPDFPages,
 	shouldUseOCR,
 	validateAndEnhanceSummary,
 	websiteContentExtractor,
 } from "./utils";
 
+// Figures described for the quiz generator, at most this many per PDF
+const MAX_PDF_FIGURES = 8;
+
+const pdfFigure = v.object({
+	// Short id the quiz generator refers to the figure by, e.g. "fig1"
+	id: v.string(),
+	storageId: v.id("_storage"),
+	pageNumber: v.number(),
+	description: v.string(),
+});
+
+export type PDFFigureReference = Infer<typeof pdfFigure>;
+
+/**
+ * Extracts the figures of a PDF, has the model describe each one and stores
+ * those worth asking about. Decorative images are dropped. Never throws: a PDF
+ * without usable figures just gets text-only questions.
+ */
+async function storePDFFigures(
+	ctx: ActionCtx,
+	pdfBuffer: Buffer,
+	fileName: string,
+	language: "id" | "en",
+): Promise<PDFFigureReference[]> {
+	try {
+		const figures = await extractPDFFigures(pdfBuffer, MAX_PDF_FIGURES);
+
+		const described = await Promise.all(
+			figures.map(async (figure) => {
+				const { text } = await generateText({
+					model: openrouter(DEFAULT_MODEL),
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "text",
+									text: `This image is from page ${figure.pageNumber} of "${fileName}". Describe it for a quiz writer who can't see it: what it shows, its labels and values, and the relationships it illustrates, in 1-3 sentences in ${language === "id" ? "Indonesian" : "English"}. If it's decorative (a logo, photo of a person, background or icon), reply with only SKIP.`,
+								},
+								{ type: "image", image: figure.png, mimeType: "image/png" },
+							],
+						},
+					],
+					temperature: 0.2,
+					maxTokens: 300,
+				});
+				const description = text.trim();
+				return description && description !== "SKIP"
+					? { figure, description }
+					: null;
+			}),
+		);
+
+		const references: PDFFigureReference[] = [];
+		for (const item of described) {
+			if (!item) {
+				continue;
+			}
+			const storageId = await ctx.storage.store(
+				new Blob([item.figure.png], { type: "image/png" }),
+			);
+			references.push({
+				id: `fig${references.length + 1}`,
+				storageId,
+				pageNumber: item.figure.pageNumber,
+				description: item.description,
+			});
+		}
+		return references;
+	} catch (error) {
+		console.error("Gagal mengekstrak gambar PDF:", error);
+		return [];
+	}
+}
+
+/**
+ * Reads the text layer of each PDF page, for citing questions back to their
+ * page. Never throws: scanned PDFs without a text layer just get no citations.
+ */
+async function readPDFPages(pdfBuffer: Buffer): Promise<SourceSection[]> {
+	try {
+		return await extractPDFPages(pdfBuffer);
+	} catch (error) {
+		console.error("Gagal membaca teks halaman PDF:", error);
+		return [];
+	}
+}
+
+const describeSourceLocation = ({ location }: SourceSection) => {
+	switch (location.type) {
+		case "page":
+			return `[page ${location.page}]`;
+		case "section":
+			return `[section: ${location.heading}]`;
+		case "range":
+			return "[text]";
+	}
+};
+
 /**
  * PDF Summarizer Action - Processes PDF documents for educational quiz generation
  *
@@ -31,13 +150,14 @@ import {
  * 4. Analyzes and structures content for educational use
  * 5. Generates learning summary optimized for quiz creation
  * 6. Validates output quality and enhances with metadata
+ * 7. Stores the informative figures of the PDF so questions can show them
  *
  * @param pdfPath - Cloud URL pointing to the PDF file to process
  * @param targetAudience - Educational level (smp/sma/kuliah/umum), defaults to 'sma'
  * @param focusArea - Optional subject area to emphasize (e.g., 'matematika', 'sains')
  * @param extractionMethod - PDF extraction method (text/ocr/auto), defaults to 'auto'
  *
- * @returns Object containing validated summary and comprehensive metadata
+ * @returns Object containing validated summary, comprehensive metadata and the stored figures
  *
  * @throws {Error} When PDF processing fails, content is too short, or validation fails
  *
@@ -71,9 +191,8 @@ export const pdfSummarizer = action({
 	handler: async (ctx, args) => {
 		try {
 			// Step 1: Encode PDF
-			const { base64PDF, fileSize, fileName } = await encodePDFFromCloudURL(
-				args.pdfPath,
-			);
+			const { base64PDF, pdfBuffer, fileSize, fileName } =
+				await encodePDFFromCloudURL(args.pdfPath);
 
 			// Step 2: Determine extraction method
 			const extractionMethod = args.extractionMethod || "auto";
@@ -149,17 +268,32 @@ export const pdfSummarizer = action({
 				);
 			}
 
-			// Step 8: Return enhanced result
+			// Step 8: Store figures the quiz generator can build questions around
+			const figures = await storePDFFigures(
+				ctx,
+				pdfBuffer,
+				fileName,
+				processedContent.language,
+			);
+			processedContent.metrics.hasImages ||= figures.length > 0;
+
+			// Step 9: Keep the page texts so questions can cite their page
+			const sourceSections = limitSourceSections(await readPDFPages(pdfBuffer));
+
+			// Step 10: Return enhanced result
 			console.log(`PDF berhasil diproses: ${fileName}`, {
 				fileSize: `${Math.round(fileSize / 1024)}KB`,
 				wordCount: processedContent.metrics.wordCount,
 				contentType: processedContent.contentType,
 				language: processedContent.language,
 				processingMethod: processedContent.processingMethod,
+				figureCount: figures.length,
 			});
 
 			return {
 				summary: validatedSummary,
+				figures,
+				sourceSections,
 				metadata: {
 					sourceTitle: fileName,
 					sourceUrl: args.pdfPath,
@@ -214,7 +348,8 @@ export const websiteSummarizer = action({
 			throw new Error("Gagal mengekstrak konten dari website");
 		}
 
-		const { title, content, metrics, contentType, language } = extractedData;
+		const { title, content, metrics, contentType, language, sections } =
+			extractedData;
 
 		// Validasi konten minimum untuk quiz generation
 		if (metrics.wordCount < 200) {
@@ -275,6 +410,7 @@ export const websiteSummarizer = action({
 
 			return {
 				summary: validatedSummary,
+				sourceSections: limitSourceSections(sections),
 				metadata: {
 					sourceTitle: title,
 					sourceUrl: args.url,
@@ -466,8 +602,25 @@ export const textSummarizer = action({
 				},
 			);
 
+			// Questions can only be cited back to text the user wrote, not to
+			// material elaborated from their request
+			const sourceSections: SourceSection[] =
+				processingType === "summarization"
+					? limitSourceSections([
+							{
+								text: args.textContent,
+								location: {
+									type: "range",
+									start: 0,
+									end: args.textContent.length,
+								},
+							},
+						])
+					: [];
+
 			return {
 				summary: validatedSummary,
+				sourceSections,
 				metadata: {
 					sourceTitle: processedContent.title,
 					contentType: processedContent.contentType,
@@ -656,42 +809,157 @@ Create comprehensive and structured educational content with minimum 300 words t
 Ensure content uses clear, understandable language appropriate for the target education level. The explanation structure should be logical and systematic.`;
 }
 
-/**
- * Zod schema for quiz question structure - matches Convex schema
- */
-const QuizQuestionSchema = z.object({
+const questionBaseSchema = {
 	question: z
 		.string()
 		.min(10, "Question must be at least 10 characters")
-		.describe("The question text that tests understanding of a concept"),
-	options: z
-		.array(z.string().min(1, "Option cannot be empty"))
-		.min(2, "At least 2 options required")
 		.describe(
-			"Array of answer choices: 4 options for multiple_choice, 2 for true_false (True/False)",
+			"The question text that tests understanding of a concept. For fill_in_blank, mark every blank with ___",
 		),
 	difficulty: z
 		.enum(["easy", "medium", "hard"])
 		.describe("Difficulty level of the question"),
-	questionType: z
-		.enum(["multiple_choice", "true_false"])
+	explanation: z
+		.string()
+		.min(10, "Explanation must be at least 10 characters")
 		.describe(
-			"Type of question: multiple_choice (one correct answer), true_false (True/False options)",
+			"Brief explanation of why the correct answer is right, should be concise but informative",
 		),
-	correctOptionIndex: z
-		.number()
-		.int()
-		.min(0, "Correct option index must be non-negative")
+	hint: z
+		.string()
+		.optional()
 		.describe(
-			"Zero-based index of the correct answer for multiple_choice/true_false",
+			"A short nudge for students who are stuck, pointing at the idea to use without giving the answer away",
 		),
-	explanation: z
+	imageId: z
 		.string()
-		.min(10, "Explanation must be at least 10 characters")
+		.optional()
 		.describe(
-			"Brief explanation of why the correct answer is right, should be concise but informative",
+			"Id of the source figure the question is about, only when figures are listed",
 		),
-});
+	sourceExcerpt: z
+		.string()
+		.optional()
+		.describe(
+			"A sentence or two copied word for word from the source passages that backs the answer, only when source passages are listed",
+		),
+};
+
+const answerListSchema = z.array(z.string().min(1, "Answer cannot be empty"));
+
+/**
+ * Zod schema for quiz question structure - matches Convex schema, with one
+ * member per question type
+ */
+const QuizQuestionSchema = z.discriminatedUnion("questionType", [
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.enum(["multiple_choice", "true_false"])
+			.describe(
+				"Type of question: multiple_choice (one correct answer), true_false (True/False options)",
+			),
+		options: z
+			.array(z.string().min(1, "Option cannot be empty"))
+			.min(2, "At least 2 options required")
+			.describe(
+				"Array of answer choices: 4 options for multiple_choice, 2 for true_false (True/False)",
+			),
+		correctOptionIndex: z
+			.number()
+			.int()
+			.min(0, "Correct option index must be non-negative")
+			.describe(
+				"Zero-based index of the correct answer for multiple_choice/true_false",
+			),
+	}),
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.literal("multiple_select")
+			.describe("Type of question: multiple_select (several correct answers)"),
+		options: z
+			.array(z.string().min(1, "Option cannot be empty"))
+			.min(2, "At least 2 options required")
+			.describe("Array of 4 to 6 answer choices"),
+		correctOptionIndexes: z
+			.array(z.number().int().min(0))
+			.min(1, "At least one correct option required")
+			.describe("Zero-based indexes of every correct answer"),
+	}),
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.literal("short_answer")
+			.describe("Type of question: short_answer (answered with free text)"),
+		acceptedAnswers: answerListSchema
+			.min(1, "At least one accepted answer required")
+			.describe(
+				"Every accepted answer, the best one first, including synonyms and alternative spellings",
+			),
+		fuzzy: z
+			.boolean()
+			.describe("Whether answers with small typos are accepted too"),
+	}),
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.literal("fill_in_blank")
+			.describe("Type of question: fill_in_blank (fill in the ___ blanks)"),
+		blanks: z
+			.array(answerListSchema.min(1))
+			.min(1, "At least one blank required")
+			.describe(
+				"For each ___ blank in the question text, in order, every accepted answer",
+			),
+		fuzzy: z
+			.boolean()
+			.describe("Whether answers with small typos are accepted too"),
+	}),
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.literal("ordering")
+			.describe("Type of question: ordering (put items in order)"),
+		items: z
+			.array(z.string().min(1, "Item cannot be empty"))
+			.min(2, "At least 2 items required")
+			.max(8, "At most 8 items allowed")
+			.describe("The items in their correct order, players get them shuffled"),
+	}),
+	z.object({
+		...questionBaseSchema,
+		questionType: z
+			.literal("matching")
+			.describe("Type of question: matching (match each left to its right)"),
+		pairs: z
+			.array(z.object({ left: z.string().min(1), right: z.string().min(1) }))
+			.min(2, "At least 2 pairs required")
+			.max(8, "At most 8 pairs allowed")
+			.describe("Matching pairs, players get the right-hand sides shuffled"),
+	}),
+]);
+
+// How to write each question type, for the generation prompts
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+	multiple_choice:
+		"multiple_choice: exactly 4 options with only one correct answer in correctOptionIndex",
+	true_false: "true_false: 2 options ('True' and 'False')",
+	multiple_select:
+		"multiple_select: 4 to 6 options with two or more correct answers, all listed in correctOptionIndexes",
+	short_answer:
+		"short_answer: answered with a word or short phrase; list every accepted answer (synonyms, alternative spellings) in acceptedAnswers and set fuzzy to true unless the exact spelling matters",
+	fill_in_blank:
+		"fill_in_blank: a sentence with each missing word marked as ___ in the question text; give the accepted answers of each blank, in order, in blanks",
+	ordering:
+		"ordering: 3 to 6 steps, events or values listed in their correct order in items",
+	matching: "matching: 3 to 6 pairs of related terms (left and right) in pairs",
+};
+
+// Question, option and explanation text is rendered as Markdown with KaTeX,
+// see RichText on the frontend
+const TEXT_FORMAT_INSTRUCTIONS =
+	"Text may use basic Markdown (**bold**, lists), LaTeX math between $...$ (inline) or $$...$$ (block), and fenced code blocks with a language (```python). Use them only when the content needs formulas or code and never use HTML tags";
 
 const QuizResponseSchema = z.object({
 	title: z
@@ -726,6 +994,9 @@ const QuizResponseSchema = z.object({
  * @param summary - The summarized content to generate questions from
  * @param metadata - Content metadata including source info, language, content type
  * @param quizSettings - Quiz configuration (number of questions, difficulty, etc.)
+ * @param figures - Figures from the source that questions may show, from pdfSummarizer
+ * @param sourceSections - The source text the summary was made from, for citing
+ *   each question back to its passage; excerpts not found in it are dropped
  *
  * @returns Object containing formatted quiz questions and metadata
  *
@@ -773,6 +1044,7 @@ export const quizGenerator = action({
 			),
 			targetAudience: v.optional(
 				v.union(
+					v.literal("sd"),
 					v.literal("smp"),
 					v.literal("sma"),
 					v.literal("kuliah"),
@@ -780,16 +1052,23 @@ export const quizGenerator = action({
 				),
 			),
 			focusArea: v.optional(v.string()),
+			questionTypes: v.optional(v.array(quizQuestionType)),
 		}),
+		figures: v.optional(v.array(pdfFigure)),
+		sourceSections: v.optional(v.array(sourceSection)),
 	},
 	handler: async (ctx, args) => {
 		try {
 			const { summary, metadata, quizSettings } = args;
+			const figures = args.figures ?? [];
+			const sourceSections = limitSourceSections(args.sourceSections ?? []);
 
 			// Extract settings with defaults
 			const numQuestions = quizSettings.numQuestions || 5;
 			const difficulty = quizSettings.difficulty || "mix";
-			const questionTypes = ["multiple_choice", "true_false"]; // Always use mixed question types
+			const questionTypes: QuestionType[] = quizSettings.questionTypes?.length
+				? quizSettings.questionTypes
+				: ["multiple_choice", "true_false"];
 			const targetAudience = quizSettings.targetAudience || "sma";
 			const language = metadata.language;
 
@@ -799,8 +1078,7 @@ export const quizGenerator = action({
 Your task is to generate ${numQuestions} quiz questions with ${difficulty} difficulty level for ${targetAudience} students.
 
 Question Types to Generate:
-${questionTypes.includes("multiple_choice") ? "- Multiple Choice: Provide exactly 4 options with only one correct answer" : ""}
-${questionTypes.includes("true_false") ? "- True/False: Provide 2 options ('True' and 'False')" : ""}
+${questionTypes.map((type) => `- ${QUESTION_TYPE_INSTRUCTIONS[type]}`).join("\n")}
 
 CRITICAL REQUIREMENTS:
 1. Respond with ONLY a valid JSON object matching the required schema
@@ -808,6 +1086,8 @@ CRITICAL REQUIREMENTS:
 3. Ensure questions test understanding, not just memorization
 4. Make distractors plausible but clearly incorrect
 5. Keep explanations concise but informative
+6. Give each question a hint that points toward the answer without revealing it
+7. ${TEXT_FORMAT_INSTRUCTIONS}
 
 Example format:
 {
@@ -819,6 +1099,7 @@ Example format:
       "options": ["Berlin", "Madrid", "Paris", "Rome"],
       "correctOptionIndex": 2,
       "explanation": "Paris is the capital and largest city of France.",
+      "hint": "Think of the city where the Eiffel Tower stands.",
       "difficulty": "easy",
       "questionType": "multiple_choice"
     }
@@ -836,7 +1117,21 @@ Summary Content to Create Quiz From:
 ---
 ${summary}
 ---
-
+${
+	figures.length > 0
+		? `
+Figures from the source. When a question is about what a figure shows, set its imageId to the figure's id; the student sees the figure above the question, so don't describe it in the question text. Only use a figure when it's needed to answer, and use each figure at most once:
+${figures.map((figure) => `- ${figure.id} (page ${figure.pageNumber}): ${figure.description}`).join("\n")}
+`
+		: ""
+}${
+	sourceSections.length > 0
+		? `
+Source passages the summary was made from. For each question, set sourceExcerpt to the sentence or two from these passages that backs the answer, copied exactly as written (don't paraphrase, translate or join separate passages):
+${sourceSections.map((section) => `${describeSourceLocation(section)}\n${section.text}`).join("\n\n")}
+`
+		: ""
+}
 Generate ${numQuestions} quiz questions based on this content. Distribute question types as follows:
 ${questionTypes.map((type) => `- ${type}: ${Math.ceil(numQuestions / questionTypes.length)} questions`).join("\n")}
 
@@ -865,23 +1160,40 @@ Remember to respond with ONLY the JSON array of question objects.`;
 				throw new Error("No questions generated");
 			}
 
-			// Additional validation for correctOptionIndex bounds
-			for (let i = 0; i < quizData.questions.length; i++) {
-				const question = quizData.questions[i];
-				if (question.correctOptionIndex >= question.options.length) {
-					throw new Error(
-						`Question ${i + 1}: correctOptionIndex (${question.correctOptionIndex}) exceeds options length (${question.options.length})`,
-					);
-				}
-			}
+			// Additional validation the schema can't express, e.g. answer index bounds
+			quizData.questions.forEach(assertValidQuestion);
 
 			console.log(
 				`Successfully generated ${quizData.questions.length} quiz questions for "${metadata.sourceTitle}"`,
 			);
 
+			// Swap the figure ids the model knows for the stored images
+			const figureStorageIds = new Map(
+				figures.map((figure) => [figure.id, figure.storageId]),
+			);
+			const questions: QuizQuestion[] = quizData.questions.map(
+				({ imageId, sourceExcerpt, ...question }) => {
+					const image = imageId && figureStorageIds.get(imageId);
+					// Only keep citations whose excerpt really is in the source
+					const citation = sourceExcerpt
+						? locateCitation(sourceSections, sourceExcerpt)
+						: null;
+					if (sourceExcerpt && !citation) {
+						console.warn(
+							`Dropping citation not found in "${metadata.sourceTitle}": ${sourceExcerpt}`,
+						);
+					}
+					return {
+						...question,
+						...(image ? { image } : {}),
+						...(citation ? { citation } : {}),
+					};
+				},
+			);
+
 			return {
 				title: quizData.title,
-				questions: quizData.questions,
+				questions,
 				description: quizData.description,
 				metadata: {
 					sourceTitle: metadata.sourceTitle,
@@ -904,6 +1216,204 @@ Remember to respond with ONLY the JSON array of question objects.`;
 	},
 });
 
+/**
+ * Has the model write one new question of the given difficulty and type for a
+ * quiz, from the summary stored on its generation task (falling back to the
+ * quiz title and description for quizzes without one). The quiz's other
+ * questions are passed along so the new one doesn't duplicate them.
+ */
+async function generateQuestionForQuiz({
+	quiz,
+	task,
+	otherQuestions,
+	difficulty,
+	questionType,
+	request,
+}: {
+	quiz: Doc<"quizzes">;
+	task: Doc<"quiz_tasks"> | null;
+	otherQuestions: QuizQuestion[];
+	difficulty: QuizQuestion["difficulty"];
+	questionType: QuestionType;
+	// Closing line of the prompt, e.g. "Generate one replacement question."
+	request: string;
+}): Promise<QuizQuestion> {
+	const summary = task?.summary ?? `${quiz.title}\n\n${quiz.description}`;
+	const sourceTitle: string = task?.metadata?.sourceTitle ?? quiz.title;
+	const language = task?.metadata?.language === "en" ? "English" : "Indonesian";
+
+	const systemPrompt = `You are an expert educational quiz designer. Write exactly ONE new quiz question for an existing quiz.
+
+Requirements:
+1. Respond with ONLY a valid JSON object matching the required schema
+2. Use ${language} language throughout
+3. Difficulty: ${difficulty}
+4. Question type: ${QUESTION_TYPE_INSTRUCTIONS[questionType]}
+5. Test a concept that is NOT already covered by the quiz's other questions
+6. Make distractors plausible but clearly incorrect, and keep the explanation concise
+7. Give a hint that points toward the answer without revealing it
+8. ${TEXT_FORMAT_INSTRUCTIONS}`;
+
+	const userPrompt = `
+Source Material: "${sourceTitle}"
+
+Summary Content:
+---
+${summary}
+---
+
+Other questions already in the quiz (do not repeat or paraphrase these):
+${otherQuestions.map((question, index) => `${index + 1}. ${question.question}`).join("\n") || "(none)"}
+
+${request}`;
+
+	const { object: question } = await generateObject({
+		model: openrouter(DEFAULT_MODEL),
+		system: systemPrompt,
+		prompt: userPrompt,
+		schema: QuizQuestionSchema,
+		temperature: 0.7, // Higher than full generation, we want something new
+		maxTokens: 800,
+	});
+
+	if (question.questionType !== questionType) {
+		throw new Error(
+			`Expected a ${questionType} question, got ${question.questionType}`,
+		);
+	}
+	const problem = getQuestionProblem(question);
+	if (problem) {
+		throw new Error(problem);
+	}
+
+	// New questions are written from the summary alone, without figures or
+	// source passages to cite
+	const { imageId, sourceExcerpt, ...generated } = question;
+	return { ...generated, difficulty };
+}
+
+/**
+ * Question Regenerator Action - Generates one replacement question for a quiz
+ *
+ * Produces a single new question of the requested difficulty and type from the
+ * quiz's summary, see generateQuestionForQuiz. Nothing is saved: the owner
+ * reviews the proposal and accepts or rejects it.
+ *
+ * @param quizId - The quiz the question belongs to; the caller must own it
+ * @param questionIndex - Index of the question being replaced, if it's already saved
+ * @param difficulty - Difficulty of the replacement question
+ * @param questionType - Type of the replacement question
+ *
+ * @returns The proposed question, in the same shape as stored quiz questions
+ *
+ * @throws {Error} When the caller doesn't own the quiz or generation fails
+ */
+export const regenerateQuizQuestion = action({
+	args: {
+		quizId: vv.id("quizzes"),
+		questionIndex: v.optional(v.number()),
+		difficulty: v.union(
+			v.literal("easy"),
+			v.literal("medium"),
+			v.literal("hard"),
+		),
+		questionType: quizQuestionType,
+	},
+	handler: async (ctx, args): Promise<QuizQuestion> => {
+		// Also checks that the caller owns the quiz
+		const quiz: QuizWithQuestions = await ctx.runQuery(
+			api.quiz_editor.getQuizForEdit,
+			{ quizId: args.quizId },
+		);
+		const task: Doc<"quiz_tasks"> | null = await ctx.runQuery(
+			internal.internal_quizzes.getQuizTaskByQuiz,
+			{ quizId: args.quizId },
+		);
+
+		try {
+			return await generateQuestionForQuiz({
+				quiz,
+				task,
+				otherQuestions: quiz.questions.filter(
+					(_, index) => index !== args.questionIndex,
+				),
+				difficulty: args.difficulty,
+				questionType: args.questionType,
+				request: "Generate one replacement question.",
+			});
+		} catch (error) {
+			console.error("Error in regenerateQuizQuestion:", error);
+			if (error instanceof Error) {
+				throw new Error(`Failed to regenerate question: ${error.message}`);
+			}
+			throw new Error(`Failed to regenerate question: ${String(error)}`);
+		}
+	},
+});
+
+// The type most of a quiz's questions have, for questions added to it
+const getMostCommonQuestionType = (questions: QuizQuestion[]): QuestionType => {
+	const counts = new Map<QuestionType, number>();
+	for (const { questionType } of questions) {
+		counts.set(questionType, (counts.get(questionType) ?? 0) + 1);
+	}
+	let mostCommon: QuestionType = "multiple_choice";
+	for (const [questionType, count] of counts) {
+		if (count > (counts.get(mostCommon) ?? 0)) {
+			mostCommon = questionType;
+		}
+	}
+	return mostCommon;
+};
+
+/**
+ * Generates the next question of an adaptive attempt once the quiz has run
+ * out of questions of the difficulty the learner is at. The question takes the
+ * quiz's most common type. Scheduled by serveNextAdaptiveQuestion; on failure
+ * the attempt falls back to the closest difficulty the quiz still has.
+ *
+ * @param attemptId - The adaptive attempt to add the question to
+ * @param difficulty - Difficulty of the new question
+ */
+export const generateAdaptiveQuestion = internalAction({
+	args: {
+		attemptId: vv.id("quiz_attempts"),
+		difficulty: v.union(
+			v.literal("easy"),
+			v.literal("medium"),
+			v.literal("hard"),
+		),
+	},
+	handler: async (ctx, args) => {
+		let question: QuizQuestion | undefined;
+		try {
+			const { quiz, questions } = await ctx.runQuery(
+				internal.internal_quizzes.getAttemptQuestions,
+				{ attemptId: args.attemptId },
+			);
+			const task = await ctx.runQuery(
+				internal.internal_quizzes.getQuizTaskByQuiz,
+				{ quizId: quiz._id },
+			);
+			question = await generateQuestionForQuiz({
+				quiz,
+				task,
+				otherQuestions: questions,
+				difficulty: args.difficulty,
+				questionType: getMostCommonQuestionType(questions),
+				request: "Generate one more question.",
+			});
+		} catch (error) {
+			console.error("Error in generateAdaptiveQuestion:", error);
+		}
+
+		await ctx.runMutation(internal.internal_quizzes.addAdaptiveQuestion, {
+			attemptId: args.attemptId,
+			question,
+		});
+	},
+});
+
 export const generateFeedbackFromQuizResult = action({
 	args: {
 		attemptId: vv.id("quiz_attempts"),
@@ -921,9 +1431,18 @@ export const generateFeedbackFromQuizResult = action({
 			return;
 		}
 
-		const quiz = await ctx.runQuery(api.quizzes.getQuiz, {
-			id: attempt.quizId,
+		// Exams are only graded once they're handed in
+		if (attempt.mode === "exam" && !attempt.endedAt) {
+			throw new Error("Feedback is only available once the exam is over");
+		}
+
+		const quiz = await ctx.runQuery(internal.internal_quizzes.getQuizDetails, {
+			quizId: attempt.quizId,
+			version: attempt.quizVersion ?? 1,
 		});
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
 
 		// Ensure enrichedAnswers and quizTitle are present from the getQuizAttempt query
 		if (
@@ -941,6 +1460,9 @@ export const generateFeedbackFromQuizResult = action({
 			);
 		}
 
+		// Adaptive attempts may also have answered questions generated for them
+		const questions = [...quiz.questions, ...(attempt.extraQuestions ?? [])];
+
 		const prompt = `
 		Kamu adalah asisten AI yang memberikan umpan balik atas hasil kuis yang telah dikerjakan oleh pengguna.
 		
@@ -948,15 +1470,19 @@ export const generateFeedbackFromQuizResult = action({
 		
 		Berikut adalah ringkasan jawaban pengguna:
 		${attempt.questionAnswers
-			.map(
-				(ans, index) => `
-		Soal ${index + 1}: ${quiz.questions[ans.questionIndex].question}
+			.map((ans, index) => {
+				const question = questions[ans.questionIndex];
+				const options = isChoiceQuestion(question)
+					? `
 		Pilihan Jawaban:
-		${quiz.questions[ans.questionIndex].options.map((opt, optIndex) => `  ${String.fromCharCode(65 + optIndex)}) ${opt}`).join("\n")}
-		Jawaban Kamu: ${quiz.questions[ans.questionIndex].options[ans.selectedIndex]} (${ans.isCorrect ? "Benar" : "Salah"})
-		Jawaban yang Benar: ${quiz.questions[ans.questionIndex].options[quiz.questions[ans.questionIndex].correctOptionIndex]}
-		`,
-			)
+		${question.options.map((opt, optIndex) => `  ${String.fromCharCode(65 + optIndex)}) ${opt}`).join("\n")}`
+					: "";
+				return `
+		Soal ${index + 1}: ${question.question}${options}
+		Jawaban Kamu: ${formatResponse(question, getAnswerResponse(ans))} (${ans.isCorrect ? "Benar" : "Salah"})
+		Jawaban yang Benar: ${formatCorrectAnswer(question)}
+		`;
+			})
 			.join("\n\n")}
 		
 		Tugas kamu adalah memberikan feedback yang membangun dalam Bahasa Indonesia.
@@ -0,0 +1,206 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import { query } from "./_generated/server";
+import { getQuizQuestions } from "./question_bank";
+import {
+	type QuizQuestion,
+	formatCorrectAnswer,
+	getAnswerResponse,
+	getChosenOptions,
+	getCorrectResponse,
+	isChoiceQuestion,
+} from "./question_types";
+import { vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+// Share of attempts in the upper and lower groups of the discrimination index
+const DISCRIMINATION_GROUP_RATIO = 0.27;
+const MIN_ATTEMPTS_FOR_DISCRIMINATION = 4;
+
+const getAttemptTime = (attempt: Doc<"quiz_attempts">) =>
+	attempt.questionAnswers.reduce((total, a) => total + a.timeTaken, 0);
+
+/**
+ * Computes per-question statistics over finished attempts of one question set:
+ * percent correct, how often each option was picked (for choice questions), average answer time and
+ * the discrimination index (share of the top-scoring attempts that got the
+ * question right minus the share of the bottom-scoring ones). A negative index
+ * means top scorers got the question wrong more often than low scorers, which
+ * usually points at a wrong answer key or a misleading question.
+ */
+export const computeItemAnalysis = (
+	questions: QuizQuestion[],
+	attempts: Doc<"quiz_attempts">[],
+) => {
+	const ranked = [...attempts].sort((a, b) => b.totalScore - a.totalScore);
+	const groupSize = Math.max(
+		1,
+		Math.round(ranked.length * DISCRIMINATION_GROUP_RATIO),
+	);
+	const hasEnoughAttempts = ranked.length >= MIN_ATTEMPTS_FOR_DISCRIMINATION;
+	const upperGroup = ranked.slice(0, groupSize);
+	const lowerGroup = ranked.slice(-groupSize);
+
+	const shareCorrect = (group: Doc<"quiz_attempts">[], index: number) =>
+		group.filter((attempt) =>
+			attempt.questionAnswers.some(
+				(a) => a.questionIndex === index && a.isCorrect,
+			),
+		).length / group.length;
+
+	return questions.map((question, index) => {
+		const answers = attempts.flatMap((attempt) =>
+			attempt.questionAnswers.filter((a) => a.questionIndex === index),
+		);
+		const options = isChoiceQuestion(question) ? question.options : [];
+		const selections = answers.map((a) =>
+			getChosenOptions(getAnswerResponse(a)),
+		);
+		const optionCounts = options.map(
+			(_, optionIndex) =>
+				selections.filter((chosen) => chosen.includes(optionIndex)).length,
+		);
+		const correctCount = answers.filter((a) => a.isCorrect).length;
+
+		const discrimination = hasEnoughAttempts
+			? shareCorrect(upperGroup, index) - shareCorrect(lowerGroup, index)
+			: null;
+
+		return {
+			questionIndex: index,
+			question: question.question,
+			questionType: question.questionType,
+			options,
+			correctOptionIndexes: getChosenOptions(getCorrectResponse(question)),
+			correctAnswer: formatCorrectAnswer(question),
+			responseCount: answers.length,
+			percentCorrect:
+				answers.length > 0
+					? Math.round((correctCount / answers.length) * 100)
+					: null,
+			optionCounts,
+			averageTimeTaken:
+				answers.length > 0
+					? Math.round(
+							answers.reduce((total, a) => total + a.timeTaken, 0) /
+								answers.length,
+						)
+					: null,
+			discrimination,
+			isFlagged: discrimination !== null && discrimination < 0,
+		};
+	});
+};
+
+/**
+ * Builds the gradebook of the current user's quizzes: one row per learner who
+ * finished at least one of them, one cell per quiz with the learner's attempt
+ * count, best score and average time. The owner's own attempts are left out.
+ */
+export const getGradebook = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quizzes = await ctx.db
+			.query("quizzes")
+			.withIndex("by_created_by", (q) => q.eq("createdBy", user._id))
+			.order("desc")
+			.collect();
+
+		type GradebookCell = {
+			attempts: number;
+			bestScore: number;
+			averageTime: number;
+		};
+		const cellsByLearner = new Map<
+			Id<"users">,
+			Record<Id<"quizzes">, GradebookCell>
+		>();
+
+		for (const quiz of quizzes) {
+			const attempts = await ctx.db
+				.query("quiz_attempts")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+				.filter((q) => q.neq(q.field("endedAt"), undefined))
+				.collect();
+
+			const attemptsByLearner = new Map<Id<"users">, Doc<"quiz_attempts">[]>();
+			for (const attempt of attempts) {
+				if (attempt.userId === user._id) continue;
+				attemptsByLearner.set(attempt.userId, [
+					...(attemptsByLearner.get(attempt.userId) ?? []),
+					attempt,
+				]);
+			}
+			for (const [learnerId, learnerAttempts] of attemptsByLearner) {
+				const cells = cellsByLearner.get(learnerId) ?? {};
+				cells[quiz._id] = {
+					attempts: learnerAttempts.length,
+					bestScore: Math.max(...learnerAttempts.map((a) => a.totalScore)),
+					averageTime: Math.round(
+						learnerAttempts.reduce((total, a) => total + getAttemptTime(a), 0) /
+							learnerAttempts.length,
+					),
+				};
+				cellsByLearner.set(learnerId, cells);
+			}
+		}
+
+		const learners = await Promise.all(
+			[...cellsByLearner].map(async ([learnerId, cells]) => {
+				const learner = await ctx.db.get(learnerId);
+				return {
+					userId: learnerId,
+					username: learner?.username ?? "Pengguna",
+					cells,
+				};
+			}),
+		);
+
+		return {
+			quizzes: quizzes.map((quiz) => ({ _id: quiz._id, title: quiz.title })),
+			learners: learners.sort((a, b) => a.username.localeCompare(b.username)),
+		};
+	},
+});
+
+/**
+ * Retrieves the item analysis of one of the current user's quizzes, computed
+ * from every finished attempt on its current question set.
+ */
+export const getItemAnalysis = query({
+	args: { quizId: vv.id("quizzes") },
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		if (quiz.createdBy !== user._id) {
+			throw new Error("Unauthorized: Only the quiz owner can see its analysis");
+		}
+
+		// Question indexes only line up between attempts of the same version
+		const currentVersion = quiz.version ?? 1;
+		const attempts = await ctx.db
+			.query("quiz_attempts")
+			.withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+			.filter((q) => q.neq(q.field("endedAt"), undefined))
+			.collect();
+		const currentAttempts = attempts.filter(
+			(a) => (a.quizVersion ?? 1) === currentVersion,
+		);
+
+		return {
+			quizTitle: quiz.title,
+			version: currentVersion,
+			attemptCount: currentAttempts.length,
+			items: computeItemAnalysis(
+				await getQuizQuestions(ctx, quiz),
+				currentAttempts,
+			),
+		};
+	},
+});
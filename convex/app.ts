@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { createOrUpdateUser } from "./users";
+import { startAccountDeletion } from "./account_deletion";
+import { createOrUpdateUser, getRoleFromIdentity } from "./users";
 
 /**
  * Completes the onboarding process for a new user.
@@ -27,6 +28,7 @@ export const completeOnboardingUsernameStep = mutation({
 			userId: identity.subject,
 			alreadyOnboarded: false,
 			exp: identity.exp ? Number(identity.exp) : 0,
+			role: getRoleFromIdentity(identity),
 		});
 
 		if (!user) {
@@ -178,7 +180,9 @@ export const getCurrentUser = query({
 });
 
 /**
- * Deletes the account of the currently authenticated user.
+ * Starts deleting the account of the currently authenticated user together with
+ * all of their data and uploaded files. The deletion runs in the background;
+ * follow it with `account_deletion.getMyAccountDeletion`.
  *
  * @throws Error if the user is not authenticated or not found.
  */
@@ -198,7 +202,7 @@ export const deleteCurrentUserAccount = mutation({
 			throw new Error("User not found");
 		}
 
-		await ctx.db.delete(user._id);
+		await startAccountDeletion(ctx, user);
 	},
 });
 
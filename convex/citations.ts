@@ -0,0 +1,142 @@
+import { type Infer, v } from "convex/values";
+import { type questionCitation, sourceLocation } from "./schema";
+
+export type SourceLocation = Infer<typeof sourceLocation>;
+export type QuestionCitation = Infer<typeof questionCitation>;
+
+/**
+ * A passage of the material a quiz is generated from. For prompts the location
+ * is the range of the whole passage; citations get the range of their excerpt
+ * within it.
+ */
+export const sourceSection = v.object({
+	text: v.string(),
+	location: sourceLocation,
+});
+
+export type SourceSection = Infer<typeof sourceSection>;
+
+// Shorter excerpts match too easily to show where an answer comes from
+const MIN_EXCERPT_LENGTH = 20;
+
+// How much source text the quiz generator gets to quote from, in characters
+export const MAX_SOURCE_LENGTH = 40_000;
+
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+	"‘": "'",
+	"’": "'",
+	"“": '"',
+	"”": '"',
+	"–": "-",
+	"—": "-",
+};
+
+/**
+ * Lowercases text, straightens quotes and dashes and collapses whitespace,
+ * remembering which character of the original each one came from.
+ */
+const normalizeForMatching = (text: string) => {
+	let normalized = "";
+	const positions: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (/\s/.test(char)) {
+			if (normalized && !normalized.endsWith(" ")) {
+				normalized += " ";
+				positions.push(i);
+			}
+			continue;
+		}
+		for (const normalizedChar of (
+			CHARACTER_REPLACEMENTS[char] ?? char
+		).toLowerCase()) {
+			normalized += normalizedChar;
+			positions.push(i);
+		}
+	}
+	return { normalized, positions };
+};
+
+/**
+ * Finds an excerpt in a text, ignoring case and differences in whitespace,
+ * quotes and dashes.
+ *
+ * @returns The character range of the excerpt in the text, or null if it
+ * isn't there or is too short to tell.
+ */
+export const findExcerpt = (text: string, excerpt: string) => {
+	const target = normalizeForMatching(excerpt)
+		.normalized.replace(/^["'\s]+|["'\s]+$/g, "")
+		.trim();
+	if (target.length < MIN_EXCERPT_LENGTH) {
+		return null;
+	}
+
+	const source = normalizeForMatching(text);
+	const index = source.normalized.indexOf(target);
+	if (index === -1) {
+		return null;
+	}
+	return {
+		start: source.positions[index],
+		end: source.positions[index + target.length - 1] + 1,
+	};
+};
+
+/**
+ * Looks for a quoted excerpt in the source, so invented quotes are rejected.
+ *
+ * @returns A citation with the excerpt as written in the source and where it
+ * was found, or null if no section contains it.
+ */
+export const locateCitation = (
+	sections: SourceSection[],
+	excerpt: string,
+): QuestionCitation | null => {
+	for (const section of sections) {
+		const match = findExcerpt(section.text, excerpt);
+		if (!match) {
+			continue;
+		}
+		const { location } = section;
+		return {
+			excerpt: section.text.slice(match.start, match.end),
+			location:
+				location.type === "range"
+					? {
+							type: "range",
+							start: location.start + match.start,
+							end: location.start + match.end,
+						}
+					: location,
+		};
+	}
+	return null;
+};
+
+/**
+ * Keeps the sections that fit in a length budget, cutting the last one short.
+ */
+export const limitSourceSections = (
+	sections: SourceSection[],
+	maxLength = MAX_SOURCE_LENGTH,
+) => {
+	const limited: SourceSection[] = [];
+	let remaining = maxLength;
+	for (const section of sections) {
+		if (remaining <= 0) {
+			break;
+		}
+		const text = section.text.slice(0, remaining);
+		remaining -= text.length;
+		const { location } = section;
+		limited.push({
+			text,
+			location:
+				location.type === "range"
+					? { ...location, end: location.start + text.length }
+					: location,
+		});
+	}
+	return limited;
+};
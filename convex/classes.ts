@@ -0,0 +1,396 @@
+import { v } from "convex/values";
+import { nanoid } from "nanoid";
+import type { Id } from "./_generated/dataModel";
+import { type QueryCtx, mutation, query } from "./_generated/server";
+import { canViewQuiz } from "./quizzes";
+import { vv } from "./schema";
+import { assertUserAuthenticated, teacherMutation } from "./users";
+
+const getClassMembership = async (
+	ctx: QueryCtx,
+	classId: Id<"classes">,
+	userId: Id<"users">,
+) =>
+	await ctx.db
+		.query("class_members")
+		.withIndex("by_class_user", (q) =>
+			q.eq("classId", classId).eq("userId", userId),
+		)
+		.unique();
+
+const assertClassTeacher = async (
+	ctx: QueryCtx,
+	classId: Id<"classes">,
+	userId: Id<"users">,
+) => {
+	const membership = await getClassMembership(ctx, classId, userId);
+	if (membership?.role !== "teacher") {
+		throw new Error("Unauthorized: Only the class teacher can do this");
+	}
+};
+
+const countAssignmentAttempts = async (
+	ctx: QueryCtx,
+	assignmentId: Id<"assignments">,
+	userId: Id<"users">,
+) => {
+	const attempts = await ctx.db
+		.query("quiz_attempts")
+		.withIndex("by_assignment_user", (q) =>
+			q.eq("assignmentId", assignmentId).eq("userId", userId),
+		)
+		.collect();
+	return attempts.length;
+};
+
+/**
+ * Checks that a user may start an attempt of an assignment's quiz right now:
+ * they are in the class, the assignment is open and they have attempts left.
+ */
+export const assertCanStartAssignment = async (
+	ctx: QueryCtx,
+	assignmentId: Id<"assignments">,
+	userId: Id<"users">,
+	quizId: Id<"quizzes">,
+) => {
+	const assignment = await ctx.db.get(assignmentId);
+	if (!assignment || assignment.quizId !== quizId) {
+		throw new Error("Assignment not found");
+	}
+
+	if (!(await getClassMembership(ctx, assignment.classId, userId))) {
+		throw new Error("Unauthorized: You are not a member of this class");
+	}
+
+	const now = Date.now();
+	if (now < assignment.opensAt) {
+		throw new Error("Tugas ini belum dibuka.");
+	}
+	if (now > assignment.closesAt) {
+		throw new Error("Tugas ini sudah ditutup.");
+	}
+
+	if (
+		assignment.maxAttempts !== undefined &&
+		(await countAssignmentAttempts(ctx, assignmentId, userId)) >=
+			assignment.maxAttempts
+	) {
+		throw new Error("Kesempatan mengerjakan tugas ini sudah habis.");
+	}
+};
+
+/**
+ * Creates a class owned by the current user, who joins it as its teacher.
+ * Only teachers and admins can create classes.
+ */
+export const createClass = teacherMutation({
+	args: {
+		name: v.string(),
+		description: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const { user } = ctx;
+
+		const name = args.name.trim();
+		if (!name) {
+			throw new Error("Class name is required");
+		}
+
+		const classId = await ctx.db.insert("classes", {
+			name,
+			description: args.description?.trim() || undefined,
+			ownerId: user._id,
+			joinCode: nanoid(6).toUpperCase(),
+		});
+
+		await ctx.db.insert("class_members", {
+			classId,
+			userId: user._id,
+			role: "teacher",
+			joinedAt: Date.now(),
+		});
+
+		return classId;
+	},
+});
+
+/**
+ * Joins a class as a student using its join code.
+ */
+export const joinClass = mutation({
+	args: { joinCode: v.string() },
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const classDoc = await ctx.db
+			.query("classes")
+			.withIndex("by_join_code", (q) =>
+				q.eq("joinCode", args.joinCode.trim().toUpperCase()),
+			)
+			.unique();
+
+		if (!classDoc) {
+			throw new Error(
+				"Kelas tidak ditemukan. Silakan periksa kode dan coba lagi.",
+			);
+		}
+
+		if (await getClassMembership(ctx, classDoc._id, user._id)) {
+			return { classId: classDoc._id, alreadyInClass: true };
+		}
+
+		await ctx.db.insert("class_members", {
+			classId: classDoc._id,
+			userId: user._id,
+			role: "student",
+			joinedAt: Date.now(),
+		});
+
+		return { classId: classDoc._id, alreadyInClass: false };
+	},
+});
+
+/**
+ * Removes a student from a class. Teachers can remove anyone but themselves;
+ * students can only remove themselves (leave the class).
+ */
+export const removeClassMember = mutation({
+	args: {
+		classId: vv.id("classes"),
+		userId: vv.id("users"),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		if (args.userId !== user._id) {
+			await assertClassTeacher(ctx, args.classId, user._id);
+		}
+
+		const membership = await getClassMembership(ctx, args.classId, args.userId);
+		if (!membership) {
+			throw new Error("Member not found");
+		}
+
+		if (membership.role === "teacher") {
+			throw new Error("The class teacher can't be removed");
+		}
+
+		await ctx.db.delete(membership._id);
+	},
+});
+
+/**
+ * Lists the classes the current user teaches or is a student of.
+ */
+export const listMyClasses = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const memberships = await ctx.db
+			.query("class_members")
+			.withIndex("by_user", (q) => q.eq("userId", user._id))
+			.collect();
+
+		const classes = await Promise.all(
+			memberships.map(async (membership) => {
+				const classDoc = await ctx.db.get(membership.classId);
+				if (!classDoc) {
+					return null;
+				}
+				const members = await ctx.db
+					.query("class_members")
+					.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+					.collect();
+				return {
+					...classDoc,
+					role: membership.role,
+					memberCount: members.length,
+				};
+			}),
+		);
+
+		return classes.filter((c) => c !== null);
+	},
+});
+
+/**
+ * Retrieves a class the current user is a member of, with its assignments and
+ * how many attempts the user has made for each. Only the teacher gets the
+ * join code and the roster.
+ */
+export const getClass = query({
+	args: { classId: vv.id("classes") },
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const classDoc = await ctx.db.get(args.classId);
+		const membership = await getClassMembership(ctx, args.classId, user._id);
+		if (!classDoc || !membership) {
+			throw new Error("Class not found");
+		}
+
+		const isTeacher = membership.role === "teacher";
+
+		const assignmentDocs = await ctx.db
+			.query("assignments")
+			.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+			.collect();
+		const assignments = await Promise.all(
+			assignmentDocs.map(async (assignment) => {
+				const quiz = await ctx.db.get(assignment.quizId);
+				return {
+					...assignment,
+					quizTitle: quiz?.title ?? "Kuis terhapus",
+					attemptsUsed: await countAssignmentAttempts(
+						ctx,
+						assignment._id,
+						user._id,
+					),
+				};
+			}),
+		);
+
+		const memberDocs = isTeacher
+			? await ctx.db
+					.query("class_members")
+					.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+					.collect()
+			: [];
+		const members = await Promise.all(
+			memberDocs.map(async (member) => {
+				const memberUser = await ctx.db.get(member.userId);
+				return {
+					userId: member.userId,
+					role: member.role,
+					joinedAt: member.joinedAt,
+					username: memberUser?.username ?? "Pengguna",
+					profileImage: memberUser?.profileImage,
+				};
+			}),
+		);
+
+		return {
+			_id: classDoc._id,
+			name: classDoc.name,
+			description: classDoc.description,
+			joinCode: isTeacher ? classDoc.joinCode : undefined,
+			role: membership.role,
+			members,
+			assignments: assignments.sort((a, b) => a.closesAt - b.closesAt),
+		};
+	},
+});
+
+/**
+ * Assigns a quiz to a class. The teacher must be able to view the quiz; students
+ * get access to it through the assignment only. Only teachers and admins can
+ * assign quizzes.
+ */
+export const createAssignment = teacherMutation({
+	args: {
+		classId: vv.id("classes"),
+		quizId: vv.id("quizzes"),
+		opensAt: v.number(),
+		closesAt: v.number(),
+		maxAttempts: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const { user } = ctx;
+		await assertClassTeacher(ctx, args.classId, user._id);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz || !canViewQuiz(quiz, user._id)) {
+			throw new Error("Quiz not found");
+		}
+
+		if (args.closesAt <= args.opensAt) {
+			throw new Error("The assignment must close after it opens");
+		}
+
+		if (
+			args.maxAttempts !== undefined &&
+			(!Number.isInteger(args.maxAttempts) || args.maxAttempts < 1)
+		) {
+			throw new Error("Attempt limit must be a positive whole number");
+		}
+
+		return await ctx.db.insert("assignments", {
+			classId: args.classId,
+			quizId: args.quizId,
+			assignedBy: user._id,
+			opensAt: args.opensAt,
+			closesAt: args.closesAt,
+			maxAttempts: args.maxAttempts,
+		});
+	},
+});
+
+/**
+ * Deletes an assignment. Attempts already made for it are kept.
+ */
+export const deleteAssignment = mutation({
+	args: { assignmentId: vv.id("assignments") },
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const assignment = await ctx.db.get(args.assignmentId);
+		if (!assignment) {
+			throw new Error("Assignment not found");
+		}
+
+		await assertClassTeacher(ctx, assignment.classId, user._id);
+		await ctx.db.delete(assignment._id);
+	},
+});
+
+/**
+ * Lists the assignments of the classes the current user is a student of that
+ * haven't closed yet, soonest deadline first.
+ */
+export const getMyAssignments = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+		const now = Date.now();
+
+		const memberships = await ctx.db
+			.query("class_members")
+			.withIndex("by_user", (q) => q.eq("userId", user._id))
+			.filter((q) => q.eq(q.field("role"), "student"))
+			.collect();
+
+		const assignmentsPerClass = await Promise.all(
+			memberships.map(async (membership) => {
+				const classDoc = await ctx.db.get(membership.classId);
+				if (!classDoc) {
+					return [];
+				}
+
+				const assignments = await ctx.db
+					.query("assignments")
+					.withIndex("by_class", (q) => q.eq("classId", classDoc._id))
+					.filter((q) => q.gt(q.field("closesAt"), now))
+					.collect();
+
+				return await Promise.all(
+					assignments.map(async (assignment) => {
+						const quiz = await ctx.db.get(assignment.quizId);
+						return {
+							...assignment,
+							className: classDoc.name,
+							quizTitle: quiz?.title ?? "Kuis terhapus",
+							attemptsUsed: await countAssignmentAttempts(
+								ctx,
+								assignment._id,
+								user._id,
+							),
+						};
+					}),
+				);
+			}),
+		);
+
+		return assignmentsPerClass.flat().sort((a, b) => a.closesAt - b.closesAt);
+	},
+});
@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { UserJSON } from "@clerk/backend";
+import { describe, expect, it } from "vitest";
+import { getClerkUserFields, verifyClerkWebhook } from "./clerk_webhook";
+
+// Webhook bodies in the shape Clerk delivers them, kept byte for byte since
+// the signature covers the raw body
+const readPayload = (name: string) =>
+	readFileSync(
+		new URL(`./__fixtures__/clerk/${name}.json`, import.meta.url),
+		"utf8",
+	);
+
+const SECRET_KEY = Buffer.from("clerk-webhook-test-signing-key!!");
+const SECRET = `whsec_${SECRET_KEY.toString("base64")}`;
+
+const sign = (id: string, timestamp: number, body: string) =>
+	createHmac("sha256", SECRET_KEY)
+		.update(`${id}.${timestamp}.${body}`)
+		.digest("base64");
+
+const toRequest = (
+	body: string,
+	{
+		id = "msg_2szL0xYq7pWm1Kc9Vb3Nf8Rt4Hd",
+		timestamp = Math.floor(Date.now() / 1000),
+		signature = `v1,${sign(id, timestamp, body)}`,
+	} = {},
+) =>
+	new Request("https://example.convex.site/clerk-users-webhook", {
+		method: "POST",
+		headers: {
+			"svix-id": id,
+			"svix-timestamp": String(timestamp),
+			"svix-signature": signature,
+		},
+		body,
+	});
+
+describe("verifyClerkWebhook", () => {
+	it.each(["user.created", "user.updated", "user.deleted"])(
+		"accepts a signed %s delivery",
+		async (type) => {
+			const body = readPayload(type);
+			const event = await verifyClerkWebhook(toRequest(body), SECRET);
+			expect(event).toEqual(JSON.parse(body));
+			expect(event?.type).toBe(type);
+		},
+	);
+
+	it("accepts any of the signatures sent while a secret is rotated", async () => {
+		const body = readPayload("user.created");
+		const id = "msg_rotated";
+		const timestamp = Math.floor(Date.now() / 1000);
+		const signature = `v1,b2xkLXNpZ25hdHVyZQ== v1,${sign(id, timestamp, body)}`;
+		expect(
+			await verifyClerkWebhook(
+				toRequest(body, { id, timestamp, signature }),
+				SECRET,
+			),
+		).not.toBeNull();
+	});
+
+	it("rejects a body changed after signing", async () => {
+		const body = readPayload("user.updated");
+		const id = "msg_tampered";
+		const timestamp = Math.floor(Date.now() / 1000);
+		const signature = `v1,${sign(id, timestamp, body)}`;
+		const tampered = body.replace('"role": "teacher"', '"role": "admin"');
+		expect(
+			await verifyClerkWebhook(
+				toRequest(tampered, { id, timestamp, signature }),
+				SECRET,
+			),
+		).toBeNull();
+	});
+
+	it("rejects deliveries signed with another secret", async () => {
+		const body = readPayload("user.created");
+		const otherSecret = `whsec_${Buffer.from("another-signing-key").toString("base64")}`;
+		expect(await verifyClerkWebhook(toRequest(body), otherSecret)).toBeNull();
+	});
+
+	it("rejects replayed deliveries", async () => {
+		const body = readPayload("user.created");
+		const timestamp = Math.floor(Date.now() / 1000) - 10 * 60;
+		expect(
+			await verifyClerkWebhook(toRequest(body, { timestamp }), SECRET),
+		).toBeNull();
+	});
+
+	it("rejects deliveries without Svix headers", async () => {
+		const request = new Request(
+			"https://example.convex.site/clerk-users-webhook",
+			{ method: "POST", body: readPayload("user.created") },
+		);
+		expect(await verifyClerkWebhook(request, SECRET)).toBeNull();
+	});
+});
+
+describe("getClerkUserFields", () => {
+	const readUser = (name: string) =>
+		JSON.parse(readPayload(name)).data as UserJSON;
+
+	it("falls back to the full name for users without a username", () => {
+		expect(getClerkUserFields(readUser("user.created"))).toEqual({
+			email: "siti.rahma@example.com",
+			username: "Siti Rahma",
+			profileImage:
+				"https://img.clerk.com/eyJ0eXBlIjoiZGVmYXVsdCIsImlpZCI6Imluc18yc3gxIn0",
+			role: "student",
+		});
+	});
+
+	it("demotes users whose role was removed in Clerk to students", () => {
+		const user = readUser("user.updated");
+		expect(getClerkUserFields({ ...user, public_metadata: {} })?.role).toBe(
+			"student",
+		);
+	});
+
+	it("uses the primary email and the role from public metadata only", () => {
+		expect(getClerkUserFields(readUser("user.updated"))).toMatchObject({
+			email: "siti@sekolah.sch.id",
+			username: "bu_siti",
+			role: "teacher",
+		});
+	});
+
+	it("skips users without an email address", () => {
+		expect(
+			getClerkUserFields({ ...readUser("user.created"), email_addresses: [] }),
+		).toBeNull();
+	});
+});
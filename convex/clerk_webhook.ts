@@ -0,0 +1,101 @@
+import type { UserJSON, WebhookEvent } from "@clerk/backend";
+import { parseClerkRole } from "./users";
+
+// Svix rejects deliveries older or newer than this to prevent replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const decodeBase64 = (value: string) =>
+	Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const encodeBase64 = (bytes: ArrayBuffer) =>
+	btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const timingSafeEqual = (a: string, b: string) => {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let mismatch = 0;
+	for (let i = 0; i < a.length; i++) {
+		mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return mismatch === 0;
+};
+
+/**
+ * Verifies the Svix signature Clerk puts on webhook deliveries and returns the
+ * parsed event, or null if the request isn't authentic.
+ * See https://docs.svix.com/receiving/verifying-payloads/how-manual
+ *
+ * @param request - The incoming webhook request.
+ * @param secret - The endpoint's signing secret (`whsec_...`).
+ */
+export const verifyClerkWebhook = async (
+	request: Request,
+	secret: string,
+): Promise<WebhookEvent | null> => {
+	const id = request.headers.get("svix-id");
+	const timestamp = request.headers.get("svix-timestamp");
+	const signatures = request.headers.get("svix-signature");
+	if (!id || !timestamp || !signatures) {
+		return null;
+	}
+
+	const now = Math.floor(Date.now() / 1000);
+	if (Math.abs(now - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+		return null;
+	}
+
+	const body = await request.text();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		decodeBase64(secret.replace(/^whsec_/, "")),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const expected = encodeBase64(
+		await crypto.subtle.sign(
+			"HMAC",
+			key,
+			new TextEncoder().encode(`${id}.${timestamp}.${body}`),
+		),
+	);
+
+	// The header holds space-separated "v1,<signature>" pairs, one per active secret
+	const isValid = signatures.split(" ").some((entry) => {
+		const [version, signature] = entry.split(",");
+		return version === "v1" && timingSafeEqual(signature ?? "", expected);
+	});
+
+	return isValid ? (JSON.parse(body) as WebhookEvent) : null;
+};
+
+const getPrimaryEmail = (user: UserJSON) =>
+	(
+		user.email_addresses.find(
+			(email) => email.id === user.primary_email_address_id,
+		) ?? user.email_addresses[0]
+	)?.email_address;
+
+const getDisplayName = (user: UserJSON) =>
+	user.username ||
+	[user.first_name, user.last_name].filter(Boolean).join(" ") ||
+	undefined;
+
+/**
+ * Picks the fields the users table keeps from a Clerk user, or null when the
+ * user has no email address. The role only comes from the trusted public
+ * metadata; the name only seeds the username of new users.
+ */
+export const getClerkUserFields = (user: UserJSON) => {
+	const email = getPrimaryEmail(user);
+	if (!email) {
+		return null;
+	}
+	return {
+		email,
+		username: getDisplayName(user),
+		profileImage: user.image_url,
+		role: parseClerkRole(user.public_metadata.role),
+	};
+};
@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.hourly(
+	"close stale quiz attempts",
+	{ minuteUTC: 0 },
+	internal.internal_quizzes.closeStaleAttempts,
+);
+
+export default crons;
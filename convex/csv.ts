@@ -0,0 +1,68 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV (RFC 4180) with the given columns as the header row.
+ */
+export const toCsv = <Column extends string>(
+	columns: readonly Column[],
+	rows: Record<Column, CsvValue>[],
+) =>
+	[columns, ...rows.map((row) => columns.map((column) => row[column]))]
+		.map((values) => values.map(escapeCsvValue).join(","))
+		.join("\r\n");
+
+/**
+ * Parses CSV (RFC 4180) text into rows of values. Quoted values may contain
+ * commas, escaped quotes and line breaks; blank lines are skipped.
+ */
+export const parseCsv = (text: string) => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let value = "";
+	let inQuotes = false;
+
+	const endRow = () => {
+		row.push(value);
+		if (row.some((cell) => cell.trim())) {
+			rows.push(row);
+		}
+		row = [];
+		value = "";
+	};
+
+	// Excel adds a byte order mark to UTF-8 exports
+	const input = text.replace(/^\uFEFF/, "");
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				value += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				value += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(value);
+			value = "";
+		} else if (char === "\n") {
+			endRow();
+		} else if (char !== "\r") {
+			value += char;
+		}
+	}
+	endRow();
+
+	return rows;
+};
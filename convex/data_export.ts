@@ -0,0 +1,285 @@
+import { v } from "convex/values";
+import { strToU8, zipSync } from "fflate";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+	action,
+	internalMutation,
+	internalQuery,
+	query,
+} from "./_generated/server";
+import { toCsv } from "./csv";
+import { getQuizQuestions } from "./question_bank";
+import { hideExamGrading } from "./quizzes";
+import { vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+// Called by exportMyData to gather everything stored about the user
+export const getExportData = internalQuery({
+	args: { userId: vv.id("users") },
+	handler: async (ctx, args) => {
+		const profile = await ctx.db.get(args.userId);
+		if (!profile) {
+			throw new Error("User not found");
+		}
+
+		const [quizzes, questions, attempts, tasks, players] = await Promise.all([
+			ctx.db
+				.query("quizzes")
+				.withIndex("by_created_by", (q) => q.eq("createdBy", args.userId))
+				.collect(),
+			ctx.db
+				.query("questions")
+				.withIndex("by_owner", (q) => q.eq("ownerId", args.userId))
+				.collect(),
+			ctx.db
+				.query("quiz_attempts")
+				.withIndex("by_user", (q) => q.eq("userId", args.userId))
+				.collect(),
+			ctx.db
+				.query("quiz_tasks")
+				.withIndex("by_user", (q) => q.eq("userId", args.userId))
+				.collect(),
+			ctx.db
+				.query("multiplayer_players")
+				.withIndex("by_user", (q) => q.eq("userId", args.userId))
+				.collect(),
+		]);
+
+		const quizTitles = new Map<Id<"quizzes">, string>();
+		const getQuizTitle = async (quizId: Id<"quizzes">) => {
+			if (!quizTitles.has(quizId)) {
+				const quiz = await ctx.db.get(quizId);
+				quizTitles.set(quizId, quiz?.title ?? "");
+			}
+			return quizTitles.get(quizId) ?? "";
+		};
+
+		const quizAttempts = [];
+		for (const attempt of attempts) {
+			// Exams still running keep their grading hidden, as in the app
+			quizAttempts.push({
+				...hideExamGrading(attempt),
+				quizTitle: await getQuizTitle(attempt.quizId),
+			});
+		}
+
+		const multiplayer = [];
+		for (const player of players) {
+			const room = await ctx.db.get(player.roomId);
+			multiplayer.push({
+				...player,
+				roomCode: room?.code ?? null,
+				quizId: room?.quizId ?? null,
+				quizTitle: room ? await getQuizTitle(room.quizId) : "",
+			});
+		}
+
+		return {
+			profile,
+			// Each quiz with its questions, even though they live in the bank
+			quizzes: await Promise.all(
+				quizzes.map(async (quiz) => ({
+					...quiz,
+					questions: await getQuizQuestions(ctx, quiz),
+				})),
+			),
+			questions,
+			quizAttempts,
+			quizTasks: tasks,
+			multiplayer,
+		};
+	},
+});
+
+// Called by exportMyData once the archive is in storage
+export const saveDataExport = internalMutation({
+	args: {
+		userId: vv.id("users"),
+		storageId: v.id("_storage"),
+	},
+	handler: async (ctx, args) => {
+		const previousExports = await ctx.db
+			.query("data_exports")
+			.withIndex("by_user", (q) => q.eq("userId", args.userId))
+			.collect();
+		for (const previous of previousExports) {
+			await ctx.storage.delete(previous.storageId);
+			await ctx.db.delete(previous._id);
+		}
+
+		await ctx.db.insert("data_exports", {
+			userId: args.userId,
+			storageId: args.storageId,
+			createdAt: Date.now(),
+		});
+	},
+});
+
+const formatDate = (timestamp?: number) =>
+	timestamp === undefined ? "" : new Date(timestamp).toISOString();
+
+/**
+ * Exports everything the current user has done on the platform: their profile,
+ * quizzes, question bank, attempts with AI feedback, quiz generation history
+ * and multiplayer participation. Each is written as JSON and, except the
+ * profile and question bank, as CSV into a zip archive in storage. Replaces the
+ * user's previous export.
+ *
+ * @returns The download URL of the archive.
+ */
+export const exportMyData = action({
+	args: {},
+	handler: async (ctx): Promise<string | null> => {
+		const user = await ctx.runQuery(api.users.getCurrentUser);
+		if (!user) {
+			throw new Error("User not authenticated");
+		}
+
+		const data = await ctx.runQuery(internal.data_export.getExportData, {
+			userId: user._id,
+		});
+
+		const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+		const archive = zipSync({
+			"profile.json": json(data.profile),
+			"quizzes.json": json(data.quizzes),
+			"question_bank.json": json(data.questions),
+			"quiz_attempts.json": json(data.quizAttempts),
+			"quiz_tasks.json": json(data.quizTasks),
+			"multiplayer.json": json(data.multiplayer),
+			"quizzes.csv": strToU8(
+				toCsv(
+					[
+						"id",
+						"title",
+						"description",
+						"source",
+						"questionCount",
+						"createdAt",
+					],
+					data.quizzes.map((quiz) => ({
+						id: quiz._id,
+						title: quiz.title,
+						description: quiz.description,
+						source: quiz.quizContext.type,
+						questionCount: quiz.questions.length,
+						createdAt: formatDate(quiz._creationTime),
+					})),
+				),
+			),
+			"quiz_attempts.csv": strToU8(
+				toCsv(
+					[
+						"id",
+						"quizId",
+						"quizTitle",
+						"startedAt",
+						"endedAt",
+						"correctAnswers",
+						"answeredQuestions",
+						"totalScore",
+						"expEarned",
+						"feedback",
+					],
+					data.quizAttempts.map((attempt) => ({
+						id: attempt._id,
+						quizId: attempt.quizId,
+						quizTitle: attempt.quizTitle,
+						startedAt: formatDate(attempt.startedAt),
+						endedAt: formatDate(attempt.endedAt),
+						correctAnswers:
+							attempt.totalScore === undefined
+								? undefined
+								: attempt.questionAnswers.filter((a) => a.isCorrect).length,
+						answeredQuestions: attempt.questionAnswers.length,
+						totalScore: attempt.totalScore,
+						expEarned: attempt.expEarned,
+						feedback: attempt.feedback,
+					})),
+				),
+			),
+			"quiz_tasks.csv": strToU8(
+				toCsv(
+					[
+						"id",
+						"contentType",
+						"title",
+						"status",
+						"quizId",
+						"error",
+						"createdAt",
+					],
+					data.quizTasks.map((task) => ({
+						id: task._id,
+						contentType: task.contentType,
+						title: task.title,
+						status: task.status,
+						quizId: task.quizId,
+						error: task.error,
+						createdAt: formatDate(task.createdAt),
+					})),
+				),
+			),
+			"multiplayer.csv": strToU8(
+				toCsv(
+					[
+						"roomCode",
+						"quizTitle",
+						"isHost",
+						"score",
+						"answeredQuestions",
+						"joinedAt",
+					],
+					data.multiplayer.map((player) => ({
+						roomCode: player.roomCode,
+						quizTitle: player.quizTitle,
+						isHost: player.isHost,
+						score: player.score,
+						answeredQuestions: player.questionAnswers.length,
+						joinedAt: formatDate(player.joinedAt),
+					})),
+				),
+			),
+		});
+
+		const storageId = await ctx.storage.store(
+			new Blob([archive], { type: "application/zip" }),
+		);
+
+		await ctx.runMutation(internal.data_export.saveDataExport, {
+			userId: user._id,
+			storageId,
+		});
+
+		return await ctx.storage.getUrl(storageId);
+	},
+});
+
+/**
+ * Retrieves the current user's latest data export.
+ *
+ * @returns The export's creation time and download URL, or null if there is none.
+ */
+export const getMyLatestDataExport = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const latest = await ctx.db
+			.query("data_exports")
+			.withIndex("by_user", (q) => q.eq("userId", user._id))
+			.order("desc")
+			.first();
+
+		if (!latest) {
+			return null;
+		}
+
+		return {
+			createdAt: latest.createdAt,
+			url: await ctx.storage.getUrl(latest.storageId),
+		};
+	},
+});
@@ -1,9 +1,62 @@
 import {} from "@clerk/clerk-react";
 import { httpRouter } from "convex/server";
+import { internal } from "./_generated/api";
 import { httpAction } from "./_generated/server";
+import { getClerkUserFields, verifyClerkWebhook } from "./clerk_webhook";
 
 const http = httpRouter();
 
+/**
+ * Keeps the users table in sync with Clerk. Clerk sends `user.created`,
+ * `user.updated` and `user.deleted` events here, signed with the secret in the
+ * CLERK_WEBHOOK_SIGNING_SECRET environment variable.
+ */
+http.route({
+	path: "/clerk-users-webhook",
+	method: "POST",
+	handler: httpAction(async (ctx, request) => {
+		const secret = process.env.CLERK_WEBHOOK_SIGNING_SECRET;
+		if (!secret) {
+			console.error("Missing CLERK_WEBHOOK_SIGNING_SECRET");
+			return new Response("Webhook not configured", { status: 500 });
+		}
+
+		const event = await verifyClerkWebhook(request, secret);
+		if (!event) {
+			return new Response("Invalid signature", { status: 400 });
+		}
+
+		switch (event.type) {
+			case "user.created":
+			case "user.updated": {
+				const fields = getClerkUserFields(event.data);
+				if (!fields) {
+					// Nothing to store for users without an email address
+					break;
+				}
+				await ctx.runMutation(internal.internal_users.upsertUserFromClerk, {
+					clerkUserId: event.data.id,
+					...fields,
+				});
+				break;
+			}
+			case "user.deleted": {
+				if (event.data.id) {
+					await ctx.runMutation(internal.internal_users.deleteUserFromClerk, {
+						clerkUserId: event.data.id,
+					});
+				}
+				break;
+			}
+			default:
+				// Other events aren't subscribed to, acknowledge them anyway
+				break;
+		}
+
+		return new Response(null, { status: 200 });
+	}),
+});
+
 /**
  * Handles all OPTIONS requests with a wildcard route.
  * This is commonly used for CORS preflight requests.
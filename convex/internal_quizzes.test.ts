@@ -0,0 +1,106 @@
+// @vitest-environment node
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import type { QuizQuestion } from "./question_types";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/*.*s");
+
+// lib.ts refuses to load without it, though nothing here calls the AI
+beforeAll(() => {
+	vi.stubEnv("OPENROUTER_API_KEY", "test");
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const question = (text: string): QuizQuestion => ({
+	questionType: "multiple_choice",
+	question: text,
+	explanation: "",
+	difficulty: "easy",
+	options: ["A", "B", "C", "D"],
+	correctOptionIndex: 0,
+});
+
+// A player with a two-question quiz in their bank and an attempt at it,
+// started `startedHoursAgo` hours ago, with one right and one wrong answer
+const setup = async (startedHoursAgo: number) => {
+	const t = convexTest(schema, modules);
+	const ids = await t.run(async (ctx) => {
+		const userId = await ctx.db.insert("users", {
+			username: "siswa",
+			email: "siswa@example.com",
+			userId: "user_2szL0xYq7pWm1Kc9Vb3Nf8Rt4Hd",
+			alreadyOnboarded: true,
+			exp: 0,
+		});
+		const questions = [question("1 + 1?"), question("2 + 2?")];
+		const questionIds: Id<"questions">[] = [];
+		for (const content of questions) {
+			questionIds.push(
+				await ctx.db.insert("questions", {
+					ownerId: userId,
+					content,
+					difficulty: content.difficulty,
+					tags: [],
+					source: { type: "prompt" },
+					searchText: content.question,
+					usageCount: 1,
+					answerCount: 0,
+					correctCount: 0,
+				}),
+			);
+		}
+		const quizId = await ctx.db.insert("quizzes", {
+			createdBy: userId,
+			title: "Hitungan",
+			description: "",
+			quizContext: { type: "prompt" },
+			questionIds,
+		});
+		const attemptId = await ctx.db.insert("quiz_attempts", {
+			userId,
+			quizId,
+			startedAt: Date.now() - startedHoursAgo * HOUR_MS,
+			questionAnswers: [
+				{ questionIndex: 0, selectedIndex: 0, isCorrect: true, timeTaken: 5 },
+				{ questionIndex: 1, selectedIndex: 2, isCorrect: false, timeTaken: 5 },
+			],
+			totalScore: 0,
+			expEarned: 0,
+		});
+		return { userId, attemptId };
+	});
+	return { t, ...ids };
+};
+
+describe("closeStaleAttempts", () => {
+	it("closes abandoned attempts with their score but no XP or review cards", async () => {
+		const { t, userId, attemptId } = await setup(25);
+
+		await t.mutation(internal.internal_quizzes.closeStaleAttempts, {});
+
+		const { attempt, user, reviewCards } = await t.run(async (ctx) => ({
+			attempt: await ctx.db.get(attemptId),
+			user: await ctx.db.get(userId),
+			reviewCards: await ctx.db.query("review_cards").collect(),
+		}));
+		expect(attempt?.endedAt).toBeDefined();
+		expect(attempt?.totalScore).toBe(50);
+		expect(attempt?.expEarned).toBe(0);
+		expect(user?.exp).toBe(0);
+		expect(reviewCards).toEqual([]);
+	});
+
+	it("leaves attempts started within the last day open", async () => {
+		const { t, attemptId } = await setup(1);
+
+		await t.mutation(internal.internal_quizzes.closeStaleAttempts, {});
+
+		const attempt = await t.run((ctx) => ctx.db.get(attemptId));
+		expect(attempt?.endedAt).toBeUndefined();
+	});
+});
@@ -1,7 +1,20 @@
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import { internalMutation, internalQuery } from "./_generated/server";
-import { vv } from "./schema";
+import { getOptionOrder } from "./question_types";
+import {
+	type QuizWithQuestions,
+	buildQuizSearchText,
+	closeAbandonedQuizAttempt,
+	completeQuizAttempt,
+	getQuizQuestionsAtVersion,
+	quizQuestionValidator,
+	resolveAttemptQuestions,
+	serveNextAdaptiveQuestion,
+} from "./quizzes";
+import { quizQuestionType, vv } from "./schema";
+import { insertQuizCopy } from "./sharing";
 
 // Called by startGenerateQuizWorkflow action
 export const createQuizTask = internalMutation({
@@ -26,6 +39,7 @@ export const createQuizTask = internalMutation({
 				v.literal("15"),
 				v.literal("30"),
 			),
+			questionTypes: v.optional(v.array(quizQuestionType)),
 		}),
 		title: v.optional(v.string()),
 	},
@@ -50,6 +64,16 @@ export const createQuizTask = internalMutation({
 	},
 });
 
+// Called by the generation workflow for PDF figures no question ended up showing
+export const deleteUnusedFigures = internalMutation({
+	args: { storageIds: v.array(v.id("_storage")) },
+	handler: async (ctx, args) => {
+		for (const storageId of args.storageIds) {
+			await ctx.storage.delete(storageId);
+		}
+	},
+});
+
 // Called by the workflow to get task details
 export const getQuizTaskDetails = internalQuery({
 	args: { taskId: vv.id("quiz_tasks") },
@@ -58,6 +82,168 @@ export const getQuizTaskDetails = internalQuery({
 	},
 });
 
+// Finds the generation task a quiz was created by, for its summary and metadata.
+// Copies of a quiz have no task of their own, so their original's is used.
+export const getQuizTaskByQuiz = internalQuery({
+	args: { quizId: vv.id("quizzes") },
+	handler: async (ctx, args): Promise<Doc<"quiz_tasks"> | null> => {
+		let quizId: Id<"quizzes"> | undefined = args.quizId;
+		while (quizId) {
+			const task = await ctx.db
+				.query("quiz_tasks")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quizId as Id<"quizzes">))
+				.first();
+			if (task) {
+				return task;
+			}
+			quizId = (await ctx.db.get(quizId))?.derivedFrom;
+		}
+		return null;
+	},
+});
+
+// Called by remixQuiz to store the re-targeted copy of a quiz
+export const storeRemixedQuiz = internalMutation({
+	args: {
+		sourceQuizId: vv.id("quizzes"),
+		userId: vv.id("users"),
+		title: v.string(),
+		description: v.string(),
+		questions: v.array(quizQuestionValidator),
+	},
+	handler: async (ctx, args): Promise<Id<"quizzes">> => {
+		const source = await ctx.db.get(args.sourceQuizId);
+		if (!source) {
+			throw new Error("Quiz not found");
+		}
+		return await insertQuizCopy(ctx, source, args.userId, {
+			title: args.title,
+			description: args.description,
+			questions: args.questions,
+		});
+	},
+});
+
+// Called by actions that need the full quiz, including the answer key
+export const getQuizDetails = internalQuery({
+	args: { quizId: vv.id("quizzes"), version: v.optional(v.number()) },
+	handler: async (ctx, args): Promise<QuizWithQuestions | null> => {
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			return null;
+		}
+		// The current question set, or the one of the requested version
+		return {
+			...quiz,
+			questions: await getQuizQuestionsAtVersion(
+				ctx,
+				quiz,
+				args.version ?? quiz.version,
+			),
+		};
+	},
+});
+
+// Called by generateAdaptiveQuestion for the questions an attempt already has
+export const getAttemptQuestions = internalQuery({
+	args: { attemptId: vv.id("quiz_attempts") },
+	handler: async (ctx, args) => {
+		const attempt = await ctx.db.get(args.attemptId);
+		const quiz = attempt && (await ctx.db.get(attempt.quizId));
+		if (!attempt || !quiz) {
+			throw new Error("Quiz attempt not found");
+		}
+		return {
+			quiz,
+			questions: await resolveAttemptQuestions(ctx, quiz, attempt),
+		};
+	},
+});
+
+// Called by generateAdaptiveQuestion with the generated question, or without
+// one when generation failed
+export const addAdaptiveQuestion = internalMutation({
+	args: {
+		attemptId: vv.id("quiz_attempts"),
+		question: v.optional(quizQuestionValidator),
+	},
+	handler: async (ctx, args) => {
+		const attempt = await ctx.db.get(args.attemptId);
+		if (!attempt || attempt.endedAt || !attempt.generatingDifficulty) {
+			return;
+		}
+		const quiz = await ctx.db.get(attempt.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+		const questions = await resolveAttemptQuestions(ctx, quiz, attempt);
+
+		if (!args.question) {
+			await serveNextAdaptiveQuestion(ctx, attempt, questions, false);
+			return;
+		}
+		await ctx.db.patch(attempt._id, {
+			extraQuestions: [...(attempt.extraQuestions ?? []), args.question],
+			servedOrder: [...(attempt.servedOrder ?? []), questions.length],
+			// Older attempts without option orders show every question's in order
+			optionOrders: attempt.optionOrders && [
+				...attempt.optionOrders,
+				getOptionOrder(args.question, `${attempt._id}:${questions.length}`),
+			],
+			generatingDifficulty: undefined,
+		});
+	},
+});
+
+// Scheduled by startQuizAttempt for when an exam runs out of time
+export const finishExpiredExam = internalMutation({
+	args: { attemptId: vv.id("quiz_attempts") },
+	handler: async (ctx, args) => {
+		const attempt = await ctx.db.get(args.attemptId);
+		if (!attempt || attempt.endedAt) {
+			return;
+		}
+		const user = await ctx.db.get(attempt.userId);
+		if (!user) {
+			throw new Error("User not found");
+		}
+		await completeQuizAttempt(ctx, attempt, user);
+	},
+});
+
+// Attempts left open this long were abandoned
+const STALE_ATTEMPT_MS = 24 * 60 * 60 * 1000;
+const STALE_ATTEMPT_BATCH_SIZE = 100;
+
+// Called hourly by crons.ts to close abandoned attempts with the answers they
+// have, so they stop showing up as resumable
+export const closeStaleAttempts = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const staleAttempts = await ctx.db
+			.query("quiz_attempts")
+			.withIndex("by_ended_started", (q) =>
+				q
+					.eq("endedAt", undefined)
+					.lt("startedAt", Date.now() - STALE_ATTEMPT_MS),
+			)
+			.take(STALE_ATTEMPT_BATCH_SIZE);
+
+		for (const attempt of staleAttempts) {
+			await closeAbandonedQuizAttempt(ctx, attempt);
+		}
+
+		// Keep going in a fresh transaction while there are more
+		if (staleAttempts.length === STALE_ATTEMPT_BATCH_SIZE) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.internal_quizzes.closeStaleAttempts,
+				{},
+			);
+		}
+	},
+});
+
 // Called by the workflow to update task details
 export const updateQuizTask = internalMutation({
 	args: {
@@ -101,3 +287,37 @@ export const updateQuizAttemptFeedback = internalMutation({
 		});
 	},
 });
+
+// Backfills the quiz library fields on quizzes created before they existed.
+// Run once from the dashboard; it reschedules itself until every page is done.
+export const backfillQuizLibraryFields = internalMutation({
+	args: { cursor: v.optional(v.union(v.string(), v.null())) },
+	handler: async (ctx, args) => {
+		const { page, isDone, continueCursor } = await ctx.db
+			.query("quizzes")
+			.paginate({ cursor: args.cursor ?? null, numItems: 100 });
+
+		for (const quiz of page) {
+			if (quiz.searchText !== undefined) {
+				continue;
+			}
+			const lastAttempt = await ctx.db
+				.query("quiz_attempts")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+				.order("desc")
+				.first();
+			await ctx.db.patch(quiz._id, {
+				searchText: buildQuizSearchText(quiz.title, quiz.description),
+				lastAttemptedAt: lastAttempt?.startedAt,
+			});
+		}
+
+		if (!isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.internal_quizzes.backfillQuizLibraryFields,
+				{ cursor: continueCursor },
+			);
+		}
+	},
+});
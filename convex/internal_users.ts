@@ -0,0 +1,76 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { startAccountDeletion } from "./account_deletion";
+import { userRole } from "./schema";
+import { createOrUpdateUser } from "./users";
+
+// Called by the Clerk webhook on user.created and user.updated
+export const upsertUserFromClerk = internalMutation({
+	args: {
+		clerkUserId: v.string(),
+		email: v.string(),
+		// Only used for new users, see below
+		username: v.optional(v.string()),
+		profileImage: v.string(),
+		role: userRole,
+	},
+	handler: async (ctx, args) => {
+		const existingUser = await ctx.db
+			.query("users")
+			.withIndex("by_user_id", (q) => q.eq("userId", args.clerkUserId))
+			.first();
+
+		// Users pick their username during onboarding, so Clerk's name must not
+		// overwrite it once the user exists
+		if (existingUser) {
+			await ctx.db.patch(existingUser._id, {
+				email: args.email,
+				profileImage: args.profileImage,
+				role: args.role,
+			});
+			return;
+		}
+
+		await createOrUpdateUser(ctx, args.clerkUserId, {
+			email: args.email,
+			username: args.username ?? args.email.split("@")[0],
+			profileImage: args.profileImage,
+			role: args.role,
+			alreadyOnboarded: false,
+			exp: 0,
+		});
+	},
+});
+
+// Called by setUserRole for the user whose role is changed
+export const getUser = internalQuery({
+	args: { userId: v.id("users") },
+	handler: async (ctx, args) => await ctx.db.get(args.userId),
+});
+
+// Called by setUserRole once Clerk has the new role, so it applies before the
+// webhook delivery arrives
+export const updateUserRole = internalMutation({
+	args: { userId: v.id("users"), role: userRole },
+	handler: async (ctx, args) => {
+		await ctx.db.patch(args.userId, { role: args.role });
+	},
+});
+
+// Called by the Clerk webhook on user.deleted
+export const deleteUserFromClerk = internalMutation({
+	args: { clerkUserId: v.string() },
+	handler: async (ctx, args) => {
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_user_id", (q) => q.eq("userId", args.clerkUserId))
+			.first();
+
+		// Deliveries can be retried, the user may already be gone
+		if (!user) {
+			return;
+		}
+
+		await startAccountDeletion(ctx, user);
+	},
+});
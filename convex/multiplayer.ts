@@ -2,6 +2,16 @@ import { v } from "convex/values";
 import { nanoid } from "nanoid"; // Ensure nanoid is installed: npm install nanoid
 import { api, internal } from "./_generated/api"; // Import api and internal
 import { internalMutation, mutation, query } from "./_generated/server";
+import {
+	getOptionOrder,
+	getSelectedIndex,
+	gradeResponse,
+	toOriginalResponse,
+	toPlayQuestion,
+} from "./question_types";
+import { getQuizQuestions } from "./question_bank";
+import { canViewQuiz } from "./quizzes";
+import { questionResponse } from "./schema";
 import { assertUserAuthenticated } from "./users";
 
 const QUESTION_TIMEOUT_MS = 20000; // 20 seconds per question
@@ -19,6 +29,11 @@ export const createRoom = mutation({
 	handler: async (ctx, args) => {
 		const user = await assertUserAuthenticated(ctx);
 
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz || !canViewQuiz(quiz, user._id)) {
+			throw new Error("Quiz not found");
+		}
+
 		const roomCode = nanoid(6).toUpperCase(); // Generate a 6-character uppercase room code
 
 		const roomId = await ctx.db.insert("multiplayer_rooms", {
@@ -232,14 +247,26 @@ export const startRoom = mutation({
 			currentQuestionStartedAt: Date.now(),
 		});
 
-		// Reset hasAnsweredCurrentQuestion for all players in the room
+		const quiz = await ctx.db.get(room.quizId);
+		if (!quiz) {
+			throw new Error("Quiz data not found for this room.");
+		}
+
+		// Reset hasAnsweredCurrentQuestion for all players in the room, and give
+		// each their own order of options so answers can't be shared by position
+		const questions = await getQuizQuestions(ctx, quiz);
 		const players = await ctx.db
 			.query("multiplayer_players")
 			.withIndex("by_room", (q) => q.eq("roomId", args.roomId))
 			.collect();
 
 		for (const player of players) {
-			await ctx.db.patch(player._id, { hasAnsweredCurrentQuestion: false });
+			await ctx.db.patch(player._id, {
+				hasAnsweredCurrentQuestion: false,
+				optionOrders: questions.map((question, index) =>
+					getOptionOrder(question, `${player._id}:${index}`),
+				),
+			});
 		}
 
 		// Schedule the timeout for the first question
@@ -263,7 +290,7 @@ export const submitAnswer = mutation({
 	args: {
 		roomId: v.id("multiplayer_rooms"),
 		questionIndex: v.number(),
-		selectedIndex: v.number(),
+		response: questionResponse,
 		timeTaken: v.number(), // Time in milliseconds
 	},
 	handler: async (ctx, args) => {
@@ -302,12 +329,17 @@ export const submitAnswer = mutation({
 			throw new Error("Quiz data not found for this room.");
 		}
 
-		const question = quiz.questions[args.questionIndex];
+		const question = (await getQuizQuestions(ctx, quiz))[args.questionIndex];
 		if (!question) {
 			throw new Error("Question not found in quiz data.");
 		}
 
-		const isCorrect = question.correctOptionIndex === args.selectedIndex;
+		// The player picked from their own order of options
+		const response = toOriginalResponse(
+			args.response,
+			player.optionOrders?.[args.questionIndex],
+		);
+		const isCorrect = gradeResponse(question, response);
 		const scoreEarned = isCorrect ? 10 : 0; // Simple scoring: 10 points for correct
 
 		await ctx.db.patch(player._id, {
@@ -315,7 +347,8 @@ export const submitAnswer = mutation({
 				...player.questionAnswers,
 				{
 					questionIndex: args.questionIndex,
-					selectedIndex: args.selectedIndex,
+					selectedIndex: getSelectedIndex(response),
+					response,
 					isCorrect: isCorrect,
 					timeTaken: args.timeTaken,
 					answeredAt: Date.now(),
@@ -373,7 +406,8 @@ export const advanceToNextQuestionOrFinish = mutation({
 		// Proceed to next question or finish quiz
 		const nextQuestionIndex = room.currentQuestionIndex + 1;
 
-		if (nextQuestionIndex < quiz.questions.length) {
+		const questions = await getQuizQuestions(ctx, quiz);
+		if (nextQuestionIndex < questions.length) {
 			// More questions available
 			await ctx.db.patch(args.roomId, {
 				currentQuestionIndex: nextQuestionIndex,
@@ -524,7 +558,7 @@ export const getRoomLobbyData = query({
 				_id: quiz._id,
 				title: quiz.title,
 				description: quiz.description,
-				questionCount: quiz.questions.length,
+				questionCount: (await getQuizQuestions(ctx, quiz)).length,
 			},
 			players: playersData.sort((a, b) => a.joinedAt - b.joinedAt), // Sort by join time
 		};
@@ -576,10 +610,13 @@ export const getMultiplayerQuizPlayData = query({
 			return { error: "Player not found in this room." };
 		}
 
-		// For active games, only send the current question to prevent cheating?
-		// Or send all questions and let client manage display.
-		// For simplicity now, sending all. Consider implications.
-		// Also, client needs all questions to show progress (e.g. Q 1 of 10).
+		// Send all questions so the client can show progress (e.g. Q 1 of 10), but
+		// only reveal the answer key of questions that are over for this player.
+		const isQuestionRevealed = (index: number) =>
+			room.status === "finished" ||
+			index < room.currentQuestionIndex ||
+			(index === room.currentQuestionIndex &&
+				currentPlayer.hasAnsweredCurrentQuestion);
 
 		return {
 			room: {
@@ -592,7 +629,13 @@ export const getMultiplayerQuizPlayData = query({
 			quiz: {
 				_id: quiz._id,
 				title: quiz.title,
-				questions: quiz.questions, // Send all questions
+				questions: (await getQuizQuestions(ctx, quiz)).map((q, index) =>
+					toPlayQuestion(
+						q,
+						isQuestionRevealed(index),
+						currentPlayer.optionOrders?.[index],
+					),
+				),
 			},
 			currentPlayer: {
 				_id: currentPlayer._id,
@@ -0,0 +1,80 @@
+import { zlibSync } from "fflate";
+
+export interface RawImage {
+	// Pixels row by row, `channels` bytes each
+	data: Uint8Array | Uint8ClampedArray;
+	width: number;
+	height: number;
+	// 1 for grayscale, 3 for RGB and 4 for RGBA
+	channels: 1 | 3 | 4;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const COLOR_TYPES = { 1: 0, 3: 2, 4: 6 } as const;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toChunk = (type: string, data: Uint8Array) => {
+	const chunk = new Uint8Array(12 + data.length);
+	const view = new DataView(chunk.buffer);
+	view.setUint32(0, data.length);
+	for (let i = 0; i < 4; i++) {
+		chunk[4 + i] = type.charCodeAt(i);
+	}
+	chunk.set(data, 8);
+	view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+	return chunk;
+};
+
+/**
+ * Encodes raw 8-bit pixels as a PNG file, without filtering scanlines.
+ */
+export const encodePng = ({ data, width, height, channels }: RawImage) => {
+	const header = new Uint8Array(13);
+	const headerView = new DataView(header.buffer);
+	headerView.setUint32(0, width);
+	headerView.setUint32(4, height);
+	header[8] = 8; // bit depth
+	header[9] = COLOR_TYPES[channels];
+
+	// Every scanline starts with its filter type, 0 for none
+	const rowLength = width * channels;
+	const scanlines = new Uint8Array(height * (rowLength + 1));
+	for (let y = 0; y < height; y++) {
+		scanlines.set(
+			data.subarray(y * rowLength, (y + 1) * rowLength),
+			y * (rowLength + 1) + 1,
+		);
+	}
+
+	const chunks = [
+		Uint8Array.from(PNG_SIGNATURE),
+		toChunk("IHDR", header),
+		toChunk("IDAT", zlibSync(scanlines)),
+		toChunk("IEND", new Uint8Array(0)),
+	];
+	const png = new Uint8Array(
+		chunks.reduce((length, chunk) => length + chunk.length, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		png.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return png;
+};
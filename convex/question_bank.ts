@@ -0,0 +1,719 @@
+import { filter } from "convex-helpers/server/filter";
+import { paginationOptsValidator } from "convex/server";
+import type { WithoutSystemFields } from "convex/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+	type MutationCtx,
+	type QueryCtx,
+	internalMutation,
+	mutation,
+	query,
+} from "./_generated/server";
+import { type QuizQuestion, isSameQuestion } from "./question_types";
+import { buildQuizSearchText } from "./quizzes";
+import { vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+const MAX_TAGS = 10;
+const MAX_ASSEMBLED_QUESTIONS = 50;
+
+// Quizzes or questions handled per migration batch
+export const MIGRATION_BATCH_SIZE = 20;
+
+const buildQuestionSearchText = (question: string, tags: string[]) =>
+	`${question}\n${tags.join(" ")}`;
+
+/**
+ * The question a bank question holds, read from the flat fields of questions
+ * stored before question types were added when it hasn't been migrated yet.
+ */
+export const getBankQuestionContent = (
+	question: Doc<"questions">,
+): QuizQuestion =>
+	question.content ?? {
+		questionType:
+			question.questionType === "true_false" ? "true_false" : "multiple_choice",
+		question: question.question ?? "",
+		options: question.options ?? [],
+		correctOptionIndex: question.correctOptionIndex ?? 0,
+		explanation: question.explanation ?? "",
+		difficulty: question.difficulty,
+	};
+
+/**
+ * Lowercases, trims and deduplicates tags, dropping empty ones.
+ */
+export const normalizeTags = (tags: string[]) =>
+	[...new Set(tags.map((tag) => tag.trim().toLowerCase()))]
+		.filter(Boolean)
+		.slice(0, MAX_TAGS);
+
+/**
+ * Resolves the current questions of a quiz from its owner's bank, or the
+ * questions still embedded in quizzes that haven't been migrated to the bank.
+ */
+export const getQuizQuestions = async (
+	ctx: QueryCtx | MutationCtx,
+	quiz: Doc<"quizzes">,
+): Promise<QuizQuestion[]> => {
+	if (!quiz.questionIds) {
+		return quiz.questions ?? [];
+	}
+	return await Promise.all(
+		quiz.questionIds.map(async (questionId) => {
+			const question = await ctx.db.get(questionId);
+			if (!question) {
+				throw new Error("Quiz question not found");
+			}
+			return getBankQuestionContent(question);
+		}),
+	);
+};
+
+/**
+ * Adds questions to the owner's bank, each counted as used by one quiz.
+ *
+ * @returns The IDs of the bank questions, in the same order.
+ */
+const addQuestionsToBank = async (
+	ctx: MutationCtx,
+	ownerId: Id<"users">,
+	questions: QuizQuestion[],
+	source: Doc<"questions">["source"],
+) => {
+	const questionIds: Id<"questions">[] = [];
+	for (const question of questions) {
+		questionIds.push(
+			await ctx.db.insert("questions", {
+				content: question,
+				difficulty: question.difficulty,
+				ownerId,
+				tags: [],
+				source,
+				searchText: buildQuestionSearchText(question.question, []),
+				usageCount: 1,
+				answerCount: 0,
+				correctCount: 0,
+			}),
+		);
+	}
+	return questionIds;
+};
+
+/**
+ * Decrements the usage count of bank questions a quiz no longer includes.
+ */
+export const releaseBankQuestions = async (
+	ctx: MutationCtx,
+	questionIds: Id<"questions">[] = [],
+) => {
+	for (const questionId of questionIds) {
+		const question = await ctx.db.get(questionId);
+		if (question) {
+			await ctx.db.patch(question._id, {
+				usageCount: Math.max(0, question.usageCount - 1),
+			});
+		}
+	}
+};
+
+/**
+ * Inserts a quiz whose questions are stored as new bank questions of its
+ * owner.
+ *
+ * @returns The ID of the new quiz.
+ */
+export const insertQuizWithQuestions = async (
+	ctx: MutationCtx,
+	quiz: Omit<WithoutSystemFields<Doc<"quizzes">>, "questions" | "questionIds">,
+	questions: QuizQuestion[],
+) => {
+	const quizId = await ctx.db.insert("quizzes", { ...quiz, questionIds: [] });
+	await ctx.db.patch(quizId, {
+		questionIds: await addQuestionsToBank(ctx, quiz.createdBy, questions, {
+			type: quiz.quizContext.type,
+			quizId,
+		}),
+	});
+	return quizId;
+};
+
+/**
+ * Moves the embedded questions of a quiz that isn't linked to the bank yet
+ * into new bank questions of its owner, which the quiz then refers to through
+ * `questionIds`.
+ */
+export const linkQuizToBank = async (
+	ctx: MutationCtx,
+	quizId: Id<"quizzes">,
+) => {
+	const quiz = await ctx.db.get(quizId);
+	if (!quiz || quiz.questionIds) {
+		return;
+	}
+
+	const questionIds = await addQuestionsToBank(
+		ctx,
+		quiz.createdBy,
+		quiz.questions ?? [],
+		{ type: quiz.quizContext.type, quizId: quiz._id },
+	);
+	await ctx.db.patch(quiz._id, { questionIds, questions: undefined });
+};
+
+/**
+ * Works out the bank questions of an edited quiz. Questions that come from one
+ * of the quiz before the edit (through its index) keep its bank question, new
+ * ones are added to the bank and dropped ones are released. Kept questions
+ * that were changed aren't updated here: the caller first archives the quizzes
+ * including them, then applies the returned edits with `updateBankQuestions`.
+ *
+ * @returns The `questionIds` for the edited questions and the changed bank
+ * questions.
+ */
+export const syncEditedQuizQuestions = async (
+	ctx: MutationCtx,
+	quiz: Doc<"quizzes">,
+	previousQuestions: QuizQuestion[],
+	questions: QuizQuestion[],
+	sourceIndexes: (number | undefined)[],
+) => {
+	const previousIds = quiz.questionIds ?? [];
+	const keptIds = new Set<Id<"questions">>();
+
+	const questionIds: Id<"questions">[] = [];
+	const edits: { questionId: Id<"questions">; content: QuizQuestion }[] = [];
+	for (const [index, question] of questions.entries()) {
+		const sourceIndex = sourceIndexes[index];
+		const previousId =
+			sourceIndex === undefined ? undefined : previousIds[sourceIndex];
+		if (previousId && !keptIds.has(previousId)) {
+			keptIds.add(previousId);
+			questionIds.push(previousId);
+			if (
+				sourceIndex !== undefined &&
+				!isSameQuestion(previousQuestions[sourceIndex], question)
+			) {
+				edits.push({ questionId: previousId, content: question });
+			}
+		} else {
+			const [questionId] = await addQuestionsToBank(
+				ctx,
+				quiz.createdBy,
+				[question],
+				{ type: quiz.quizContext.type, quizId: quiz._id },
+			);
+			questionIds.push(questionId);
+		}
+	}
+
+	await releaseBankQuestions(
+		ctx,
+		previousIds.filter((questionId) => !keptIds.has(questionId)),
+	);
+
+	return { questionIds, edits };
+};
+
+/**
+ * Replaces the content of bank questions, which every quiz including them
+ * picks up.
+ */
+export const updateBankQuestions = async (
+	ctx: MutationCtx,
+	edits: { questionId: Id<"questions">; content: QuizQuestion }[],
+) => {
+	for (const { questionId, content } of edits) {
+		const question = await ctx.db.get(questionId);
+		if (!question) {
+			throw new Error("Question not found");
+		}
+		await ctx.db.patch(question._id, {
+			content,
+			difficulty: content.difficulty,
+			searchText: buildQuestionSearchText(content.question, question.tags),
+		});
+	}
+};
+
+/**
+ * Lists the owner's other quizzes that include any of the given bank
+ * questions.
+ */
+export const getQuizzesIncludingQuestions = async (
+	ctx: QueryCtx,
+	ownerId: Id<"users">,
+	questionIds: Id<"questions">[],
+) => {
+	const quizzes = await ctx.db
+		.query("quizzes")
+		.withIndex("by_created_by", (q) => q.eq("createdBy", ownerId))
+		.collect();
+	return quizzes.filter((quiz) =>
+		quiz.questionIds?.some((questionId) => questionIds.includes(questionId)),
+	);
+};
+
+/**
+ * Counts an answer towards the usage stats of the bank question it was given
+ * for. Answers to superseded versions of the quiz aren't counted, since
+ * `questionIds` only describes the current one.
+ */
+export const recordBankQuestionAnswer = async (
+	ctx: MutationCtx,
+	quiz: Doc<"quizzes">,
+	quizVersion: number | undefined,
+	questionIndex: number,
+	isCorrect: boolean,
+) => {
+	if ((quizVersion ?? 1) !== (quiz.version ?? 1)) {
+		return;
+	}
+	const questionId = quiz.questionIds?.[questionIndex];
+	const question = questionId && (await ctx.db.get(questionId));
+	if (!question) {
+		return;
+	}
+	await ctx.db.patch(question._id, {
+		answerCount: question.answerCount + 1,
+		correctCount: question.correctCount + (isCorrect ? 1 : 0),
+	});
+};
+
+/**
+ * Lists the current user's bank questions, newest first, optionally narrowed
+ * by a search term (then ordered by relevance), difficulty and tag.
+ */
+export const searchQuestions = query({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		search: v.optional(v.string()),
+		difficulty: v.optional(
+			v.union(v.literal("easy"), v.literal("medium"), v.literal("hard")),
+		),
+		tag: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+		const search = args.search?.trim();
+		const tag = args.tag?.trim().toLowerCase();
+		const { difficulty } = args;
+
+		const baseQuery = search
+			? ctx.db.query("questions").withSearchIndex("search_text", (q) => {
+					const matching = q
+						.search("searchText", search)
+						.eq("ownerId", user._id);
+					return difficulty ? matching.eq("difficulty", difficulty) : matching;
+				})
+			: difficulty
+				? ctx.db
+						.query("questions")
+						.withIndex("by_owner_difficulty", (q) =>
+							q.eq("ownerId", user._id).eq("difficulty", difficulty),
+						)
+						.order("desc")
+				: ctx.db
+						.query("questions")
+						.withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+						.order("desc");
+
+		const result = await filter(
+			baseQuery,
+			(question) => !tag || question.tags.includes(tag),
+		).paginate(args.paginationOpts);
+
+		return {
+			...result,
+			page: result.page.map((question) => ({
+				...question,
+				content: getBankQuestionContent(question),
+			})),
+		};
+	},
+});
+
+/**
+ * Lists the tags used in the current user's bank with their question counts,
+ * most used first.
+ */
+export const listMyQuestionTags = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const questions = await ctx.db
+			.query("questions")
+			.withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+			.collect();
+
+		const counts = new Map<string, number>();
+		for (const question of questions) {
+			for (const tag of question.tags) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+
+		return [...counts.entries()]
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+	},
+});
+
+const getOwnQuestion = async (
+	ctx: MutationCtx,
+	questionId: Id<"questions">,
+) => {
+	const user = await assertUserAuthenticated(ctx);
+
+	const question = await ctx.db.get(questionId);
+	if (!question || question.ownerId !== user._id) {
+		throw new Error("Question not found");
+	}
+
+	return question;
+};
+
+/**
+ * Replaces the topic tags of one of the current user's bank questions.
+ */
+export const updateQuestionTags = mutation({
+	args: {
+		questionId: vv.id("questions"),
+		tags: v.array(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const question = await getOwnQuestion(ctx, args.questionId);
+
+		const tags = normalizeTags(args.tags);
+		await ctx.db.patch(question._id, {
+			tags,
+			searchText: buildQuestionSearchText(
+				getBankQuestionContent(question).question,
+				tags,
+			),
+		});
+	},
+});
+
+// Documents scanned per batch when looking for what still shows a figure
+const FIGURE_SCAN_BATCH_SIZE = 100;
+
+// Tables that hold questions in arrays, which can't be indexed: superseded
+// quiz versions, quizzes not migrated to the bank yet and the questions
+// generated for adaptive attempts
+const FIGURE_HOLDERS = ["quiz_versions", "quizzes", "quiz_attempts"] as const;
+
+/**
+ * Deletes a figure from storage once nothing shows it anymore. The check runs
+ * in the background, see `collectUnusedFigure`.
+ */
+export const deleteUnusedFigure = async (
+	ctx: MutationCtx,
+	storageId: Id<"_storage"> | undefined,
+) => {
+	if (storageId) {
+		await ctx.scheduler.runAfter(
+			0,
+			internal.question_bank.collectUnusedFigure,
+			{ storageId, holder: FIGURE_HOLDERS[0], cursor: null },
+		);
+	}
+};
+
+/**
+ * Reads one batch of a table holding questions in arrays and tells whether any
+ * of its questions shows the figure.
+ */
+const scanFigureHolders = async (
+	ctx: MutationCtx,
+	holder: (typeof FIGURE_HOLDERS)[number],
+	storageId: Id<"_storage">,
+	cursor: string | null,
+) => {
+	const paginationOpts = { numItems: FIGURE_SCAN_BATCH_SIZE, cursor };
+	const shows = (questions: QuizQuestion[] = []) =>
+		questions.some((question) => question.image === storageId);
+
+	switch (holder) {
+		case "quiz_versions": {
+			const result = await ctx.db.query(holder).paginate(paginationOpts);
+			return {
+				...result,
+				isShown: result.page.some((version) => shows(version.questions)),
+			};
+		}
+		case "quizzes": {
+			const result = await ctx.db.query(holder).paginate(paginationOpts);
+			return {
+				...result,
+				isShown: result.page.some((quiz) => shows(quiz.questions)),
+			};
+		}
+		case "quiz_attempts": {
+			const result = await ctx.db.query(holder).paginate(paginationOpts);
+			return {
+				...result,
+				isShown: result.page.some((attempt) => shows(attempt.extraQuestions)),
+			};
+		}
+	}
+};
+
+/**
+ * Deletes a figure from storage unless a bank question, a superseded quiz
+ * version, a quiz not migrated to the bank yet or a question generated for an
+ * attempt still shows it. Bank questions are found through their index; the
+ * other tables are scanned one batch per run, and the run schedules itself
+ * until every table has been scanned.
+ */
+export const collectUnusedFigure = internalMutation({
+	args: {
+		storageId: v.id("_storage"),
+		holder: v.union(...FIGURE_HOLDERS.map((holder) => v.literal(holder))),
+		cursor: v.union(v.string(), v.null()),
+	},
+	handler: async (ctx, args) => {
+		if (!(await ctx.db.system.get(args.storageId))) {
+			return;
+		}
+		const shownByQuestion = await ctx.db
+			.query("questions")
+			.withIndex("by_image", (q) => q.eq("content.image", args.storageId))
+			.first();
+		if (shownByQuestion) {
+			return;
+		}
+
+		const { isShown, isDone, continueCursor } = await scanFigureHolders(
+			ctx,
+			args.holder,
+			args.storageId,
+			args.cursor,
+		);
+		if (isShown) {
+			return;
+		}
+
+		const nextHolder = isDone
+			? FIGURE_HOLDERS[FIGURE_HOLDERS.indexOf(args.holder) + 1]
+			: args.holder;
+		if (!nextHolder) {
+			await ctx.storage.delete(args.storageId);
+			return;
+		}
+		await ctx.scheduler.runAfter(
+			0,
+			internal.question_bank.collectUnusedFigure,
+			{
+				storageId: args.storageId,
+				holder: nextHolder,
+				cursor: isDone ? null : continueCursor,
+			},
+		);
+	},
+});
+
+/**
+ * Deletes a bank question that no quiz includes anymore, along with the review
+ * cards of it and its figure.
+ */
+export const deleteQuestion = mutation({
+	args: {
+		questionId: vv.id("questions"),
+	},
+	handler: async (ctx, args) => {
+		const question = await getOwnQuestion(ctx, args.questionId);
+
+		if (question.usageCount > 0) {
+			throw new Error("Question is still used by a quiz");
+		}
+
+		const reviewCards = await ctx.db
+			.query("review_cards")
+			.withIndex("by_question", (q) => q.eq("questionId", question._id))
+			.collect();
+		for (const card of reviewCards) {
+			await ctx.db.delete(card._id);
+		}
+		await ctx.db.delete(question._id);
+		await deleteUnusedFigure(ctx, question.content?.image);
+	},
+});
+
+/**
+ * Picks `count` random items without repeating any.
+ */
+const sample = <T>(items: T[], count: number) => {
+	const pool = [...items];
+	for (let i = 0; i < Math.min(count, pool.length); i++) {
+		const j = i + Math.floor(Math.random() * (pool.length - i));
+		[pool[i], pool[j]] = [pool[j], pool[i]];
+	}
+	return pool.slice(0, count);
+};
+
+/**
+ * Creates a quiz from the current user's bank, drawing the requested number of
+ * random questions per difficulty among those with any of the given tags (all
+ * questions when no tags are given).
+ *
+ * @returns The ID of the new quiz.
+ */
+export const assembleQuiz = mutation({
+	args: {
+		title: v.string(),
+		description: v.optional(v.string()),
+		tags: v.array(v.string()),
+		counts: v.object({
+			easy: v.number(),
+			medium: v.number(),
+			hard: v.number(),
+		}),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const title = args.title.trim();
+		if (!title) {
+			throw new Error("Quiz title is required");
+		}
+
+		const counts = Object.entries(args.counts) as [
+			keyof typeof args.counts,
+			number,
+		][];
+		const total = counts.reduce((sum, [, count]) => sum + count, 0);
+		if (
+			counts.some(([, count]) => !Number.isInteger(count) || count < 0) ||
+			total === 0 ||
+			total > MAX_ASSEMBLED_QUESTIONS
+		) {
+			throw new Error(
+				`A quiz needs between 1 and ${MAX_ASSEMBLED_QUESTIONS} questions`,
+			);
+		}
+
+		const tags = normalizeTags(args.tags);
+		const drawn: Doc<"questions">[] = [];
+		for (const [difficulty, count] of counts) {
+			if (count === 0) {
+				continue;
+			}
+			const candidates = (
+				await ctx.db
+					.query("questions")
+					.withIndex("by_owner_difficulty", (q) =>
+						q.eq("ownerId", user._id).eq("difficulty", difficulty),
+					)
+					.collect()
+			).filter(
+				(question) =>
+					tags.length === 0 || question.tags.some((tag) => tags.includes(tag)),
+			);
+			if (candidates.length < count) {
+				throw new Error(
+					`Not enough ${difficulty} questions in the bank (${candidates.length} available)`,
+				);
+			}
+			drawn.push(...sample(candidates, count));
+		}
+
+		const questions = sample(drawn, drawn.length);
+		const description =
+			args.description?.trim() ||
+			(tags.length > 0
+				? `Quiz assembled from the question bank: ${tags.join(", ")}`
+				: "Quiz assembled from the question bank");
+
+		const quizId = await ctx.db.insert("quizzes", {
+			createdBy: user._id,
+			title,
+			description,
+			questionIds: questions.map((question) => question._id),
+			quizContext: { type: "bank" },
+			searchText: buildQuizSearchText(title, description),
+		});
+
+		for (const question of questions) {
+			await ctx.db.patch(question._id, {
+				usageCount: question.usageCount + 1,
+			});
+		}
+
+		return quizId;
+	},
+});
+
+/**
+ * Moves the embedded questions of quizzes created before the question bank
+ * into it, one batch of quizzes at a time. Run it once after deploying with
+ * `npx convex run question_bank:migrateEmbeddedQuestions`; it schedules itself
+ * until every quiz is linked.
+ */
+export const migrateEmbeddedQuestions = internalMutation({
+	args: { cursor: v.optional(v.union(v.string(), v.null())) },
+	handler: async (ctx, args) => {
+		const { page, isDone, continueCursor } = await ctx.db
+			.query("quizzes")
+			.paginate({
+				numItems: MIGRATION_BATCH_SIZE,
+				cursor: args.cursor ?? null,
+			});
+
+		for (const quiz of page) {
+			await linkQuizToBank(ctx, quiz._id);
+		}
+
+		if (!isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.question_bank.migrateEmbeddedQuestions,
+				{ cursor: continueCursor },
+			);
+		}
+	},
+});
+
+/**
+ * Moves the flat fields of bank questions stored before question types were
+ * added into `content`, one batch at a time. Run it once after deploying with
+ * `npx convex run question_bank:migrateFlatBankQuestions`; it schedules itself
+ * until every question is migrated. The flat fields can then be dropped from
+ * the schema and `content` made required.
+ */
+export const migrateFlatBankQuestions = internalMutation({
+	args: { cursor: v.optional(v.union(v.string(), v.null())) },
+	handler: async (ctx, args) => {
+		const { page, isDone, continueCursor } = await ctx.db
+			.query("questions")
+			.paginate({
+				numItems: MIGRATION_BATCH_SIZE,
+				cursor: args.cursor ?? null,
+			});
+
+		for (const question of page) {
+			if (question.content) {
+				continue;
+			}
+			await ctx.db.patch(question._id, {
+				content: getBankQuestionContent(question),
+				question: undefined,
+				options: undefined,
+				correctOptionIndex: undefined,
+				explanation: undefined,
+				questionType: undefined,
+			});
+		}
+
+		if (!isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.question_bank.migrateFlatBankQuestions,
+				{ cursor: continueCursor },
+			);
+		}
+	},
+});
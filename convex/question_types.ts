@@ -0,0 +1,733 @@
+import type { Infer } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { questionHelp, questionResponse, quizQuestion } from "./schema";
+
+export type QuizQuestion = Infer<typeof quizQuestion>;
+export type QuestionType = QuizQuestion["questionType"];
+export type QuestionResponse = Infer<typeof questionResponse>;
+export type QuestionHelp = Infer<typeof questionHelp>;
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+// Limits for the items of ordering questions and the pairs of matching ones
+export const MIN_ITEMS = 2;
+export const MAX_ITEMS = 8;
+
+// Fuzzy text answers may contain one typo per this many characters
+const CHARACTERS_PER_TYPO = 5;
+
+// XP taken off an attempt's total for each help asked for
+export const HELP_XP_COST: Record<QuestionHelp, number> = {
+	hint: 3,
+	fifty_fifty: 5,
+};
+
+// Wrong options the 50:50 lifeline removes
+const FIFTY_FIFTY_REMOVED_COUNT = 2;
+
+/**
+ * Blanks in the text of fill-in-the-blank questions: three or more underscores.
+ */
+export const BLANK_PATTERN = /_{3,}/g;
+
+export const countBlanks = (text: string) =>
+	(text.match(BLANK_PATTERN) ?? []).length;
+
+/**
+ * The response type each question type is answered with.
+ */
+export const RESPONSE_TYPES = {
+	multiple_choice: "choice",
+	true_false: "choice",
+	multiple_select: "choices",
+	short_answer: "text",
+	fill_in_blank: "blanks",
+	ordering: "order",
+	matching: "matches",
+} as const satisfies Record<QuestionType, QuestionResponse["type"]>;
+
+/**
+ * Whether a question is answered by picking from its options.
+ */
+export const isChoiceQuestion = (
+	question: QuizQuestion,
+): question is Extract<QuizQuestion, { options: string[] }> =>
+	"options" in question;
+
+const hashString = (value: string) => {
+	// FNV-1a
+	let hash = 2166136261;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 16777619);
+	}
+	return hash >>> 0;
+};
+
+/**
+ * Shuffles the indexes `0..count - 1` deterministically for a seed, so the same
+ * question is shown the same way to every player and on every render. The
+ * result is never the identity for two or more items, since showing ordering
+ * items in order would give the answer away.
+ *
+ * @returns The original index shown at each position.
+ */
+export const getShuffledOrder = (count: number, seed: string) => {
+	const order = Array.from({ length: count }, (_, index) => index);
+	let state = hashString(seed);
+	for (let i = count - 1; i > 0; i--) {
+		state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+		const j = state % (i + 1);
+		[order[i], order[j]] = [order[j], order[i]];
+	}
+	if (count > 1 && order.every((value, index) => value === index)) {
+		order.push(order.shift() ?? 0);
+	}
+	return order;
+};
+
+// The order ordering items and matching right-hand sides are shown in
+const getDisplayOrder = (
+	question: Extract<QuizQuestion, { questionType: "ordering" | "matching" }>,
+) =>
+	getShuffledOrder(
+		question.questionType === "ordering"
+			? question.items.length
+			: question.pairs.length,
+		question.question,
+	);
+
+/**
+ * The order the options of a question are shown in to one attempt or player,
+ * as the original option index at each position. True/false options keep their
+ * order, and questions without options get none.
+ */
+export const getOptionOrder = (question: QuizQuestion, seed: string) =>
+	isChoiceQuestion(question) && question.questionType !== "true_false"
+		? getShuffledOrder(question.options.length, seed)
+		: [];
+
+const mapChosenOptions = (
+	response: QuestionResponse,
+	mapIndex: (index: number) => number,
+): QuestionResponse => {
+	switch (response.type) {
+		case "choice":
+			return { ...response, selectedIndex: mapIndex(response.selectedIndex) };
+		case "choices":
+			return {
+				...response,
+				selectedIndexes: response.selectedIndexes.map(mapIndex),
+			};
+		default:
+			return response;
+	}
+};
+
+/**
+ * A response to a question as shown with its options in `optionOrder`, turned
+ * into one to the question itself. Positions outside the options become -1.
+ */
+export const toOriginalResponse = (
+	response: QuestionResponse,
+	optionOrder: number[] = [],
+) =>
+	optionOrder.length === 0
+		? response
+		: mapChosenOptions(response, (position) => optionOrder[position] ?? -1);
+
+/**
+ * A response to a question turned into one to the question as shown with its
+ * options in `optionOrder`; the reverse of `toOriginalResponse`.
+ */
+export const toShownResponse = (
+	response: QuestionResponse,
+	optionOrder: number[] = [],
+) =>
+	optionOrder.length === 0
+		? response
+		: mapChosenOptions(response, (index) => optionOrder.indexOf(index));
+
+/**
+ * Whether the 50:50 lifeline can be used on a question: single answer questions
+ * keeping a wrong option after two are removed.
+ */
+export const canUseFiftyFifty = (question: QuizQuestion) =>
+	question.questionType === "multiple_choice" &&
+	question.options.length > FIFTY_FIFTY_REMOVED_COUNT + 1;
+
+/**
+ * The options the 50:50 lifeline removes from a question, as positions in the
+ * options shown in `optionOrder`. The seed picks which wrong options go, so the
+ * same ones stay removed when the question is loaded again.
+ */
+export const getFiftyFiftyRemovals = (
+	question: QuizQuestion,
+	seed: string,
+	optionOrder: number[] = [],
+) => {
+	if (question.questionType !== "multiple_choice") {
+		return [];
+	}
+	const wrongIndexes = question.options
+		.map((_, index) => index)
+		.filter((index) => index !== question.correctOptionIndex);
+	return getShuffledOrder(wrongIndexes.length, seed)
+		.slice(0, FIFTY_FIFTY_REMOVED_COUNT)
+		.map((position) => {
+			const index = wrongIndexes[position];
+			return optionOrder.length === 0 ? index : optionOrder.indexOf(index);
+		})
+		.sort((a, b) => a - b);
+};
+
+type PlayContent =
+	| {
+			questionType: "multiple_choice" | "true_false" | "multiple_select";
+			options: string[];
+	  }
+	| { questionType: "short_answer" }
+	| { questionType: "fill_in_blank"; blankCount: number }
+	| { questionType: "ordering"; items: string[] }
+	| { questionType: "matching"; prompts: string[]; matches: string[] };
+
+/**
+ * A question as sent to a player: ordering items and matching right-hand sides
+ * come shuffled, and the answer key (correct response and explanation) is only
+ * present once it has been revealed.
+ */
+export type PlayQuestion = PlayContent & {
+	question: string;
+	difficulty: QuizQuestion["difficulty"];
+	image?: Id<"_storage">;
+	explanation?: string;
+	// The source passage behind the answer, once revealed since it gives it away
+	citation?: QuizQuestion["citation"];
+	correctResponse?: QuestionResponse;
+	// Every accepted answer of text questions, once revealed
+	acceptedAnswers?: string[];
+	// Whether there's a hint to ask for, and whether 50:50 can be used
+	hasHint: boolean;
+	hasFiftyFifty: boolean;
+	// The hint, once asked for
+	hint?: string;
+	// Options removed by the 50:50 lifeline, as positions in `options`
+	removedOptions?: number[];
+};
+
+const getPlayContent = (
+	question: QuizQuestion,
+	optionOrder: number[] = [],
+): PlayContent => {
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+		case "multiple_select":
+			return {
+				questionType: question.questionType,
+				options:
+					optionOrder.length === 0
+						? question.options
+						: optionOrder.map((index) => question.options[index]),
+			};
+		case "short_answer":
+			return { questionType: question.questionType };
+		case "fill_in_blank":
+			return {
+				questionType: question.questionType,
+				blankCount: question.blanks.length,
+			};
+		case "ordering":
+			return {
+				questionType: question.questionType,
+				items: getDisplayOrder(question).map((index) => question.items[index]),
+			};
+		case "matching":
+			return {
+				questionType: question.questionType,
+				prompts: question.pairs.map((pair) => pair.left),
+				matches: getDisplayOrder(question).map(
+					(index) => question.pairs[index].right,
+				),
+			};
+	}
+};
+
+/**
+ * The correct answer to a question, as a response to the question as shown by
+ * `toPlayQuestion`. Text questions get their first accepted answer(s).
+ */
+export const getCorrectResponse = (
+	question: QuizQuestion,
+): QuestionResponse => {
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+			return { type: "choice", selectedIndex: question.correctOptionIndex };
+		case "multiple_select":
+			return {
+				type: "choices",
+				selectedIndexes: question.correctOptionIndexes,
+			};
+		case "short_answer":
+			return { type: "text", text: question.acceptedAnswers[0] ?? "" };
+		case "fill_in_blank":
+			return {
+				type: "blanks",
+				texts: question.blanks.map((answers) => answers[0] ?? ""),
+			};
+		case "ordering": {
+			const displayOrder = getDisplayOrder(question);
+			return {
+				type: "order",
+				order: question.items.map((_, index) => displayOrder.indexOf(index)),
+			};
+		}
+		case "matching": {
+			const displayOrder = getDisplayOrder(question);
+			return {
+				type: "matches",
+				matches: question.pairs.map((_, index) => displayOrder.indexOf(index)),
+			};
+		}
+	}
+};
+
+/**
+ * Turns a question into what a player gets to see, stripping the answer key
+ * unless it has been revealed. Options are shown in `optionOrder` when given,
+ * see `getOptionOrder`.
+ */
+export const toPlayQuestion = (
+	question: QuizQuestion,
+	revealed: boolean,
+	optionOrder: number[] = [],
+): PlayQuestion => {
+	const base = {
+		...getPlayContent(question, optionOrder),
+		question: question.question,
+		difficulty: question.difficulty,
+		image: question.image,
+		hasHint: !!question.hint,
+		hasFiftyFifty: canUseFiftyFifty(question),
+	};
+	if (!revealed) {
+		return base;
+	}
+	return {
+		...base,
+		explanation: question.explanation,
+		citation: question.citation,
+		correctResponse: toShownResponse(getCorrectResponse(question), optionOrder),
+		acceptedAnswers:
+			question.questionType === "short_answer"
+				? question.acceptedAnswers
+				: question.questionType === "fill_in_blank"
+					? question.blanks.map((answers) => answers.join(" / "))
+					: undefined,
+	};
+};
+
+/**
+ * Normalizes free text for comparison: lowercase, without diacritics and
+ * punctuation, with whitespace collapsed.
+ */
+export const normalizeAnswerText = (text: string) =>
+	text
+		.normalize("NFD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.replace(/\p{P}|\p{S}/gu, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+
+// Levenshtein distance
+const getEditDistance = (a: string, b: string) => {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+};
+
+/**
+ * Whether a text answer matches one of the accepted answers after normalizing
+ * both, allowing a few typos when `fuzzy` is set.
+ */
+export const isAcceptedText = (
+	text: string,
+	acceptedAnswers: string[],
+	fuzzy = false,
+) => {
+	const answer = normalizeAnswerText(text);
+	if (!answer) {
+		return false;
+	}
+	return acceptedAnswers.some((accepted) => {
+		const expected = normalizeAnswerText(accepted);
+		if (answer === expected) {
+			return true;
+		}
+		return (
+			fuzzy &&
+			getEditDistance(answer, expected) <=
+				Math.floor(expected.length / CHARACTERS_PER_TYPO)
+		);
+	});
+};
+
+const isIndexInRange = (index: number, count: number) =>
+	Number.isInteger(index) && index >= 0 && index < count;
+
+/**
+ * Grades a response on the server: option for single choice, set equality for
+ * multiple select, normalized (or fuzzy) text match for short answers and
+ * blanks, sequence match for ordering and pair match for matching questions.
+ *
+ * @throws {Error} When the response doesn't fit the question.
+ */
+export const gradeResponse = (
+	question: QuizQuestion,
+	response: QuestionResponse,
+): boolean => {
+	if (response.type !== RESPONSE_TYPES[question.questionType]) {
+		throw new Error("Answer doesn't match the question type");
+	}
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false": {
+			if (response.type !== "choice") break;
+			if (!isIndexInRange(response.selectedIndex, question.options.length)) {
+				throw new Error("Selected option is out of range");
+			}
+			return response.selectedIndex === question.correctOptionIndex;
+		}
+		case "multiple_select": {
+			if (response.type !== "choices") break;
+			const selected = new Set(response.selectedIndexes);
+			if (
+				response.selectedIndexes.some(
+					(index) => !isIndexInRange(index, question.options.length),
+				)
+			) {
+				throw new Error("Selected option is out of range");
+			}
+			return (
+				selected.size === question.correctOptionIndexes.length &&
+				question.correctOptionIndexes.every((index) => selected.has(index))
+			);
+		}
+		case "short_answer": {
+			if (response.type !== "text") break;
+			return isAcceptedText(
+				response.text,
+				question.acceptedAnswers,
+				question.fuzzy,
+			);
+		}
+		case "fill_in_blank": {
+			if (response.type !== "blanks") break;
+			if (response.texts.length !== question.blanks.length) {
+				throw new Error("Every blank needs an answer");
+			}
+			return question.blanks.every((answers, index) =>
+				isAcceptedText(response.texts[index], answers, question.fuzzy),
+			);
+		}
+		case "ordering": {
+			if (response.type !== "order") break;
+			const count = question.items.length;
+			if (
+				response.order.length !== count ||
+				new Set(response.order).size !== count ||
+				response.order.some((position) => !isIndexInRange(position, count))
+			) {
+				throw new Error("Every item must be placed exactly once");
+			}
+			const displayOrder = getDisplayOrder(question);
+			return response.order.every(
+				(position, index) => displayOrder[position] === index,
+			);
+		}
+		case "matching": {
+			if (response.type !== "matches") break;
+			const count = question.pairs.length;
+			if (
+				response.matches.length !== count ||
+				response.matches.some((position) => !isIndexInRange(position, count))
+			) {
+				throw new Error("Every prompt needs a match");
+			}
+			const displayOrder = getDisplayOrder(question);
+			return response.matches.every(
+				(position, index) => displayOrder[position] === index,
+			);
+		}
+	}
+	throw new Error("Answer doesn't match the question type");
+};
+
+/**
+ * The response of a saved answer. Answers saved before there were other
+ * question types only have the selected option.
+ */
+export const getAnswerResponse = (answer: {
+	selectedIndex: number;
+	response?: QuestionResponse;
+}): QuestionResponse =>
+	answer.response ?? { type: "choice", selectedIndex: answer.selectedIndex };
+
+/**
+ * The option index stored alongside a response, -1 for non-choice responses.
+ */
+export const getSelectedIndex = (response: QuestionResponse) =>
+	response.type === "choice" ? response.selectedIndex : -1;
+
+/**
+ * The options a response picks, none for responses to non-choice questions.
+ */
+export const getChosenOptions = (response: QuestionResponse): number[] =>
+	response.type === "choice"
+		? [response.selectedIndex]
+		: response.type === "choices"
+			? response.selectedIndexes
+			: [];
+
+/**
+ * Describes a response in plain text, e.g. for AI feedback prompts.
+ */
+export const formatResponse = (
+	question: QuizQuestion,
+	response: QuestionResponse,
+): string => {
+	const content = getPlayContent(question);
+	switch (response.type) {
+		case "choice":
+			return "options" in content
+				? (content.options[response.selectedIndex] ?? "")
+				: "";
+		case "choices":
+			return "options" in content
+				? response.selectedIndexes
+						.map((index) => content.options[index])
+						.join(", ")
+				: "";
+		case "text":
+			return response.text;
+		case "blanks":
+			return response.texts.join("; ");
+		case "order":
+			return "items" in content
+				? response.order.map((position) => content.items[position]).join(" → ")
+				: "";
+		case "matches":
+			return "prompts" in content
+				? content.prompts
+						.map(
+							(prompt, index) =>
+								`${prompt} = ${content.matches[response.matches[index]] ?? "?"}`,
+						)
+						.join("; ")
+				: "";
+	}
+};
+
+/**
+ * Describes the correct answer to a question in plain text, listing every
+ * accepted answer of text questions.
+ */
+export const formatCorrectAnswer = (question: QuizQuestion) => {
+	switch (question.questionType) {
+		case "short_answer":
+			return question.acceptedAnswers.join(" / ");
+		case "fill_in_blank":
+			return question.blanks.map((answers) => answers.join(" / ")).join("; ");
+		default:
+			return formatResponse(question, getCorrectResponse(question));
+	}
+};
+
+const hasDuplicates = (values: string[]) =>
+	new Set(values.map(normalizeAnswerText)).size !== values.length;
+
+/**
+ * Checks that a question is well-formed for its type.
+ *
+ * @returns What's wrong with the question, or null if nothing is.
+ */
+export const getQuestionProblem = (question: QuizQuestion): string | null => {
+	if (!question.question.trim()) {
+		return "question text is required";
+	}
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+		case "multiple_select": {
+			if (question.options.some((option) => !option.trim())) {
+				return "options can't be empty";
+			}
+			if (question.questionType === "true_false") {
+				if (question.options.length !== 2) {
+					return "true/false questions need exactly 2 options";
+				}
+			} else if (
+				question.options.length < MIN_OPTIONS ||
+				question.options.length > MAX_OPTIONS
+			) {
+				return `choice questions need ${MIN_OPTIONS}-${MAX_OPTIONS} options`;
+			}
+			const correct =
+				question.questionType === "multiple_select"
+					? question.correctOptionIndexes
+					: [question.correctOptionIndex];
+			if (correct.length === 0) {
+				return "at least one option must be correct";
+			}
+			if (
+				new Set(correct).size !== correct.length ||
+				correct.some((index) => !isIndexInRange(index, question.options.length))
+			) {
+				return "correct option is out of range";
+			}
+			return null;
+		}
+		case "short_answer":
+			if (!question.acceptedAnswers.some((answer) => answer.trim())) {
+				return "at least one accepted answer is required";
+			}
+			return null;
+		case "fill_in_blank":
+			if (question.blanks.length === 0) {
+				return "the question text needs at least one blank (___)";
+			}
+			if (countBlanks(question.question) !== question.blanks.length) {
+				return "every blank (___) needs its own accepted answers";
+			}
+			if (
+				question.blanks.some(
+					(answers) => !answers.some((answer) => answer.trim()),
+				)
+			) {
+				return "every blank needs at least one accepted answer";
+			}
+			return null;
+		case "ordering":
+			if (
+				question.items.length < MIN_ITEMS ||
+				question.items.length > MAX_ITEMS
+			) {
+				return `ordering questions need ${MIN_ITEMS}-${MAX_ITEMS} items`;
+			}
+			if (question.items.some((item) => !item.trim())) {
+				return "items can't be empty";
+			}
+			if (hasDuplicates(question.items)) {
+				return "items must be different from each other";
+			}
+			return null;
+		case "matching":
+			if (
+				question.pairs.length < MIN_ITEMS ||
+				question.pairs.length > MAX_ITEMS
+			) {
+				return `matching questions need ${MIN_ITEMS}-${MAX_ITEMS} pairs`;
+			}
+			if (
+				question.pairs.some((pair) => !pair.left.trim() || !pair.right.trim())
+			) {
+				return "pairs can't be empty";
+			}
+			if (hasDuplicates(question.pairs.map((pair) => pair.right))) {
+				return "matches must be different from each other";
+			}
+			return null;
+	}
+};
+
+const trimAll = (values: string[]) => values.map((value) => value.trim());
+
+/**
+ * Trims the text of a question and its answers, dropping empty accepted
+ * answers.
+ */
+export const trimQuestion = (question: QuizQuestion): QuizQuestion => {
+	const base = {
+		question: question.question.trim(),
+		explanation: question.explanation.trim(),
+		difficulty: question.difficulty,
+	};
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+			return { ...question, ...base, options: trimAll(question.options) };
+		case "multiple_select":
+			return {
+				...question,
+				...base,
+				options: trimAll(question.options),
+				correctOptionIndexes: [...question.correctOptionIndexes].sort(
+					(a, b) => a - b,
+				),
+			};
+		case "short_answer":
+			return {
+				...question,
+				...base,
+				acceptedAnswers: trimAll(question.acceptedAnswers).filter(Boolean),
+			};
+		case "fill_in_blank":
+			return {
+				...question,
+				...base,
+				blanks: question.blanks.map((answers) =>
+					trimAll(answers).filter(Boolean),
+				),
+			};
+		case "ordering":
+			return { ...question, ...base, items: trimAll(question.items) };
+		case "matching":
+			return {
+				...question,
+				...base,
+				pairs: question.pairs.map((pair) => ({
+					left: pair.left.trim(),
+					right: pair.right.trim(),
+				})),
+			};
+	}
+};
+
+// JSON with object keys sorted, so equal questions serialize the same way
+const toStableJson = (value: unknown) =>
+	JSON.stringify(value, (_, field) =>
+		field && typeof field === "object" && !Array.isArray(field)
+			? Object.fromEntries(
+					Object.entries(field).sort(([a], [b]) => a.localeCompare(b)),
+				)
+			: field,
+	);
+
+export const isSameQuestion = (a: QuizQuestion, b: QuizQuestion) =>
+	toStableJson(a) === toStableJson(b);
+
+/**
+ * Throws a descriptive error (with the 1-based question number) when a
+ * question isn't well-formed.
+ */
+export const assertValidQuestion = (question: QuizQuestion, index: number) => {
+	const problem = getQuestionProblem(question);
+	if (problem) {
+		throw new Error(`Question ${index + 1}: ${problem}`);
+	}
+};
@@ -0,0 +1,250 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import {
+	getQuizQuestions,
+	getQuizzesIncludingQuestions,
+	syncEditedQuizQuestions,
+	updateBankQuestions,
+} from "./question_bank";
+import {
+	type QuizQuestion,
+	assertValidQuestion,
+	isSameQuestion,
+	trimQuestion,
+} from "./question_types";
+import { buildQuizSearchText, quizQuestionValidator } from "./quizzes";
+import { vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+/**
+ * Retrieves a quiz for its owner to edit, with the answer key and the list of
+ * superseded versions.
+ */
+export const getQuizForEdit = query({
+	args: {
+		quizId: vv.id("quizzes"),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		if (quiz.createdBy !== user._id) {
+			throw new Error("Unauthorized: Only the quiz owner can edit it");
+		}
+
+		const versions = await ctx.db
+			.query("quiz_versions")
+			.withIndex("by_quiz_version", (q) => q.eq("quizId", quiz._id))
+			.order("desc")
+			.collect();
+
+		return {
+			...quiz,
+			questions: await getQuizQuestions(ctx, quiz),
+			version: quiz.version ?? 1,
+			versions: versions.map((version) => ({
+				version: version.version,
+				questionCount: version.questions.length,
+				replacedAt: version._creationTime,
+			})),
+		};
+	},
+});
+
+/**
+ * Throws when a multiplayer room is playing the quiz, since swapping questions
+ * in the middle of a game would break it. Quizzes other than the edited one
+ * are named, as they only share the edited questions.
+ */
+const assertNoLiveRoom = async (
+	ctx: MutationCtx,
+	quiz: Doc<"quizzes">,
+	editedQuizId: Id<"quizzes">,
+) => {
+	const liveRoom = await ctx.db
+		.query("multiplayer_rooms")
+		.withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+		.filter((q) => q.neq(q.field("status"), "finished"))
+		.first();
+	if (!liveRoom) {
+		return;
+	}
+	throw new Error(
+		quiz._id === editedQuizId
+			? "Cannot edit questions while a multiplayer room is using this quiz"
+			: `Cannot edit questions also in the quiz "${quiz.title}" while a multiplayer room is using it`,
+	);
+};
+
+/**
+ * Archives the current questions of a quiz in `quiz_versions` and bumps its
+ * version, so attempts keep being graded and reviewed against the questions
+ * they were started on.
+ *
+ * @returns The new version of the quiz.
+ */
+const archiveQuizVersion = async (
+	ctx: MutationCtx,
+	quiz: Doc<"quizzes">,
+	questions: QuizQuestion[],
+	editedBy: Id<"users">,
+) => {
+	const currentVersion = quiz.version ?? 1;
+	await ctx.db.insert("quiz_versions", {
+		quizId: quiz._id,
+		version: currentVersion,
+		questions,
+		editedBy,
+	});
+	await ctx.db.patch(quiz._id, { version: currentVersion + 1 });
+
+	return currentVersion + 1;
+};
+
+/**
+ * Saves the owner's edits to a quiz. When the questions change, the previous
+ * question set is archived in `quiz_versions` and the quiz version is bumped.
+ * Changed questions are updated in the owner's bank, so the owner's other
+ * quizzes including them get the edit too and are archived the same way.
+ * `sourceIndexes` hold the index each question had before the edit and are
+ * used to keep bank questions along with reordering.
+ */
+export const updateQuiz = mutation({
+	args: {
+		quizId: vv.id("quizzes"),
+		title: v.string(),
+		description: v.string(),
+		questions: v.array(quizQuestionValidator),
+		// The index each question had before the edit, null for new questions
+		sourceIndexes: v.array(v.union(v.number(), v.null())),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		if (quiz.createdBy !== user._id) {
+			throw new Error("Unauthorized: Only the quiz owner can edit it");
+		}
+
+		const title = args.title.trim();
+		if (!title) {
+			throw new Error("Quiz title is required");
+		}
+
+		if (args.questions.length === 0) {
+			throw new Error("A quiz needs at least one question");
+		}
+
+		if (args.sourceIndexes.length !== args.questions.length) {
+			throw new Error("Every question needs a source index");
+		}
+		const sourceIndexes = args.sourceIndexes.map(
+			(sourceIndex) => sourceIndex ?? undefined,
+		);
+
+		const questions = args.questions.map(trimQuestion);
+		questions.forEach(assertValidQuestion);
+
+		const description = args.description.trim();
+		const detailsPatch = {
+			title,
+			description,
+			searchText: buildQuizSearchText(title, description),
+		};
+
+		const previousQuestions = await getQuizQuestions(ctx, quiz);
+		const isQuestionSetChanged =
+			questions.length !== previousQuestions.length ||
+			questions.some(
+				(question, index) =>
+					!isSameQuestion(question, previousQuestions[index]),
+			);
+		if (!isQuestionSetChanged) {
+			await ctx.db.patch(quiz._id, detailsPatch);
+			return { version: quiz.version ?? 1 };
+		}
+
+		await assertNoLiveRoom(ctx, quiz, quiz._id);
+		const version = await archiveQuizVersion(
+			ctx,
+			quiz,
+			previousQuestions,
+			user._id,
+		);
+		const { questionIds, edits } = await syncEditedQuizQuestions(
+			ctx,
+			quiz,
+			previousQuestions,
+			questions,
+			sourceIndexes,
+		);
+		await ctx.db.patch(quiz._id, {
+			...detailsPatch,
+			questionIds,
+			// Quizzes edited before being migrated to the bank are linked now
+			questions: undefined,
+		});
+
+		// Archive the other quizzes sharing the changed questions before the
+		// bank edit reaches them, once none of them is being played
+		const sharingQuizzes = (
+			await getQuizzesIncludingQuestions(
+				ctx,
+				quiz.createdBy,
+				edits.map((edit) => edit.questionId),
+			)
+		).filter((sharingQuiz) => sharingQuiz._id !== quiz._id);
+		for (const sharingQuiz of sharingQuizzes) {
+			await assertNoLiveRoom(ctx, sharingQuiz, quiz._id);
+		}
+		for (const sharingQuiz of sharingQuizzes) {
+			await archiveQuizVersion(
+				ctx,
+				sharingQuiz,
+				await getQuizQuestions(ctx, sharingQuiz),
+				user._id,
+			);
+		}
+		await updateBankQuestions(ctx, edits);
+
+		// Drop review cards of deleted questions. Cards still keyed on their
+		// question index are moved onto the question ID while it's known.
+		const newIndexBySource = new Map(
+			sourceIndexes.flatMap((sourceIndex, index) =>
+				sourceIndex === undefined ? [] : [[sourceIndex, index] as const],
+			),
+		);
+		const reviewCards = await ctx.db
+			.query("review_cards")
+			.withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+			.collect();
+		for (const card of reviewCards) {
+			const newIndex =
+				card.questionIndex === undefined
+					? undefined
+					: newIndexBySource.get(card.questionIndex);
+			const questionId =
+				card.questionId ??
+				(newIndex === undefined ? undefined : questionIds[newIndex]);
+			if (!questionId || !questionIds.includes(questionId)) {
+				await ctx.db.delete(card._id);
+			} else if (!card.questionId) {
+				await ctx.db.patch(card._id, {
+					questionId,
+					questionIndex: undefined,
+				});
+			}
+		}
+
+		return { version };
+	},
+});
@@ -0,0 +1,182 @@
+import { strFromU8, unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+import type { QuizQuestion } from "./question_types";
+import { canExportQuestion, exportQuiz } from "./quiz_export";
+import { parseQuizImport } from "./quiz_import";
+
+// Questions that GIFT and Moodle XML can both export and import back
+const roundTripQuestions: QuizQuestion[] = [
+	{
+		questionType: "multiple_choice",
+		question: "Ibu kota Indonesia adalah?",
+		options: ["Bandung", "Jakarta", "Surabaya", "Medan"],
+		correctOptionIndex: 1,
+		explanation: "Jakarta adalah ibu kota Indonesia.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "true_false",
+		question: "Air mendidih pada 100 derajat Celsius di permukaan laut.",
+		options: ["Benar", "Salah"],
+		correctOptionIndex: 0,
+		explanation: "Pada tekanan 1 atm, titik didih air 100 °C.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "multiple_select",
+		question: "Manakah yang termasuk bilangan prima?",
+		options: ["2", "4", "5", "9"],
+		correctOptionIndexes: [0, 2],
+		explanation: "2 dan 5 hanya habis dibagi 1 dan dirinya sendiri.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "multiple_choice",
+		question: 'Simbol {kurung}, "kutip" & <tag> = ~tilde: tetap utuh?',
+		options: ["Ya #1", "Tidak \\ 2"],
+		correctOptionIndex: 0,
+		explanation: "Karakter khusus harus di-escape.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "short_answer",
+		question: "Sebutkan planet terbesar di tata surya.",
+		acceptedAnswers: ["Jupiter", "Yupiter"],
+		explanation: "Jupiter adalah planet terbesar.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "fill_in_blank",
+		question: "Proses ___ terjadi di kloroplas.",
+		blanks: [["fotosintesis", "fotosintesa"]],
+		explanation: "Kloroplas mengandung klorofil.",
+		difficulty: "medium",
+	},
+	{
+		questionType: "matching",
+		question: "Jodohkan negara dengan ibu kotanya.",
+		pairs: [
+			{ left: "Jepang", right: "Tokyo" },
+			{ left: "Mesir", right: "Kairo" },
+			{ left: "Peru", right: "Lima" },
+		],
+		explanation: "",
+		difficulty: "medium",
+	},
+];
+
+const fixtureQuiz = {
+	title: "Kuis Uji",
+	description: "Fixture untuk uji ekspor",
+	questions: roundTripQuestions,
+};
+
+const getImportedQuestions = (content: string, format: "gift" | "moodle_xml") =>
+	parseQuizImport(content, format).map((imported) => {
+		expect(imported.issues).toEqual([]);
+		return imported.question;
+	});
+
+describe("quiz export round trip", () => {
+	it("imports the GIFT export back to the same questions", () => {
+		const file = exportQuiz(fixtureQuiz, "gift");
+		expect(file.skippedCount).toBe(0);
+		expect(getImportedQuestions(file.data as string, "gift")).toEqual(
+			roundTripQuestions,
+		);
+	});
+
+	it("imports the Moodle XML export back to the same questions", () => {
+		const file = exportQuiz(fixtureQuiz, "moodle_xml");
+		expect(file.skippedCount).toBe(0);
+		expect(getImportedQuestions(file.data as string, "moodle_xml")).toEqual(
+			roundTripQuestions,
+		);
+	});
+
+	it("packages one QTI item per question with its correct response", () => {
+		const file = exportQuiz(fixtureQuiz, "qti");
+		const files = unzipSync(file.data as Uint8Array);
+		const manifest = strFromU8(files["imsmanifest.xml"]);
+
+		roundTripQuestions.forEach((question, index) => {
+			const href = `items/item-${index + 1}.xml`;
+			expect(manifest).toContain(`href="${href}"`);
+			const item = strFromU8(files[href]);
+			const correct =
+				question.questionType === "multiple_select"
+					? question.correctOptionIndexes
+					: "correctOptionIndex" in question
+						? [question.correctOptionIndex]
+						: [];
+			for (const optionIndex of correct) {
+				expect(item).toContain(`<value>choice-${optionIndex}</value>`);
+			}
+		});
+	});
+});
+
+describe("Kahoot export", () => {
+	const readRows = (questions: QuizQuestion[]) => {
+		const file = exportQuiz({ ...fixtureQuiz, questions }, "kahoot_csv");
+		const [, ...rows] = parseCsv(file.data as string);
+		return { rows, skippedCount: file.skippedCount };
+	};
+
+	it("writes the correct answers as their column numbers", () => {
+		const { rows } = readRows(roundTripQuestions);
+		// Only choice questions can be played on Kahoot
+		expect(rows.map((row) => row[6])).toEqual(["2", "1", "1,3", "1"]);
+	});
+
+	it("points at the right option when two options share a text", () => {
+		const { rows } = readRows([
+			{
+				questionType: "multiple_choice",
+				question: "Pilih jawaban kedua",
+				options: ["Sama", "Sama", "Beda"],
+				correctOptionIndex: 1,
+				explanation: "",
+				difficulty: "easy",
+			},
+		]);
+		expect(rows[0][6]).toBe("2");
+	});
+
+	it("keeps the correct options when dropping extra ones, in their order", () => {
+		const { rows } = readRows([
+			{
+				questionType: "multiple_choice",
+				question: "Huruf terakhir?",
+				options: ["A", "B", "C", "D", "E", "F"],
+				correctOptionIndex: 5,
+				explanation: "",
+				difficulty: "easy",
+			},
+		]);
+		expect(rows[0].slice(1, 5)).toEqual(["A", "B", "C", "F"]);
+		expect(rows[0][6]).toBe("4");
+	});
+
+	it("skips questions and answers over Kahoot's length limits", () => {
+		const longQuestion: QuizQuestion = {
+			questionType: "multiple_choice",
+			question: "x".repeat(121),
+			options: ["A", "B"],
+			correctOptionIndex: 0,
+			explanation: "",
+			difficulty: "easy",
+		};
+		const longAnswer: QuizQuestion = {
+			...longQuestion,
+			question: "Jawaban panjang?",
+			options: ["y".repeat(76), "B"],
+		};
+		expect(canExportQuestion(longQuestion, "kahoot_csv")).toBe(false);
+		expect(canExportQuestion(longAnswer, "kahoot_csv")).toBe(false);
+		expect(
+			readRows([longQuestion, longAnswer, roundTripQuestions[0]]),
+		).toMatchObject({ rows: [expect.any(Array)], skippedCount: 2 });
+	});
+});
@@ -0,0 +1,631 @@
+import { strToU8, zipSync } from "fflate";
+import { toCsv } from "./csv";
+import {
+	BLANK_PATTERN,
+	type QuizQuestion,
+	isChoiceQuestion,
+} from "./question_types";
+
+export type QuizExportFormat = "moodle_xml" | "gift" | "qti" | "kahoot_csv";
+
+interface ExportableQuiz {
+	title: string;
+	description: string;
+	questions: QuizQuestion[];
+}
+type ExportableQuestion = QuizQuestion;
+
+export interface ExportedQuizFile {
+	filename: string;
+	mimeType: string;
+	data: string | Uint8Array;
+	// Questions left out because the format can't represent their type
+	skippedCount: number;
+}
+
+export const TRUE_LABELS = ["true", "benar", "betul", "ya"];
+export const FALSE_LABELS = ["false", "salah", "tidak"];
+
+// Kahoot spreadsheets only allow four answers and a fixed set of time limits
+const KAHOOT_MAX_ANSWERS = 4;
+const KAHOOT_TIME_LIMIT_SECONDS = 20;
+// Kahoot rejects spreadsheets with longer questions or answers
+const KAHOOT_MAX_QUESTION_LENGTH = 120;
+const KAHOOT_MAX_ANSWER_LENGTH = 75;
+
+/**
+ * Returns the answer of a true/false question as a boolean, or null when its
+ * options aren't recognizable true/false labels (it's then exported as a
+ * multiple choice question).
+ */
+export const getTrueFalseAnswer = (question: ExportableQuestion) => {
+	if (question.questionType !== "true_false" || question.options.length !== 2) {
+		return null;
+	}
+	const correct = question.options[question.correctOptionIndex]
+		?.trim()
+		.toLowerCase();
+	if (TRUE_LABELS.includes(correct)) {
+		return true;
+	}
+	if (FALSE_LABELS.includes(correct)) {
+		return false;
+	}
+	return null;
+};
+
+const escapeXml = (text: string) =>
+	text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+
+const cdata = (text: string) =>
+	`<![CDATA[${text.replaceAll("]]>", "]]]]><![CDATA[>")}]]>`;
+
+// Questions are plain text, so they're escaped for the HTML fields of Moodle
+const toHtml = (text: string) => escapeXml(text).replaceAll("\n", "<br>");
+
+// Characters with a meaning in GIFT must be escaped with a backslash
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, "\\$1");
+
+const toFileSlug = (title: string) =>
+	title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "") || "quiz";
+
+// Moodle only accepts some fractions, 100 / n with up to 5 decimals is one
+const toMoodleFraction = (count: number) =>
+	Number((100 / count).toFixed(5)).toString();
+
+// Characters with a meaning in Moodle cloze answers must be escaped too
+const escapeCloze = (text: string) => text.replace(/([}#~/"\\])/g, "\\$1");
+
+const toMoodleQuestion = (
+	question: ExportableQuestion,
+	name: string,
+): string | null => {
+	const header = `    <name><text>${escapeXml(name)}</text></name>
+    <questiontext format="html"><text>${cdata(toHtml(question.question))}</text></questiontext>
+    <generalfeedback format="html"><text>${cdata(toHtml(question.explanation))}</text></generalfeedback>
+    <defaultgrade>1</defaultgrade>`;
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false": {
+			const trueFalseAnswer = getTrueFalseAnswer(question);
+			if (trueFalseAnswer !== null) {
+				return `  <question type="truefalse">
+${header}
+    <answer fraction="${trueFalseAnswer ? 100 : 0}" format="moodle_auto_format"><text>true</text></answer>
+    <answer fraction="${trueFalseAnswer ? 0 : 100}" format="moodle_auto_format"><text>false</text></answer>
+  </question>`;
+			}
+			const answers = question.options
+				.map(
+					(option, optionIndex) =>
+						`    <answer fraction="${optionIndex === question.correctOptionIndex ? 100 : 0}" format="html"><text>${cdata(toHtml(option))}</text></answer>`,
+				)
+				.join("\n");
+			return `  <question type="multichoice">
+${header}
+    <single>true</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>
+${answers}
+  </question>`;
+		}
+		case "multiple_select": {
+			// Wrong options cancel out correct ones, like our all-or-nothing grading
+			const fraction = toMoodleFraction(question.correctOptionIndexes.length);
+			const answers = question.options
+				.map(
+					(option, optionIndex) =>
+						`    <answer fraction="${question.correctOptionIndexes.includes(optionIndex) ? fraction : `-${fraction}`}" format="html"><text>${cdata(toHtml(option))}</text></answer>`,
+				)
+				.join("\n");
+			return `  <question type="multichoice">
+${header}
+    <single>false</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>
+${answers}
+  </question>`;
+		}
+		case "short_answer": {
+			const answers = question.acceptedAnswers
+				.map(
+					(answer) =>
+						`    <answer fraction="100" format="moodle_auto_format"><text>${escapeXml(answer)}</text></answer>`,
+				)
+				.join("\n");
+			return `  <question type="shortanswer">
+${header}
+    <usecase>0</usecase>
+${answers}
+  </question>`;
+		}
+		case "fill_in_blank": {
+			let blankIndex = 0;
+			const text = toHtml(question.question).replace(BLANK_PATTERN, () => {
+				const answers = question.blanks[blankIndex++] ?? [];
+				return `{1:SHORTANSWER:${answers.map((answer) => `=${escapeCloze(answer)}`).join("~")}}`;
+			});
+			return `  <question type="cloze">
+    <name><text>${escapeXml(name)}</text></name>
+    <questiontext format="html"><text>${cdata(text)}</text></questiontext>
+    <generalfeedback format="html"><text>${cdata(toHtml(question.explanation))}</text></generalfeedback>
+  </question>`;
+		}
+		case "matching": {
+			const subquestions = question.pairs
+				.map(
+					(pair) => `    <subquestion format="html">
+      <text>${cdata(toHtml(pair.left))}</text>
+      <answer><text>${escapeXml(pair.right)}</text></answer>
+    </subquestion>`,
+				)
+				.join("\n");
+			return `  <question type="matching">
+${header}
+    <shuffleanswers>true</shuffleanswers>
+${subquestions}
+  </question>`;
+		}
+		case "ordering":
+			// Ordering questions need a Moodle plugin, so they aren't exported
+			return null;
+	}
+};
+
+/**
+ * Serializes a quiz to Moodle XML, importable through the question bank of any
+ * Moodle course. The quiz title becomes the question category.
+ */
+export const toMoodleXml = (quiz: ExportableQuiz) => {
+	const questions = quiz.questions.flatMap(
+		(question, index) =>
+			toMoodleQuestion(question, `${quiz.title} ${index + 1}`) ?? [],
+	);
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>${escapeXml(`$course$/${quiz.title}`)}</text></category>
+  </question>
+${questions.join("\n")}
+</quiz>
+`;
+};
+
+const toGiftAnswers = (question: ExportableQuestion): string[] | null => {
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false": {
+			const trueFalseAnswer = getTrueFalseAnswer(question);
+			if (trueFalseAnswer !== null) {
+				return [trueFalseAnswer ? "TRUE" : "FALSE"];
+			}
+			return question.options.map(
+				(option, optionIndex) =>
+					`${optionIndex === question.correctOptionIndex ? "=" : "~"}${escapeGift(option)}`,
+			);
+		}
+		case "multiple_select": {
+			const fraction = toMoodleFraction(question.correctOptionIndexes.length);
+			return question.options.map(
+				(option, optionIndex) =>
+					`~%${question.correctOptionIndexes.includes(optionIndex) ? fraction : `-${fraction}`}%${escapeGift(option)}`,
+			);
+		}
+		case "short_answer":
+			return question.acceptedAnswers.map((answer) => `=${escapeGift(answer)}`);
+		case "fill_in_blank":
+			// GIFT has room for a single blank per question
+			return question.blanks.length === 1
+				? question.blanks[0].map((answer) => `=${escapeGift(answer)}`)
+				: null;
+		case "matching":
+			return question.pairs.map(
+				(pair) => `=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`,
+			);
+		case "ordering":
+			return null;
+	}
+};
+
+/**
+ * Serializes a quiz to GIFT, the plain text question format of Moodle.
+ */
+export const toGift = (quiz: ExportableQuiz) => {
+	const questions = quiz.questions.flatMap((question, index) => {
+		const answers = toGiftAnswers(question);
+		if (!answers) {
+			return [];
+		}
+
+		const title = `::${escapeGift(`${quiz.title} ${index + 1}`)}::`;
+		const explanation = question.explanation
+			? `####${escapeGift(question.explanation)}`
+			: "";
+
+		if (getTrueFalseAnswer(question) !== null) {
+			return `${title}${escapeGift(question.question)} {${answers[0]}${explanation}}`;
+		}
+
+		const block = `{\n${answers.map((answer) => `\t${answer}`).join("\n")}${explanation ? `\n\t${explanation}` : ""}\n}`;
+		if (question.questionType === "fill_in_blank") {
+			const [before, ...after] = question.question.split(BLANK_PATTERN);
+			return `${title}${escapeGift(before)}${block}${escapeGift(after.join(""))}`;
+		}
+		return `${title}${escapeGift(question.question)} ${block}`;
+	});
+
+	return `// ${quiz.title}\n\n${questions.join("\n\n")}\n`;
+};
+
+const toQtiChoices = (options: string[], tag: string, indent: string) =>
+	options
+		.map(
+			(option, optionIndex) =>
+				`${indent}<${tag} identifier="choice-${optionIndex}">${escapeXml(option)}</${tag}>`,
+		)
+		.join("\n");
+
+// Accepted answers of a text entry, matched without regard to case
+const toQtiTextMapping = (answers: string[]) =>
+	`    <mapping defaultValue="0">
+${answers
+	.map(
+		(answer) =>
+			`      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`,
+	)
+	.join("\n")}
+    </mapping>`;
+
+interface QtiInteraction {
+	// Response declarations and the conditions for each response to be right
+	responses: { declaration: string; condition: string }[];
+	body: string;
+}
+
+const matchCondition = (identifier: string) =>
+	`<match><variable identifier="${identifier}"/><correct identifier="${identifier}"/></match>`;
+
+const mapCondition = (identifier: string) =>
+	`<gte><mapResponse identifier="${identifier}"/><baseValue baseType="float">1</baseValue></gte>`;
+
+const toQtiInteraction = (question: ExportableQuestion): QtiInteraction => {
+	const prompt = `      <prompt>${escapeXml(question.question)}</prompt>`;
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+		case "multiple_select": {
+			const correct =
+				question.questionType === "multiple_select"
+					? question.correctOptionIndexes
+					: [question.correctOptionIndex];
+			const cardinality =
+				question.questionType === "multiple_select" ? "multiple" : "single";
+			return {
+				responses: [
+					{
+						declaration: `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">
+    <correctResponse>
+${correct.map((index) => `      <value>choice-${index}</value>`).join("\n")}
+    </correctResponse>
+  </responseDeclaration>`,
+						condition: matchCondition("RESPONSE"),
+					},
+				],
+				body: `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${cardinality === "single" ? 1 : 0}">
+${prompt}
+${toQtiChoices(question.options, "simpleChoice", "      ")}
+    </choiceInteraction>`,
+			};
+		}
+		case "short_answer":
+			return {
+				responses: [
+					{
+						declaration: `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse>
+      <value>${escapeXml(question.acceptedAnswers[0] ?? "")}</value>
+    </correctResponse>
+${toQtiTextMapping(question.acceptedAnswers)}
+  </responseDeclaration>`,
+						condition: mapCondition("RESPONSE"),
+					},
+				],
+				body: `    <p>${escapeXml(question.question)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>`,
+			};
+		case "fill_in_blank": {
+			const parts = question.question.split(BLANK_PATTERN);
+			return {
+				responses: question.blanks.map((answers, index) => ({
+					declaration: `  <responseDeclaration identifier="RESPONSE-${index + 1}" cardinality="single" baseType="string">
+    <correctResponse>
+      <value>${escapeXml(answers[0] ?? "")}</value>
+    </correctResponse>
+${toQtiTextMapping(answers)}
+  </responseDeclaration>`,
+					condition: mapCondition(`RESPONSE-${index + 1}`),
+				})),
+				body: `    <p>${parts
+					.map((part, index) =>
+						index === 0
+							? escapeXml(part)
+							: `<textEntryInteraction responseIdentifier="RESPONSE-${index}" expectedLength="15"/>${escapeXml(part)}`,
+					)
+					.join("")}</p>`,
+			};
+		}
+		case "ordering":
+			return {
+				responses: [
+					{
+						declaration: `  <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">
+    <correctResponse>
+${question.items.map((_, index) => `      <value>choice-${index}</value>`).join("\n")}
+    </correctResponse>
+  </responseDeclaration>`,
+						condition: matchCondition("RESPONSE"),
+					},
+				],
+				body: `    <orderInteraction responseIdentifier="RESPONSE" shuffle="true">
+${prompt}
+${toQtiChoices(question.items, "simpleChoice", "      ")}
+    </orderInteraction>`,
+			};
+		case "matching":
+			return {
+				responses: [
+					{
+						declaration: `  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">
+    <correctResponse>
+${question.pairs.map((_, index) => `      <value>left-${index} right-${index}</value>`).join("\n")}
+    </correctResponse>
+  </responseDeclaration>`,
+						condition: matchCondition("RESPONSE"),
+					},
+				],
+				body: `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${question.pairs.length}">
+${prompt}
+      <simpleMatchSet>
+${question.pairs
+	.map(
+		(pair, index) =>
+			`        <simpleAssociableChoice identifier="left-${index}" matchMax="1">${escapeXml(pair.left)}</simpleAssociableChoice>`,
+	)
+	.join("\n")}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${question.pairs
+	.map(
+		(pair, index) =>
+			`        <simpleAssociableChoice identifier="right-${index}" matchMax="1">${escapeXml(pair.right)}</simpleAssociableChoice>`,
+	)
+	.join("\n")}
+      </simpleMatchSet>
+    </matchInteraction>`,
+			};
+	}
+};
+
+const toQtiItem = (question: ExportableQuestion, identifier: string) => {
+	const { responses, body } = toQtiInteraction(question);
+	const conditions = responses.map((response) => response.condition);
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${identifier}" title="${escapeXml(question.question.slice(0, 80))}" adaptive="false" timeDependent="false">
+${responses.map((response) => response.declaration).join("\n")}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+${body}
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${conditions.length === 1 ? conditions[0] : `<and>${conditions.join("")}</and>`}
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">1</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK">
+      <baseValue baseType="identifier">EXPLANATION</baseValue>
+    </setOutcomeValue>
+  </responseProcessing>
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(question.explanation)}</modalFeedback>
+</assessmentItem>
+`;
+};
+
+/**
+ * Serializes a quiz to an IMS QTI 2.1 content package: a zip with one
+ * assessment item per question and the manifest listing them.
+ */
+export const toQtiPackage = (quiz: ExportableQuiz) => {
+	const items = quiz.questions.map((question, index) => {
+		const identifier = `item-${index + 1}`;
+		return {
+			identifier,
+			href: `items/${identifier}.xml`,
+			xml: toQtiItem(question, identifier),
+		};
+	});
+
+	const resources = items
+		.map(
+			(
+				item,
+			) => `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">
+      <file href="${item.href}"/>
+    </resource>`,
+		)
+		.join("\n");
+
+	const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"
+  identifier="manifest-${toFileSlug(quiz.title)}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+
+	return zipSync({
+		"imsmanifest.xml": strToU8(manifest),
+		...Object.fromEntries(items.map((item) => [item.href, strToU8(item.xml)])),
+	});
+};
+
+const KAHOOT_COLUMNS = [
+	"Question - max 120 characters",
+	"Answer 1 - max 75 characters",
+	"Answer 2 - max 75 characters",
+	"Answer 3 - max 75 characters",
+	"Answer 4 - max 75 characters",
+	"Time limit (sec) – 5, 10, 20, 30, 60, 90, 120, or 240 secs",
+	"Correct answer(s) - choose at least one",
+] as const;
+
+/**
+ * Turns a question into a row of the Kahoot spreadsheet template, or null when
+ * Kahoot can't play it: only choice questions with at most four correct
+ * options that fit Kahoot's length limits can be exported. Kahoot allows at
+ * most four answers, so extra wrong options are dropped.
+ */
+const toKahootRow = (question: ExportableQuestion) => {
+	if (
+		!isChoiceQuestion(question) ||
+		question.question.length > KAHOOT_MAX_QUESTION_LENGTH
+	) {
+		return null;
+	}
+	const correctIndexes =
+		question.questionType === "multiple_select"
+			? question.correctOptionIndexes
+			: [question.correctOptionIndex];
+	if (correctIndexes.length > KAHOOT_MAX_ANSWERS) {
+		return null;
+	}
+
+	// Correct answers are referred to by position, as options may share a text
+	const answerIndexes = question.options
+		.map((_, optionIndex) => optionIndex)
+		.filter((optionIndex) => !correctIndexes.includes(optionIndex))
+		.slice(0, KAHOOT_MAX_ANSWERS - correctIndexes.length)
+		.concat(correctIndexes)
+		.sort((a, b) => a - b);
+	const answers = answerIndexes.map(
+		(optionIndex) => question.options[optionIndex],
+	);
+	if (answers.some((answer) => answer.length > KAHOOT_MAX_ANSWER_LENGTH)) {
+		return null;
+	}
+
+	return {
+		[KAHOOT_COLUMNS[0]]: question.question,
+		[KAHOOT_COLUMNS[1]]: answers[0],
+		[KAHOOT_COLUMNS[2]]: answers[1],
+		[KAHOOT_COLUMNS[3]]: answers[2],
+		[KAHOOT_COLUMNS[4]]: answers[3],
+		[KAHOOT_COLUMNS[5]]: KAHOOT_TIME_LIMIT_SECONDS,
+		[KAHOOT_COLUMNS[6]]: correctIndexes
+			.map((optionIndex) => answerIndexes.indexOf(optionIndex) + 1)
+			.sort((a, b) => a - b)
+			.join(","),
+	};
+};
+
+/**
+ * Serializes a quiz to the columns of the Kahoot spreadsheet template,
+ * leaving out the questions Kahoot can't play.
+ */
+export const toKahootCsv = (quiz: ExportableQuiz) =>
+	toCsv(
+		KAHOOT_COLUMNS,
+		quiz.questions.flatMap((question) => toKahootRow(question) ?? []),
+	);
+
+/**
+ * Whether a question can be represented in an export format. Ordering
+ * questions need a plugin in Moodle, GIFT only fits a single blank and Kahoot
+ * only plays short enough choice questions.
+ */
+export const canExportQuestion = (
+	question: ExportableQuestion,
+	format: QuizExportFormat,
+) => {
+	switch (format) {
+		case "moodle_xml":
+			return question.questionType !== "ordering";
+		case "gift":
+			return toGiftAnswers(question) !== null;
+		case "qti":
+			return true;
+		case "kahoot_csv":
+			return toKahootRow(question) !== null;
+	}
+};
+
+/**
+ * Exports a quiz to one of the supported LMS formats.
+ */
+export const exportQuiz = (
+	quiz: ExportableQuiz,
+	format: QuizExportFormat,
+): ExportedQuizFile => {
+	const slug = toFileSlug(quiz.title);
+	const skippedCount = quiz.questions.filter(
+		(question) => !canExportQuestion(question, format),
+	).length;
+	switch (format) {
+		case "moodle_xml":
+			return {
+				filename: `${slug}.moodle.xml`,
+				mimeType: "application/xml",
+				data: toMoodleXml(quiz),
+				skippedCount,
+			};
+		case "gift":
+			return {
+				filename: `${slug}.gift.txt`,
+				mimeType: "text/plain",
+				data: toGift(quiz),
+				skippedCount,
+			};
+		case "qti":
+			return {
+				filename: `${slug}.qti.zip`,
+				mimeType: "application/zip",
+				data: toQtiPackage(quiz),
+				skippedCount,
+			};
+		case "kahoot_csv":
+			return {
+				filename: `${slug}.kahoot.csv`,
+				mimeType: "text/csv",
+				data: toKahootCsv(quiz),
+				skippedCount,
+			};
+	}
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseQuizImport } from "./quiz_import";
+
+describe("parseQuizImport", () => {
+	it("keeps only the full marks answers of GIFT short answers", () => {
+		const [imported] = parseQuizImport(
+			"::Q1:: Siapa penemu telepon? {=Alexander Graham Bell =%50%Bell =Graham Bell}",
+			"gift",
+		);
+		expect(imported.question).toMatchObject({
+			questionType: "short_answer",
+			acceptedAnswers: ["Alexander Graham Bell", "Graham Bell"],
+		});
+	});
+
+	it("reads GIFT missing word answers as a fill-in-the-blank question", () => {
+		const [imported] = parseQuizImport(
+			"Rumus kimia air adalah {=H2O =H₂O} yang terdiri dari hidrogen dan oksigen.",
+			"gift",
+		);
+		expect(imported.question).toMatchObject({
+			questionType: "fill_in_blank",
+			question:
+				"Rumus kimia air adalah ___ yang terdiri dari hidrogen dan oksigen.",
+			blanks: [["H2O", "H₂O"]],
+		});
+	});
+
+	it("reports cloze questions with choice blanks as unsupported", () => {
+		const [imported] = parseQuizImport(
+			`<quiz><question type="cloze">
+				<questiontext format="html"><text>Ibu kota Prancis adalah {1:MULTICHOICE:=Paris~Lyon}.</text></questiontext>
+			</question></quiz>`,
+			"moodle_xml",
+		);
+		expect(imported.issues).toEqual(["unsupported_type"]);
+	});
+
+	it("flags matching questions with too few pairs", () => {
+		const [imported] = parseQuizImport("Jodohkan. {=Jepang -> Tokyo}", "gift");
+		expect(imported).toMatchObject({
+			question: null,
+			issues: ["invalid_answer_key"],
+		});
+	});
+});
@@ -0,0 +1,628 @@
+import { parseCsv } from "./csv";
+import {
+	MAX_OPTIONS,
+	MIN_OPTIONS,
+	type QuizQuestion,
+	getQuestionProblem,
+	trimQuestion,
+} from "./question_types";
+import { FALSE_LABELS, TRUE_LABELS } from "./quiz_export";
+
+export type QuizImportFormat = "gift" | "moodle_xml" | "csv" | "aiken";
+
+export type ImportIssue =
+	| "unsupported_type"
+	| "missing_question"
+	| "too_few_options"
+	| "too_many_options"
+	| "empty_option"
+	| "missing_answer"
+	| "invalid_answer_key";
+
+export interface ImportedQuestion {
+	// 1-based position of the question in the file
+	number: number;
+	text: string;
+	// Only set when the question has no issues
+	question: QuizQuestion | null;
+	issues: ImportIssue[];
+}
+
+// The answer key of the question types answered without options
+type RawAnswerKey =
+	| { questionType: "short_answer"; acceptedAnswers: string[] }
+	| { questionType: "fill_in_blank"; blanks: string[][] }
+	| { questionType: "matching"; pairs: { left: string; right: string }[] };
+
+// A question as read from the file, before it is validated. Questions with an
+// `answerKey` have no options.
+interface RawQuestion {
+	question: string;
+	options: string[];
+	correctOptionIndexes: number[];
+	answerKey?: RawAnswerKey;
+	explanation?: string;
+	difficulty?: QuizQuestion["difficulty"];
+	questionType?: "multiple_choice" | "true_false";
+	unsupported?: boolean;
+}
+
+// How a blank is written in the question text of fill-in-the-blank questions
+const BLANK = "___";
+
+const OPTION_LETTERS = "ABCDEF";
+
+const TRUE_FALSE_OPTIONS = ["Benar", "Salah"];
+
+const DIFFICULTY_ALIASES: Record<string, QuizQuestion["difficulty"]> = {
+	easy: "easy",
+	mudah: "easy",
+	medium: "medium",
+	sedang: "medium",
+	hard: "hard",
+	sulit: "hard",
+};
+
+const isTrueFalseOptions = (options: string[]) => {
+	const labels = options.map((option) => option.trim().toLowerCase());
+	return (
+		labels.length === 2 &&
+		labels.some((label) => TRUE_LABELS.includes(label)) &&
+		labels.some((label) => FALSE_LABELS.includes(label))
+	);
+};
+
+const toQuizQuestion = (raw: RawQuestion): QuizQuestion => {
+	const options = raw.options.map((option) => option.trim());
+	const base = {
+		question: raw.question.trim(),
+		explanation: raw.explanation?.trim() ?? "",
+		difficulty: raw.difficulty ?? "medium",
+	};
+	if (raw.answerKey) {
+		return trimQuestion({ ...base, ...raw.answerKey });
+	}
+	if (raw.correctOptionIndexes.length > 1) {
+		return {
+			...base,
+			questionType: "multiple_select",
+			options,
+			correctOptionIndexes: raw.correctOptionIndexes,
+		};
+	}
+	return {
+		...base,
+		questionType:
+			raw.questionType ??
+			(isTrueFalseOptions(options) ? "true_false" : "multiple_choice"),
+		options,
+		correctOptionIndex: raw.correctOptionIndexes[0],
+	};
+};
+
+const getQuestionIssues = (raw: RawQuestion): ImportIssue[] => {
+	if (raw.unsupported) {
+		return ["unsupported_type"];
+	}
+
+	const issues: ImportIssue[] = [];
+	if (!raw.question.trim()) {
+		issues.push("missing_question");
+	}
+	if (raw.answerKey) {
+		if (issues.length === 0 && getQuestionProblem(toQuizQuestion(raw))) {
+			issues.push("invalid_answer_key");
+		}
+		return issues;
+	}
+	if (raw.options.length < MIN_OPTIONS) {
+		issues.push("too_few_options");
+	}
+	if (raw.options.length > MAX_OPTIONS) {
+		issues.push("too_many_options");
+	}
+	if (raw.options.some((option) => !option.trim())) {
+		issues.push("empty_option");
+	}
+	if (raw.correctOptionIndexes.length === 0) {
+		issues.push("missing_answer");
+	}
+	return issues;
+};
+
+const toImportedQuestion = (
+	raw: RawQuestion,
+	index: number,
+): ImportedQuestion => {
+	const issues = getQuestionIssues(raw);
+	return {
+		number: index + 1,
+		text: raw.question.trim(),
+		question: issues.length > 0 ? null : toQuizQuestion(raw),
+		issues,
+	};
+};
+
+/**
+ * Finds the correct options from their grade weights (in percent). Options
+ * worth full marks are correct; without any, every option worth partial marks
+ * is. More than one correct option makes a multiple select question.
+ */
+const getCorrectOptionIndexes = (weights: number[]) => {
+	const fullMarks = weights.flatMap((weight, index) =>
+		weight >= 100 ? [index] : [],
+	);
+	return fullMarks.length > 0
+		? fullMarks
+		: weights.flatMap((weight, index) => (weight > 0 ? [index] : []));
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+};
+
+const decodeEntities = (text: string) =>
+	text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+		if (name.startsWith("#x") || name.startsWith("#X")) {
+			return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+		}
+		if (name.startsWith("#")) {
+			return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+		}
+		return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+	});
+
+// Questions are stored as plain text, so formatting is reduced to line breaks
+const htmlToText = (html: string) =>
+	decodeEntities(
+		html
+			.replace(/<br\s*\/?>/gi, "\n")
+			.replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+			.replace(/<[^>]+>/g, ""),
+	)
+		.replace(/[ \t]+/g, " ")
+		.replace(/\s*\n\s*/g, "\n")
+		.trim();
+
+// Splits GIFT text on unescaped separators, keeping the escapes in the parts
+const splitUnescaped = (value: string, separator: RegExp) =>
+	value.split(new RegExp(`(?<!\\\\)${separator.source}`));
+
+// Reads GIFT text, dropping the escapes and the optional [format] prefix
+const unescapeGift = (value: string) => {
+	const text = value.trim();
+	const plain = text
+		.replace(/^\[(\w+)\]/, "")
+		.replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char))
+		.trim();
+	return text.startsWith("[html]") ? htmlToText(plain) : plain;
+};
+
+// Splits a GIFT choice into its text and grade weight (in percent), dropping
+// the per answer feedback our question shape has no room for
+const parseGiftChoice = (choice: string) => {
+	const [text] = splitUnescaped(choice.replace(/^[=~](%-?[\d.]+%)?/, ""), /#/);
+	const weight = choice.match(/^[=~]%(-?[\d.]+)%/)?.[1];
+	return {
+		text: unescapeGift(text),
+		weight:
+			weight !== undefined
+				? Number.parseFloat(weight)
+				: choice.startsWith("=")
+					? 100
+					: 0,
+	};
+};
+
+/**
+ * Parses GIFT, the plain text question format of Moodle. Multiple choice,
+ * true/false, missing word, short answer and matching questions are supported
+ * (a short answer with text after its answers becomes a fill-in-the-blank
+ * question); numerical and essay questions are reported as unsupported.
+ */
+export const parseGift = (text: string): RawQuestion[] => {
+	const blocks = text
+		.split(/\r?\n/)
+		.filter((line) => !/^\s*\/\//.test(line) && !/^\s*\$CATEGORY:/.test(line))
+		.join("\n")
+		.split(/\n\s*\n/)
+		.map((block) => block.trim())
+		.filter(Boolean);
+
+	return blocks.map((block): RawQuestion => {
+		const withoutTitle = block.replace(/^::(.*?[^\\])::/s, "");
+		const [before, rest] = splitUnescaped(withoutTitle, /\{/);
+		if (rest === undefined) {
+			// A question without an answer block is a description
+			return {
+				question: unescapeGift(before),
+				options: [],
+				correctOptionIndexes: [],
+				unsupported: true,
+			};
+		}
+		const [answerBlock, after = ""] = splitUnescaped(rest, /\}/);
+		const hasBlank = !!after.trim();
+		const question = hasBlank
+			? `${unescapeGift(before)} ${BLANK} ${unescapeGift(after)}`
+			: unescapeGift(before);
+
+		const [answers, explanation] = splitUnescaped(answerBlock, /####/);
+		const trimmedAnswers = answers.trim();
+		const base = {
+			question,
+			options: [],
+			correctOptionIndexes: [],
+			explanation: explanation && unescapeGift(explanation),
+		};
+
+		const trueFalse = trimmedAnswers.match(/^(TRUE|FALSE|T|F)\b/i);
+		if (trueFalse) {
+			const isTrue = trueFalse[1].toUpperCase().startsWith("T");
+			return {
+				...base,
+				options: TRUE_FALSE_OPTIONS,
+				correctOptionIndexes: [isTrue ? 0 : 1],
+				questionType: "true_false" as const,
+			};
+		}
+
+		const choices = trimmedAnswers
+			.split(/(?<!\\)(?=[=~])/)
+			.map((choice) => choice.trim())
+			.filter(Boolean);
+		if (trimmedAnswers.startsWith("#") || choices.length === 0) {
+			return { ...base, unsupported: true };
+		}
+
+		const pairs = choices.map((choice) =>
+			splitUnescaped(choice.replace(/^=/, ""), /->/),
+		);
+		if (pairs.some((pair) => pair.length === 2)) {
+			return pairs.every((pair) => pair.length === 2) && !hasBlank
+				? {
+						...base,
+						answerKey: {
+							questionType: "matching" as const,
+							pairs: pairs.map(([left, right]) => ({
+								left: unescapeGift(left),
+								right: unescapeGift(right),
+							})),
+						},
+					}
+				: { ...base, unsupported: true };
+		}
+
+		const parsedChoices = choices.map(parseGiftChoice);
+		if (choices.every((choice) => choice.startsWith("="))) {
+			// Only answers worth full marks are accepted
+			const acceptedAnswers = parsedChoices
+				.filter((choice) => choice.weight >= 100)
+				.map((choice) => choice.text);
+			return {
+				...base,
+				answerKey: hasBlank
+					? {
+							questionType: "fill_in_blank" as const,
+							blanks: [acceptedAnswers],
+						}
+					: { questionType: "short_answer" as const, acceptedAnswers },
+			};
+		}
+
+		return {
+			...base,
+			options: parsedChoices.map((choice) => choice.text),
+			correctOptionIndexes: getCorrectOptionIndexes(
+				parsedChoices.map((choice) => choice.weight),
+			),
+		};
+	});
+};
+
+// Reads the text of an XML element, including CDATA sections
+const decodeXmlText = (xml: string) => {
+	let result = "";
+	let last = 0;
+	for (const match of xml.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)) {
+		const index = match.index ?? 0;
+		result += decodeEntities(xml.slice(last, index)) + match[1];
+		last = index + match[0].length;
+	}
+	return result + decodeEntities(xml.slice(last));
+};
+
+const getElement = (xml: string, tag: string) => {
+	const match = xml.match(
+		new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`),
+	);
+	return match ? { attributes: match[1] ?? "", content: match[2] } : null;
+};
+
+// Reads the <text> of a Moodle XML element, converting it from HTML if needed
+const getMoodleText = (
+	element: { attributes: string; content: string } | null,
+) => {
+	if (!element) {
+		return "";
+	}
+	const text = decodeXmlText(
+		getElement(element.content, "text")?.content ?? "",
+	);
+	return /format="(html|moodle_auto_format|markdown)"/.test(element.attributes)
+		? htmlToText(text)
+		: text.trim();
+};
+
+// Embedded answers of Moodle cloze questions, e.g. {1:SHORTANSWER:=Paris~%50%paris}
+const CLOZE_PATTERN = /\{(\d*):(\w+):((?:\\.|[^\\}])*)\}/g;
+
+// Cloze subquestion types that take free text, with and without matching case
+const CLOZE_TEXT_TYPES = ["SHORTANSWER", "SA", "SHORTANSWER_C", "SAC"];
+
+const unescapeCloze = (value: string) => value.replace(/\\(.)/g, "$1").trim();
+
+/**
+ * Turns the question text of a Moodle cloze question into a fill-in-the-blank
+ * question, or null when it embeds anything but short answer blanks (choice
+ * and numerical blanks can't be represented).
+ */
+const parseClozeText = (text: string) => {
+	const blanks: string[][] = [];
+	let isSupported = true;
+	const question = text.replace(CLOZE_PATTERN, (_, _weight, type, body) => {
+		if (!CLOZE_TEXT_TYPES.includes(type.toUpperCase())) {
+			isSupported = false;
+		}
+		blanks.push(
+			splitUnescaped(body, /~/).flatMap((answer) => {
+				// Only answers worth full marks are accepted, feedback is dropped
+				const match = answer.match(/^(?:=|%100%)((?:\\.|[^\\#])*)/);
+				return match ? [unescapeCloze(match[1])] : [];
+			}),
+		);
+		return BLANK;
+	});
+	return isSupported && blanks.length > 0 ? { question, blanks } : null;
+};
+
+/**
+ * Parses a Moodle XML question bank export. Multiple choice, true/false, short
+ * answer, matching and cloze questions with short answer blanks (as
+ * fill-in-the-blank questions) are supported; other question types are
+ * reported as unsupported and categories are skipped.
+ */
+export const parseMoodleXml = (xml: string): RawQuestion[] =>
+	[...xml.matchAll(/<question\s+type="(\w+)"[^>]*>([\s\S]*?)<\/question>/g)]
+		.filter(([, type]) => type !== "category")
+		.map(([, type, body]): RawQuestion => {
+			const question = getMoodleText(getElement(body, "questiontext"));
+			const explanation = getMoodleText(getElement(body, "generalfeedback"));
+			const answers = [
+				...body.matchAll(/<answer(\s[^>]*)>([\s\S]*?)<\/answer>/g),
+			].map(([, attributes, content]) => ({
+				text: getMoodleText({ attributes, content }),
+				fraction: Number.parseFloat(
+					attributes.match(/fraction="(-?[\d.]+)"/)?.[1] ?? "0",
+				),
+			}));
+			const base = {
+				question,
+				options: [],
+				correctOptionIndexes: [],
+				explanation,
+			};
+
+			switch (type) {
+				case "truefalse": {
+					const correct = answers.find((answer) => answer.fraction > 0);
+					return {
+						...base,
+						options: TRUE_FALSE_OPTIONS,
+						correctOptionIndexes: correct
+							? [correct.text.toLowerCase() === "true" ? 0 : 1]
+							: [],
+						questionType: "true_false",
+					};
+				}
+				case "multichoice":
+					return {
+						...base,
+						options: answers.map((answer) => answer.text),
+						correctOptionIndexes: getCorrectOptionIndexes(
+							answers.map((answer) => answer.fraction),
+						),
+					};
+				case "shortanswer":
+					return {
+						...base,
+						answerKey: {
+							questionType: "short_answer",
+							acceptedAnswers: answers
+								.filter((answer) => answer.fraction >= 100)
+								.map((answer) => answer.text),
+						},
+					};
+				case "matching":
+					return {
+						...base,
+						answerKey: {
+							questionType: "matching",
+							// Subquestions without text only add wrong answers
+							pairs: [
+								...body.matchAll(
+									/<subquestion(\s[^>]*)?>([\s\S]*?)<\/subquestion>/g,
+								),
+							].flatMap(([, attributes = "", content]) => {
+								const left = getMoodleText({ attributes, content });
+								const right = decodeXmlText(
+									getElement(
+										getElement(content, "answer")?.content ?? "",
+										"text",
+									)?.content ?? "",
+								).trim();
+								return left ? [{ left, right }] : [];
+							}),
+						},
+					};
+				case "cloze": {
+					const cloze = parseClozeText(question);
+					return cloze
+						? {
+								...base,
+								question: cloze.question,
+								answerKey: {
+									questionType: "fill_in_blank",
+									blanks: cloze.blanks,
+								},
+							}
+						: { ...base, unsupported: true };
+				}
+				default:
+					return { ...base, unsupported: true };
+			}
+		});
+
+// Turns "A", "b" or "1" into a 0-based option index
+const parseOptionReference = (value: string) => {
+	const reference = value.trim().toUpperCase();
+	if (/^\d+$/.test(reference)) {
+		return Number.parseInt(reference, 10) - 1;
+	}
+	return reference.length === 1 ? OPTION_LETTERS.indexOf(reference) : -1;
+};
+
+/**
+ * Parses a CSV file with a header row. The columns are `question`, `option_a`
+ * to `option_f` (or `option_1` to `option_6`), `answer` (the letter or number
+ * of the correct option), `explanation` and `difficulty`; only the question,
+ * options and answer are required.
+ */
+export const parseQuestionsCsv = (text: string): RawQuestion[] => {
+	const [header, ...rows] = parseCsv(text);
+	if (!header) {
+		return [];
+	}
+
+	const columns = header.map((column) =>
+		column
+			.trim()
+			.toLowerCase()
+			.replace(/[^a-z0-9]/g, ""),
+	);
+	const getColumn = (row: string[], name: string) => {
+		const index = columns.indexOf(name);
+		return index === -1 ? "" : (row[index] ?? "");
+	};
+	const optionColumns = columns.flatMap((column, index) => {
+		const match = column.match(/^option([a-f]|[1-6])$/);
+		return match ? [{ index, position: parseOptionReference(match[1]) }] : [];
+	});
+	optionColumns.sort((a, b) => a.position - b.position);
+
+	return rows.map((row) => {
+		const options = optionColumns
+			.map(({ index }) => row[index]?.trim() ?? "")
+			.filter(Boolean);
+		const answer = parseOptionReference(getColumn(row, "answer"));
+		return {
+			question: getColumn(row, "question"),
+			options,
+			correctOptionIndexes:
+				answer >= 0 && answer < options.length ? [answer] : [],
+			explanation: getColumn(row, "explanation"),
+			difficulty:
+				DIFFICULTY_ALIASES[getColumn(row, "difficulty").trim().toLowerCase()],
+		};
+	});
+};
+
+/**
+ * Parses the Aiken format: the question on one or more lines, options as
+ * `A.` or `A)` lines and an `ANSWER: A` line closing every question.
+ */
+export const parseAiken = (text: string): RawQuestion[] => {
+	const questions: RawQuestion[] = [];
+	let questionLines: string[] = [];
+	let options: { letter: string; text: string }[] = [];
+
+	const finish = (answer?: string) => {
+		const correct = options.findIndex(
+			(option) => option.letter === answer?.toUpperCase(),
+		);
+		questions.push({
+			question: questionLines.join("\n"),
+			options: options.map((option) => option.text),
+			correctOptionIndexes: correct === -1 ? [] : [correct],
+		});
+		questionLines = [];
+		options = [];
+	};
+
+	for (const line of text.split(/\r?\n/).map((line) => line.trim())) {
+		if (!line) {
+			continue;
+		}
+		const answer = line.match(/^ANSWER\s*:\s*([A-Z])\b/i);
+		const option = line.match(/^([A-Z])[.)]\s+(.*)$/);
+		if (answer && questionLines.length > 0) {
+			finish(answer[1]);
+		} else if (option && questionLines.length > 0) {
+			options.push({ letter: option[1], text: option[2] });
+		} else {
+			// A question that's missing its ANSWER line ends at the next one
+			if (options.length > 0) {
+				finish();
+			}
+			questionLines.push(line);
+		}
+	}
+	if (questionLines.length > 0) {
+		finish();
+	}
+
+	return questions;
+};
+
+/**
+ * Guesses the format of an uploaded question bank from its file name and
+ * content.
+ */
+export const detectImportFormat = (
+	filename: string,
+	content: string,
+): QuizImportFormat => {
+	const extension = filename.split(".").pop()?.toLowerCase();
+	if (extension === "xml" || content.trimStart().startsWith("<")) {
+		return "moodle_xml";
+	}
+	if (extension === "csv") {
+		return "csv";
+	}
+	if (extension === "gift") {
+		return "gift";
+	}
+	return /^\s*ANSWER\s*:\s*[A-Z]\b/im.test(content) ? "aiken" : "gift";
+};
+
+/**
+ * Parses a question bank file into quiz questions, validating every question.
+ * Questions with issues have no `question` and are left out of the import.
+ */
+export const parseQuizImport = (
+	content: string,
+	format: QuizImportFormat,
+): ImportedQuestion[] => {
+	const parsers: Record<QuizImportFormat, (text: string) => RawQuestion[]> = {
+		gift: parseGift,
+		moodle_xml: parseMoodleXml,
+		csv: parseQuestionsCsv,
+		aiken: parseAiken,
+	};
+	return parsers[format](content).map(toImportedQuestion);
+};
@@ -1,29 +1,440 @@
+import { filter } from "convex-helpers/server/filter";
 import { doc } from "convex-helpers/validators";
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
-import type { ActionCtx, MutationCtx } from "./_generated/server";
+import type { ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
 import { action, mutation, query } from "./_generated/server";
+import { pickAdaptiveQuestion } from "./adaptive";
+import type { PDFFigureReference } from "./ai";
+import type { SourceSection } from "./citations";
+import { assertCanStartAssignment } from "./classes";
 import { workflow } from "./lib";
-import schema, { vv } from "./schema";
-import { assertUserAuthenticated } from "./users";
-
+import {
+	deleteUnusedFigure,
+	getQuizQuestions,
+	insertQuizWithQuestions,
+	recordBankQuestionAnswer,
+	releaseBankQuestions,
+} from "./question_bank";
+import {
+	HELP_XP_COST,
+	type QuestionType,
+	type QuizQuestion,
+	assertValidQuestion,
+	canUseFiftyFifty,
+	getAnswerResponse,
+	getFiftyFiftyRemovals,
+	getOptionOrder,
+	getSelectedIndex,
+	getShuffledOrder,
+	gradeResponse,
+	toOriginalResponse,
+	toPlayQuestion,
+	toShownResponse,
+} from "./question_types";
+import { parseQuizImport } from "./quiz_import";
+import { seedReviewCards } from "./reviews";
+import schema, {
+	attemptMode,
+	questionHelp,
+	questionResponse,
+	quizQuestion,
+	quizQuestionType,
+	vv,
+} from "./schema";
+import { assertUserAuthenticated, hasRole } from "./users";
+
+/**
+ * Builds the text indexed by the `search_text` search index of a quiz.
+ */
+export const buildQuizSearchText = (title: string, description: string) =>
+	`${title}\n${description}`;
+
+/**
+ * Summarizes the difficulty of a quiz from its questions: a single level when
+ * every question shares it, otherwise "mix".
+ */
+export const getQuizDifficultyMix = (
+	questions: QuizQuestion[],
+): "easy" | "medium" | "hard" | "mix" => {
+	const levels = new Set(questions.map((q) => q.difficulty));
+	if (levels.size !== 1) {
+		return "mix";
+	}
+	const [level] = levels;
+	return level === "easy" || level === "medium" || level === "hard"
+		? level
+		: "mix";
+};
+
+/**
+ * Whether a user may view and play a quiz: owners always can, anyone else only
+ * once the quiz has been shared (unlisted or public).
+ */
+export const canViewQuiz = (quiz: Doc<"quizzes">, userId: Id<"users">) =>
+	quiz.createdBy === userId || (quiz.visibility ?? "private") !== "private";
+
+export const quizQuestionValidator = quizQuestion;
+
+/**
+ * A quiz together with its current questions, resolved from the question bank.
+ */
+export type QuizWithQuestions = Doc<"quizzes"> & { questions: QuizQuestion[] };
+
+/**
+ * Resolves the questions of a quiz at the given version: the current question
+ * set, or a superseded one from `quiz_versions` once the quiz has been edited.
+ */
+export const getQuizQuestionsAtVersion = async (
+	ctx: QueryCtx | MutationCtx,
+	quiz: Doc<"quizzes">,
+	version: number | undefined,
+): Promise<QuizQuestion[]> => {
+	if ((version ?? 1) === (quiz.version ?? 1)) {
+		return await getQuizQuestions(ctx, quiz);
+	}
+
+	const snapshot = await ctx.db
+		.query("quiz_versions")
+		.withIndex("by_quiz_version", (q) =>
+			q.eq("quizId", quiz._id).eq("version", version ?? 1),
+		)
+		.unique();
+	if (!snapshot) {
+		throw new Error("Quiz version not found");
+	}
+	return snapshot.questions;
+};
+
+/**
+ * Resolves every question an attempt can serve: the quiz's questions at the
+ * attempt's version, followed by any generated for an adaptive attempt.
+ */
+export const resolveAttemptQuestions = async (
+	ctx: QueryCtx | MutationCtx,
+	quiz: Doc<"quizzes">,
+	attempt: Doc<"quiz_attempts">,
+): Promise<QuizQuestion[]> => [
+	...(await getQuizQuestionsAtVersion(ctx, quiz, attempt.quizVersion)),
+	...(attempt.extraQuestions ?? []),
+];
+
+/**
+ * The indexes of the questions of an attempt in the order they are played:
+ * `servedOrder` when the attempt has one (the questions served so far for
+ * adaptive attempts, a shuffled order otherwise), or all `questionCount`
+ * questions in quiz order for attempts started before shuffling.
+ */
+const getPlayOrder = (attempt: Doc<"quiz_attempts">, questionCount: number) =>
+	attempt.servedOrder ?? Array.from({ length: questionCount }, (_, i) => i);
+
+// Time budget of an exam, per question
+const EXAM_MS_PER_QUESTION = 90 * 1000;
+
+const isExamInProgress = (attempt: Doc<"quiz_attempts">) =>
+	attempt.mode === "exam" && !attempt.endedAt;
+
+/**
+ * Hides the grading of an exam that is still running, since its answers can
+ * still be changed. Other attempts are returned as they are.
+ */
+export const hideExamGrading = (attempt: Doc<"quiz_attempts">) => {
+	if (!isExamInProgress(attempt)) {
+		return attempt;
+	}
+	return {
+		...attempt,
+		questionAnswers: attempt.questionAnswers.map((a) => ({
+			...a,
+			isCorrect: undefined,
+		})),
+		totalScore: undefined,
+	};
+};
+
+const getUsedHelp = (attempt: Doc<"quiz_attempts">, questionIndex: number) =>
+	(attempt.usedHelp ?? [])
+		.filter((used) => used.questionIndex === questionIndex)
+		.map((used) => used.help);
+
+/**
+ * What the help an attempt asked for on a question shows its player: the hint
+ * and the options removed by the 50:50 lifeline.
+ */
+const getShownHelp = (
+	attempt: Doc<"quiz_attempts">,
+	question: QuizQuestion,
+	questionIndex: number,
+) => {
+	const usedHelp = getUsedHelp(attempt, questionIndex);
+	return {
+		...(usedHelp.includes("hint") && { hint: question.hint }),
+		...(usedHelp.includes("fifty_fifty") && {
+			removedOptions: getFiftyFiftyRemovals(
+				question,
+				`${attempt._id}:${questionIndex}`,
+				attempt.optionOrders?.[questionIndex],
+			),
+		}),
+	};
+};
+
+/**
+ * Serves the next question of an adaptive attempt, or has one generated from
+ * the quiz's summary when the quiz has run out of the difficulty the learner is
+ * at. Ends the attempt early when there's nothing left to serve.
+ *
+ * @param attempt - The attempt, including the answer just saved
+ * @param questions - Every question the attempt can serve
+ * @param canGenerate - Whether a question may be generated
+ */
+export const serveNextAdaptiveQuestion = async (
+	ctx: MutationCtx,
+	attempt: Doc<"quiz_attempts">,
+	questions: QuizQuestion[],
+	canGenerate: boolean,
+) => {
+	const servedOrder = attempt.servedOrder ?? [];
+	if (servedOrder.length >= (attempt.questionCount ?? questions.length)) {
+		return;
+	}
+
+	const pick = pickAdaptiveQuestion(
+		questions,
+		servedOrder,
+		attempt.questionAnswers,
+		canGenerate,
+	);
+	if (!pick) {
+		await ctx.db.patch(attempt._id, {
+			questionCount: servedOrder.length,
+			generatingDifficulty: undefined,
+		});
+		return;
+	}
+	if (pick.type === "generate") {
+		await ctx.db.patch(attempt._id, { generatingDifficulty: pick.difficulty });
+		await ctx.scheduler.runAfter(0, internal.ai.generateAdaptiveQuestion, {
+			attemptId: attempt._id,
+			difficulty: pick.difficulty,
+		});
+		return;
+	}
+	await ctx.db.patch(attempt._id, {
+		servedOrder: [...servedOrder, pick.questionIndex],
+		generatingDifficulty: undefined,
+	});
+};
+
+// Documents deleted per batch by `deleteQuizWithRelatedData`
+const QUIZ_DELETION_BATCH_SIZE = 100;
+
+/**
+ * Deletes up to `limit` of the documents that point at a quiz: its old
+ * versions, generation tasks, attempts, review cards, class assignments and
+ * multiplayer rooms with their players. Figures only shown by the deleted
+ * versions are deleted along with them.
+ *
+ * @returns How many documents were deleted; 0 means none are left.
+ */
+export const deleteQuizRelatedBatch = async (
+	ctx: MutationCtx,
+	quizId: Id<"quizzes">,
+	limit: number,
+) => {
+	let deleted = 0;
+
+	const versions = await ctx.db
+		.query("quiz_versions")
+		.withIndex("by_quiz_version", (q) => q.eq("quizId", quizId))
+		.take(limit);
+	const figures = new Set(
+		versions.flatMap((version) =>
+			version.questions.flatMap((question) => question.image ?? []),
+		),
+	);
+	for (const version of versions) {
+		await ctx.db.delete(version._id);
+	}
+	for (const figure of figures) {
+		await deleteUnusedFigure(ctx, figure);
+	}
+	deleted += versions.length;
+
+	const relatedQueries = [
+		() =>
+			ctx.db
+				.query("quiz_tasks")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quizId)),
+		() =>
+			ctx.db
+				.query("quiz_attempts")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quizId)),
+		() =>
+			ctx.db
+				.query("review_cards")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quizId)),
+		() =>
+			ctx.db
+				.query("assignments")
+				.withIndex("by_quiz", (q) => q.eq("quizId", quizId)),
+	];
+	for (const relatedQuery of relatedQueries) {
+		if (deleted >= limit) {
+			return deleted;
+		}
+		const docs = await relatedQuery().take(limit - deleted);
+		for (const doc of docs) {
+			await ctx.db.delete(doc._id);
+		}
+		deleted += docs.length;
+	}
+
+	// Rooms go once their players are gone
+	const rooms = await ctx.db
+		.query("multiplayer_rooms")
+		.withIndex("by_quiz", (q) => q.eq("quizId", quizId))
+		.take(limit);
+	for (const room of rooms) {
+		if (deleted >= limit) {
+			return deleted;
+		}
+		const players = await ctx.db
+			.query("multiplayer_players")
+			.withIndex("by_room", (q) => q.eq("roomId", room._id))
+			.take(limit - deleted);
+		for (const player of players) {
+			await ctx.db.delete(player._id);
+		}
+		deleted += players.length;
+		if (deleted < limit) {
+			await ctx.db.delete(room._id);
+			deleted += 1;
+		}
+	}
+
+	return deleted;
+};
+
+/**
+ * Deletes a quiz together with everything that points at it (see
+ * `deleteQuizRelatedBatch`). Its questions stay in the question bank.
+ */
+export const deleteQuizWithRelatedData = async (
+	ctx: MutationCtx,
+	quizId: Id<"quizzes">,
+) => {
+	let deleted: number;
+	do {
+		deleted = await deleteQuizRelatedBatch(
+			ctx,
+			quizId,
+			QUIZ_DELETION_BATCH_SIZE,
+		);
+	} while (deleted > 0);
+
+	const quiz = await ctx.db.get(quizId);
+	await releaseBankQuestions(ctx, quiz?.questionIds);
+	await ctx.db.delete(quizId);
+	// Questions of quizzes not migrated to the bank yet aren't kept anywhere
+	for (const question of quiz?.questions ?? []) {
+		await deleteUnusedFigure(ctx, question.image);
+	}
+};
+
+/**
+ * Retrieves a quiz the user is allowed to view. Only the quiz owner receives the
+ * answer key; everyone else gets the questions without correct options and
+ * explanations.
+ */
 export const getQuiz = query({
 	args: {
 		id: vv.id("quizzes"),
 	},
 	handler: async (ctx, args) => {
-		const identity = await ctx.auth.getUserIdentity();
-		if (!identity) {
-			throw new Error("User not found");
-		}
+		const user = await assertUserAuthenticated(ctx);
 
 		const quiz = await ctx.db.get(args.id);
+		// Admins can open any quiz to moderate it
+		if (!quiz || !(canViewQuiz(quiz, user._id) || hasRole(user, "admin"))) {
+			throw new Error("Quiz not found");
+		}
+
+		const isOwner = quiz.createdBy === user._id;
+		const questions = await getQuizQuestions(ctx, quiz);
+		return {
+			...quiz,
+			questions: questions.map((q) => toPlayQuestion(q, isOwner)),
+		};
+	},
+});
+
+/**
+ * Retrieves the quiz of an attempt for playing it. The answer key of a question
+ * is only revealed once the answer to it has been saved, or the attempt is over.
+ */
+export const getQuizForPlay = query({
+	args: {
+		attemptId: vv.id("quiz_attempts"),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const attempt = await ctx.db.get(args.attemptId);
+		if (!attempt) {
+			throw new Error("Quiz attempt not found");
+		}
+
+		if (attempt.userId !== user._id) {
+			throw new Error("Not authorized to view this attempt");
+		}
+
+		const quiz = await ctx.db.get(attempt.quizId);
 		if (!quiz) {
 			throw new Error("Quiz not found");
 		}
 
-		return quiz;
+		const questions = await resolveAttemptQuestions(ctx, quiz, attempt);
+		const answeredIndexes = new Set(
+			attempt.questionAnswers.map((a) => a.questionIndex),
+		);
+		const playOrder = getPlayOrder(attempt, questions.length);
+		// Exams keep answers and explanations hidden until they're over
+		const isGradingHidden = isExamInProgress(attempt);
+
+		return {
+			...quiz,
+			questions: questions.map((q, index) => ({
+				...toPlayQuestion(
+					q,
+					!!attempt.endedAt || (!isGradingHidden && answeredIndexes.has(index)),
+					attempt.optionOrders?.[index],
+				),
+				...getShownHelp(attempt, q, index),
+			})),
+			mode: attempt.mode ?? "standard",
+			startedAt: attempt.startedAt,
+			isFinished: attempt.endedAt !== undefined,
+			// The answers saved so far, to pick up a reloaded attempt where it was
+			answers: attempt.questionAnswers.map((a) => ({
+				questionIndex: a.questionIndex,
+				response: toShownResponse(
+					getAnswerResponse(a),
+					attempt.optionOrders?.[a.questionIndex],
+				),
+				isCorrect: isGradingHidden ? undefined : a.isCorrect,
+				timeTaken: a.timeTaken,
+				usedHelp: a.usedHelp ?? [],
+			})),
+			examEndsAt: attempt.examEndsAt,
+			flaggedIndexes: attempt.flaggedIndexes ?? [],
+			playOrder,
+			// Adaptive attempts serve their questions one at a time
+			questionCount: attempt.questionCount ?? playOrder.length,
+			isPreparingQuestion: attempt.generatingDifficulty !== undefined,
+		};
 	},
 });
 
@@ -55,43 +466,80 @@ export const storeQuiz = mutation({
 	args: {
 		title: v.string(),
 		description: v.string(),
-		questions: v.array(
-			v.object({
-				question: v.string(),
-				options: v.array(v.string()),
-				difficulty: v.union(
-					v.literal("easy"),
-					v.literal("medium"),
-					v.literal("hard"),
-				),
-				questionType: v.union(
-					v.literal("multiple_choice"),
-					v.literal("true_false"),
-				),
-				correctOptionIndex: v.number(),
-				explanation: v.string(),
-			}),
-		),
+		questions: v.array(quizQuestionValidator),
 		quizContext: v.union(
 			v.object({ type: v.literal("pdf"), fileUrl: v.string() }),
 			v.object({ type: v.literal("url"), source: v.string() }),
 			v.object({ type: v.literal("prompt"), text: v.string() }),
+			// Imported from a question bank file, source is the file name
+			v.object({ type: v.literal("import"), source: v.string() }),
 		),
 		userId: v.id("users"),
 	},
 	handler: async (ctx, args) => {
+		args.questions.forEach(assertValidQuestion);
+
 		// TODO: Get Target Audience from user profile or quiz settings
 		// Get the user from database to get the proper user ID
 
-		const quizId = await ctx.db.insert("quizzes", {
-			title: args.title,
-			description: args.description,
-			questions: args.questions,
-			quizContext: args.quizContext,
-			createdBy: args.userId,
-		});
+		return await insertQuizWithQuestions(
+			ctx,
+			{
+				title: args.title,
+				description: args.description,
+				quizContext: args.quizContext,
+				createdBy: args.userId,
+				searchText: buildQuizSearchText(args.title, args.description),
+			},
+			args.questions,
+		);
+	},
+});
 
-		return quizId;
+/**
+ * Creates a quiz from a question bank file in GIFT, Moodle XML, CSV or Aiken
+ * format. Questions that fail validation are skipped; the client shows the
+ * per-question report from `parseQuizImport` before importing.
+ */
+export const importQuiz = action({
+	args: {
+		title: v.string(),
+		description: v.string(),
+		filename: v.string(),
+		format: v.union(
+			v.literal("gift"),
+			v.literal("moodle_xml"),
+			v.literal("csv"),
+			v.literal("aiken"),
+		),
+		content: v.string(),
+	},
+	handler: async (ctx, args): Promise<Id<"quizzes">> => {
+		const user = await ctx.runQuery(api.users.getCurrentUser);
+		if (!user) {
+			throw new Error("User not authenticated");
+		}
+
+		const title = args.title.trim();
+		if (!title) {
+			throw new Error("Quiz title is required");
+		}
+
+		const questions = parseQuizImport(args.content, args.format).flatMap(
+			(imported) => (imported.question ? [imported.question] : []),
+		);
+		if (questions.length === 0) {
+			throw new Error("The file doesn't contain any valid questions");
+		}
+
+		return await ctx.runMutation(api.quizzes.storeQuiz, {
+			title,
+			description:
+				args.description.trim() || `Quiz imported from ${args.filename}`,
+			questions,
+			quizContext: { type: "import", source: args.filename },
+			userId: user._id,
+		});
 	},
 });
 
@@ -99,26 +547,79 @@ export const storeQuiz = mutation({
 export const startQuizAttempt = mutation({
 	args: {
 		quizId: vv.id("quizzes"),
+		assignmentId: v.optional(vv.id("assignments")),
+		mode: v.optional(attemptMode),
 	},
 	handler: async (ctx, args) => {
 		const user = await assertUserAuthenticated(ctx);
 
-		// Check if quiz exists
 		const quiz = await ctx.db.get(args.quizId);
 		if (!quiz) {
 			throw new Error("Quiz not found");
 		}
 
-		// Create a new quiz attempt
+		// Assigned quizzes are playable by the class; others must be shared with the user
+		if (args.assignmentId) {
+			await assertCanStartAssignment(
+				ctx,
+				args.assignmentId,
+				user._id,
+				quiz._id,
+			);
+		} else if (!canViewQuiz(quiz, user._id)) {
+			throw new Error("Quiz not found");
+		}
+
+		// Create a new quiz attempt, with its own order of questions and options
+		// so that answers can't be learned by position
+		const questions = await getQuizQuestions(ctx, quiz);
+		const now = Date.now();
+		const shuffleSeed = `${user._id}:${now}`;
 		const attemptId = await ctx.db.insert("quiz_attempts", {
 			userId: user._id,
 			quizId: args.quizId,
 			questionAnswers: [],
 			totalScore: 0,
 			expEarned: 0,
-			startedAt: Date.now(),
+			startedAt: now,
+			quizVersion: quiz.version ?? 1,
+			assignmentId: args.assignmentId,
+			servedOrder: getShuffledOrder(questions.length, shuffleSeed),
+			optionOrders: questions.map((question, index) =>
+				getOptionOrder(question, `${shuffleSeed}:${index}`),
+			),
+			...(args.mode === "adaptive" && {
+				mode: "adaptive" as const,
+				servedOrder: [],
+				questionCount: questions.length,
+			}),
+			...(args.mode === "exam" && {
+				mode: "exam" as const,
+				examEndsAt: now + questions.length * EXAM_MS_PER_QUESTION,
+				flaggedIndexes: [],
+			}),
 		});
 
+		// Adaptive attempts start with one question and get the next once it's answered
+		const attempt = await ctx.db.get(attemptId);
+		if (attempt?.mode === "adaptive") {
+			await serveNextAdaptiveQuestion(ctx, attempt, questions, true);
+		}
+
+		// Exams are handed in when time runs out, whether or not the player is still there
+		if (attempt?.examEndsAt) {
+			await ctx.scheduler.runAt(
+				attempt.examEndsAt,
+				internal.internal_quizzes.finishExpiredExam,
+				{ attemptId },
+			);
+		}
+
+		// Keep the owner's library "last attempted" ordering up to date
+		if (quiz.createdBy === user._id) {
+			await ctx.db.patch(args.quizId, { lastAttemptedAt: now });
+		}
+
 		return attemptId;
 	},
 });
@@ -127,8 +628,7 @@ export const saveQuizAnswer = mutation({
 	args: {
 		attemptId: vv.id("quiz_attempts"),
 		questionIndex: v.number(),
-		selectedIndex: v.number(),
-		isCorrect: v.boolean(),
+		response: questionResponse,
 		timeTaken: v.number(), // in milliseconds
 	},
 	handler: async (ctx: MutationCtx, args) => {
@@ -150,20 +650,187 @@ export const saveQuizAnswer = mutation({
 			throw new Error("Cannot save answer: Quiz attempt is already finished");
 		}
 
-		// Create the answer object
+		const isExam = attempt.mode === "exam";
+		if (isExam && Date.now() > (attempt.examEndsAt ?? 0)) {
+			throw new Error("Cannot save answer: Exam time is up");
+		}
+
+		// Exam answers can be changed until the exam is over
+		const previousAnswer = attempt.questionAnswers.find(
+			(a) => a.questionIndex === args.questionIndex,
+		);
+		if (previousAnswer && !isExam) {
+			throw new Error("Question has already been answered");
+		}
+
+		const quiz = await ctx.db.get(attempt.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		const questions = await resolveAttemptQuestions(ctx, quiz, attempt);
+		const question = questions[args.questionIndex];
+		if (
+			!question ||
+			!getPlayOrder(attempt, questions.length).includes(args.questionIndex)
+		) {
+			throw new Error("Question not found in quiz data");
+		}
+
+		// Grade the answer on the server instead of trusting the client, against
+		// the options as they're stored rather than as they were shown
+		const optionOrder = attempt.optionOrders?.[args.questionIndex];
+		const response = toOriginalResponse(args.response, optionOrder);
+		const isCorrect = gradeResponse(question, response);
+
+		// Create the answer object; revisited exam questions add up their time
+		const usedHelp = getUsedHelp(attempt, args.questionIndex);
 		const answer = {
 			questionIndex: args.questionIndex,
-			selectedIndex: args.selectedIndex,
-			isCorrect: args.isCorrect,
-			timeTaken: args.timeTaken,
+			selectedIndex: getSelectedIndex(response),
+			response,
+			isCorrect,
+			timeTaken: args.timeTaken + (previousAnswer?.timeTaken ?? 0),
+			...(usedHelp.length > 0 && { usedHelp }),
 		};
 
 		// Update the attempt with the new answer
+		const questionAnswers = [
+			...attempt.questionAnswers.filter((a) => a !== previousAnswer),
+			answer,
+		];
+		await ctx.db.patch(args.attemptId, { questionAnswers });
+		if (attempt.mode === "adaptive") {
+			await serveNextAdaptiveQuestion(
+				ctx,
+				{ ...attempt, questionAnswers },
+				questions,
+				true,
+			);
+		}
+		// Exam answers can still change, so they're counted when the exam ends
+		if (isExam) {
+			return { success: true, isCorrect: undefined, question: undefined };
+		}
+		await recordBankQuestionAnswer(
+			ctx,
+			quiz,
+			attempt.quizVersion,
+			args.questionIndex,
+			isCorrect,
+		);
+
+		return {
+			success: true,
+			isCorrect,
+			question: toPlayQuestion(question, true, optionOrder),
+		};
+	},
+});
+
+/**
+ * Gives the player help on a question they haven't answered yet: its hint or
+ * the 50:50 lifeline. The help is recorded and costs XP when the attempt is
+ * finished; asking again for the same help returns it without another charge.
+ *
+ * @throws {Error} During exams, or when the question doesn't offer the help.
+ */
+export const requestQuestionHelp = mutation({
+	args: {
+		attemptId: vv.id("quiz_attempts"),
+		questionIndex: v.number(),
+		help: questionHelp,
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const attempt = await ctx.db.get(args.attemptId);
+		if (!attempt) {
+			throw new Error("Quiz attempt not found");
+		}
+		if (attempt.userId !== user._id) {
+			throw new Error("Unauthorized: This is not your quiz attempt");
+		}
+		if (attempt.endedAt) {
+			throw new Error("Quiz attempt is already finished");
+		}
+		if (attempt.mode === "exam") {
+			throw new Error("Help isn't available during exams");
+		}
+		if (
+			attempt.questionAnswers.some(
+				(a) => a.questionIndex === args.questionIndex,
+			)
+		) {
+			throw new Error("Question has already been answered");
+		}
+
+		const quiz = await ctx.db.get(attempt.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+		const questions = await resolveAttemptQuestions(ctx, quiz, attempt);
+		const question = questions[args.questionIndex];
+		if (
+			!question ||
+			!getPlayOrder(attempt, questions.length).includes(args.questionIndex)
+		) {
+			throw new Error("Question not found in quiz data");
+		}
+		if (args.help === "hint" && !question.hint) {
+			throw new Error("This question has no hint");
+		}
+		if (args.help === "fifty_fifty" && !canUseFiftyFifty(question)) {
+			throw new Error("The 50:50 lifeline can't be used on this question");
+		}
+
+		if (!getUsedHelp(attempt, args.questionIndex).includes(args.help)) {
+			await ctx.db.patch(args.attemptId, {
+				usedHelp: [
+					...(attempt.usedHelp ?? []),
+					{ questionIndex: args.questionIndex, help: args.help },
+				],
+			});
+		}
+		return getShownHelp(
+			{
+				...attempt,
+				usedHelp: [{ questionIndex: args.questionIndex, help: args.help }],
+			},
+			question,
+			args.questionIndex,
+		);
+	},
+});
+
+/**
+ * Flags a question of an exam to revisit before finishing, or clears its flag.
+ */
+export const toggleQuestionFlag = mutation({
+	args: {
+		attemptId: vv.id("quiz_attempts"),
+		questionIndex: v.number(),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const attempt = await ctx.db.get(args.attemptId);
+		if (!attempt) {
+			throw new Error("Quiz attempt not found");
+		}
+		if (attempt.userId !== user._id) {
+			throw new Error("Unauthorized: This is not your quiz attempt");
+		}
+		if (!isExamInProgress(attempt)) {
+			throw new Error("Only questions of an ongoing exam can be flagged");
+		}
+
+		const flaggedIndexes = attempt.flaggedIndexes ?? [];
 		await ctx.db.patch(args.attemptId, {
-			questionAnswers: [...(attempt.questionAnswers || []), answer],
+			flaggedIndexes: flaggedIndexes.includes(args.questionIndex)
+				? flaggedIndexes.filter((index) => index !== args.questionIndex)
+				: [...flaggedIndexes, args.questionIndex],
 		});
-
-		return { success: true };
 	},
 });
 
@@ -198,10 +865,136 @@ export const getQuizAttempt = query({
 			throw new Error("Not authorized to view this attempt");
 		}
 
-		return attempt;
+		// Exams keep their grading hidden until they're over, see getQuizForPlay
+		return hideExamGrading(attempt);
 	},
 });
 
+/**
+ * Finishes an attempt: scores the answers it has, awards XP to its player and
+ * queues wrong or slow answers for spaced-repetition review.
+ */
+/**
+ * Scores an attempt as the percentage of the questions it was served that
+ * were answered correctly.
+ */
+const scoreQuizAttempt = async (
+	ctx: QueryCtx,
+	quiz: Doc<"quizzes">,
+	attempt: Doc<"quiz_attempts">,
+) => {
+	const questions = await resolveAttemptQuestions(ctx, quiz, attempt);
+	const correctAnswers = attempt.questionAnswers.filter(
+		(a) => a.isCorrect,
+	).length;
+	const totalQuestions = getPlayOrder(attempt, questions.length).length;
+	const score = totalQuestions
+		? Math.round((correctAnswers / totalQuestions) * 100)
+		: 0;
+	return { score, correctAnswers, totalQuestions };
+};
+
+// Exam answers only count towards question bank stats once they're final
+const recordExamAnswers = async (
+	ctx: MutationCtx,
+	quiz: Doc<"quizzes">,
+	attempt: Doc<"quiz_attempts">,
+) => {
+	if (attempt.mode !== "exam") {
+		return;
+	}
+	for (const answer of attempt.questionAnswers) {
+		await recordBankQuestionAnswer(
+			ctx,
+			quiz,
+			attempt.quizVersion,
+			answer.questionIndex,
+			answer.isCorrect,
+		);
+	}
+};
+
+export const completeQuizAttempt = async (
+	ctx: MutationCtx,
+	attempt: Doc<"quiz_attempts">,
+	user: Doc<"users">,
+) => {
+	// Get the quiz to calculate score and XP
+	const quiz = await ctx.db.get(attempt.quizId);
+	if (!quiz) {
+		throw new Error("Quiz not found");
+	}
+
+	const { score, correctAnswers, totalQuestions } = await scoreQuizAttempt(
+		ctx,
+		quiz,
+		attempt,
+	);
+
+	// Calculate XP (base 10 per correct answer, bonus for high scores)
+	let expEarned = correctAnswers * 10;
+	if (score >= 90)
+		expEarned += 50; // Bonus for A
+	else if (score >= 80)
+		expEarned += 30; // Bonus for B
+	else if (score >= 70) expEarned += 15; // Bonus for C
+
+	// Hints and lifelines cost XP, whether or not they led to a right answer
+	const helpCost = (attempt.usedHelp ?? []).reduce(
+		(total, used) => total + HELP_XP_COST[used.help],
+		0,
+	);
+	expEarned = Math.max(expEarned - helpCost, 0);
+
+	// Update user's total XP
+	await ctx.db.patch(user._id, {
+		exp: (user.exp || 0) + expEarned,
+	});
+
+	// Update the quiz attempt
+	await ctx.db.patch(attempt._id, {
+		endedAt: Date.now(),
+		totalScore: score,
+		expEarned,
+	});
+
+	await recordExamAnswers(ctx, quiz, attempt);
+
+	// Queue wrong or slow answers for spaced-repetition review
+	await seedReviewCards(ctx, user._id, quiz, attempt);
+
+	return {
+		score,
+		expEarned,
+		correctAnswers,
+		totalQuestions,
+	};
+};
+
+/**
+ * Closes an attempt the player walked away from, scored on the answers it
+ * has. Unlike completeQuizAttempt it earns no XP and seeds no review cards,
+ * since both reward finishing a quiz and the player never did.
+ */
+export const closeAbandonedQuizAttempt = async (
+	ctx: MutationCtx,
+	attempt: Doc<"quiz_attempts">,
+) => {
+	const quiz = await ctx.db.get(attempt.quizId);
+	if (!quiz) {
+		await ctx.db.patch(attempt._id, { endedAt: Date.now() });
+		return;
+	}
+
+	const { score } = await scoreQuizAttempt(ctx, quiz, attempt);
+	await ctx.db.patch(attempt._id, {
+		endedAt: Date.now(),
+		totalScore: score,
+		expEarned: 0,
+	});
+	await recordExamAnswers(ctx, quiz, attempt);
+};
+
 export const finishQuizAttempt = mutation({
 	args: {
 		attemptId: vv.id("quiz_attempts"),
@@ -225,45 +1018,7 @@ export const finishQuizAttempt = mutation({
 			throw new Error("Quiz attempt is already finished");
 		}
 
-		// Get the quiz to calculate score and XP
-		const quiz = await ctx.db.get(attempt.quizId);
-		if (!quiz) {
-			throw new Error("Quiz not found");
-		}
-
-		// Calculate score (percentage of correct answers)
-		const correctAnswers = attempt.questionAnswers.filter(
-			(a) => a.isCorrect,
-		).length;
-		const totalQuestions = quiz.questions.length;
-		const score = Math.round((correctAnswers / totalQuestions) * 100);
-
-		// Calculate XP (base 10 per correct answer, bonus for high scores)
-		let expEarned = correctAnswers * 10;
-		if (score >= 90)
-			expEarned += 50; // Bonus for A
-		else if (score >= 80)
-			expEarned += 30; // Bonus for B
-		else if (score >= 70) expEarned += 15; // Bonus for C
-
-		// Update user's total XP
-		await ctx.db.patch(user._id, {
-			exp: (user.exp || 0) + expEarned,
-		});
-
-		// Update the quiz attempt
-		await ctx.db.patch(args.attemptId, {
-			endedAt: Date.now(),
-			totalScore: score,
-			expEarned,
-		});
-
-		return {
-			score,
-			expEarned,
-			correctAnswers,
-			totalQuestions,
-		};
+		return await completeQuizAttempt(ctx, attempt, user);
 	},
 });
 
@@ -289,6 +1044,7 @@ export const startGenerateQuizWorkflow = action({
 				v.literal("15"),
 				v.literal("30"),
 			),
+			questionTypes: v.optional(v.array(quizQuestionType)),
 		}),
 		title: v.optional(v.string()),
 	},
@@ -300,6 +1056,7 @@ export const startGenerateQuizWorkflow = action({
 			quizSettings: {
 				difficulty: "mix" | "easy" | "medium" | "hard";
 				questionCount: "5" | "10" | "15" | "30";
+				questionTypes?: QuestionType[];
 			};
 			title?: string;
 		},
@@ -351,6 +1108,11 @@ export const generateQuizFromContentWorkflow = workflow.define({
 	args: { taskId: vv.id("quiz_tasks"), user: doc(schema, "users") },
 	handler: async (ctx, { taskId, user }) => {
 		let task: Doc<"quiz_tasks"> | null;
+		// Stored figures of a PDF source, deleted unless a question shows them
+		let figures: PDFFigureReference[] = [];
+		let isQuizStored = false;
+		// The source text questions are cited back to
+		let sourceSections: SourceSection[] = [];
 
 		if (!user) {
 			throw new Error("User not authenticated");
@@ -413,6 +1175,8 @@ export const generateQuizFromContentWorkflow = workflow.define({
 					if (!result) throw new Error("Failed to get PDF summary");
 					summary = result.summary;
 					metadata = result.metadata;
+					figures = result.figures;
+					sourceSections = result.sourceSections;
 					quizContext = { type: "pdf" as const, fileUrl: task.content };
 					break;
 				}
@@ -435,6 +1199,7 @@ export const generateQuizFromContentWorkflow = workflow.define({
 					if (!result) throw new Error("Failed to get website summary");
 					summary = result.summary;
 					metadata = result.metadata;
+					sourceSections = result.sourceSections;
 					quizContext = { type: "url" as const, source: task.content };
 					break;
 				}
@@ -447,6 +1212,7 @@ export const generateQuizFromContentWorkflow = workflow.define({
 					if (!result) throw new Error("Failed to get text summary");
 					summary = result.summary;
 					metadata = result.metadata;
+					sourceSections = result.sourceSections;
 					quizContext = { type: "prompt" as const, text: task.content };
 					break;
 				}
@@ -492,7 +1258,10 @@ export const generateQuizFromContentWorkflow = workflow.define({
 					numQuestions,
 					difficulty: task.quizSettings.difficulty,
 					targetAudience: "sma", // default, or could be from task.quizSettings or user profile
+					questionTypes: task.quizSettings.questionTypes,
 				},
+				figures,
+				sourceSections,
 			});
 			console.log({
 				tasks: "Already generated quiz questions",
@@ -520,15 +1289,7 @@ export const generateQuizFromContentWorkflow = workflow.define({
 				statusMessage: "Storing quiz in database...",
 			});
 
-			// biome-ignore lint/suspicious/noExplicitAny: <explanation>
-			const formattedQuestions = quizDataFromAI.questions.map((q: any) => ({
-				question: q.question,
-				options: q.options,
-				difficulty: q.difficulty as "easy" | "medium" | "hard",
-				questionType: q.questionType as "multiple_choice" | "true_false",
-				correctOptionIndex: q.correctOptionIndex,
-				explanation: q.explanation,
-			}));
+			const formattedQuestions: QuizQuestion[] = quizDataFromAI.questions;
 
 			const finalTitle =
 				quizDataFromAI.title ||
@@ -551,6 +1312,20 @@ export const generateQuizFromContentWorkflow = workflow.define({
 				},
 			);
 
+			isQuizStored = true;
+
+			const shownImages = new Set(
+				formattedQuestions.map((question) => question.image),
+			);
+			const unusedFigures = figures.filter(
+				(figure) => !shownImages.has(figure.storageId),
+			);
+			if (unusedFigures.length > 0) {
+				await ctx.runMutation(internal.internal_quizzes.deleteUnusedFigures, {
+					storageIds: unusedFigures.map((figure) => figure.storageId),
+				});
+			}
+
 			console.log({
 				tasks: "Is Success?",
 			});
@@ -585,6 +1360,11 @@ export const generateQuizFromContentWorkflow = workflow.define({
 					);
 				}
 			}
+			if (!isQuizStored && figures.length > 0) {
+				await ctx.runMutation(internal.internal_quizzes.deleteUnusedFigures, {
+					storageIds: figures.map((figure) => figure.storageId),
+				});
+			}
 			// Optionally re-throw or handle further if needed, but workflows typically complete
 		}
 	},
@@ -611,12 +1391,43 @@ export const getQuizAttemptsSinglePlayer = query({
 	},
 	handler: async (ctx, { quizId }) => {
 		const user = await assertUserAuthenticated(ctx);
-		return await ctx.db
+		const attempts = await ctx.db
 			.query("quiz_attempts")
-			.filter((q) => q.eq(q.field("quizId"), quizId))
-			.filter((q) => q.eq(q.field("userId"), user._id))
+			.withIndex("by_user_quiz", (q) =>
+				q.eq("userId", user._id).eq("quizId", quizId),
+			)
 			.order("desc")
 			.collect();
+		return attempts.map(hideExamGrading);
+	},
+});
+
+/**
+ * Finds the user's unfinished attempt at a quiz, e.g. after the tab reloaded
+ * mid-quiz, so it can be resumed instead of started over.
+ */
+export const getOpenQuizAttempt = query({
+	args: {
+		quizId: vv.id("quizzes"),
+	},
+	handler: async (ctx, { quizId }) => {
+		const user = await assertUserAuthenticated(ctx);
+		const attempt = await ctx.db
+			.query("quiz_attempts")
+			.withIndex("by_user_quiz", (q) =>
+				q.eq("userId", user._id).eq("quizId", quizId),
+			)
+			.order("desc")
+			.filter((q) => q.eq(q.field("endedAt"), undefined))
+			.first();
+		if (!attempt) {
+			return null;
+		}
+		return {
+			_id: attempt._id,
+			startedAt: attempt.startedAt,
+			answeredCount: attempt.questionAnswers.length,
+		};
 	},
 });
 
@@ -627,8 +1438,110 @@ export const getQuizAttemptsMultiPlayer = query({
 	handler: async (ctx, { quizId }) => {
 		return await ctx.db
 			.query("multiplayer_rooms")
-			.filter((q) => q.eq(q.field("quizId"), quizId))
+			.withIndex("by_quiz", (q) => q.eq("quizId", quizId))
 			.order("desc")
 			.collect();
 	},
 });
+
+/**
+ * Lists the quizzes created by the current user for the quiz library.
+ *
+ * Results are paginated over the `by_created_by` index (or the
+ * `by_created_by_last_attempted` index when sorting by last attempt). When a
+ * search term is given, the `search_text` index is used instead and results
+ * are ordered by relevance. Each quiz is returned with its attempt stats.
+ */
+export const listMyQuizzes = query({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		search: v.optional(v.string()),
+		sourceType: v.optional(
+			v.union(
+				v.literal("pdf"),
+				v.literal("url"),
+				v.literal("prompt"),
+				v.literal("import"),
+				v.literal("bank"),
+			),
+		),
+		difficulty: v.optional(
+			v.union(
+				v.literal("easy"),
+				v.literal("medium"),
+				v.literal("hard"),
+				v.literal("mix"),
+			),
+		),
+		sortBy: v.optional(
+			v.union(v.literal("createdAt"), v.literal("lastAttemptedAt")),
+		),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+		const search = args.search?.trim();
+
+		const baseQuery = search
+			? ctx.db
+					.query("quizzes")
+					.withSearchIndex("search_text", (q) =>
+						q.search("searchText", search).eq("createdBy", user._id),
+					)
+			: args.sortBy === "lastAttemptedAt"
+				? ctx.db
+						.query("quizzes")
+						.withIndex("by_created_by_last_attempted", (q) =>
+							q.eq("createdBy", user._id),
+						)
+						.order("desc")
+				: ctx.db
+						.query("quizzes")
+						.withIndex("by_created_by", (q) => q.eq("createdBy", user._id))
+						.order("desc");
+
+		const result = await filter(baseQuery, async (quiz) => {
+			if (args.sourceType && quiz.quizContext.type !== args.sourceType) {
+				return false;
+			}
+			if (
+				args.difficulty &&
+				getQuizDifficultyMix(await getQuizQuestions(ctx, quiz)) !==
+					args.difficulty
+			) {
+				return false;
+			}
+			return true;
+		}).paginate(args.paginationOpts);
+
+		const page = await Promise.all(
+			result.page.map(async (quiz) => {
+				const questions = await getQuizQuestions(ctx, quiz);
+				const attempts = await ctx.db
+					.query("quiz_attempts")
+					.withIndex("by_user_quiz", (q) =>
+						q.eq("userId", user._id).eq("quizId", quiz._id),
+					)
+					.collect();
+				const finishedAttempts = attempts.filter((a) => a.endedAt);
+
+				return {
+					_id: quiz._id,
+					_creationTime: quiz._creationTime,
+					title: quiz.title,
+					description: quiz.description,
+					sourceType: quiz.quizContext.type,
+					questionCount: questions.length,
+					difficulty: getQuizDifficultyMix(questions),
+					lastAttemptedAt: quiz.lastAttemptedAt,
+					attemptCount: finishedAttempts.length,
+					bestScore:
+						finishedAttempts.length > 0
+							? Math.max(...finishedAttempts.map((a) => a.totalScore))
+							: null,
+				};
+			}),
+		);
+
+		return { ...result, page };
+	},
+});
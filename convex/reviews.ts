@@ -0,0 +1,286 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+	type MutationCtx,
+	internalMutation,
+	mutation,
+	query,
+} from "./_generated/server";
+import {
+	MIGRATION_BATCH_SIZE,
+	getBankQuestionContent,
+	linkQuizToBank,
+} from "./question_bank";
+import { gradeResponse, toPlayQuestion } from "./question_types";
+import { questionResponse, vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SLOW_ANSWER_MS = 30000; // answers slower than 30 seconds get reviewed too
+const FAST_ANSWER_MS = 10000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const REVIEW_SESSION_SIZE = 20;
+
+type ReviewSchedule = Pick<
+	Doc<"review_cards">,
+	"easeFactor" | "interval" | "repetitions" | "lapses" | "dueAt"
+>;
+
+/**
+ * Maps an answer to an SM-2 quality grade (0-5).
+ * Wrong answers are a lapse; correct answers are graded by how long they took.
+ */
+export const gradeReviewAnswer = (isCorrect: boolean, timeTaken: number) => {
+	if (!isCorrect) return 1;
+	if (timeTaken > SLOW_ANSWER_MS) return 3;
+	if (timeTaken > FAST_ANSWER_MS) return 4;
+	return 5;
+};
+
+/**
+ * Computes the next SM-2 schedule for a card after a review of the given quality.
+ */
+export const scheduleReview = (
+	card: ReviewSchedule,
+	quality: number,
+	now: number,
+): ReviewSchedule => {
+	let { repetitions, interval, lapses } = card;
+
+	if (quality < 3) {
+		repetitions = 0;
+		interval = 1;
+		lapses += 1;
+	} else {
+		repetitions += 1;
+		if (repetitions === 1) interval = 1;
+		else if (repetitions === 2) interval = 6;
+		else interval = Math.round(interval * card.easeFactor);
+	}
+
+	const easeFactor = Math.max(
+		MIN_EASE_FACTOR,
+		card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+	);
+
+	return {
+		easeFactor,
+		interval,
+		repetitions,
+		lapses,
+		dueAt: now + interval * DAY_MS,
+	};
+};
+
+/**
+ * Seeds review cards from the answers of a finished quiz attempt.
+ * A card is created (due immediately) for every wrong or slow answer; an existing
+ * card for a question answered wrong again is reset as a lapse. Cards refer to
+ * the quiz's bank questions, so answers to a superseded version of the quiz and
+ * to questions generated for an adaptive attempt are skipped.
+ */
+export const seedReviewCards = async (
+	ctx: MutationCtx,
+	userId: Id<"users">,
+	quiz: Doc<"quizzes">,
+	attempt: Doc<"quiz_attempts">,
+) => {
+	if ((attempt.quizVersion ?? 1) !== (quiz.version ?? 1)) {
+		return;
+	}
+	const now = Date.now();
+
+	for (const answer of attempt.questionAnswers) {
+		const isSlow = answer.timeTaken > SLOW_ANSWER_MS;
+		const questionId = quiz.questionIds?.[answer.questionIndex];
+		if ((answer.isCorrect && !isSlow) || !questionId) {
+			continue;
+		}
+
+		const existingCard = await ctx.db
+			.query("review_cards")
+			.withIndex("by_user_question", (q) =>
+				q.eq("userId", userId).eq("questionId", questionId),
+			)
+			.first();
+
+		if (existingCard) {
+			if (!answer.isCorrect) {
+				await ctx.db.patch(existingCard._id, {
+					...scheduleReview(existingCard, 1, now),
+					dueAt: now,
+				});
+			}
+			continue;
+		}
+
+		await ctx.db.insert("review_cards", {
+			userId,
+			quizId: quiz._id,
+			questionId,
+			easeFactor: DEFAULT_EASE_FACTOR,
+			interval: 0,
+			repetitions: 0,
+			lapses: answer.isCorrect ? 0 : 1,
+			dueAt: now,
+		});
+	}
+};
+
+/**
+ * Counts the review cards of the current user that are due now.
+ */
+export const getDueReviewCount = query({
+	args: {},
+	handler: async (ctx) => {
+		const user = await assertUserAuthenticated(ctx);
+		const dueCards = await ctx.db
+			.query("review_cards")
+			.withIndex("by_user_due", (q) =>
+				q.eq("userId", user._id).lte("dueAt", Date.now()),
+			)
+			.collect();
+		return dueCards.length;
+	},
+});
+
+/**
+ * Fetches the due review cards of the current user, mixed across quizzes,
+ * together with the question each card refers to. The answer key is only
+ * returned by `recordReviewResult` once the card has been answered.
+ */
+export const getReviewSession = query({
+	args: { limit: v.optional(v.number()) },
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+		const dueCards = await ctx.db
+			.query("review_cards")
+			.withIndex("by_user_due", (q) =>
+				q.eq("userId", user._id).lte("dueAt", Date.now()),
+			)
+			.take(args.limit ?? REVIEW_SESSION_SIZE);
+
+		const session = await Promise.all(
+			dueCards.map(async (card) => {
+				const quiz = await ctx.db.get(card.quizId);
+				const question = card.questionId && (await ctx.db.get(card.questionId));
+				if (!quiz || !question) {
+					return null;
+				}
+				return {
+					cardId: card._id,
+					quizId: quiz._id,
+					quizTitle: quiz.title,
+					question: toPlayQuestion(getBankQuestionContent(question), false),
+				};
+			}),
+		);
+
+		return session.filter((item) => item !== null);
+	},
+});
+
+/**
+ * Records the result of reviewing a card and reschedules it with SM-2.
+ * The answer is graded on the server against the question's answer key. A card
+ * whose question has been deleted is removed instead, and reported as such.
+ */
+export const recordReviewResult = mutation({
+	args: {
+		cardId: vv.id("review_cards"),
+		response: questionResponse,
+		timeTaken: v.number(), // in milliseconds
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const card = await ctx.db.get(args.cardId);
+		if (!card) {
+			throw new Error("Review card not found");
+		}
+
+		if (card.userId !== user._id) {
+			throw new Error("Unauthorized: This is not your review card");
+		}
+
+		const bankQuestion = card.questionId && (await ctx.db.get(card.questionId));
+		if (!bankQuestion) {
+			// The question no longer exists, so the card can't be reviewed anymore
+			await ctx.db.delete(card._id);
+			return { removed: true as const };
+		}
+
+		const question = getBankQuestionContent(bankQuestion);
+		const now = Date.now();
+		const isCorrect = gradeResponse(question, args.response);
+		const quality = gradeReviewAnswer(isCorrect, args.timeTaken);
+
+		await ctx.db.patch(card._id, {
+			...scheduleReview(card, quality, now),
+			lastReviewedAt: now,
+		});
+
+		return {
+			removed: false as const,
+			isCorrect,
+			question: toPlayQuestion(question, true),
+		};
+	},
+});
+
+/**
+ * Moves review cards seeded before cards referred to bank questions from their
+ * question index onto the question ID, one batch at a time. Run it once after
+ * deploying with `npx convex run reviews:migrateReviewCardQuestions`; it
+ * schedules itself until every card is migrated. Cards whose question is gone,
+ * or that duplicate a card of the same question, are deleted.
+ */
+export const migrateReviewCardQuestions = internalMutation({
+	args: { cursor: v.optional(v.union(v.string(), v.null())) },
+	handler: async (ctx, args) => {
+		const { page, isDone, continueCursor } = await ctx.db
+			.query("review_cards")
+			.paginate({
+				numItems: MIGRATION_BATCH_SIZE,
+				cursor: args.cursor ?? null,
+			});
+
+		for (const card of page) {
+			if (card.questionId) {
+				continue;
+			}
+
+			// Cards can only refer to quizzes whose questions are in the bank
+			await linkQuizToBank(ctx, card.quizId);
+			const quiz = await ctx.db.get(card.quizId);
+			const questionId =
+				card.questionIndex === undefined
+					? undefined
+					: quiz?.questionIds?.[card.questionIndex];
+			const duplicateCard =
+				questionId &&
+				(await ctx.db
+					.query("review_cards")
+					.withIndex("by_user_question", (q) =>
+						q.eq("userId", card.userId).eq("questionId", questionId),
+					)
+					.first());
+			if (!questionId || duplicateCard) {
+				await ctx.db.delete(card._id);
+				continue;
+			}
+
+			await ctx.db.patch(card._id, { questionId, questionIndex: undefined });
+		}
+
+		if (!isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.reviews.migrateReviewCardQuestions,
+				{ cursor: continueCursor },
+			);
+		}
+	},
+});
@@ -2,6 +2,157 @@ import { typedV } from "convex-helpers/validators";
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const questionDifficulty = v.union(
+	v.literal("easy"),
+	v.literal("medium"),
+	v.literal("hard"),
+);
+
+export const quizQuestionType = v.union(
+	v.literal("multiple_choice"),
+	v.literal("true_false"),
+	v.literal("multiple_select"),
+	v.literal("short_answer"),
+	v.literal("fill_in_blank"),
+	v.literal("ordering"),
+	v.literal("matching"),
+);
+
+/**
+ * Where in the source material a passage is: a page of a PDF, a section of a
+ * web page or a character range of a prompt's text.
+ */
+export const sourceLocation = v.union(
+	v.object({ type: v.literal("page"), page: v.number() }),
+	v.object({
+		type: v.literal("section"),
+		heading: v.string(),
+		// id of the heading element, to link straight to it
+		anchor: v.optional(v.string()),
+	}),
+	v.object({ type: v.literal("range"), start: v.number(), end: v.number() }),
+);
+
+/**
+ * How a single-player attempt is played: standard goes through the quiz in
+ * order, adaptive picks each next question from the answers so far, and exam
+ * runs against a time limit with answers graded only at the end.
+ */
+export const attemptMode = v.union(
+	v.literal("standard"),
+	v.literal("adaptive"),
+	v.literal("exam"),
+);
+
+/**
+ * Help a player can ask for on a question, at an XP cost: its hint, or the
+ * 50:50 lifeline that removes two wrong options.
+ */
+export const questionHelp = v.union(
+	v.literal("hint"),
+	v.literal("fifty_fifty"),
+);
+
+/**
+ * A passage quoted from the source material that backs a question's answer.
+ * Generated citations are only kept when the excerpt is found in the source.
+ */
+export const questionCitation = v.object({
+	excerpt: v.string(),
+	location: sourceLocation,
+});
+
+const questionFields = {
+	question: v.string(),
+	explanation: v.string(),
+	difficulty: questionDifficulty,
+	// A figure shown with the question, e.g. extracted from the source PDF
+	image: v.optional(v.id("_storage")),
+	citation: v.optional(questionCitation),
+	// A nudge toward the answer, shown to players who ask for it
+	hint: v.optional(v.string()),
+};
+
+/**
+ * A quiz question, discriminated by `questionType`. Each type carries its own
+ * answer key; see `gradeResponse` in question_types.ts for how it's graded.
+ */
+export const quizQuestion = v.union(
+	// one correct option, true/false questions have exactly two
+	v.object({
+		...questionFields,
+		questionType: v.union(
+			v.literal("multiple_choice"),
+			v.literal("true_false"),
+		),
+		options: v.array(v.string()),
+		correctOptionIndex: v.float64(),
+	}),
+	// graded by set equality with the correct options
+	v.object({
+		...questionFields,
+		questionType: v.literal("multiple_select"),
+		options: v.array(v.string()),
+		correctOptionIndexes: v.array(v.number()),
+	}),
+	// free text, matched against the accepted answers after normalizing (and
+	// with some typos allowed when fuzzy)
+	v.object({
+		...questionFields,
+		questionType: v.literal("short_answer"),
+		acceptedAnswers: v.array(v.string()),
+		fuzzy: v.optional(v.boolean()),
+	}),
+	// the question text marks every blank with ___, each blank has its own
+	// accepted answers
+	v.object({
+		...questionFields,
+		questionType: v.literal("fill_in_blank"),
+		blanks: v.array(v.array(v.string())),
+		fuzzy: v.optional(v.boolean()),
+	}),
+	// items in their correct order, shown shuffled
+	v.object({
+		...questionFields,
+		questionType: v.literal("ordering"),
+		items: v.array(v.string()),
+	}),
+	// pairs to match, the right-hand sides are shown shuffled
+	v.object({
+		...questionFields,
+		questionType: v.literal("matching"),
+		pairs: v.array(v.object({ left: v.string(), right: v.string() })),
+	}),
+);
+
+/**
+ * A player's answer to a question. Orders and matches refer to positions in
+ * the shuffled items and right-hand sides the player was shown.
+ */
+export const questionResponse = v.union(
+	v.object({ type: v.literal("choice"), selectedIndex: v.number() }),
+	v.object({
+		type: v.literal("choices"),
+		selectedIndexes: v.array(v.number()),
+	}),
+	v.object({ type: v.literal("text"), text: v.string() }),
+	v.object({ type: v.literal("blanks"), texts: v.array(v.string()) }),
+	v.object({ type: v.literal("order"), order: v.array(v.number()) }),
+	v.object({ type: v.literal("matches"), matches: v.array(v.number()) }),
+);
+
+export const quizVisibility = v.union(
+	v.literal("private"), // only the owner
+	v.literal("unlisted"), // anyone with the share link
+	v.literal("public"), // anyone, and listed in quiz discovery
+);
+
+export const userRole = v.union(
+	v.literal("admin"), // staff, can manage users and moderate content
+	v.literal("teacher"),
+	v.literal("student"),
+);
+
 /**
  * Defines the database schema for the application.
  * This includes definitions for 'tasks' and 'users' tables.
@@ -12,7 +163,8 @@ const schema = defineSchema({
 		username: v.string(),
 		email: v.string(),
 		userId: v.string(),
-		// role: v.union(v.literal("admin"), v.literal("user")),
+		// Synced from the Clerk session token (missing means student)
+		role: v.optional(userRole),
 		profileImage: v.optional(v.string()),
 		alreadyOnboarded: v.boolean(),
 		exp: v.float64(),
@@ -30,16 +182,9 @@ const schema = defineSchema({
 	quizzes: defineTable({
 		createdBy: v.id("users"),
 		description: v.string(),
-		questions: v.array(
-			v.object({
-				correctOptionIndex: v.float64(),
-				difficulty: v.string(),
-				explanation: v.string(),
-				options: v.array(v.string()),
-				question: v.string(),
-				questionType: v.string(),
-			}),
-		),
+		// Questions of quizzes created before the question bank, moved into it
+		// by `migrateEmbeddedQuestions`
+		questions: v.optional(v.array(quizQuestion)),
 		quizContext: v.object({
 			fileUrl: v.optional(v.string()),
 			source: v.optional(v.string()),
@@ -47,7 +192,78 @@ const schema = defineSchema({
 			type: v.string(),
 		}),
 		title: v.string(),
-	}).index("by_created_by", ["createdBy"]),
+		// Denormalized title + description, kept in sync for full-text search
+		searchText: v.optional(v.string()),
+		lastAttemptedAt: v.optional(v.float64()),
+		// Current question set version, bumped on every edit (missing means 1)
+		version: v.optional(v.number()),
+		// Who can view and play the quiz (missing means private)
+		visibility: v.optional(quizVisibility),
+		// Slug of the share link, created the first time the quiz is shared
+		shareSlug: v.optional(v.string()),
+		// Quiz this one was duplicated or remixed from
+		derivedFrom: v.optional(v.id("quizzes")),
+		// The quiz's questions, in order, as stored in its owner's question bank
+		// (missing until the quiz is migrated to the question bank)
+		questionIds: v.optional(v.array(v.id("questions"))),
+	})
+		.index("by_created_by", ["createdBy"])
+		.index("by_share_slug", ["shareSlug"])
+		.index("by_created_by_last_attempted", ["createdBy", "lastAttemptedAt"])
+		.index("by_visibility", ["visibility"])
+		// Copies of a quiz share its source file
+		.index("by_source_file", ["quizContext.fileUrl"])
+		.searchIndex("search_text", {
+			searchField: "searchText",
+			filterFields: ["createdBy", "visibility"],
+		}),
+
+	// superseded question sets of edited quizzes, kept so attempts can still be
+	// reviewed against the questions they were graded on
+	quiz_versions: defineTable({
+		quizId: v.id("quizzes"),
+		version: v.number(),
+		questions: v.array(quizQuestion),
+		editedBy: v.id("users"),
+	}).index("by_quiz_version", ["quizId", "version"]),
+
+	// question bank, every question of a user's quizzes stored on its own so
+	// it can be tagged, searched and drawn into new quizzes
+	questions: defineTable({
+		ownerId: v.id("users"),
+		// Missing on questions stored before question types were added, until
+		// `migrateFlatBankQuestions` moves their flat fields below into it
+		content: v.optional(quizQuestion),
+		// Copied from the content for the index
+		difficulty: questionDifficulty,
+		tags: v.array(v.string()),
+		// Where the question came from: the quiz source type and the quiz it
+		// was first stored with
+		source: v.object({
+			type: v.string(),
+			quizId: v.optional(v.id("quizzes")),
+		}),
+		// Denormalized question text + tags, kept in sync for full-text search
+		searchText: v.string(),
+		usageCount: v.number(), // quizzes that include the question
+		answerCount: v.number(),
+		correctCount: v.number(),
+		// The multiple choice question of rows stored before question types were
+		// added, see `content`
+		question: v.optional(v.string()),
+		options: v.optional(v.array(v.string())),
+		correctOptionIndex: v.optional(v.float64()),
+		explanation: v.optional(v.string()),
+		questionType: v.optional(v.string()),
+	})
+		.index("by_owner", ["ownerId"])
+		.index("by_owner_difficulty", ["ownerId", "difficulty"])
+		// Copies of a question share its figure
+		.index("by_image", ["content.image"])
+		.searchIndex("search_text", {
+			searchField: "searchText",
+			filterFields: ["ownerId", "difficulty"],
+		}),
 
 	// upload context schema either from pdf or url
 	uploads: defineTable({
@@ -69,8 +285,13 @@ const schema = defineSchema({
 			v.object({
 				isCorrect: v.boolean(),
 				questionIndex: v.float64(),
+				// The chosen option, -1 for questions answered another way
 				selectedIndex: v.float64(),
+				// Missing for answers to choice questions saved before other types
+				response: v.optional(questionResponse),
 				timeTaken: v.float64(),
+				// Help asked for before answering, missing when there was none
+				usedHelp: v.optional(v.array(questionHelp)),
 			}),
 		),
 		quizId: v.id("quizzes"),
@@ -78,10 +299,94 @@ const schema = defineSchema({
 		totalScore: v.float64(),
 		userId: v.id("users"),
 		feedback: v.optional(v.string()),
+		// Version of the quiz questions this attempt is graded against (missing means 1)
+		quizVersion: v.optional(v.number()),
+		// Set when the attempt was made for a class assignment
+		assignmentId: v.optional(v.id("assignments")),
+		// How the attempt is played (missing means standard)
+		mode: v.optional(attemptMode),
+		// Indexes of the questions in the order they're played: shuffled when the
+		// attempt starts, or served one by one by an adaptive attempt. Missing
+		// for older attempts, which play the quiz in order.
+		servedOrder: v.optional(v.array(v.number())),
+		// For each question, the original option index shown at each position,
+		// see `getOptionOrder`. Answers are saved against the original options.
+		optionOrders: v.optional(v.array(v.array(v.number()))),
+		// Every help asked for, copied to the answer once the question is answered
+		usedHelp: v.optional(
+			v.array(v.object({ questionIndex: v.number(), help: questionHelp })),
+		),
+		// Questions generated for an adaptive attempt once the quiz ran out of a
+		// difficulty, indexed after the quiz's own questions
+		extraQuestions: v.optional(v.array(quizQuestion)),
+		// Difficulty of the question being generated for an adaptive attempt
+		generatingDifficulty: v.optional(questionDifficulty),
+		// Number of questions an adaptive attempt serves
+		questionCount: v.optional(v.number()),
+		// When an exam attempt runs out of time and is finished automatically
+		examEndsAt: v.optional(v.float64()),
+		// Questions the player flagged to revisit before finishing an exam
+		flaggedIndexes: v.optional(v.array(v.number())),
 	})
 		.index("by_quiz", ["quizId"])
 		.index("by_user", ["userId"])
-		.index("by_user_quiz", ["userId", "quizId"]),
+		.index("by_user_quiz", ["userId", "quizId"])
+		.index("by_assignment_user", ["assignmentId", "userId"])
+		.index("by_ended_started", ["endedAt", "startedAt"]),
+
+	// teacher-owned classes that students join with a code
+	classes: defineTable({
+		name: v.string(),
+		description: v.optional(v.string()),
+		ownerId: v.id("users"),
+		joinCode: v.string(),
+	})
+		.index("by_owner", ["ownerId"])
+		.index("by_join_code", ["joinCode"]),
+
+	class_members: defineTable({
+		classId: v.id("classes"),
+		userId: v.id("users"),
+		role: v.union(v.literal("teacher"), v.literal("student")),
+		joinedAt: v.number(),
+	})
+		.index("by_class", ["classId"])
+		.index("by_user", ["userId"])
+		.index("by_class_user", ["classId", "userId"]),
+
+	// quizzes assigned to a class, playable between opensAt and closesAt
+	assignments: defineTable({
+		classId: v.id("classes"),
+		quizId: v.id("quizzes"),
+		assignedBy: v.id("users"),
+		opensAt: v.number(),
+		closesAt: v.number(),
+		maxAttempts: v.optional(v.number()), // unlimited when missing
+	})
+		.index("by_class", ["classId"])
+		.index("by_quiz", ["quizId"]),
+
+	// spaced-repetition cards seeded from wrong or slow answers (SM-2 scheduling)
+	review_cards: defineTable({
+		userId: v.id("users"),
+		// The quiz the card was seeded from, shown as the card's origin
+		quizId: v.id("quizzes"),
+		// The bank question reviewed, which keeps pointing at the same question
+		// when quizzes including it are edited (missing on cards seeded before,
+		// until `migrateReviewCardQuestions` moves them off `questionIndex`)
+		questionId: v.optional(v.id("questions")),
+		questionIndex: v.optional(v.number()),
+		easeFactor: v.float64(),
+		interval: v.number(), // in days
+		repetitions: v.number(),
+		lapses: v.number(),
+		dueAt: v.number(),
+		lastReviewedAt: v.optional(v.number()),
+	})
+		.index("by_user_due", ["userId", "dueAt"])
+		.index("by_user_question", ["userId", "questionId"])
+		.index("by_question", ["questionId"])
+		.index("by_quiz", ["quizId"]),
 
 	quiz_tasks: defineTable({
 		userId: v.id("users"),
@@ -116,6 +421,8 @@ const schema = defineSchema({
 				v.literal("15"),
 				v.literal("30"),
 			),
+			// Missing on tasks created before the choice existed
+			questionTypes: v.optional(v.array(quizQuestionType)),
 		}),
 		title: v.optional(v.string()), // optional title for text prompts
 
@@ -130,6 +437,32 @@ const schema = defineSchema({
 
 		createdAt: v.number(),
 		updatedAt: v.number(),
+	})
+		.index("by_user", ["userId"])
+		.index("by_quiz", ["quizId"]),
+
+	// progress of account deletions, kept after the user row is gone so the
+	// client can follow the deletion until it's done
+	account_deletions: defineTable({
+		clerkUserId: v.string(),
+		userId: v.id("users"),
+		status: v.union(
+			v.literal("running"),
+			v.literal("completed"),
+			v.literal("failed"),
+		),
+		step: v.string(), // table currently being cleaned up
+		deletedCount: v.number(),
+		error: v.optional(v.string()),
+		startedAt: v.number(),
+		completedAt: v.optional(v.number()),
+	}).index("by_clerk_user_id", ["clerkUserId"]),
+
+	// personal data archives users downloaded, only the latest one is kept
+	data_exports: defineTable({
+		userId: v.id("users"),
+		storageId: v.id("_storage"),
+		createdAt: v.number(),
 	}).index("by_user", ["userId"]),
 
 	multiplayer_rooms: defineTable({
@@ -145,7 +478,8 @@ const schema = defineSchema({
 		currentQuestionStartedAt: v.optional(v.number()),
 	})
 		.index("by_code", ["code"])
-		.index("by_host", ["hostId"]),
+		.index("by_host", ["hostId"])
+		.index("by_quiz", ["quizId"]),
 
 	multiplayer_players: defineTable({
 		roomId: v.id("multiplayer_rooms"),
@@ -157,13 +491,18 @@ const schema = defineSchema({
 		questionAnswers: v.array(
 			v.object({
 				questionIndex: v.number(),
+				// The chosen option, -1 for questions answered another way
 				selectedIndex: v.number(),
+				response: v.optional(questionResponse),
 				isCorrect: v.boolean(),
 				timeTaken: v.number(),
 				answeredAt: v.number(),
 			}),
 		),
 		hasAnsweredCurrentQuestion: v.boolean(),
+		// The order this player is shown each question's options in, like
+		// `optionOrders` of quiz attempts
+		optionOrders: v.optional(v.array(v.array(v.number()))),
 	})
 		.index("by_room", ["roomId"])
 		.index("by_user", ["userId"])
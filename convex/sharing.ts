@@ -0,0 +1,273 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { nanoid } from "nanoid";
+import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, action, mutation, query } from "./_generated/server";
+import { getQuizQuestions, insertQuizWithQuestions } from "./question_bank";
+import { type QuizQuestion, assertValidQuestion } from "./question_types";
+import {
+	type QuizWithQuestions,
+	buildQuizSearchText,
+	canViewQuiz,
+	getQuizDifficultyMix,
+} from "./quizzes";
+import { quizVisibility, vv } from "./schema";
+import { assertUserAuthenticated } from "./users";
+
+/**
+ * Changes who can view a quiz. The share link slug is created the first time
+ * the quiz is shared and kept afterwards, so links keep working if the quiz is
+ * made private and shared again.
+ */
+export const updateQuizVisibility = mutation({
+	args: {
+		quizId: vv.id("quizzes"),
+		visibility: quizVisibility,
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz) {
+			throw new Error("Quiz not found");
+		}
+
+		if (quiz.createdBy !== user._id) {
+			throw new Error("Unauthorized: Only the quiz owner can share it");
+		}
+
+		const shareSlug =
+			quiz.shareSlug ??
+			(args.visibility === "private" ? undefined : nanoid(10));
+
+		await ctx.db.patch(quiz._id, {
+			visibility: args.visibility,
+			shareSlug,
+		});
+
+		return { visibility: args.visibility, shareSlug };
+	},
+});
+
+/**
+ * Retrieves the read-only preview of a shared quiz by its share link slug.
+ * Doesn't require authentication and never includes the questions.
+ * Returns null when the slug is unknown or the quiz is private.
+ */
+export const getSharedQuizPreview = query({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const quiz = await ctx.db
+			.query("quizzes")
+			.withIndex("by_share_slug", (q) => q.eq("shareSlug", args.slug))
+			.unique();
+
+		if (!quiz || (quiz.visibility ?? "private") === "private") {
+			return null;
+		}
+
+		const owner = await ctx.db.get(quiz.createdBy);
+		const questions = await getQuizQuestions(ctx, quiz);
+
+		return {
+			_id: quiz._id,
+			title: quiz.title,
+			description: quiz.description,
+			sourceType: quiz.quizContext.type,
+			questionCount: questions.length,
+			difficulty: getQuizDifficultyMix(questions),
+			ownerUsername: owner?.username ?? null,
+		};
+	},
+});
+
+/**
+ * Lists the public quizzes of every user for discovery, newest first, or
+ * ordered by relevance when searching. Unlisted quizzes are only reachable
+ * through their share link, so they're never listed. The questions aren't
+ * included.
+ */
+export const listPublicQuizzes = query({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		search: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		await assertUserAuthenticated(ctx);
+		const search = args.search?.trim();
+
+		const result = await (search
+			? ctx.db
+					.query("quizzes")
+					.withSearchIndex("search_text", (q) =>
+						q.search("searchText", search).eq("visibility", "public"),
+					)
+			: ctx.db
+					.query("quizzes")
+					.withIndex("by_visibility", (q) => q.eq("visibility", "public"))
+					.order("desc")
+		).paginate(args.paginationOpts);
+
+		const page = await Promise.all(
+			result.page.map(async (quiz) => {
+				const owner = await ctx.db.get(quiz.createdBy);
+				const questions = await getQuizQuestions(ctx, quiz);
+				return {
+					_id: quiz._id,
+					_creationTime: quiz._creationTime,
+					title: quiz.title,
+					description: quiz.description,
+					sourceType: quiz.quizContext.type,
+					questionCount: questions.length,
+					difficulty: getQuizDifficultyMix(questions),
+					ownerUsername: owner?.username ?? null,
+				};
+			}),
+		);
+
+		return { ...result, page };
+	},
+});
+
+/**
+ * Whether a user may copy a quiz into their library: only public quizzes and
+ * their own can be copied. Unlisted quizzes are shared to be played, and the
+ * copy would hand over the answer key.
+ */
+const canCopyQuiz = (quiz: Doc<"quizzes">, userId: Id<"users">) =>
+	quiz.createdBy === userId || quiz.visibility === "public";
+
+/**
+ * Inserts a private copy of a quiz into a user's library, linked to the original
+ * through `derivedFrom`. The quiz context is carried over; the title, description
+ * and questions can be replaced (e.g. by a re-targeted remix). The questions are
+ * added to the user's own question bank.
+ */
+export const insertQuizCopy = async (
+	ctx: MutationCtx,
+	source: Doc<"quizzes">,
+	userId: Id<"users">,
+	overrides: Partial<{
+		title: string;
+		description: string;
+		questions: QuizQuestion[];
+	}> = {},
+) => {
+	const title = overrides.title ?? source.title;
+	const description = overrides.description ?? source.description;
+	// Replacement questions come from the AI and get the same checks as new ones
+	overrides.questions?.forEach(assertValidQuestion);
+
+	return await insertQuizWithQuestions(
+		ctx,
+		{
+			createdBy: userId,
+			title,
+			description,
+			quizContext: source.quizContext,
+			searchText: buildQuizSearchText(title, description),
+			visibility: "private",
+			derivedFrom: source._id,
+		},
+		overrides.questions ?? (await getQuizQuestions(ctx, source)),
+	);
+};
+
+/**
+ * Copies a public quiz (or one of the user's own) into their library, as is.
+ */
+export const duplicateQuiz = mutation({
+	args: {
+		quizId: vv.id("quizzes"),
+	},
+	handler: async (ctx, args) => {
+		const user = await assertUserAuthenticated(ctx);
+
+		const quiz = await ctx.db.get(args.quizId);
+		if (!quiz || !canViewQuiz(quiz, user._id)) {
+			throw new Error("Quiz not found");
+		}
+		if (!canCopyQuiz(quiz, user._id)) {
+			throw new Error("Unauthorized: Only public quizzes can be copied");
+		}
+
+		return await insertQuizCopy(ctx, quiz, user._id);
+	},
+});
+
+/**
+ * Copies a public quiz (or one of the user's own) into their library,
+ * regenerating its questions for another education level and/or language. The
+ * questions are generated by `quizGenerator` from the summary of the original
+ * quiz (or the quiz itself when it has no generation task), keeping the
+ * question count and difficulty of the original.
+ */
+export const remixQuiz = action({
+	args: {
+		quizId: vv.id("quizzes"),
+		educationLevel: v.optional(
+			v.union(
+				v.literal("sd"),
+				v.literal("smp"),
+				v.literal("sma"),
+				v.literal("kuliah"),
+			),
+		),
+		language: v.optional(v.union(v.literal("id"), v.literal("en"))),
+	},
+	handler: async (ctx, args): Promise<Id<"quizzes">> => {
+		const user = await ctx.runQuery(api.users.getCurrentUser);
+		if (!user) {
+			throw new Error("User not authenticated");
+		}
+
+		const quiz: QuizWithQuestions | null = await ctx.runQuery(
+			internal.internal_quizzes.getQuizDetails,
+			{ quizId: args.quizId },
+		);
+		if (!quiz || !canViewQuiz(quiz, user._id)) {
+			throw new Error("Quiz not found");
+		}
+		if (!canCopyQuiz(quiz, user._id)) {
+			throw new Error("Unauthorized: Only public quizzes can be copied");
+		}
+
+		const task: Doc<"quiz_tasks"> | null = await ctx.runQuery(
+			internal.internal_quizzes.getQuizTaskByQuiz,
+			{ quizId: quiz._id },
+		);
+
+		const summary =
+			task?.summary ??
+			[
+				quiz.title,
+				quiz.description,
+				...quiz.questions.map((q) => `${q.question}\n${q.explanation}`),
+			].join("\n\n");
+
+		const quizDataFromAI = await ctx.runAction(api.ai.quizGenerator, {
+			summary,
+			metadata: {
+				sourceTitle: task?.metadata?.sourceTitle ?? quiz.title,
+				sourceUrl: task?.metadata?.sourceUrl,
+				contentType: task?.metadata?.contentType ?? quiz.quizContext.type,
+				language: args.language ?? task?.metadata?.language ?? "id",
+				generatedAt: new Date().toISOString(),
+			},
+			quizSettings: {
+				numQuestions: quiz.questions.length,
+				difficulty: getQuizDifficultyMix(quiz.questions),
+				targetAudience: args.educationLevel ?? user.education_level ?? "sma",
+			},
+		});
+
+		return await ctx.runMutation(internal.internal_quizzes.storeRemixedQuiz, {
+			sourceQuizId: quiz._id,
+			userId: user._id,
+			title: quizDataFromAI.title,
+			description: quizDataFromAI.description,
+			questions: quizDataFromAI.questions,
+		});
+	},
+});
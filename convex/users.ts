@@ -1,4 +1,10 @@
-import { v } from "convex/values";
+import {
+	customCtx,
+	customMutation,
+	customQuery,
+} from "convex-helpers/server/customFunctions";
+import type { UserIdentity } from "convex/server";
+import { type Infer, v } from "convex/values";
 import type { Doc } from "./_generated/dataModel";
 import {
 	type MutationCtx,
@@ -6,6 +12,16 @@ import {
 	mutation,
 	query,
 } from "./_generated/server";
+import type { userRole } from "./schema";
+
+export type UserRole = Infer<typeof userRole>;
+
+// Higher roles can do everything lower roles can
+const ROLE_RANK: Record<UserRole, number> = {
+	student: 0,
+	teacher: 1,
+	admin: 2,
+};
 
 export const assertUserAuthenticated = async (ctx: QueryCtx | MutationCtx) => {
 	const identity = await ctx.auth.getUserIdentity();
@@ -25,6 +41,59 @@ export const assertUserAuthenticated = async (ctx: QueryCtx | MutationCtx) => {
 	return user;
 };
 
+export const getUserRole = (user: Doc<"users">): UserRole =>
+	user.role ?? "student";
+
+export const hasRole = (user: Doc<"users">, role: UserRole) =>
+	ROLE_RANK[getUserRole(user)] >= ROLE_RANK[role];
+
+/**
+ * Same as `assertUserAuthenticated`, but also requires the user to have at
+ * least the given role.
+ */
+export const assertUserHasRole = async (
+	ctx: QueryCtx | MutationCtx,
+	role: UserRole,
+) => {
+	const user = await assertUserAuthenticated(ctx);
+	if (!hasRole(user, role)) {
+		throw new Error(`Unauthorized: Requires the ${role} role`);
+	}
+	return user;
+};
+
+/**
+ * Maps the role from a user's Clerk public metadata to a user role. Clerk is
+ * where roles are managed, so a missing or unknown role means student and
+ * removing it in Clerk revokes the user's access. Organization roles are never
+ * accepted: anyone can create an organization and be its admin.
+ */
+export const parseClerkRole = (claim: unknown): UserRole =>
+	claim === "admin" || claim === "teacher" || claim === "student"
+		? claim
+		: "student";
+
+/**
+ * Reads the role from the Clerk session token. The Convex JWT template carries
+ * it as a `role` claim mapped from `{{user.public_metadata.role}}`, which only
+ * the backend can set.
+ */
+export const getRoleFromIdentity = (identity: UserIdentity) =>
+	parseClerkRole(identity.role);
+
+const withRole = (role: UserRole) =>
+	customCtx(async (ctx: QueryCtx) => ({
+		user: await assertUserHasRole(ctx, role),
+	}));
+
+/**
+ * Query and mutation builders that require a role and put the user on `ctx`.
+ */
+export const teacherQuery = customQuery(query, withRole("teacher"));
+export const teacherMutation = customMutation(mutation, withRole("teacher"));
+export const adminQuery = customQuery(query, withRole("admin"));
+export const adminMutation = customMutation(mutation, withRole("admin"));
+
 /**
  * Retrieves the currently authenticated user.
  *
@@ -102,6 +171,7 @@ export const createOrUpdateUser = async (
 			email: args.email,
 			username: args.username,
 			profileImage: args.profileImage,
+			role: args.role ?? existingUser.role,
 		});
 	}
 
@@ -113,6 +183,7 @@ export const createOrUpdateUser = async (
 		alreadyOnboarded: args.alreadyOnboarded as boolean,
 		exp: args.exp as number,
 		education_level: args.education_level as "sd" | "smp" | "sma" | "kuliah",
+		role: args.role,
 	});
 
 	return await ctx.db.get(userId);
@@ -237,3 +308,35 @@ export const updateEducationLevel = mutation({
 		return await ctx.db.get(user._id);
 	},
 });
+
+/**
+ * Copies the role from the current Clerk session token onto the user, so role
+ * changes made in Clerk apply on the next sign-in or token refresh.
+ *
+ * @returns The user's role after syncing, or null if not authenticated or not found.
+ */
+export const syncCurrentUserRole = mutation({
+	args: {},
+	handler: async (ctx) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			return null;
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_user_id", (q) => q.eq("userId", identity.subject))
+			.first();
+
+		if (!user) {
+			return null;
+		}
+
+		const role = getRoleFromIdentity(identity);
+		if (role !== user.role) {
+			await ctx.db.patch(user._id, { role });
+		}
+
+		return role;
+	},
+});
@@ -1,7 +1,10 @@
 "use node";
 import fetch from "node-fetch";
 import { type HTMLElement, parse } from "node-html-parser";
+import { extractImages, extractText, getDocumentProxy } from "unpdf";
+import type { SourceSection } from "./citations";
 import { OPENROUTER_API_KEY, type OpenrouterCompletions } from "./lib";
+import { encodePng } from "./png";
 /**
  * Metrics about the extracted content structure and readability
  */
@@ -36,6 +39,14 @@ export interface ExtractedContent {
 	language: "id" | "en";
 }
 
+/**
+ * Extracted website content, with the page split into sections for citations
+ */
+export interface ExtractedWebContent extends ExtractedContent {
+	/** The full cleaned content split at its headings */
+	sections: SourceSection[];
+}
+
 /**
  * Metrics specific to PDF document analysis
  */
@@ -109,7 +120,7 @@ export interface ProcessedTextContent {
  */
 export async function websiteContentExtractor(
 	url: string,
-): Promise<ExtractedContent | null> {
+): Promise<ExtractedWebContent | null> {
 	try {
 		const response = await fetch(url, {
 			headers: {
@@ -162,12 +173,16 @@ export async function websiteContentExtractor(
 		// Optimasi panjang untuk API (12.000 karakter ~ 3.000 kata)
 		const optimizedContent = optimizeContentLength(cleanedContent, 12000);
 
+		// Bagi konten per heading untuk sitasi soal
+		const sections = splitContentAtHeadings(root, cleanedContent, title);
+
 		return {
 			title,
 			content: optimizedContent,
 			metrics,
 			contentType,
 			language,
+			sections,
 		};
 	} catch (error) {
 		console.error(`Error mengekstrak konten dari ${url}:`, error);
@@ -380,6 +395,70 @@ function extractMainContent(root: HTMLElement): string {
 	return longestContent || root.querySelector("body")?.innerText || "";
 }
 
+/**
+ * Splits cleaned page content into sections at the page's headings
+ *
+ * Headings are found in the content by their cleaned text, in document order.
+ * Each section keeps the heading's id (or the id of an element inside it) as
+ * its anchor, so it can be linked to. Text before the first heading is filed
+ * under the page title.
+ *
+ * @param root - The cleaned HTML root element
+ * @param content - The content extracted from it, after cleanAndStructureText
+ * @param title - The page title
+ * @returns The sections in document order
+ *
+ * @example
+ * ```typescript
+ * const sections = splitContentAtHeadings(root, cleanedContent, title);
+ * // Returns [{ text: "...", location: { type: "section", heading: "Intro", anchor: "intro" } }, ...]
+ * ```
+ */
+function splitContentAtHeadings(
+	root: HTMLElement,
+	content: string,
+	title: string,
+): SourceSection[] {
+	const boundaries: { index: number; heading: string; anchor?: string }[] = [
+		{ index: 0, heading: title },
+	];
+
+	let cursor = 0;
+	for (const element of root.querySelectorAll("h1, h2, h3, h4")) {
+		const heading = cleanAndStructureText(element.innerText);
+		if (heading.length < 3) {
+			continue;
+		}
+		const index = content.indexOf(heading, cursor);
+		if (index === -1) {
+			continue;
+		}
+		const anchor =
+			element.getAttribute("id") ||
+			element.querySelector("[id]")?.getAttribute("id");
+		boundaries.push({ index, heading, anchor: anchor || undefined });
+		cursor = index + heading.length;
+	}
+
+	return boundaries.flatMap((boundary, i) => {
+		const text = content
+			.slice(boundary.index, boundaries[i + 1]?.index ?? content.length)
+			.trim();
+		return text
+			? [
+					{
+						text,
+						location: {
+							type: "section" as const,
+							heading: boundary.heading,
+							anchor: boundary.anchor,
+						},
+					},
+				]
+			: [];
+	});
+}
+
 /**
  * Cleans and structures raw text content for better readability
  *
@@ -685,7 +764,7 @@ function optimizeContentLength(content: string, maxLength: number): string {
  * Includes comprehensive error handling and validation.
  *
  * @param pdfURL - The URL pointing to the PDF file to download and encode
- * @returns Promise resolving to object containing base64 PDF data, file size, and filename
+ * @returns Promise resolving to object containing base64 PDF data, the raw PDF bytes, file size, and filename
  *
  * @throws {Error} When URL is invalid, file is not a PDF, file is too large (>50MB), or download fails
  *
@@ -695,9 +774,12 @@ function optimizeContentLength(content: string, maxLength: number): string {
  * console.log(`Encoded ${fileName} (${Math.round(fileSize/1024)}KB)`);
  * ```
  */
-export async function encodePDFFromCloudURL(
-	pdfURL: string,
-): Promise<{ base64PDF: string; fileSize: number; fileName: string }> {
+export async function encodePDFFromCloudURL(pdfURL: string): Promise<{
+	base64PDF: string;
+	pdfBuffer: Buffer;
+	fileSize: number;
+	fileName: string;
+}> {
 	try {
 		// Validasi URL format
 		console.log(`Memproses URL PDF: ${pdfURL}`);
@@ -752,6 +834,7 @@ export async function encodePDFFromCloudURL(
 
 		return {
 			base64PDF: `data:application/pdf;base64,${base64PDF}`,
+			pdfBuffer,
 			fileSize: actualFileSize,
 			fileName,
 		};
@@ -929,6 +1012,127 @@ export async function extractPDFContent(
 	}
 }
 
+/**
+ * An image embedded in a PDF, encoded as PNG
+ */
+export interface PDFFigure {
+	/** 1-based page the image appears on */
+	pageNumber: number;
+	width: number;
+	height: number;
+	png: Uint8Array;
+}
+
+// Smaller images are usually icons, bullets or logos rather than figures
+const MIN_FIGURE_SIZE = 120;
+// Larger images are scaled-down page scans that would blow the memory budget
+const MAX_FIGURE_PIXELS = 4_000_000;
+
+/**
+ * Extracts the images embedded in a PDF that are large enough to be figures
+ *
+ * Images repeated across pages (headers, watermarks) are only kept once.
+ *
+ * @param pdfBuffer - The PDF file
+ * @param maxFigures - Stop after this many figures
+ * @returns The figures in page order
+ *
+ * @example
+ * ```typescript
+ * const figures = await extractPDFFigures(pdfBuffer, 8);
+ * console.log(`Found ${figures.length} figures`);
+ * ```
+ */
+export async function extractPDFFigures(
+	pdfBuffer: Buffer,
+	maxFigures: number,
+): Promise<PDFFigure[]> {
+	// pdf.js takes ownership of the data, so give it a copy
+	const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer));
+	const figures: PDFFigure[] = [];
+	const seen = new Set<string>();
+
+	try {
+		for (
+			let pageNumber = 1;
+			pageNumber <= pdf.numPages && figures.length < maxFigures;
+			pageNumber++
+		) {
+			const images = await extractImages(pdf, pageNumber);
+			for (const image of images) {
+				if (
+					image.width < MIN_FIGURE_SIZE ||
+					image.height < MIN_FIGURE_SIZE ||
+					image.width * image.height > MAX_FIGURE_PIXELS
+				) {
+					continue;
+				}
+
+				const fingerprint = `${image.width}x${image.height}:${image.data
+					.subarray(0, 4096)
+					.join(",")}`;
+				if (seen.has(fingerprint)) {
+					continue;
+				}
+				seen.add(fingerprint);
+
+				figures.push({
+					pageNumber,
+					width: image.width,
+					height: image.height,
+					png: encodePng(image),
+				});
+				if (figures.length >= maxFigures) {
+					break;
+				}
+			}
+		}
+	} finally {
+		await pdf.loadingTask.destroy();
+	}
+
+	return figures;
+}
+
+/**
+ * Extracts the text layer of each page of a PDF, so quotes can be traced back
+ * to the page they came from
+ *
+ * Scanned pages without a text layer are left out.
+ *
+ * @param pdfBuffer - The PDF file
+ * @returns One section per page with text, in page order
+ *
+ * @example
+ * ```typescript
+ * const pages = await extractPDFPages(pdfBuffer);
+ * console.log(`Page ${pages[0].location.page}: ${pages[0].text}`);
+ * ```
+ */
+export async function extractPDFPages(
+	pdfBuffer: Buffer,
+): Promise<SourceSection[]> {
+	// pdf.js takes ownership of the data, so give it a copy
+	const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer));
+
+	try {
+		const { text } = await extractText(pdf, { mergePages: false });
+		return text.flatMap((pageText, index) => {
+			const cleanedText = pageText.replace(/\s+/g, " ").trim();
+			return cleanedText
+				? [
+						{
+							text: cleanedText,
+							location: { type: "page" as const, page: index + 1 },
+						},
+					]
+				: [];
+		});
+	} finally {
+		await pdf.loadingTask.destroy();
+	}
+}
+
 /**
  * Validates whether a URL points to a PDF file
  *
@@ -0,0 +1,56 @@
+import { cn } from "@/lib/utils";
+import "highlight.js/styles/github.css";
+import "katex/dist/katex.min.css";
+import Markdown, { type Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+const remarkPlugins = [remarkGfm, remarkMath];
+const rehypePlugins = [
+	// Keep trust off so \href and friends can't produce javascript: links
+	[rehypeKatex, { throwOnError: false, trust: false, strict: "ignore" }],
+	[rehypeHighlight, { detect: true }],
+] satisfies React.ComponentProps<typeof Markdown>["rehypePlugins"];
+
+// Inline text goes inside buttons and labels, where block elements aren't allowed
+const inlineComponents: Components = {
+	p: ({ children }) => <>{children}</>,
+};
+
+const blockClassName =
+	"space-y-2 [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5 [&_a]:underline";
+const codeClassName =
+	"[&_code]:font-mono [&_code]:text-[0.9em] [&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-muted [&_:not(pre)>code]:px-1 [&_pre]:overflow-x-auto [&_pre]:rounded-md [&_pre]:border [&_pre]:p-3 [&_pre]:text-sm [&_.katex-display]:overflow-x-auto [&_.katex-display]:py-1";
+
+interface RichTextProps {
+	children: string;
+	// Render without paragraphs, for options and other short text
+	inline?: boolean;
+	className?: string;
+}
+
+/**
+ * Renders quiz text written in Markdown with $inline$ and $$block$$ KaTeX math
+ * and fenced code blocks with syntax highlighting. Raw HTML in the text is
+ * escaped and shown as literal text (react-markdown turns it into text nodes
+ * without rehype-raw), and unsafe link URLs are dropped, so AI-generated or
+ * imported content can't inject markup.
+ */
+export function RichText({ children, inline, className }: RichTextProps) {
+	const Wrapper = inline ? "span" : "div";
+	return (
+		<Wrapper
+			className={cn(!inline && blockClassName, codeClassName, className)}
+		>
+			<Markdown
+				remarkPlugins={remarkPlugins}
+				rehypePlugins={rehypePlugins}
+				components={inline ? inlineComponents : undefined}
+			>
+				{children}
+			</Markdown>
+		</Wrapper>
+	);
+}
@@ -16,8 +16,13 @@ import { Route as rootRoute } from './routes/__root'
 import { Route as AppImport } from './routes/_app'
 import { Route as IndexImport } from './routes/index'
 import { Route as AppAuthenticatedImport } from './routes/_app/_authenticated'
+import { Route as AppShareSlugImport } from './routes/_app/share/$slug'
 import { Route as AppAuthenticatedQuizzesRouteImport } from './routes/_app/_authenticated/quizzes/route'
 import { Route as AppAuthenticatedQuizzesIndexImport } from './routes/_app/_authenticated/quizzes/index'
+import { Route as AppAuthenticatedQuizzesImportImport } from './routes/_app/_authenticated/quizzes/import'
+import { Route as AppAuthenticatedQuizzesGradebookImport } from './routes/_app/_authenticated/quizzes/gradebook'
+import { Route as AppAuthenticatedQuizzesExploreImport } from './routes/_app/_authenticated/quizzes/explore'
+import { Route as AppAuthenticatedQuizzesBankImport } from './routes/_app/_authenticated/quizzes/bank'
 import { Route as AppAuthenticatedOnboardingLayoutImport } from './routes/_app/_authenticated/onboarding/_layout'
 import { Route as AppAuthenticatedDashboardLayoutImport } from './routes/_app/_authenticated/dashboard/_layout'
 import { Route as AppAuthenticatedQuizzesQuizIdIndexImport } from './routes/_app/_authenticated/quizzes/$quizId/index'
@@ -25,14 +30,20 @@ import { Route as AppAuthenticatedMultiplayerRoomCodeIndexImport } from './route
 import { Route as AppAuthenticatedDashboardLayoutIndexImport } from './routes/_app/_authenticated/dashboard/_layout.index'
 import { Route as AppAuthenticatedQuizzesQuizIdResultImport } from './routes/_app/_authenticated/quizzes/$quizId/result'
 import { Route as AppAuthenticatedQuizzesQuizIdPlayImport } from './routes/_app/_authenticated/quizzes/$quizId/play'
+import { Route as AppAuthenticatedQuizzesQuizIdEditImport } from './routes/_app/_authenticated/quizzes/$quizId/edit'
+import { Route as AppAuthenticatedQuizzesQuizIdAnalyticsImport } from './routes/_app/_authenticated/quizzes/$quizId/analytics'
 import { Route as AppAuthenticatedOnboardingLayoutUsernameImport } from './routes/_app/_authenticated/onboarding/_layout.username'
 import { Route as AppAuthenticatedOnboardingLayoutEducationLevelImport } from './routes/_app/_authenticated/onboarding/_layout.education-level'
 import { Route as AppAuthenticatedMultiplayerRoomCodeResultsImport } from './routes/_app/_authenticated/multiplayer/$roomCode/results'
 import { Route as AppAuthenticatedMultiplayerRoomCodePlayImport } from './routes/_app/_authenticated/multiplayer/$roomCode/play'
 import { Route as AppAuthenticatedDashboardLayoutSettingsImport } from './routes/_app/_authenticated/dashboard/_layout.settings'
+import { Route as AppAuthenticatedDashboardLayoutReviewImport } from './routes/_app/_authenticated/dashboard/_layout.review'
 import { Route as AppAuthenticatedDashboardLayoutLeaderboardImport } from './routes/_app/_authenticated/dashboard/_layout.leaderboard'
 import { Route as AppAuthenticatedDashboardLayoutHistoryImport } from './routes/_app/_authenticated/dashboard/_layout.history'
+import { Route as AppAuthenticatedDashboardLayoutAdminImport } from './routes/_app/_authenticated/dashboard/_layout.admin'
 import { Route as AppAuthenticatedDashboardLayoutSettingsIndexImport } from './routes/_app/_authenticated/dashboard/_layout.settings.index'
+import { Route as AppAuthenticatedDashboardLayoutClassesIndexImport } from './routes/_app/_authenticated/dashboard/_layout.classes.index'
+import { Route as AppAuthenticatedDashboardLayoutClassesClassIdImport } from './routes/_app/_authenticated/dashboard/_layout.classes.$classId'
 
 // Create Virtual Routes
 
@@ -75,6 +86,12 @@ const AppAuthenticatedDashboardRoute = AppAuthenticatedDashboardImport.update({
   getParentRoute: () => AppAuthenticatedRoute,
 } as any)
 
+const AppShareSlugRoute = AppShareSlugImport.update({
+  id: '/share/$slug',
+  path: '/share/$slug',
+  getParentRoute: () => AppRoute,
+} as any)
+
 const AppAuthenticatedQuizzesRouteRoute =
   AppAuthenticatedQuizzesRouteImport.update({
     id: '/quizzes',
@@ -89,6 +106,34 @@ const AppAuthenticatedQuizzesIndexRoute =
     getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
   } as any)
 
+const AppAuthenticatedQuizzesImportRoute =
+  AppAuthenticatedQuizzesImportImport.update({
+    id: '/import',
+    path: '/import',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
+const AppAuthenticatedQuizzesGradebookRoute =
+  AppAuthenticatedQuizzesGradebookImport.update({
+    id: '/gradebook',
+    path: '/gradebook',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
+const AppAuthenticatedQuizzesExploreRoute =
+  AppAuthenticatedQuizzesExploreImport.update({
+    id: '/explore',
+    path: '/explore',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
+const AppAuthenticatedQuizzesBankRoute =
+  AppAuthenticatedQuizzesBankImport.update({
+    id: '/bank',
+    path: '/bank',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
 const AppAuthenticatedOnboardingLayoutRoute =
   AppAuthenticatedOnboardingLayoutImport.update({
     id: '/_layout',
@@ -136,6 +181,20 @@ const AppAuthenticatedQuizzesQuizIdPlayRoute =
     getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
   } as any)
 
+const AppAuthenticatedQuizzesQuizIdEditRoute =
+  AppAuthenticatedQuizzesQuizIdEditImport.update({
+    id: '/$quizId/edit',
+    path: '/$quizId/edit',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
+const AppAuthenticatedQuizzesQuizIdAnalyticsRoute =
+  AppAuthenticatedQuizzesQuizIdAnalyticsImport.update({
+    id: '/$quizId/analytics',
+    path: '/$quizId/analytics',
+    getParentRoute: () => AppAuthenticatedQuizzesRouteRoute,
+  } as any)
+
 const AppAuthenticatedOnboardingLayoutUsernameRoute =
   AppAuthenticatedOnboardingLayoutUsernameImport.update({
     id: '/username',
@@ -171,6 +230,13 @@ const AppAuthenticatedDashboardLayoutSettingsRoute =
     getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
   } as any)
 
+const AppAuthenticatedDashboardLayoutReviewRoute =
+  AppAuthenticatedDashboardLayoutReviewImport.update({
+    id: '/review',
+    path: '/review',
+    getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
+  } as any)
+
 const AppAuthenticatedDashboardLayoutLeaderboardRoute =
   AppAuthenticatedDashboardLayoutLeaderboardImport.update({
     id: '/leaderboard',
@@ -185,6 +251,13 @@ const AppAuthenticatedDashboardLayoutHistoryRoute =
     getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
   } as any)
 
+const AppAuthenticatedDashboardLayoutAdminRoute =
+  AppAuthenticatedDashboardLayoutAdminImport.update({
+    id: '/admin',
+    path: '/admin',
+    getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
+  } as any)
+
 const AppAuthenticatedDashboardLayoutSettingsIndexRoute =
   AppAuthenticatedDashboardLayoutSettingsIndexImport.update({
     id: '/',
@@ -192,6 +265,20 @@ const AppAuthenticatedDashboardLayoutSettingsIndexRoute =
     getParentRoute: () => AppAuthenticatedDashboardLayoutSettingsRoute,
   } as any)
 
+const AppAuthenticatedDashboardLayoutClassesIndexRoute =
+  AppAuthenticatedDashboardLayoutClassesIndexImport.update({
+    id: '/classes/',
+    path: '/classes/',
+    getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
+  } as any)
+
+const AppAuthenticatedDashboardLayoutClassesClassIdRoute =
+  AppAuthenticatedDashboardLayoutClassesClassIdImport.update({
+    id: '/classes/$classId',
+    path: '/classes/$classId',
+    getParentRoute: () => AppAuthenticatedDashboardLayoutRoute,
+  } as any)
+
 // Populate the FileRoutesByPath interface
 
 declare module '@tanstack/react-router' {
@@ -224,6 +311,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedQuizzesRouteImport
       parentRoute: typeof AppAuthenticatedImport
     }
+    '/_app/share/$slug': {
+      id: '/_app/share/$slug'
+      path: '/share/$slug'
+      fullPath: '/share/$slug'
+      preLoaderRoute: typeof AppShareSlugImport
+      parentRoute: typeof AppImport
+    }
     '/_app/_authenticated/dashboard': {
       id: '/_app/_authenticated/dashboard'
       path: '/dashboard'
@@ -252,6 +346,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedOnboardingLayoutImport
       parentRoute: typeof AppAuthenticatedOnboardingRoute
     }
+    '/_app/_authenticated/quizzes/bank': {
+      id: '/_app/_authenticated/quizzes/bank'
+      path: '/bank'
+      fullPath: '/quizzes/bank'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesBankImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
+    '/_app/_authenticated/quizzes/explore': {
+      id: '/_app/_authenticated/quizzes/explore'
+      path: '/explore'
+      fullPath: '/quizzes/explore'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesExploreImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
+    '/_app/_authenticated/quizzes/gradebook': {
+      id: '/_app/_authenticated/quizzes/gradebook'
+      path: '/gradebook'
+      fullPath: '/quizzes/gradebook'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesGradebookImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
+    '/_app/_authenticated/quizzes/import': {
+      id: '/_app/_authenticated/quizzes/import'
+      path: '/import'
+      fullPath: '/quizzes/import'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesImportImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
     '/_app/_authenticated/quizzes/': {
       id: '/_app/_authenticated/quizzes/'
       path: '/'
@@ -259,6 +381,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedQuizzesIndexImport
       parentRoute: typeof AppAuthenticatedQuizzesRouteImport
     }
+    '/_app/_authenticated/dashboard/_layout/admin': {
+      id: '/_app/_authenticated/dashboard/_layout/admin'
+      path: '/admin'
+      fullPath: '/dashboard/admin'
+      preLoaderRoute: typeof AppAuthenticatedDashboardLayoutAdminImport
+      parentRoute: typeof AppAuthenticatedDashboardLayoutImport
+    }
     '/_app/_authenticated/dashboard/_layout/history': {
       id: '/_app/_authenticated/dashboard/_layout/history'
       path: '/history'
@@ -273,6 +402,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedDashboardLayoutLeaderboardImport
       parentRoute: typeof AppAuthenticatedDashboardLayoutImport
     }
+    '/_app/_authenticated/dashboard/_layout/review': {
+      id: '/_app/_authenticated/dashboard/_layout/review'
+      path: '/review'
+      fullPath: '/dashboard/review'
+      preLoaderRoute: typeof AppAuthenticatedDashboardLayoutReviewImport
+      parentRoute: typeof AppAuthenticatedDashboardLayoutImport
+    }
     '/_app/_authenticated/dashboard/_layout/settings': {
       id: '/_app/_authenticated/dashboard/_layout/settings'
       path: '/settings'
@@ -308,6 +444,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedOnboardingLayoutUsernameImport
       parentRoute: typeof AppAuthenticatedOnboardingLayoutImport
     }
+    '/_app/_authenticated/quizzes/$quizId/analytics': {
+      id: '/_app/_authenticated/quizzes/$quizId/analytics'
+      path: '/$quizId/analytics'
+      fullPath: '/quizzes/$quizId/analytics'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesQuizIdAnalyticsImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
+    '/_app/_authenticated/quizzes/$quizId/edit': {
+      id: '/_app/_authenticated/quizzes/$quizId/edit'
+      path: '/$quizId/edit'
+      fullPath: '/quizzes/$quizId/edit'
+      preLoaderRoute: typeof AppAuthenticatedQuizzesQuizIdEditImport
+      parentRoute: typeof AppAuthenticatedQuizzesRouteImport
+    }
     '/_app/_authenticated/quizzes/$quizId/play': {
       id: '/_app/_authenticated/quizzes/$quizId/play'
       path: '/$quizId/play'
@@ -343,6 +493,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppAuthenticatedQuizzesQuizIdIndexImport
       parentRoute: typeof AppAuthenticatedQuizzesRouteImport
     }
+    '/_app/_authenticated/dashboard/_layout/classes/$classId': {
+      id: '/_app/_authenticated/dashboard/_layout/classes/$classId'
+      path: '/classes/$classId'
+      fullPath: '/dashboard/classes/$classId'
+      preLoaderRoute: typeof AppAuthenticatedDashboardLayoutClassesClassIdImport
+      parentRoute: typeof AppAuthenticatedDashboardLayoutImport
+    }
+    '/_app/_authenticated/dashboard/_layout/classes/': {
+      id: '/_app/_authenticated/dashboard/_layout/classes/'
+      path: '/classes'
+      fullPath: '/dashboard/classes'
+      preLoaderRoute: typeof AppAuthenticatedDashboardLayoutClassesIndexImport
+      parentRoute: typeof AppAuthenticatedDashboardLayoutImport
+    }
     '/_app/_authenticated/dashboard/_layout/settings/': {
       id: '/_app/_authenticated/dashboard/_layout/settings/'
       path: '/'
@@ -356,7 +520,13 @@ declare module '@tanstack/react-router' {
 // Create and export the route tree
 
 interface AppAuthenticatedQuizzesRouteRouteChildren {
+  AppAuthenticatedQuizzesBankRoute: typeof AppAuthenticatedQuizzesBankRoute
+  AppAuthenticatedQuizzesExploreRoute: typeof AppAuthenticatedQuizzesExploreRoute
+  AppAuthenticatedQuizzesGradebookRoute: typeof AppAuthenticatedQuizzesGradebookRoute
+  AppAuthenticatedQuizzesImportRoute: typeof AppAuthenticatedQuizzesImportRoute
   AppAuthenticatedQuizzesIndexRoute: typeof AppAuthenticatedQuizzesIndexRoute
+  AppAuthenticatedQuizzesQuizIdAnalyticsRoute: typeof AppAuthenticatedQuizzesQuizIdAnalyticsRoute
+  AppAuthenticatedQuizzesQuizIdEditRoute: typeof AppAuthenticatedQuizzesQuizIdEditRoute
   AppAuthenticatedQuizzesQuizIdPlayRoute: typeof AppAuthenticatedQuizzesQuizIdPlayRoute
   AppAuthenticatedQuizzesQuizIdResultRoute: typeof AppAuthenticatedQuizzesQuizIdResultRoute
   AppAuthenticatedQuizzesQuizIdIndexRoute: typeof AppAuthenticatedQuizzesQuizIdIndexRoute
@@ -364,7 +534,16 @@ interface AppAuthenticatedQuizzesRouteRouteChildren {
 
 const AppAuthenticatedQuizzesRouteRouteChildren: AppAuthenticatedQuizzesRouteRouteChildren =
   {
+    AppAuthenticatedQuizzesBankRoute: AppAuthenticatedQuizzesBankRoute,
+    AppAuthenticatedQuizzesExploreRoute: AppAuthenticatedQuizzesExploreRoute,
+    AppAuthenticatedQuizzesGradebookRoute:
+      AppAuthenticatedQuizzesGradebookRoute,
+    AppAuthenticatedQuizzesImportRoute: AppAuthenticatedQuizzesImportRoute,
     AppAuthenticatedQuizzesIndexRoute: AppAuthenticatedQuizzesIndexRoute,
+    AppAuthenticatedQuizzesQuizIdAnalyticsRoute:
+      AppAuthenticatedQuizzesQuizIdAnalyticsRoute,
+    AppAuthenticatedQuizzesQuizIdEditRoute:
+      AppAuthenticatedQuizzesQuizIdEditRoute,
     AppAuthenticatedQuizzesQuizIdPlayRoute:
       AppAuthenticatedQuizzesQuizIdPlayRoute,
     AppAuthenticatedQuizzesQuizIdResultRoute:
@@ -394,22 +573,34 @@ const AppAuthenticatedDashboardLayoutSettingsRouteWithChildren =
   )
 
 interface AppAuthenticatedDashboardLayoutRouteChildren {
+  AppAuthenticatedDashboardLayoutAdminRoute: typeof AppAuthenticatedDashboardLayoutAdminRoute
   AppAuthenticatedDashboardLayoutHistoryRoute: typeof AppAuthenticatedDashboardLayoutHistoryRoute
   AppAuthenticatedDashboardLayoutLeaderboardRoute: typeof AppAuthenticatedDashboardLayoutLeaderboardRoute
+  AppAuthenticatedDashboardLayoutReviewRoute: typeof AppAuthenticatedDashboardLayoutReviewRoute
   AppAuthenticatedDashboardLayoutSettingsRoute: typeof AppAuthenticatedDashboardLayoutSettingsRouteWithChildren
   AppAuthenticatedDashboardLayoutIndexRoute: typeof AppAuthenticatedDashboardLayoutIndexRoute
+  AppAuthenticatedDashboardLayoutClassesClassIdRoute: typeof AppAuthenticatedDashboardLayoutClassesClassIdRoute
+  AppAuthenticatedDashboardLayoutClassesIndexRoute: typeof AppAuthenticatedDashboardLayoutClassesIndexRoute
 }
 
 const AppAuthenticatedDashboardLayoutRouteChildren: AppAuthenticatedDashboardLayoutRouteChildren =
   {
+    AppAuthenticatedDashboardLayoutAdminRoute:
+      AppAuthenticatedDashboardLayoutAdminRoute,
     AppAuthenticatedDashboardLayoutHistoryRoute:
       AppAuthenticatedDashboardLayoutHistoryRoute,
     AppAuthenticatedDashboardLayoutLeaderboardRoute:
       AppAuthenticatedDashboardLayoutLeaderboardRoute,
+    AppAuthenticatedDashboardLayoutReviewRoute:
+      AppAuthenticatedDashboardLayoutReviewRoute,
     AppAuthenticatedDashboardLayoutSettingsRoute:
       AppAuthenticatedDashboardLayoutSettingsRouteWithChildren,
     AppAuthenticatedDashboardLayoutIndexRoute:
       AppAuthenticatedDashboardLayoutIndexRoute,
+    AppAuthenticatedDashboardLayoutClassesClassIdRoute:
+      AppAuthenticatedDashboardLayoutClassesClassIdRoute,
+    AppAuthenticatedDashboardLayoutClassesIndexRoute:
+      AppAuthenticatedDashboardLayoutClassesIndexRoute,
   }
 
 const AppAuthenticatedDashboardLayoutRouteWithChildren =
@@ -492,10 +683,12 @@ const AppAuthenticatedRouteWithChildren =
 
 interface AppRouteChildren {
   AppAuthenticatedRoute: typeof AppAuthenticatedRouteWithChildren
+  AppShareSlugRoute: typeof AppShareSlugRoute
 }
 
 const AppRouteChildren: AppRouteChildren = {
   AppAuthenticatedRoute: AppAuthenticatedRouteWithChildren,
+  AppShareSlugRoute: AppShareSlugRoute,
 }
 
 const AppRouteWithChildren = AppRoute._addFileChildren(AppRouteChildren)
@@ -504,40 +697,62 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '': typeof AppAuthenticatedRouteWithChildren
   '/quizzes': typeof AppAuthenticatedQuizzesRouteRouteWithChildren
+  '/share/$slug': typeof AppShareSlugRoute
   '/dashboard': typeof AppAuthenticatedDashboardLayoutRouteWithChildren
   '/onboarding': typeof AppAuthenticatedOnboardingLayoutRouteWithChildren
+  '/quizzes/bank': typeof AppAuthenticatedQuizzesBankRoute
+  '/quizzes/explore': typeof AppAuthenticatedQuizzesExploreRoute
+  '/quizzes/gradebook': typeof AppAuthenticatedQuizzesGradebookRoute
+  '/quizzes/import': typeof AppAuthenticatedQuizzesImportRoute
   '/quizzes/': typeof AppAuthenticatedQuizzesIndexRoute
+  '/dashboard/admin': typeof AppAuthenticatedDashboardLayoutAdminRoute
   '/dashboard/history': typeof AppAuthenticatedDashboardLayoutHistoryRoute
   '/dashboard/leaderboard': typeof AppAuthenticatedDashboardLayoutLeaderboardRoute
+  '/dashboard/review': typeof AppAuthenticatedDashboardLayoutReviewRoute
   '/dashboard/settings': typeof AppAuthenticatedDashboardLayoutSettingsRouteWithChildren
   '/multiplayer/$roomCode/play': typeof AppAuthenticatedMultiplayerRoomCodePlayRoute
   '/multiplayer/$roomCode/results': typeof AppAuthenticatedMultiplayerRoomCodeResultsRoute
   '/onboarding/education-level': typeof AppAuthenticatedOnboardingLayoutEducationLevelRoute
   '/onboarding/username': typeof AppAuthenticatedOnboardingLayoutUsernameRoute
+  '/quizzes/$quizId/analytics': typeof AppAuthenticatedQuizzesQuizIdAnalyticsRoute
+  '/quizzes/$quizId/edit': typeof AppAuthenticatedQuizzesQuizIdEditRoute
   '/quizzes/$quizId/play': typeof AppAuthenticatedQuizzesQuizIdPlayRoute
   '/quizzes/$quizId/result': typeof AppAuthenticatedQuizzesQuizIdResultRoute
   '/dashboard/': typeof AppAuthenticatedDashboardLayoutIndexRoute
   '/multiplayer/$roomCode': typeof AppAuthenticatedMultiplayerRoomCodeIndexRoute
   '/quizzes/$quizId': typeof AppAuthenticatedQuizzesQuizIdIndexRoute
+  '/dashboard/classes/$classId': typeof AppAuthenticatedDashboardLayoutClassesClassIdRoute
+  '/dashboard/classes': typeof AppAuthenticatedDashboardLayoutClassesIndexRoute
   '/dashboard/settings/': typeof AppAuthenticatedDashboardLayoutSettingsIndexRoute
 }
 
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '': typeof AppAuthenticatedRouteWithChildren
+  '/share/$slug': typeof AppShareSlugRoute
   '/dashboard': typeof AppAuthenticatedDashboardLayoutIndexRoute
   '/onboarding': typeof AppAuthenticatedOnboardingLayoutRouteWithChildren
+  '/quizzes/bank': typeof AppAuthenticatedQuizzesBankRoute
+  '/quizzes/explore': typeof AppAuthenticatedQuizzesExploreRoute
+  '/quizzes/gradebook': typeof AppAuthenticatedQuizzesGradebookRoute
+  '/quizzes/import': typeof AppAuthenticatedQuizzesImportRoute
   '/quizzes': typeof AppAuthenticatedQuizzesIndexRoute
+  '/dashboard/admin': typeof AppAuthenticatedDashboardLayoutAdminRoute
   '/dashboard/history': typeof AppAuthenticatedDashboardLayoutHistoryRoute
   '/dashboard/leaderboard': typeof AppAuthenticatedDashboardLayoutLeaderboardRoute
+  '/dashboard/review': typeof AppAuthenticatedDashboardLayoutReviewRoute
   '/multiplayer/$roomCode/play': typeof AppAuthenticatedMultiplayerRoomCodePlayRoute
   '/multiplayer/$roomCode/results': typeof AppAuthenticatedMultiplayerRoomCodeResultsRoute
   '/onboarding/education-level': typeof AppAuthenticatedOnboardingLayoutEducationLevelRoute
   '/onboarding/username': typeof AppAuthenticatedOnboardingLayoutUsernameRoute
+  '/quizzes/$quizId/analytics': typeof AppAuthenticatedQuizzesQuizIdAnalyticsRoute
+  '/quizzes/$quizId/edit': typeof AppAuthenticatedQuizzesQuizIdEditRoute
   '/quizzes/$quizId/play': typeof AppAuthenticatedQuizzesQuizIdPlayRoute
   '/quizzes/$quizId/result': typeof AppAuthenticatedQuizzesQuizIdResultRoute
   '/multiplayer/$roomCode': typeof AppAuthenticatedMultiplayerRoomCodeIndexRoute
   '/quizzes/$quizId': typeof AppAuthenticatedQuizzesQuizIdIndexRoute
+  '/dashboard/classes/$classId': typeof AppAuthenticatedDashboardLayoutClassesClassIdRoute
+  '/dashboard/classes': typeof AppAuthenticatedDashboardLayoutClassesIndexRoute
   '/dashboard/settings': typeof AppAuthenticatedDashboardLayoutSettingsIndexRoute
 }
 
@@ -547,23 +762,34 @@ export interface FileRoutesById {
   '/_app': typeof AppRouteWithChildren
   '/_app/_authenticated': typeof AppAuthenticatedRouteWithChildren
   '/_app/_authenticated/quizzes': typeof AppAuthenticatedQuizzesRouteRouteWithChildren
+  '/_app/share/$slug': typeof AppShareSlugRoute
   '/_app/_authenticated/dashboard': typeof AppAuthenticatedDashboardRouteWithChildren
   '/_app/_authenticated/dashboard/_layout': typeof AppAuthenticatedDashboardLayoutRouteWithChildren
   '/_app/_authenticated/onboarding': typeof AppAuthenticatedOnboardingRouteWithChildren
   '/_app/_authenticated/onboarding/_layout': typeof AppAuthenticatedOnboardingLayoutRouteWithChildren
+  '/_app/_authenticated/quizzes/bank': typeof AppAuthenticatedQuizzesBankRoute
+  '/_app/_authenticated/quizzes/explore': typeof AppAuthenticatedQuizzesExploreRoute
+  '/_app/_authenticated/quizzes/gradebook': typeof AppAuthenticatedQuizzesGradebookRoute
+  '/_app/_authenticated/quizzes/import': typeof AppAuthenticatedQuizzesImportRoute
   '/_app/_authenticated/quizzes/': typeof AppAuthenticatedQuizzesIndexRoute
+  '/_app/_authenticated/dashboard/_layout/admin': typeof AppAuthenticatedDashboardLayoutAdminRoute
   '/_app/_authenticated/dashboard/_layout/history': typeof AppAuthenticatedDashboardLayoutHistoryRoute
   '/_app/_authenticated/dashboard/_layout/leaderboard': typeof AppAuthenticatedDashboardLayoutLeaderboardRoute
+  '/_app/_authenticated/dashboard/_layout/review': typeof AppAuthenticatedDashboardLayoutReviewRoute
   '/_app/_authenticated/dashboard/_layout/settings': typeof AppAuthenticatedDashboardLayoutSettingsRouteWithChildren
   '/_app/_authenticated/multiplayer/$roomCode/play': typeof AppAuthenticatedMultiplayerRoomCodePlayRoute
   '/_app/_authenticated/multiplayer/$roomCode/results': typeof AppAuthenticatedMultiplayerRoomCodeResultsRoute
   '/_app/_authenticated/onboarding/_layout/education-level': typeof AppAuthenticatedOnboardingLayoutEducationLevelRoute
   '/_app/_authenticated/onboarding/_layout/username': typeof AppAuthenticatedOnboardingLayoutUsernameRoute
+  '/_app/_authenticated/quizzes/$quizId/analytics': typeof AppAuthenticatedQuizzesQuizIdAnalyticsRoute
+  '/_app/_authenticated/quizzes/$quizId/edit': typeof AppAuthenticatedQuizzesQuizIdEditRoute
   '/_app/_authenticated/quizzes/$quizId/play': typeof AppAuthenticatedQuizzesQuizIdPlayRoute
   '/_app/_authenticated/quizzes/$quizId/result': typeof AppAuthenticatedQuizzesQuizIdResultRoute
   '/_app/_authenticated/dashboard/_layout/': typeof AppAuthenticatedDashboardLayoutIndexRoute
   '/_app/_authenticated/multiplayer/$roomCode/': typeof AppAuthenticatedMultiplayerRoomCodeIndexRoute
   '/_app/_authenticated/quizzes/$quizId/': typeof AppAuthenticatedQuizzesQuizIdIndexRoute
+  '/_app/_authenticated/dashboard/_layout/classes/$classId': typeof AppAuthenticatedDashboardLayoutClassesClassIdRoute
+  '/_app/_authenticated/dashboard/_layout/classes/': typeof AppAuthenticatedDashboardLayoutClassesIndexRoute
   '/_app/_authenticated/dashboard/_layout/settings/': typeof AppAuthenticatedDashboardLayoutSettingsIndexRoute
 }
 
@@ -573,39 +799,61 @@ export interface FileRouteTypes {
     | '/'
     | ''
     | '/quizzes'
+    | '/share/$slug'
     | '/dashboard'
     | '/onboarding'
+    | '/quizzes/bank'
+    | '/quizzes/explore'
+    | '/quizzes/gradebook'
+    | '/quizzes/import'
     | '/quizzes/'
+    | '/dashboard/admin'
     | '/dashboard/history'
     | '/dashboard/leaderboard'
+    | '/dashboard/review'
     | '/dashboard/settings'
     | '/multiplayer/$roomCode/play'
     | '/multiplayer/$roomCode/results'
     | '/onboarding/education-level'
     | '/onboarding/username'
+    | '/quizzes/$quizId/analytics'
+    | '/quizzes/$quizId/edit'
     | '/quizzes/$quizId/play'
     | '/quizzes/$quizId/result'
     | '/dashboard/'
     | '/multiplayer/$roomCode'
     | '/quizzes/$quizId'
+    | '/dashboard/classes/$classId'
+    | '/dashboard/classes'
     | '/dashboard/settings/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | ''
+    | '/share/$slug'
     | '/dashboard'
     | '/onboarding'
+    | '/quizzes/bank'
+    | '/quizzes/explore'
+    | '/quizzes/gradebook'
+    | '/quizzes/import'
     | '/quizzes'
+    | '/dashboard/admin'
     | '/dashboard/history'
     | '/dashboard/leaderboard'
+    | '/dashboard/review'
     | '/multiplayer/$roomCode/play'
     | '/multiplayer/$roomCode/results'
     | '/onboarding/education-level'
     | '/onboarding/username'
+    | '/quizzes/$quizId/analytics'
+    | '/quizzes/$quizId/edit'
     | '/quizzes/$quizId/play'
     | '/quizzes/$quizId/result'
     | '/multiplayer/$roomCode'
     | '/quizzes/$quizId'
+    | '/dashboard/classes/$classId'
+    | '/dashboard/classes'
     | '/dashboard/settings'
   id:
     | '__root__'
@@ -613,23 +861,34 @@ export interface FileRouteTypes {
     | '/_app'
     | '/_app/_authenticated'
     | '/_app/_authenticated/quizzes'
+    | '/_app/share/$slug'
     | '/_app/_authenticated/dashboard'
     | '/_app/_authenticated/dashboard/_layout'
     | '/_app/_authenticated/onboarding'
     | '/_app/_authenticated/onboarding/_layout'
+    | '/_app/_authenticated/quizzes/bank'
+    | '/_app/_authenticated/quizzes/explore'
+    | '/_app/_authenticated/quizzes/gradebook'
+    | '/_app/_authenticated/quizzes/import'
     | '/_app/_authenticated/quizzes/'
+    | '/_app/_authenticated/dashboard/_layout/admin'
     | '/_app/_authenticated/dashboard/_layout/history'
     | '/_app/_authenticated/dashboard/_layout/leaderboard'
+    | '/_app/_authenticated/dashboard/_layout/review'
     | '/_app/_authenticated/dashboard/_layout/settings'
     | '/_app/_authenticated/multiplayer/$roomCode/play'
     | '/_app/_authenticated/multiplayer/$roomCode/results'
     | '/_app/_authenticated/onboarding/_layout/education-level'
     | '/_app/_authenticated/onboarding/_layout/username'
+    | '/_app/_authenticated/quizzes/$quizId/analytics'
+    | '/_app/_authenticated/quizzes/$quizId/edit'
     | '/_app/_authenticated/quizzes/$quizId/play'
     | '/_app/_authenticated/quizzes/$quizId/result'
     | '/_app/_authenticated/dashboard/_layout/'
     | '/_app/_authenticated/multiplayer/$roomCode/'
     | '/_app/_authenticated/quizzes/$quizId/'
+    | '/_app/_authenticated/dashboard/_layout/classes/$classId'
+    | '/_app/_authenticated/dashboard/_layout/classes/'
     | '/_app/_authenticated/dashboard/_layout/settings/'
   fileRoutesById: FileRoutesById
 }
@@ -664,7 +923,8 @@ export const routeTree = rootRoute
     "/_app": {
       "filePath": "_app.tsx",
       "children": [
-        "/_app/_authenticated"
+        "/_app/_authenticated",
+        "/_app/share/$slug"
       ]
     },
     "/_app/_authenticated": {
@@ -683,12 +943,22 @@ export const routeTree = rootRoute
       "filePath": "_app/_authenticated/quizzes/route.tsx",
       "parent": "/_app/_authenticated",
       "children": [
+        "/_app/_authenticated/quizzes/bank",
+        "/_app/_authenticated/quizzes/explore",
+        "/_app/_authenticated/quizzes/gradebook",
+        "/_app/_authenticated/quizzes/import",
         "/_app/_authenticated/quizzes/",
+        "/_app/_authenticated/quizzes/$quizId/analytics",
+        "/_app/_authenticated/quizzes/$quizId/edit",
         "/_app/_authenticated/quizzes/$quizId/play",
         "/_app/_authenticated/quizzes/$quizId/result",
         "/_app/_authenticated/quizzes/$quizId/"
       ]
     },
+    "/_app/share/$slug": {
+      "filePath": "_app/share/$slug.tsx",
+      "parent": "/_app"
+    },
     "/_app/_authenticated/dashboard": {
       "filePath": "_app/_authenticated/dashboard",
       "parent": "/_app/_authenticated",
@@ -700,10 +970,14 @@ export const routeTree = rootRoute
       "filePath": "_app/_authenticated/dashboard/_layout.tsx",
       "parent": "/_app/_authenticated/dashboard",
       "children": [
+        "/_app/_authenticated/dashboard/_layout/admin",
         "/_app/_authenticated/dashboard/_layout/history",
         "/_app/_authenticated/dashboard/_layout/leaderboard",
+        "/_app/_authenticated/dashboard/_layout/review",
         "/_app/_authenticated/dashboard/_layout/settings",
-        "/_app/_authenticated/dashboard/_layout/"
+        "/_app/_authenticated/dashboard/_layout/",
+        "/_app/_authenticated/dashboard/_layout/classes/$classId",
+        "/_app/_authenticated/dashboard/_layout/classes/"
       ]
     },
     "/_app/_authenticated/onboarding": {
@@ -721,10 +995,30 @@ export const routeTree = rootRoute
         "/_app/_authenticated/onboarding/_layout/username"
       ]
     },
+    "/_app/_authenticated/quizzes/bank": {
+      "filePath": "_app/_authenticated/quizzes/bank.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
+    "/_app/_authenticated/quizzes/explore": {
+      "filePath": "_app/_authenticated/quizzes/explore.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
+    "/_app/_authenticated/quizzes/gradebook": {
+      "filePath": "_app/_authenticated/quizzes/gradebook.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
+    "/_app/_authenticated/quizzes/import": {
+      "filePath": "_app/_authenticated/quizzes/import.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
     "/_app/_authenticated/quizzes/": {
       "filePath": "_app/_authenticated/quizzes/index.tsx",
       "parent": "/_app/_authenticated/quizzes"
     },
+    "/_app/_authenticated/dashboard/_layout/admin": {
+      "filePath": "_app/_authenticated/dashboard/_layout.admin.tsx",
+      "parent": "/_app/_authenticated/dashboard/_layout"
+    },
     "/_app/_authenticated/dashboard/_layout/history": {
       "filePath": "_app/_authenticated/dashboard/_layout.history.tsx",
       "parent": "/_app/_authenticated/dashboard/_layout"
@@ -733,6 +1027,10 @@ export const routeTree = rootRoute
       "filePath": "_app/_authenticated/dashboard/_layout.leaderboard.tsx",
       "parent": "/_app/_authenticated/dashboard/_layout"
     },
+    "/_app/_authenticated/dashboard/_layout/review": {
+      "filePath": "_app/_authenticated/dashboard/_layout.review.tsx",
+      "parent": "/_app/_authenticated/dashboard/_layout"
+    },
     "/_app/_authenticated/dashboard/_layout/settings": {
       "filePath": "_app/_authenticated/dashboard/_layout.settings.tsx",
       "parent": "/_app/_authenticated/dashboard/_layout",
@@ -756,6 +1054,14 @@ export const routeTree = rootRoute
       "filePath": "_app/_authenticated/onboarding/_layout.username.tsx",
       "parent": "/_app/_authenticated/onboarding/_layout"
     },
+    "/_app/_authenticated/quizzes/$quizId/analytics": {
+      "filePath": "_app/_authenticated/quizzes/$quizId/analytics.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
+    "/_app/_authenticated/quizzes/$quizId/edit": {
+      "filePath": "_app/_authenticated/quizzes/$quizId/edit.tsx",
+      "parent": "/_app/_authenticated/quizzes"
+    },
     "/_app/_authenticated/quizzes/$quizId/play": {
       "filePath": "_app/_authenticated/quizzes/$quizId/play.tsx",
       "parent": "/_app/_authenticated/quizzes"
@@ -776,6 +1082,14 @@ export const routeTree = rootRoute
       "filePath": "_app/_authenticated/quizzes/$quizId/index.tsx",
       "parent": "/_app/_authenticated/quizzes"
     },
+    "/_app/_authenticated/dashboard/_layout/classes/$classId": {
+      "filePath": "_app/_authenticated/dashboard/_layout.classes.$classId.tsx",
+      "parent": "/_app/_authenticated/dashboard/_layout"
+    },
+    "/_app/_authenticated/dashboard/_layout/classes/": {
+      "filePath": "_app/_authenticated/dashboard/_layout.classes.index.tsx",
+      "parent": "/_app/_authenticated/dashboard/_layout"
+    },
     "/_app/_authenticated/dashboard/_layout/settings/": {
       "filePath": "_app/_authenticated/dashboard/_layout.settings.index.tsx",
       "parent": "/_app/_authenticated/dashboard/_layout/settings"
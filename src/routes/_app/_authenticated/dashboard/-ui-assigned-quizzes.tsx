@@ -0,0 +1,27 @@
+import { Card } from "@/components/retroui/Card";
+import { Text } from "@/components/retroui/Text";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import { useQuery } from "@tanstack/react-query";
+import { AssignmentItem } from "./-ui-assignment-item";
+
+export function AssignedQuizzes() {
+	const { data: assignments } = useQuery(
+		convexQuery(api.classes.getMyAssignments, {}),
+	);
+
+	if (!assignments || assignments.length === 0) {
+		return null;
+	}
+
+	return (
+		<Card className="mb-8 w-full">
+			<Card.Content className="space-y-3">
+				<Text className="text-lg font-semibold">Tugas dari kelasmu</Text>
+				{assignments.map((assignment) => (
+					<AssignmentItem key={assignment._id} assignment={assignment} />
+				))}
+			</Card.Content>
+		</Card>
+	);
+}
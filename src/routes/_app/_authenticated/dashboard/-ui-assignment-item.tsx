@@ -0,0 +1,112 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Doc } from "@cvx/_generated/dataModel";
+import { useMutation } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { CalendarClock } from "lucide-react";
+import { toast } from "sonner";
+
+interface AssignmentItemProps {
+	assignment: Doc<"assignments"> & {
+		quizTitle: string;
+		attemptsUsed: number;
+		className?: string;
+	};
+	canStart?: boolean;
+	onDelete?: () => void;
+}
+
+export function formatDateTime(timestamp: number) {
+	return new Date(timestamp).toLocaleDateString("id-ID", {
+		year: "numeric",
+		month: "long",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+export function AssignmentItem({
+	assignment,
+	canStart = true,
+	onDelete,
+}: AssignmentItemProps) {
+	const navigate = useNavigate();
+
+	const { mutateAsync: startQuizAttempt, isPending } = useMutation({
+		mutationFn: useConvexMutation(api.quizzes.startQuizAttempt),
+	});
+
+	const now = Date.now();
+	const isUpcoming = now < assignment.opensAt;
+	const isClosed = now > assignment.closesAt;
+	const hasAttemptsLeft =
+		assignment.maxAttempts === undefined ||
+		assignment.attemptsUsed < assignment.maxAttempts;
+
+	const handleStart = async () => {
+		try {
+			const attemptId = await startQuizAttempt({
+				quizId: assignment.quizId,
+				assignmentId: assignment._id,
+			});
+			navigate({
+				to: "/quizzes/$quizId/play",
+				params: { quizId: assignment.quizId },
+				search: () => ({ attemptId }),
+			});
+		} catch (error) {
+			console.error(error);
+			toast.error(
+				error instanceof Error ? error.message : "Sepertinya ada kesalahan",
+			);
+		}
+	};
+
+	return (
+		<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-4">
+			<div className="space-y-1">
+				<p className="font-semibold">{assignment.quizTitle}</p>
+				{assignment.className && (
+					<p className="text-sm text-muted-foreground">
+						Kelas {assignment.className}
+					</p>
+				)}
+				<div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+					<CalendarClock className="h-4 w-4" />
+					{isUpcoming
+						? `Dibuka ${formatDateTime(assignment.opensAt)}`
+						: `Tenggat ${formatDateTime(assignment.closesAt)}`}
+					<Badge variant="outline">
+						{assignment.maxAttempts === undefined
+							? `${assignment.attemptsUsed} percobaan`
+							: `${assignment.attemptsUsed}/${assignment.maxAttempts} percobaan`}
+					</Badge>
+				</div>
+			</div>
+			<div className="flex gap-2">
+				{canStart && (
+					<Button
+						onClick={handleStart}
+						disabled={isPending || isUpcoming || isClosed || !hasAttemptsLeft}
+					>
+						{isClosed
+							? "Ditutup"
+							: isUpcoming
+								? "Belum Dibuka"
+								: hasAttemptsLeft
+									? "Kerjakan"
+									: "Kesempatan Habis"}
+					</Button>
+				)}
+				{onDelete && (
+					<Button variant="outline" onClick={onDelete}>
+						Hapus
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
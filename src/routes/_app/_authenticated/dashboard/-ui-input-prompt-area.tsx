@@ -1,5 +1,11 @@
 import { Button } from "@/components/retroui/Button";
 import { Input } from "@/components/retroui/Input";
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
 	Select,
 	SelectContent,
@@ -7,9 +13,19 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import type { QuestionType } from "@cvx/question_types";
 import { UploadDropzone } from "@xixixao/uploadstuff/react";
-import { ArrowUp, FileArchive, Globe, Link, Sparkles, X } from "lucide-react";
+import {
+	ArrowUp,
+	ChevronDown,
+	FileArchive,
+	Globe,
+	Link,
+	Sparkles,
+	X,
+} from "lucide-react";
 import type React from "react";
+import { QUESTION_TYPE_LABELS } from "../quizzes/-ui.response-input";
 import {
 	type FileMetadata,
 	type QuizSettings as TQuizSettings,
@@ -21,6 +37,16 @@ import {
 const QuizSettings: React.FC = () => {
 	const { quizSettings, setQuizSettings } = useQuizGenerator();
 
+	const toggleQuestionType = (questionType: QuestionType, checked: boolean) => {
+		const questionTypes = checked
+			? [...quizSettings.questionTypes, questionType]
+			: quizSettings.questionTypes.filter((type) => type !== questionType);
+		// At least one type has to stay picked
+		if (questionTypes.length > 0) {
+			setQuizSettings({ questionTypes });
+		}
+	};
+
 	return (
 		<div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
 			<div className="flex items-center gap-2 w-full xs:w-auto">
@@ -70,6 +96,37 @@ const QuizSettings: React.FC = () => {
 					</SelectContent>
 				</Select>
 			</div>
+
+			<div className="flex items-center gap-2 w-full xs:w-auto">
+				<span className="text-xs font-medium text-foreground whitespace-nowrap font-sans">
+					Jenis Soal:
+				</span>
+				<DropdownMenu>
+					<DropdownMenuTrigger className="flex h-8 items-center gap-1 px-3 text-xs border-2 border-border bg-background shadow-sm flex-1 xs:flex-none whitespace-nowrap font-sans">
+						{quizSettings.questionTypes.length === 1
+							? QUESTION_TYPE_LABELS[quizSettings.questionTypes[0]]
+							: `${quizSettings.questionTypes.length} jenis`}
+						<ChevronDown className="h-3 w-3 opacity-50" />
+					</DropdownMenuTrigger>
+					<DropdownMenuContent className="bg-background">
+						{(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(
+							(questionType) => (
+								<DropdownMenuCheckboxItem
+									key={questionType}
+									className="text-xs"
+									checked={quizSettings.questionTypes.includes(questionType)}
+									onCheckedChange={(checked) =>
+										toggleQuestionType(questionType, checked)
+									}
+									onSelect={(event) => event.preventDefault()}
+								>
+									{QUESTION_TYPE_LABELS[questionType]}
+								</DropdownMenuCheckboxItem>
+							),
+						)}
+					</DropdownMenuContent>
+				</DropdownMenu>
+			</div>
 		</div>
 	);
 };
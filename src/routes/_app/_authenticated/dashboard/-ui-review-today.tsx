@@ -0,0 +1,37 @@
+import { Button } from "@/components/retroui/Button";
+import { Card } from "@/components/retroui/Card";
+import { Text } from "@/components/retroui/Text";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { Repeat } from "lucide-react";
+
+export function ReviewToday() {
+	const { data: dueCount } = useQuery(
+		convexQuery(api.reviews.getDueReviewCount, {}),
+	);
+
+	if (!dueCount) {
+		return null;
+	}
+
+	return (
+		<Card className="mb-8 w-full">
+			<Card.Content className="flex items-center justify-between gap-4">
+				<div className="flex items-center gap-3">
+					<Repeat className="h-6 w-6 text-primary" />
+					<div>
+						<Text className="text-lg font-semibold">Review hari ini</Text>
+						<Text as="p" className="text-sm text-muted-foreground">
+							{dueCount} soal yang pernah kamu jawab salah menunggu diulang.
+						</Text>
+					</div>
+				</div>
+				<Link to="/dashboard/review">
+					<Button size="sm">Mulai Review</Button>
+				</Link>
+			</Card.Content>
+		</Card>
+	);
+}
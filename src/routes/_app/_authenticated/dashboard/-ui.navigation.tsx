@@ -1,4 +1,4 @@
-import { LogOut, Menu, Settings } from "lucide-react";
+import { LogOut, Menu, Settings, ShieldCheck } from "lucide-react";
 
 import { Button } from "@/components/retroui/Button";
 import { Text } from "@/components/retroui/Text";
@@ -22,6 +22,8 @@ export function Navigation({ user }: { user: Doc<"users"> }) {
 	const isSettingsPath = matchRoute({ to: "/dashboard/settings" });
 	const isLeaderboardPath = matchRoute({ to: "/dashboard/leaderboard" });
 	const isHistoryPath = matchRoute({ to: "/dashboard/history" });
+	const isQuizzesPath = matchRoute({ to: "/quizzes" });
+	const isClassesPath = matchRoute({ to: "/dashboard/classes", fuzzy: true });
 
 	if (!user) {
 		return null;
@@ -47,6 +49,28 @@ export function Navigation({ user }: { user: Doc<"users"> }) {
 							</Button>
 						</Link>
 
+						<Link to={"/quizzes"}>
+							<Button
+								variant={"link"}
+								className={cn(" text-sm text-foreground", {
+									underline: isQuizzesPath,
+								})}
+							>
+								<Text as={"p"}>Kuisku</Text>
+							</Button>
+						</Link>
+
+						<Link to={"/dashboard/classes"}>
+							<Button
+								variant={"link"}
+								className={cn(" text-sm text-foreground", {
+									underline: isClassesPath,
+								})}
+							>
+								<Text as={"p"}>Kelas</Text>
+							</Button>
+						</Link>
+
 						<Link to={"/dashboard/leaderboard"}>
 							<Button
 								variant={"link"}
@@ -114,6 +138,32 @@ export function Navigation({ user }: { user: Doc<"users"> }) {
 										Beranda
 									</Link>
 								</DropdownMenuItem>
+								<DropdownMenuItem asChild>
+									<Link
+										to="/quizzes"
+										className={cn(
+											"w-full flex justify-start items-center px-2 py-1.5 text-sm",
+											isQuizzesPath
+												? "text-primary font-semibold"
+												: "text-foreground",
+										)}
+									>
+										Kuisku
+									</Link>
+								</DropdownMenuItem>
+								<DropdownMenuItem asChild>
+									<Link
+										to="/dashboard/classes"
+										className={cn(
+											"w-full flex justify-start items-center px-2 py-1.5 text-sm",
+											isClassesPath
+												? "text-primary font-semibold"
+												: "text-foreground",
+										)}
+									>
+										Kelas
+									</Link>
+								</DropdownMenuItem>
 								<DropdownMenuItem asChild>
 									<Link
 										to="/dashboard/leaderboard"
@@ -196,6 +246,16 @@ export function Navigation({ user }: { user: Doc<"users"> }) {
 								<Settings className="h-[18px] w-[18px] stroke-[1.5px] text-muted-foreground" />
 							</DropdownMenuItem>
 
+							{user.role === "admin" && (
+								<DropdownMenuItem
+									className="h-9 w-full cursor-pointer justify-between rounded-md px-2"
+									onClick={() => navigate({ to: "/dashboard/admin" })}
+								>
+									<span className="text-sm text-foreground">Konsol Admin</span>
+									<ShieldCheck className="h-[18px] w-[18px] stroke-[1.5px] text-muted-foreground" />
+								</DropdownMenuItem>
+							)}
+
 							<DropdownMenuSeparator className="mx-0 my-2 h-[1px] bg-border" />
 
 							<SignOutButton redirectUrl="/">
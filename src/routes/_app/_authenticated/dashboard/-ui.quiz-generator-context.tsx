@@ -1,6 +1,7 @@
 import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
 import { api } from "@cvx/_generated/api";
 import type { Id } from "@cvx/_generated/dataModel";
+import type { QuestionType } from "@cvx/question_types";
 import { type UseQueryResult, useQuery } from "@tanstack/react-query";
 
 import type { UploadFileResponse } from "@xixixao/uploadstuff";
@@ -35,6 +36,7 @@ export interface PromptMetadata {
 export interface QuizSettings {
 	difficulty: "mix" | "easy" | "medium" | "hard";
 	questionCount: "5" | "10" | "15" | "30";
+	questionTypes: QuestionType[];
 }
 
 interface QuizGeneratorContextType {
@@ -112,6 +114,7 @@ export const QuizGeneratorProvider: React.FC<{ children: React.ReactNode }> = ({
 	const [quizSettings, setQuizSettingsState] = React.useState<QuizSettings>({
 		difficulty: "mix",
 		questionCount: "10",
+		questionTypes: ["multiple_choice", "true_false"],
 	});
 	const [activeTaskIds, setActiveTaskIds] = React.useState<Id<"quiz_tasks">[]>(
 		[],
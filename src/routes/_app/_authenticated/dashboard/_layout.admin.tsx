@@ -0,0 +1,276 @@
+import { HeaderConfiguration } from "@/components/header-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useDoubleCheck } from "@/components/ui/use-double-check";
+import {
+	convexQuery,
+	useConvexAction,
+	useConvexMutation,
+} from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Doc, Id } from "@cvx/_generated/dataModel";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { usePaginatedQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { Search } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/dashboard/_layout/admin",
+)({
+	component: RouteComponent,
+});
+
+const PAGE_SIZE = 20;
+
+type UserRole = NonNullable<Doc<"users">["role"]>;
+
+type AdminQuiz = FunctionReturnType<
+	typeof api.admin.listAllQuizzes
+>["page"][number];
+
+const ROLE_LABELS: Record<UserRole, string> = {
+	admin: "Admin",
+	teacher: "Pengajar",
+	student: "Siswa",
+};
+
+const VISIBILITY_LABELS: Record<AdminQuiz["visibility"], string> = {
+	private: "Privat",
+	unlisted: "Lewat tautan",
+	public: "Publik",
+};
+
+function RouteComponent() {
+	const { data: currentUser } = useQuery(
+		convexQuery(api.users.getCurrentUser, {}),
+	);
+
+	if (!currentUser) {
+		return null;
+	}
+
+	if (currentUser.role !== "admin") {
+		return <p className="p-8 text-center">Halaman ini hanya untuk admin.</p>;
+	}
+
+	return (
+		<>
+			<HeaderConfiguration isVisible={false} />
+			<main className="container mx-auto max-w-5xl px-4 py-8 pb-20 space-y-10">
+				<h1 className="text-3xl font-bold">Konsol Admin</h1>
+				<UsersSection currentUserId={currentUser._id} />
+				<QuizzesSection />
+			</main>
+		</>
+	);
+}
+
+function UsersSection({ currentUserId }: { currentUserId: Id<"users"> }) {
+	const [roleFilter, setRoleFilter] = useState<UserRole | "all">("all");
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.admin.listUsers,
+		{ role: roleFilter === "all" ? undefined : roleFilter },
+		{ initialNumItems: PAGE_SIZE },
+	);
+
+	const { mutateAsync: setUserRole } = useMutation({
+		mutationFn: useConvexAction(api.admin.setUserRole),
+	});
+
+	const handleRoleChange = async (userId: Id<"users">, role: UserRole) => {
+		try {
+			await setUserRole({ userId, role });
+			toast.success("Peran pengguna diubah");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal mengubah peran pengguna");
+		}
+	};
+
+	return (
+		<section className="space-y-3">
+			<div className="flex items-center justify-between gap-2">
+				<h2 className="text-2xl font-semibold">Pengguna</h2>
+				<Select
+					value={roleFilter}
+					onValueChange={(value) => setRoleFilter(value as UserRole | "all")}
+				>
+					<SelectTrigger className="w-40">
+						<SelectValue placeholder="Peran" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="all">Semua peran</SelectItem>
+						<SelectItem value="admin">Admin</SelectItem>
+						<SelectItem value="teacher">Pengajar</SelectItem>
+						<SelectItem value="student">Siswa</SelectItem>
+					</SelectContent>
+				</Select>
+			</div>
+
+			{results.map((user) => (
+				<div
+					key={user._id}
+					className="flex items-center justify-between gap-3 rounded-md border p-3"
+				>
+					<div>
+						<p className="font-medium">{user.username}</p>
+						<p className="text-sm text-muted-foreground">{user.email}</p>
+					</div>
+					{user._id === currentUserId ? (
+						<Badge>{ROLE_LABELS[user.role ?? "student"]}</Badge>
+					) : (
+						<Select
+							value={user.role ?? "student"}
+							onValueChange={(value) =>
+								handleRoleChange(user._id, value as UserRole)
+							}
+						>
+							<SelectTrigger className="w-36">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="admin">Admin</SelectItem>
+								<SelectItem value="teacher">Pengajar</SelectItem>
+								<SelectItem value="student">Siswa</SelectItem>
+							</SelectContent>
+						</Select>
+					)}
+				</div>
+			))}
+
+			{status === "CanLoadMore" && (
+				<Button variant="outline" onClick={() => loadMore(PAGE_SIZE)}>
+					Muat lebih banyak
+				</Button>
+			)}
+		</section>
+	);
+}
+
+function QuizzesSection() {
+	const [searchInput, setSearchInput] = useState("");
+	const [search, setSearch] = useState("");
+
+	// Debounce the search input so we don't re-query on every keystroke
+	useEffect(() => {
+		const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+		return () => clearTimeout(timeout);
+	}, [searchInput]);
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.admin.listAllQuizzes,
+		{ search: search || undefined },
+		{ initialNumItems: PAGE_SIZE },
+	);
+
+	return (
+		<section className="space-y-3">
+			<h2 className="text-2xl font-semibold">Semua Kuis</h2>
+			<div className="relative">
+				<Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+				<Input
+					placeholder="Cari judul atau deskripsi kuis..."
+					value={searchInput}
+					onChange={(e) => setSearchInput(e.target.value)}
+					className="pl-9"
+				/>
+			</div>
+
+			{results.map((quiz) => (
+				<AdminQuizItem key={quiz._id} quiz={quiz} />
+			))}
+
+			{status === "CanLoadMore" && (
+				<Button variant="outline" onClick={() => loadMore(PAGE_SIZE)}>
+					Muat lebih banyak
+				</Button>
+			)}
+		</section>
+	);
+}
+
+function AdminQuizItem({ quiz }: { quiz: AdminQuiz }) {
+	const { doubleCheck, getButtonProps } = useDoubleCheck();
+
+	const { mutateAsync: unpublishQuiz, isPending: isUnpublishing } = useMutation(
+		{
+			mutationFn: useConvexMutation(api.admin.unpublishQuiz),
+		},
+	);
+	const { mutateAsync: deleteQuiz, isPending: isDeleting } = useMutation({
+		mutationFn: useConvexMutation(api.admin.deleteQuiz),
+	});
+
+	const handleUnpublish = async () => {
+		try {
+			await unpublishQuiz({ quizId: quiz._id });
+			toast.success("Kuis dijadikan privat");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menyembunyikan kuis");
+		}
+	};
+
+	const handleDelete = async () => {
+		try {
+			await deleteQuiz({ quizId: quiz._id });
+			toast.success("Kuis dihapus");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menghapus kuis");
+		}
+	};
+
+	return (
+		<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-3">
+			<div className="space-y-1">
+				<Link
+					to="/quizzes/$quizId"
+					params={{ quizId: quiz._id }}
+					className="font-medium hover:underline"
+				>
+					{quiz.title}
+				</Link>
+				<div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+					<span>oleh {quiz.ownerUsername ?? "Pengguna terhapus"}</span>
+					<span>· {quiz.questionCount} soal</span>
+					<Badge variant="outline">{VISIBILITY_LABELS[quiz.visibility]}</Badge>
+				</div>
+			</div>
+			<div className="flex gap-2">
+				{quiz.visibility !== "private" && (
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={handleUnpublish}
+						disabled={isUnpublishing}
+					>
+						Jadikan Privat
+					</Button>
+				)}
+				<Button
+					variant="destructive"
+					size="sm"
+					disabled={isDeleting}
+					{...getButtonProps({
+						onClick: doubleCheck ? handleDelete : undefined,
+					})}
+				>
+					{doubleCheck ? "Yakin hapus?" : "Hapus"}
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,295 @@
+import { HeaderConfiguration } from "@/components/header-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { vv } from "@cvx/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+	Link,
+	createFileRoute,
+	notFound,
+	useNavigate,
+} from "@tanstack/react-router";
+import { validate } from "convex-helpers/validators";
+import { ChevronLeft } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AssignmentItem } from "./-ui-assignment-item";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/dashboard/_layout/classes/$classId",
+)({
+	component: RouteComponent,
+	params: {
+		parse: (rawParams) => {
+			const isValid = validate(vv.id("classes"), rawParams.classId);
+			if (!isValid) {
+				throw notFound();
+			}
+			return {
+				classId: rawParams.classId as Id<"classes">,
+			};
+		},
+	},
+});
+
+function RouteComponent() {
+	const { classId } = Route.useParams();
+	const navigate = useNavigate();
+
+	const { data: classData, isLoading } = useQuery(
+		convexQuery(api.classes.getClass, { classId }),
+	);
+	const { data: currentUser } = useQuery(
+		convexQuery(api.users.getCurrentUser, {}),
+	);
+
+	const { mutateAsync: removeClassMember } = useMutation({
+		mutationFn: useConvexMutation(api.classes.removeClassMember),
+	});
+	const { mutateAsync: deleteAssignment } = useMutation({
+		mutationFn: useConvexMutation(api.classes.deleteAssignment),
+	});
+
+	if (isLoading || !currentUser) {
+		return <p className="p-8 text-center">Memuat kelas...</p>;
+	}
+
+	if (!classData) {
+		return <p className="p-8 text-center">Kelas tidak ditemukan</p>;
+	}
+
+	const isTeacher = classData.role === "teacher";
+
+	const handleRemoveMember = async (userId: Id<"users">) => {
+		try {
+			await removeClassMember({ classId, userId });
+			if (userId === currentUser._id) {
+				navigate({ to: "/dashboard/classes" });
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal mengeluarkan anggota");
+		}
+	};
+
+	const handleDeleteAssignment = async (assignmentId: Id<"assignments">) => {
+		try {
+			await deleteAssignment({ assignmentId });
+			toast.success("Tugas dihapus");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menghapus tugas");
+		}
+	};
+
+	return (
+		<>
+			<HeaderConfiguration isVisible={false} />
+			<main className="container mx-auto max-w-4xl px-4 py-8 pb-20 space-y-6">
+				<Button asChild variant="outline">
+					<Link to="/dashboard/classes">
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Semua Kelas
+					</Link>
+				</Button>
+
+				<Card>
+					<CardHeader>
+						<CardTitle className="text-2xl">{classData.name}</CardTitle>
+						{classData.description && (
+							<CardDescription>{classData.description}</CardDescription>
+						)}
+					</CardHeader>
+					<CardContent className="flex flex-wrap items-center gap-3">
+						{isTeacher ? (
+							<>
+								<span className="text-sm text-muted-foreground">
+									Kode kelas:
+								</span>
+								<Badge className="text-base tracking-widest">
+									{classData.joinCode}
+								</Badge>
+							</>
+						) : (
+							<Button
+								variant="outline"
+								onClick={() => handleRemoveMember(currentUser._id)}
+							>
+								Keluar dari Kelas
+							</Button>
+						)}
+					</CardContent>
+				</Card>
+
+				{isTeacher && <AssignQuizForm classId={classId} />}
+
+				<section className="space-y-3">
+					<h2 className="text-2xl font-semibold">Tugas</h2>
+					{classData.assignments.length === 0 && (
+						<p className="text-muted-foreground">Belum ada tugas.</p>
+					)}
+					{classData.assignments.map((assignment) => (
+						<AssignmentItem
+							key={assignment._id}
+							assignment={assignment}
+							canStart={!isTeacher}
+							onDelete={
+								isTeacher
+									? () => handleDeleteAssignment(assignment._id)
+									: undefined
+							}
+						/>
+					))}
+				</section>
+
+				{isTeacher && (
+					<section className="space-y-3">
+						<h2 className="text-2xl font-semibold">
+							Anggota ({classData.members.length})
+						</h2>
+						{classData.members.map((member) => (
+							<div
+								key={member.userId}
+								className="flex items-center justify-between rounded-md border p-3"
+							>
+								<div className="flex items-center gap-2">
+									<span className="font-medium">{member.username}</span>
+									{member.role === "teacher" && <Badge>Pengajar</Badge>}
+								</div>
+								{member.role === "student" && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => handleRemoveMember(member.userId)}
+									>
+										Keluarkan
+									</Button>
+								)}
+							</div>
+						))}
+					</section>
+				)}
+			</main>
+		</>
+	);
+}
+
+function AssignQuizForm({ classId }: { classId: Id<"classes"> }) {
+	const [quizId, setQuizId] = useState<Id<"quizzes"> | "">("");
+	const [opensAt, setOpensAt] = useState("");
+	const [closesAt, setClosesAt] = useState("");
+	const [maxAttempts, setMaxAttempts] = useState("");
+
+	const { data: quizzes } = useQuery(
+		convexQuery(api.quizzes.listMyQuizzes, {
+			paginationOpts: { numItems: 100, cursor: null },
+		}),
+	);
+
+	const { mutateAsync: createAssignment, isPending } = useMutation({
+		mutationFn: useConvexMutation(api.classes.createAssignment),
+	});
+
+	const handleAssign = async () => {
+		if (!quizId || !closesAt) {
+			return toast.error("Pilih kuis dan tenggat waktunya");
+		}
+		try {
+			await createAssignment({
+				classId,
+				quizId,
+				opensAt: opensAt ? new Date(opensAt).getTime() : Date.now(),
+				closesAt: new Date(closesAt).getTime(),
+				maxAttempts: maxAttempts ? Number(maxAttempts) : undefined,
+			});
+			toast.success("Tugas berhasil dibuat");
+			setQuizId("");
+			setOpensAt("");
+			setClosesAt("");
+			setMaxAttempts("");
+		} catch (error) {
+			console.error(error);
+			toast.error(
+				error instanceof Error ? error.message : "Gagal membuat tugas",
+			);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Beri Tugas Kuis</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<Select
+					value={quizId}
+					onValueChange={(value) => setQuizId(value as Id<"quizzes">)}
+				>
+					<SelectTrigger className="w-full">
+						<SelectValue placeholder="Pilih kuis dari Kuisku" />
+					</SelectTrigger>
+					<SelectContent>
+						{quizzes?.page.map((quiz) => (
+							<SelectItem key={quiz._id} value={quiz._id}>
+								{quiz.title}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+					<div className="space-y-1 text-sm">
+						<label htmlFor="assignment-opens-at">Dibuka (opsional)</label>
+						<Input
+							id="assignment-opens-at"
+							type="datetime-local"
+							value={opensAt}
+							onChange={(e) => setOpensAt(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1 text-sm">
+						<label htmlFor="assignment-closes-at">Tenggat</label>
+						<Input
+							id="assignment-closes-at"
+							type="datetime-local"
+							value={closesAt}
+							onChange={(e) => setClosesAt(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1 text-sm">
+						<label htmlFor="assignment-max-attempts">
+							Batas percobaan (opsional)
+						</label>
+						<Input
+							id="assignment-max-attempts"
+							type="number"
+							min={1}
+							value={maxAttempts}
+							onChange={(e) => setMaxAttempts(e.target.value)}
+						/>
+					</div>
+				</div>
+				<Button onClick={handleAssign} disabled={isPending}>
+					Beri Tugas
+				</Button>
+			</CardContent>
+		</Card>
+	);
+}
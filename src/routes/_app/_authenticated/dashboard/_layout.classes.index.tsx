@@ -0,0 +1,163 @@
+import { HeaderConfiguration } from "@/components/header-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { Users } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/dashboard/_layout/classes/",
+)({
+	component: RouteComponent,
+});
+
+function RouteComponent() {
+	const navigate = useNavigate();
+	const [className, setClassName] = useState("");
+	const [joinCode, setJoinCode] = useState("");
+
+	const { data: classes, isLoading } = useQuery(
+		convexQuery(api.classes.listMyClasses, {}),
+	);
+	const { data: currentUser } = useQuery(
+		convexQuery(api.users.getCurrentUser, {}),
+	);
+	const canCreateClass =
+		currentUser?.role === "teacher" || currentUser?.role === "admin";
+
+	const { mutateAsync: createClass, isPending: isCreating } = useMutation({
+		mutationFn: useConvexMutation(api.classes.createClass),
+	});
+
+	const { mutateAsync: joinClass, isPending: isJoining } = useMutation({
+		mutationFn: useConvexMutation(api.classes.joinClass),
+	});
+
+	const handleCreate = async () => {
+		if (!className.trim()) {
+			return toast.error("Nama kelas tidak boleh kosong");
+		}
+		try {
+			const classId = await createClass({ name: className });
+			navigate({ to: "/dashboard/classes/$classId", params: { classId } });
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal membuat kelas");
+		}
+	};
+
+	const handleJoin = async () => {
+		if (joinCode.trim().length !== 6) {
+			return toast.error("Kode harus 6 karakter");
+		}
+		try {
+			const { classId } = await joinClass({ joinCode });
+			navigate({ to: "/dashboard/classes/$classId", params: { classId } });
+		} catch (error) {
+			console.error(error);
+			toast.error(
+				error instanceof Error ? error.message : "Gagal bergabung ke kelas",
+			);
+		}
+	};
+
+	return (
+		<>
+			<HeaderConfiguration isVisible={false} />
+			<main className="container mx-auto max-w-4xl px-4 py-8 pb-20 space-y-6">
+				<h1 className="text-3xl font-bold">Kelas</h1>
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{canCreateClass && (
+						<Card>
+							<CardHeader>
+								<CardTitle>Buat Kelas</CardTitle>
+								<CardDescription>
+									Kamu jadi pengajar dan bisa memberi tugas kuis.
+								</CardDescription>
+							</CardHeader>
+							<CardContent className="flex gap-2">
+								<Input
+									placeholder="Nama kelas"
+									value={className}
+									onChange={(e) => setClassName(e.target.value)}
+								/>
+								<Button onClick={handleCreate} disabled={isCreating}>
+									Buat
+								</Button>
+							</CardContent>
+						</Card>
+					)}
+					<Card>
+						<CardHeader>
+							<CardTitle>Gabung Kelas</CardTitle>
+							<CardDescription>
+								Masukkan kode kelas dari pengajarmu.
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="flex gap-2">
+							<Input
+								placeholder="Kode kelas"
+								value={joinCode}
+								onChange={(e) => setJoinCode(e.target.value)}
+							/>
+							<Button onClick={handleJoin} disabled={isJoining}>
+								Gabung
+							</Button>
+						</CardContent>
+					</Card>
+				</div>
+
+				{isLoading && <p className="text-center">Memuat kelas...</p>}
+				{classes && classes.length === 0 && (
+					<p className="text-center text-muted-foreground">
+						Kamu belum punya kelas.
+					</p>
+				)}
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{classes?.map((classItem) => (
+						<Link
+							key={classItem._id}
+							to="/dashboard/classes/$classId"
+							params={{ classId: classItem._id }}
+						>
+							<Card className="h-full hover:shadow-md transition-shadow">
+								<CardHeader>
+									<CardTitle>{classItem.name}</CardTitle>
+									{classItem.description && (
+										<CardDescription>{classItem.description}</CardDescription>
+									)}
+								</CardHeader>
+								<CardContent className="flex items-center gap-2">
+									<Badge
+										variant={
+											classItem.role === "teacher" ? "default" : "secondary"
+										}
+									>
+										{classItem.role === "teacher" ? "Pengajar" : "Siswa"}
+									</Badge>
+									<span className="flex items-center gap-1 text-sm text-muted-foreground">
+										<Users className="h-4 w-4" />
+										{classItem.memberCount} anggota
+									</span>
+								</CardContent>
+							</Card>
+						</Link>
+					))}
+				</div>
+			</main>
+		</>
+	);
+}
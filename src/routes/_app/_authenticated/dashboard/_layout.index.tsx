@@ -12,8 +12,10 @@ import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { SendHorizonal } from "lucide-react";
 import { useRef } from "react";
 import { toast } from "sonner";
+import { AssignedQuizzes } from "./-ui-assigned-quizzes";
 import { PromptInputArea } from "./-ui-input-prompt-area";
 import { QuizGenerationStatus } from "./-ui-quiz-generation-status";
+import { ReviewToday } from "./-ui-review-today";
 import { QuizGeneratorProvider } from "./-ui.quiz-generator-context";
 
 export const Route = createFileRoute("/_app/_authenticated/dashboard/_layout/")(
@@ -68,6 +70,10 @@ function RouteComponent() {
 							Mau Ngerti<span className="text-primary">.</span>in apa hari ini?
 						</Text>
 
+						<AssignedQuizzes />
+
+						<ReviewToday />
+
 						<PromptInputArea />
 
 						{/* Display active quiz generation tasks */}
@@ -0,0 +1,166 @@
+import { HeaderConfiguration } from "@/components/header-provider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { QuestionResponse } from "@cvx/question_types";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import type { FunctionReturnType } from "convex/server";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Question } from "../quizzes/-ui.question";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/dashboard/_layout/review",
+)({
+	component: RouteComponent,
+});
+
+type ReviewSession = FunctionReturnType<typeof api.reviews.getReviewSession>;
+type ReviewResult = Extract<
+	FunctionReturnType<typeof api.reviews.recordReviewResult>,
+	{ removed: false }
+>;
+
+function RouteComponent() {
+	const { data, isLoading } = useQuery(
+		convexQuery(api.reviews.getReviewSession, {}),
+	);
+
+	// Snapshot the session so cards don't disappear while they're rescheduled
+	const [session, setSession] = useState<ReviewSession | null>(null);
+	const [currentIndex, setCurrentIndex] = useState(0);
+	const [answers, setAnswers] = useState<
+		Record<string, { response: QuestionResponse } & ReviewResult>
+	>({});
+	const [questionStartedAt, setQuestionStartedAt] = useState(Date.now());
+	const [isFinished, setIsFinished] = useState(false);
+
+	useEffect(() => {
+		if (data && !session) {
+			setSession(data);
+			setQuestionStartedAt(Date.now());
+		}
+	}, [data, session]);
+
+	const { mutateAsync: recordReviewResult } = useMutation({
+		mutationFn: useConvexMutation(api.reviews.recordReviewResult),
+	});
+
+	if (isLoading || !session) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<p className="text-center">Memuat sesi review...</p>
+			</div>
+		);
+	}
+
+	if (session.length === 0) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<Card>
+					<CardHeader>
+						<CardTitle>Tidak ada review hari ini 🎉</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<p>
+							Semua soal yang pernah kamu jawab salah sudah kamu ulang. Kerjakan
+							kuis lagi untuk menambah antrean review.
+						</p>
+						<Button asChild>
+							<Link to="/dashboard">Kembali ke Dashboard</Link>
+						</Button>
+					</CardContent>
+				</Card>
+			</div>
+		);
+	}
+
+	const correctCount = Object.values(answers).filter((a) => a.isCorrect).length;
+
+	const handleSubmitAnswer = async (response: QuestionResponse) => {
+		const item = session[currentIndex];
+		const result = await recordReviewResult({
+			cardId: item.cardId,
+			response,
+			timeTaken: Date.now() - questionStartedAt,
+		});
+		if (result.removed) {
+			// The question was deleted from its quiz since the session started
+			toast.info("Soal ini sudah dihapus dari kuisnya, jadi dilewati.");
+			const remaining = session.filter((s) => s.cardId !== item.cardId);
+			setSession(remaining);
+			if (remaining.length > 0 && currentIndex >= remaining.length) {
+				setIsFinished(true);
+			}
+			setQuestionStartedAt(Date.now());
+			return;
+		}
+		setAnswers((prev) => ({
+			...prev,
+			[item.cardId]: { response, ...result },
+		}));
+	};
+
+	const handleNext = () => {
+		if (currentIndex >= session.length - 1) {
+			setIsFinished(true);
+			return;
+		}
+		setCurrentIndex((prev) => prev + 1);
+		setQuestionStartedAt(Date.now());
+	};
+
+	return (
+		<>
+			<HeaderConfiguration isVisible={false} />
+			<main className="container mx-auto max-w-4xl px-4 py-8 pb-20">
+				<h1 className="text-3xl font-bold mb-2">Review Hari Ini</h1>
+				<p className="text-muted-foreground mb-6">
+					{session.length} soal dari kuis-kuismu yang perlu diulang.
+				</p>
+				<div className="flex flex-col w-full">
+					{session
+						.filter((_, index) => index <= currentIndex)
+						.map((item, index) => (
+							<div key={item.cardId}>
+								<p className="text-sm text-muted-foreground mb-2">
+									Dari kuis: {item.quizTitle}
+								</p>
+								<Question
+									isTextToSpeechEnabled={false}
+									data={answers[item.cardId]?.question ?? item.question}
+									onSubmitAnswer={handleSubmitAnswer}
+									onNextQuestion={handleNext}
+									isLastQuestion={index === session.length - 1}
+									isActive={index === currentIndex && !isFinished}
+									isAnswered={item.cardId in answers}
+									answeredResponse={answers[item.cardId]?.response}
+									isCorrect={answers[item.cardId]?.isCorrect}
+									questionNumber={index}
+								/>
+							</div>
+						))}
+				</div>
+
+				{isFinished && (
+					<Card>
+						<CardHeader>
+							<CardTitle>Review selesai!</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<p>
+								Kamu menjawab benar {correctCount} dari {session.length} soal.
+								Soal yang masih salah akan muncul lagi besok.
+							</p>
+							<Button asChild>
+								<Link to="/dashboard">Kembali ke Dashboard</Link>
+							</Button>
+						</CardContent>
+					</Card>
+				)}
+			</main>
+		</>
+	);
+}
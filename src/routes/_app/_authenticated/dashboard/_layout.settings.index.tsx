@@ -9,8 +9,9 @@ import { api } from "@cvx/_generated/api";
 import { useForm } from "@tanstack/react-form";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
-import { Upload } from "lucide-react";
-import { useRef } from "react";
+import { useAction } from "convex/react";
+import { Download, Upload } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import { z } from "zod";
 
@@ -59,9 +60,20 @@ export default function DashboardSettings() {
 	const { mutateAsync: deleteCurrentUserAccount } = useMutation({
 		mutationFn: useConvexMutation(api.app.deleteCurrentUserAccount),
 		onSuccess: () => {
-			toast.success("Berhasil menghapus akun");
+			toast.success("Akunmu sedang dihapus");
 		},
 	});
+	const { data: accountDeletion } = useQuery(
+		convexQuery(api.account_deletion.getMyAccountDeletion, {}),
+	);
+	const isDeletingAccount = accountDeletion?.status === "running";
+
+	// Sign out once every record of the account is gone
+	useEffect(() => {
+		if (accountDeletion?.status === "completed") {
+			signOut({ redirectUrl: "/" });
+		}
+	}, [accountDeletion?.status, signOut]);
 
 	const { mutateAsync: updateEducationLevel } = useMutation({
 		mutationFn: useConvexMutation(api.users.updateEducationLevel),
@@ -70,6 +82,12 @@ export default function DashboardSettings() {
 		},
 	});
 
+	const exportMyData = useAction(api.data_export.exportMyData);
+	const { data: latestDataExport } = useQuery(
+		convexQuery(api.data_export.getMyLatestDataExport, {}),
+	);
+	const [isExporting, setIsExporting] = useState(false);
+
 	const fileInputRef = useRef<HTMLInputElement>(null);
 
 	const { doubleCheck, getButtonProps } = useDoubleCheck();
@@ -114,11 +132,24 @@ export default function DashboardSettings() {
 		},
 	});
 
+	const handleExportData = async () => {
+		setIsExporting(true);
+		try {
+			const url = await exportMyData();
+			if (url) {
+				window.location.assign(url);
+			}
+			toast.success("Arsip datamu siap diunduh");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menyiapkan arsip datamu");
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
 	const handleDeleteAccount = async () => {
 		await Promise.all([removeUserImage({}), deleteCurrentUserAccount({})]);
-		await signOut({
-			redirectUrl: "/",
-		});
 	};
 
 	if (!user) {
@@ -307,6 +338,37 @@ export default function DashboardSettings() {
 					</div>
 				</form>
 
+				{/* Export Data */}
+				<div className="flex w-full flex-col items-start border-2 border-border bg-card shadow-md">
+					<div className="flex flex-col gap-2 p-6">
+						<h2 className="text-xl font-bold text-foreground">Unduh Datamu</h2>
+						<p className="text-sm font-normal text-muted-foreground">
+							Dapatkan salinan profil, kuis, percobaan beserta feedback AI,
+							riwayat pembuatan kuis, dan permainan multiplayer-mu dalam satu
+							file zip (JSON dan CSV).
+						</p>
+					</div>
+					<div className="flex min-h-14 w-full items-center justify-between border-t-2 border-border bg-secondary px-6">
+						<p className="text-sm font-normal text-secondary-foreground">
+							{latestDataExport?.url ? (
+								<a href={latestDataExport.url} className="underline">
+									Unduh arsip terakhir (
+									{new Date(latestDataExport.createdAt).toLocaleDateString(
+										"id-ID",
+									)}
+									)
+								</a>
+							) : (
+								"Belum ada arsip yang dibuat."
+							)}
+						</p>
+						<Button size="sm" onClick={handleExportData} disabled={isExporting}>
+							<Download className="mr-2 h-4 w-4" />
+							{isExporting ? "Menyiapkan..." : "Buat Arsip"}
+						</Button>
+					</div>
+				</div>
+
 				{/* Delete Account */}
 				<div className="flex w-full flex-col items-start border-2 border-destructive bg-card shadow-md">
 					<div className="flex flex-col gap-2 p-6">
@@ -317,16 +379,25 @@ export default function DashboardSettings() {
 					</div>
 					<div className="flex min-h-14 w-full items-center justify-between border-t-2 border-destructive bg-destructive/10 px-6">
 						<p className="text-sm font-normal text-muted-foreground">
-							Tindakan ini tidak dapat diurangi, jadi berhati-hati.
+							{isDeletingAccount
+								? `Menghapus datamu (langkah ${accountDeletion.stepIndex + 1} dari ${accountDeletion.stepCount}, ${accountDeletion.deletedCount} data terhapus)...`
+								: accountDeletion?.status === "failed"
+									? "Penghapusan akun gagal di tengah jalan. Coba lagi untuk melanjutkannya."
+									: "Tindakan ini tidak dapat diurangi, jadi berhati-hati."}
 						</p>
 						<Button
 							size="sm"
 							className="bg-destructive text-white hover:bg-destructive/90"
+							disabled={isDeletingAccount}
 							{...getButtonProps({
 								onClick: doubleCheck ? handleDeleteAccount : undefined,
 							})}
 						>
-							{doubleCheck ? "Are you sure?" : "Delete Account"}
+							{doubleCheck
+								? "Are you sure?"
+								: accountDeletion?.status === "failed"
+									? "Retry Delete"
+									: "Delete Account"}
 						</Button>
 					</div>
 				</div>
@@ -1,8 +1,9 @@
 import { HeaderProvider } from "@/components/header-provider";
-import { convexQuery } from "@convex-dev/react-query";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
 import { api } from "@cvx/_generated/api";
 import { useQuery } from "@tanstack/react-query";
 import { Outlet, createFileRoute } from "@tanstack/react-router";
+import { useEffect } from "react";
 import { Navigation } from "./-ui.navigation";
 
 export const Route = createFileRoute("/_app/_authenticated/dashboard/_layout")({
@@ -11,6 +12,16 @@ export const Route = createFileRoute("/_app/_authenticated/dashboard/_layout")({
 
 function DashboardLayout() {
 	const { data: user } = useQuery(convexQuery(api.users.getCurrentUser, {}));
+	const syncCurrentUserRole = useConvexMutation(api.users.syncCurrentUserRole);
+
+	// Pick up role changes made in Clerk since the user was created
+	const userId = user?._id;
+	useEffect(() => {
+		if (userId) {
+			syncCurrentUserRole({});
+		}
+	}, [userId, syncCurrentUserRole]);
+
 	if (!user) {
 		return null;
 	}
@@ -2,8 +2,10 @@ import { Avatar } from "@/components/retroui/Avatar";
 import { Button } from "@/components/retroui/Button";
 import { Card } from "@/components/retroui/Card";
 import { Text } from "@/components/retroui/Text";
+import { RichText } from "@/components/rich-text";
 import { api } from "@cvx/_generated/api";
 import type { Id } from "@cvx/_generated/dataModel"; // Use type-only import
+import type { QuestionResponse } from "@cvx/question_types";
 import {
 	createFileRoute,
 	useNavigate,
@@ -21,6 +23,12 @@ import {
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { LiveVideo } from "../-live-video";
+import { QuestionImage } from "../../quizzes/-ui.question-image";
+import {
+	ResponseInput,
+	getInitialResponse,
+	isResponseComplete,
+} from "../../quizzes/-ui.response-input";
 
 export const Route = createFileRoute(
 	"/_app/_authenticated/multiplayer/$roomCode/play",
@@ -39,9 +47,15 @@ function MultiplayerQuizPlayPage() {
 	});
 	const submitAnswerMutation = useMutation(api.multiplayer.submitAnswer);
 
-	const [selectedAnswerIndex, setSelectedAnswerIndex] = useState<number | null>(
-		null,
-	);
+	// The answer being given, dropped when the room moves to another question
+	const [draft, setDraft] = useState<{
+		questionIndex: number;
+		response: QuestionResponse;
+	} | null>(null);
+	const [lastResult, setLastResult] = useState<{
+		questionIndex: number;
+		isCorrect: boolean;
+	} | null>(null);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [timeLeft, setTimeLeft] = useState<number | null>(null);
 
@@ -58,6 +72,12 @@ function MultiplayerQuizPlayPage() {
 		currentQuestionIndex >= 0
 			? quiz.questions[currentQuestionIndex]
 			: null;
+	const response =
+		currentQuestion && currentQuestionIndex !== undefined
+			? draft?.questionIndex === currentQuestionIndex
+				? draft.response
+				: getInitialResponse(currentQuestion)
+			: null;
 
 	useEffect(() => {
 		if (room?.status === "finished") {
@@ -97,19 +117,21 @@ function MultiplayerQuizPlayPage() {
 		quiz?.questions,
 	]);
 
-	const handleAnswerSelect = (index: number) => {
+	const handleResponseChange = (value: QuestionResponse) => {
 		if (
 			currentPlayer?.hasAnsweredCurrentQuestion ||
 			timeLeft === 0 ||
-			isSubmitting
+			isSubmitting ||
+			currentQuestionIndex === undefined
 		)
 			return;
-		setSelectedAnswerIndex(index);
+		setDraft({ questionIndex: currentQuestionIndex, response: value });
 	};
 
 	const handleSubmitAnswer = async () => {
 		if (
-			selectedAnswerIndex === null ||
+			!response ||
+			!isResponseComplete(response) ||
 			!room?._id ||
 			currentQuestionIndex === undefined ||
 			currentQuestionIndex < 0
@@ -129,12 +151,13 @@ function MultiplayerQuizPlayPage() {
 		const timeTaken = Date.now() - questionStartTime;
 
 		try {
-			await submitAnswerMutation({
+			const { isCorrect } = await submitAnswerMutation({
 				roomId: room._id as Id<"multiplayer_rooms">,
 				questionIndex: currentQuestionIndex,
-				selectedIndex: selectedAnswerIndex,
+				response,
 				timeTaken: Math.max(0, timeTaken),
 			});
+			setLastResult({ questionIndex: currentQuestionIndex, isCorrect });
 			toast.success("Answer submitted!");
 		} catch (error) {
 			console.error("Failed to submit answer:", error);
@@ -248,6 +271,10 @@ function MultiplayerQuizPlayPage() {
 	}
 
 	const isAnswered = currentPlayer.hasAnsweredCurrentQuestion;
+	const answerResult =
+		lastResult?.questionIndex === currentQuestionIndex
+			? lastResult.isCorrect
+			: undefined;
 
 	const getPlayerInitials = (name: string) => {
 		if (!name) return "P";
@@ -288,53 +315,82 @@ function MultiplayerQuizPlayPage() {
 					</div>
 				</Card.Header>
 				<Card.Content className="p-6 md:p-8">
-					<Text as="p" className="text-lg mb-4">
+					{currentQuestion.image && (
+						<QuestionImage
+							storageId={currentQuestion.image}
+							className="mb-4 border-2 border-[var(--border)]"
+						/>
+					)}
+					<RichText className="font-sans text-lg mb-4">
 						{currentQuestion.question}
-					</Text>
-					<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-						{currentQuestion.options.map((option: string, index: number) => {
-							const isCorrectAnswer =
-								quiz.questions[currentQuestionIndex].correctOptionIndex ===
-								index;
-							const isSelectedAnswer = selectedAnswerIndex === index;
+					</RichText>
+					{currentQuestion.questionType === "multiple_choice" ||
+					currentQuestion.questionType === "true_false" ? (
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							{currentQuestion.options.map((option: string, index: number) => {
+								const isCorrectAnswer =
+									currentQuestion.correctResponse?.type === "choice" &&
+									currentQuestion.correctResponse.selectedIndex === index;
+								const isSelectedAnswer =
+									response?.type === "choice" &&
+									response.selectedIndex === index;
 
-							let buttonStyle = "";
-							if (isAnswered) {
-								if (isCorrectAnswer) {
-									buttonStyle =
-										"bg-[var(--accent)] text-[var(--accent-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
+								let buttonStyle = "";
+								if (isAnswered) {
+									if (isCorrectAnswer) {
+										buttonStyle =
+											"bg-[var(--accent)] text-[var(--accent-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
+									} else if (isSelectedAnswer) {
+										buttonStyle =
+											"bg-[var(--destructive)] text-[var(--destructive-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
+									}
 								} else if (isSelectedAnswer) {
 									buttonStyle =
-										"bg-[var(--destructive)] text-[var(--destructive-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
+										"bg-[var(--primary)] text-[var(--primary-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
 								}
-							} else if (isSelectedAnswer) {
-								buttonStyle =
-									"bg-[var(--primary)] text-[var(--primary-foreground)] border-[var(--border)] shadow-[var(--shadow-md)]";
-							}
 
-							return (
-								<Button
-									key={option}
-									variant="outline"
-									onClick={() => handleAnswerSelect(index)}
-									disabled={isAnswered || isSubmitting || timeLeft === 0}
-									className={`p-4 h-auto text-left justify-start transition-all duration-200 ease-in-out hover:translate-y-1 ${buttonStyle}
-                              disabled:opacity-70 disabled:transform-none disabled:cursor-not-allowed 
-                            `}
-								>
-									<Text as="p">
-										{String.fromCharCode(65 + index)}. {option}
-									</Text>
-									{isAnswered && isCorrectAnswer && (
-										<CheckCircle className="ml-auto h-5 w-5 text-white" />
-									)}
-									{isAnswered && isSelectedAnswer && !isCorrectAnswer && (
-										<XCircle className="ml-auto h-5 w-5 text-white" />
-									)}
-								</Button>
-							);
-						})}
-					</div>
+								return (
+									<Button
+										key={option}
+										variant="outline"
+										onClick={() =>
+											handleResponseChange({
+												type: "choice",
+												selectedIndex: index,
+											})
+										}
+										disabled={isAnswered || isSubmitting || timeLeft === 0}
+										className={`p-4 h-auto text-left justify-start transition-all duration-200 ease-in-out hover:translate-y-1 ${buttonStyle}
+	                              disabled:opacity-70 disabled:transform-none disabled:cursor-not-allowed 
+	                            `}
+									>
+										<Text as="p">
+											{String.fromCharCode(65 + index)}.{" "}
+											<RichText inline>{option}</RichText>
+										</Text>
+										{isAnswered && isCorrectAnswer && (
+											<CheckCircle className="ml-auto h-5 w-5 text-white" />
+										)}
+										{isAnswered && isSelectedAnswer && !isCorrectAnswer && (
+											<XCircle className="ml-auto h-5 w-5 text-white" />
+										)}
+									</Button>
+								);
+							})}
+						</div>
+					) : (
+						response && (
+							<ResponseInput
+								question={currentQuestion}
+								value={response}
+								onChange={handleResponseChange}
+								isDisabled={isAnswered || isSubmitting || timeLeft === 0}
+								isRevealed={
+									isAnswered && currentQuestion.correctResponse !== undefined
+								}
+							/>
+						)
+					)}
 				</Card.Content>
 				<Card.Content className="border-t-2 border-dashed border-[var(--muted)] pt-6 flex flex-col items-center">
 					{isAnswered ? (
@@ -342,18 +398,18 @@ function MultiplayerQuizPlayPage() {
 							<Text
 								as="h3"
 								className={
-									quiz.questions[currentQuestionIndex].correctOptionIndex ===
-									selectedAnswerIndex
-										? "text-[var(--accent)]"
-										: "text-[var(--destructive)]"
+									answerResult === undefined
+										? ""
+										: answerResult
+											? "text-[var(--accent)]"
+											: "text-[var(--destructive)]"
 								}
 							>
-								{selectedAnswerIndex !== null &&
-									(quiz.questions[currentQuestionIndex].correctOptionIndex ===
-									selectedAnswerIndex
+								{answerResult === undefined
+									? "Answer submitted."
+									: answerResult
 										? "Correct!"
-										: "Incorrect.")}
-								{selectedAnswerIndex === null && "You didn't select an answer."}
+										: "Incorrect."}
 							</Text>
 							<Text as="p" className="mt-1 text-[var(--muted-foreground)]">
 								Waiting for other players or next question...
@@ -363,7 +419,10 @@ function MultiplayerQuizPlayPage() {
 						<Button
 							onClick={handleSubmitAnswer}
 							disabled={
-								selectedAnswerIndex === null || isSubmitting || timeLeft === 0
+								!response ||
+								!isResponseComplete(response) ||
+								isSubmitting ||
+								timeLeft === 0
 							}
 							className="w-full md:w-auto"
 						>
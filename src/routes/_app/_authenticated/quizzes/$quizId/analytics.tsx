@@ -0,0 +1,169 @@
+import { RichText } from "@/components/rich-text";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { vv } from "@cvx/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute, notFound } from "@tanstack/react-router";
+import { validate } from "convex-helpers/validators";
+import { AlertTriangle, ChevronLeft } from "lucide-react";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/quizzes/$quizId/analytics",
+)({
+	component: RouteComponent,
+	params: {
+		parse: (rawParams) => {
+			const isValid = validate(vv.id("quizzes"), rawParams.quizId);
+			if (!isValid) {
+				throw notFound();
+			}
+			return {
+				quizId: rawParams.quizId as Id<"quizzes">,
+			};
+		},
+	},
+});
+
+function formatSeconds(ms: number | null) {
+	return ms === null ? "-" : `${(ms / 1000).toFixed(1)} dtk`;
+}
+
+function RouteComponent() {
+	const { quizId } = Route.useParams();
+
+	const { data, isLoading, error } = useQuery(
+		convexQuery(api.analytics.getItemAnalysis, { quizId }),
+	);
+
+	if (error) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<p className="text-center">
+					Kamu tidak bisa melihat analisis kuis ini.
+				</p>
+			</div>
+		);
+	}
+
+	if (isLoading || !data) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<p className="text-center">Memuat analisis...</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container mx-auto max-w-4xl px-4 py-8 pb-20 space-y-6">
+			<Button asChild variant="outline">
+				<Link to="/quizzes/$quizId" params={{ quizId }}>
+					<ChevronLeft className="mr-2 h-4 w-4" />
+					Kembali ke Kuis
+				</Link>
+			</Button>
+
+			<div>
+				<h1 className="text-3xl font-bold">Analisis Soal</h1>
+				<p className="text-muted-foreground">
+					{data.quizTitle} · versi {data.version} · {data.attemptCount}{" "}
+					percobaan selesai
+				</p>
+			</div>
+
+			{data.attemptCount === 0 && (
+				<p className="text-center text-muted-foreground">
+					Belum ada percobaan yang selesai untuk versi kuis ini.
+				</p>
+			)}
+
+			{data.attemptCount > 0 &&
+				data.items.map((item) => (
+					<Card key={item.questionIndex}>
+						<CardHeader>
+							<div className="flex items-start justify-between gap-2">
+								<CardTitle className="text-lg">
+									{item.questionIndex + 1}.{" "}
+									<RichText inline>{item.question}</RichText>
+								</CardTitle>
+								{item.isFlagged && (
+									<Badge variant="destructive" className="shrink-0">
+										<AlertTriangle className="mr-1 h-3 w-3" />
+										Perlu dicek
+									</Badge>
+								)}
+							</div>
+							<CardDescription className="flex flex-wrap gap-x-4">
+								<span>
+									Benar:{" "}
+									{item.percentCorrect === null
+										? "-"
+										: `${item.percentCorrect}%`}
+								</span>
+								<span>
+									Rata-rata waktu: {formatSeconds(item.averageTimeTaken)}
+								</span>
+								<span>
+									Daya beda:{" "}
+									{item.discrimination === null
+										? "butuh lebih banyak percobaan"
+										: item.discrimination.toFixed(2)}
+								</span>
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-2">
+							{item.options.length === 0 && (
+								<p className="text-sm text-muted-foreground">
+									Jawaban benar: {item.correctAnswer}
+								</p>
+							)}
+							{item.options.map((option, optionIndex) => {
+								const count = item.optionCounts[optionIndex];
+								const percent =
+									item.responseCount > 0
+										? Math.round((count / item.responseCount) * 100)
+										: 0;
+								return (
+									<div key={`${item.questionIndex}-${optionIndex}`}>
+										<div className="flex justify-between text-sm">
+											<span
+												className={
+													item.correctOptionIndexes.includes(optionIndex)
+														? "font-semibold text-green-700"
+														: undefined
+												}
+											>
+												<RichText inline>{option}</RichText>
+											</span>
+											<span className="text-muted-foreground">
+												{count} ({percent}%)
+											</span>
+										</div>
+										<div className="h-2 rounded-full bg-muted">
+											<div
+												className={`h-2 rounded-full ${
+													item.correctOptionIndexes.includes(optionIndex)
+														? "bg-green-600"
+														: "bg-muted-foreground"
+												}`}
+												style={{ width: `${percent}%` }}
+											/>
+										</div>
+									</div>
+								);
+							})}
+						</CardContent>
+					</Card>
+				))}
+		</div>
+	);
+}
@@ -0,0 +1,977 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import {
+	MAX_ITEMS,
+	MAX_OPTIONS,
+	MIN_ITEMS,
+	MIN_OPTIONS,
+	type QuestionType,
+	type QuizQuestion,
+	countBlanks,
+	getCorrectResponse,
+	isChoiceQuestion,
+} from "@cvx/question_types";
+import { vv } from "@cvx/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute, notFound } from "@tanstack/react-router";
+import { validate } from "convex-helpers/validators";
+import { useAction } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import {
+	ArrowDown,
+	ArrowUp,
+	ChevronLeft,
+	Plus,
+	Sparkles,
+	Trash2,
+	X,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { QuestionDiff } from "../-ui.question-diff";
+import { QuestionImage } from "../-ui.question-image";
+import { QUESTION_TYPE_LABELS } from "../-ui.response-input";
+
+export const Route = createFileRoute(
+	"/_app/_authenticated/quizzes/$quizId/edit",
+)({
+	component: RouteComponent,
+	params: {
+		parse: (rawParams) => {
+			const isValid = validate(vv.id("quizzes"), rawParams.quizId);
+			if (!isValid) {
+				throw notFound();
+			}
+			return {
+				quizId: rawParams.quizId as Id<"quizzes">,
+			};
+		},
+	},
+});
+
+type ProposedQuestion = FunctionReturnType<
+	typeof api.ai.regenerateQuizQuestion
+>;
+
+// `key` only identifies a question while editing and `sourceIndex` is where it
+// was loaded from; neither is part of the saved question
+interface DraftQuestion {
+	key: string;
+	sourceIndex?: number;
+	content: QuizQuestion;
+}
+
+const TRUE_FALSE_OPTIONS = ["Benar", "Salah"];
+
+const emptyList = (length: number) => Array<string>(length).fill("");
+
+const textareaClassName =
+	"w-full min-h-[80px] rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+function createEmptyQuestion(): DraftQuestion {
+	return {
+		key: crypto.randomUUID(),
+		content: {
+			question: "",
+			options: emptyList(4),
+			correctOptionIndex: 0,
+			explanation: "",
+			difficulty: "medium",
+			questionType: "multiple_choice",
+		},
+	};
+}
+
+/**
+ * Turns a question into another type, keeping its text and, between choice
+ * types, its options and correct answers.
+ */
+function convertQuestion(
+	question: QuizQuestion,
+	questionType: QuestionType,
+): QuizQuestion {
+	const base = {
+		question: question.question,
+		explanation: question.explanation,
+		difficulty: question.difficulty,
+		image: question.image,
+		citation: question.citation,
+		hint: question.hint,
+	};
+	const options = isChoiceQuestion(question) ? question.options : emptyList(4);
+	const correct = getCorrectResponse(question);
+	const correctIndexes =
+		correct.type === "choice"
+			? [correct.selectedIndex]
+			: correct.type === "choices"
+				? correct.selectedIndexes
+				: [];
+
+	switch (questionType) {
+		case "multiple_choice":
+			return {
+				...base,
+				questionType,
+				options:
+					question.questionType === "true_false" ? emptyList(4) : options,
+				correctOptionIndex: correctIndexes[0] ?? 0,
+			};
+		case "true_false":
+			return {
+				...base,
+				questionType,
+				options: TRUE_FALSE_OPTIONS,
+				correctOptionIndex: Math.min(correctIndexes[0] ?? 0, 1),
+			};
+		case "multiple_select":
+			return {
+				...base,
+				questionType,
+				options,
+				correctOptionIndexes: correctIndexes,
+			};
+		case "short_answer":
+			return { ...base, questionType, acceptedAnswers: [""] };
+		case "fill_in_blank":
+			return {
+				...base,
+				questionType,
+				blanks: Array.from(
+					{ length: Math.max(countBlanks(question.question), 1) },
+					() => [""],
+				),
+			};
+		case "ordering":
+			return { ...base, questionType, items: emptyList(3) };
+		case "matching":
+			return {
+				...base,
+				questionType,
+				pairs: Array.from({ length: 3 }, () => ({ left: "", right: "" })),
+			};
+	}
+}
+
+/**
+ * Changes the question text, keeping one set of accepted answers per blank of
+ * fill-in-the-blank questions.
+ */
+function changeQuestionText(
+	question: QuizQuestion,
+	text: string,
+): QuizQuestion {
+	if (question.questionType !== "fill_in_blank") {
+		return { ...question, question: text };
+	}
+	return {
+		...question,
+		question: text,
+		blanks: Array.from(
+			{ length: countBlanks(text) },
+			(_, index) => question.blanks[index] ?? [""],
+		),
+	};
+}
+
+function formatDate(timestamp: number) {
+	return new Date(timestamp).toLocaleDateString("id-ID", {
+		year: "numeric",
+		month: "long",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+function RouteComponent() {
+	const { quizId } = Route.useParams();
+
+	const {
+		data: quiz,
+		isLoading,
+		error,
+	} = useQuery(convexQuery(api.quiz_editor.getQuizForEdit, { quizId }));
+
+	const [title, setTitle] = useState("");
+	const [description, setDescription] = useState("");
+	const [questions, setQuestions] = useState<DraftQuestion[] | null>(null);
+
+	// Load the saved quiz into the draft once; later updates would wipe edits
+	useEffect(() => {
+		if (quiz && questions === null) {
+			setTitle(quiz.title);
+			setDescription(quiz.description);
+			setQuestions(
+				quiz.questions.map((question, index) => ({
+					key: crypto.randomUUID(),
+					content: question,
+					sourceIndex: index,
+				})),
+			);
+		}
+	}, [quiz, questions]);
+
+	const { mutateAsync: updateQuiz, isPending: isSaving } = useMutation({
+		mutationFn: useConvexMutation(api.quiz_editor.updateQuiz),
+	});
+
+	const regenerateQuizQuestion = useAction(api.ai.regenerateQuizQuestion);
+	const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+	const [proposals, setProposals] = useState<Record<string, ProposedQuestion>>(
+		{},
+	);
+
+	if (error) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<p className="text-center">Kamu tidak bisa mengedit kuis ini.</p>
+			</div>
+		);
+	}
+
+	if (isLoading || !quiz || !questions) {
+		return (
+			<div className="container mx-auto max-w-4xl py-8">
+				<p className="text-center">Memuat kuis...</p>
+			</div>
+		);
+	}
+
+	const updateQuestion = (key: string, content: QuizQuestion) => {
+		setQuestions((prev) =>
+			(prev ?? []).map((q) => (q.key === key ? { ...q, content } : q)),
+		);
+	};
+
+	const moveQuestion = (index: number, offset: number) => {
+		setQuestions((prev) => {
+			const next = [...(prev ?? [])];
+			const [question] = next.splice(index, 1);
+			next.splice(index + offset, 0, question);
+			return next;
+		});
+	};
+
+	const removeQuestion = (key: string) => {
+		setQuestions((prev) => (prev ?? []).filter((q) => q.key !== key));
+	};
+
+	const handleRegenerate = async (question: DraftQuestion) => {
+		setRegeneratingKey(question.key);
+		try {
+			const proposal = await regenerateQuizQuestion({
+				quizId,
+				questionIndex: question.sourceIndex,
+				difficulty: question.content.difficulty,
+				questionType: question.content.questionType,
+			});
+			setProposals((prev) => ({ ...prev, [question.key]: proposal }));
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal membuat ulang soal, coba lagi nanti");
+		} finally {
+			setRegeneratingKey(null);
+		}
+	};
+
+	const dismissProposal = (key: string) => {
+		setProposals(({ [key]: _, ...rest }) => rest);
+	};
+
+	const acceptProposal = (key: string) => {
+		// A replaced question is a new question: its review cards are dropped on save
+		setQuestions((prev) =>
+			(prev ?? []).map((q) =>
+				q.key === key
+					? { key, content: proposals[key], sourceIndex: undefined }
+					: q,
+			),
+		);
+		dismissProposal(key);
+		toast.success("Soal diganti. Simpan perubahan untuk menerapkannya.");
+	};
+
+	const handleSave = async () => {
+		try {
+			const { version } = await updateQuiz({
+				quizId,
+				title,
+				description,
+				questions: questions.map((question) => question.content),
+				sourceIndexes: questions.map(
+					(question) => question.sourceIndex ?? null,
+				),
+			});
+			toast.success(`Kuis berhasil disimpan (versi ${version})`);
+			// Reload the draft so question positions refer to the saved version
+			setQuestions(null);
+		} catch (error) {
+			console.error(error);
+			toast.error(
+				error instanceof Error ? error.message : "Gagal menyimpan kuis",
+			);
+		}
+	};
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-4xl space-y-6">
+				<Button asChild variant="outline">
+					<Link to="/quizzes/$quizId" params={{ quizId }}>
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Kuis
+					</Link>
+				</Button>
+
+				<Card>
+					<CardHeader>
+						<CardTitle className="text-2xl">Edit Kuis</CardTitle>
+						<CardDescription>
+							Periksa dan perbaiki soal buatan AI. Percobaan yang sudah ada
+							tetap dinilai dengan versi soal saat dikerjakan.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<div className="space-y-2">
+							<label htmlFor="quiz-title" className="text-sm font-medium">
+								Judul
+							</label>
+							<Input
+								id="quiz-title"
+								value={title}
+								onChange={(e) => setTitle(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<label htmlFor="quiz-description" className="text-sm font-medium">
+								Deskripsi
+							</label>
+							<textarea
+								id="quiz-description"
+								className={textareaClassName}
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+							/>
+						</div>
+					</CardContent>
+				</Card>
+
+				{questions.map((question, index) => (
+					<Card key={question.key}>
+						<CardHeader className="flex flex-row items-center justify-between">
+							<CardTitle className="text-lg">Pertanyaan {index + 1}</CardTitle>
+							<div className="flex gap-1">
+								<Button
+									variant="ghost"
+									size="icon"
+									aria-label="Buat ulang dengan AI"
+									disabled={regeneratingKey !== null}
+									onClick={() => handleRegenerate(question)}
+								>
+									<Sparkles
+										className={
+											regeneratingKey === question.key ? "animate-pulse" : ""
+										}
+									/>
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									aria-label="Pindah ke atas"
+									disabled={index === 0}
+									onClick={() => moveQuestion(index, -1)}
+								>
+									<ArrowUp />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									aria-label="Pindah ke bawah"
+									disabled={index === questions.length - 1}
+									onClick={() => moveQuestion(index, 1)}
+								>
+									<ArrowDown />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									aria-label="Hapus pertanyaan"
+									disabled={questions.length === 1}
+									onClick={() => removeQuestion(question.key)}
+								>
+									<Trash2 />
+								</Button>
+							</div>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							{proposals[question.key] && (
+								<QuestionDiff
+									current={question.content}
+									proposed={proposals[question.key]}
+									onAccept={() => acceptProposal(question.key)}
+									onReject={() => dismissProposal(question.key)}
+								/>
+							)}
+							<textarea
+								aria-label="Teks pertanyaan"
+								placeholder="Tulis pertanyaan..."
+								className={textareaClassName}
+								value={question.content.question}
+								onChange={(e) =>
+									updateQuestion(
+										question.key,
+										changeQuestionText(question.content, e.target.value),
+									)
+								}
+							/>
+
+							{question.content.image && (
+								<div className="flex items-start gap-2">
+									<QuestionImage storageId={question.content.image} />
+									<Button
+										variant="ghost"
+										size="icon"
+										aria-label="Hapus gambar"
+										onClick={() =>
+											updateQuestion(question.key, {
+												...question.content,
+												image: undefined,
+											})
+										}
+									>
+										<X />
+									</Button>
+								</div>
+							)}
+
+							<div className="flex flex-col sm:flex-row gap-3">
+								<Select
+									value={question.content.questionType}
+									onValueChange={(value) =>
+										updateQuestion(
+											question.key,
+											convertQuestion(question.content, value as QuestionType),
+										)
+									}
+								>
+									<SelectTrigger className="w-full sm:w-56">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(
+											(questionType) => (
+												<SelectItem key={questionType} value={questionType}>
+													{QUESTION_TYPE_LABELS[questionType]}
+												</SelectItem>
+											),
+										)}
+									</SelectContent>
+								</Select>
+								<Select
+									value={question.content.difficulty}
+									onValueChange={(value) =>
+										updateQuestion(question.key, {
+											...question.content,
+											difficulty: value as QuizQuestion["difficulty"],
+										})
+									}
+								>
+									<SelectTrigger className="w-full sm:w-48">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="easy">Mudah</SelectItem>
+										<SelectItem value="medium">Sedang</SelectItem>
+										<SelectItem value="hard">Sulit</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+
+							<AnswerFields
+								questionKey={question.key}
+								question={question.content}
+								onChange={(content) => updateQuestion(question.key, content)}
+							/>
+
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Penjelasan</p>
+								<textarea
+									aria-label="Penjelasan"
+									className={textareaClassName}
+									value={question.content.explanation}
+									onChange={(e) =>
+										updateQuestion(question.key, {
+											...question.content,
+											explanation: e.target.value,
+										})
+									}
+								/>
+							</div>
+
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Petunjuk (opsional)</p>
+								<textarea
+									aria-label="Petunjuk"
+									className={textareaClassName}
+									value={question.content.hint ?? ""}
+									onChange={(e) =>
+										updateQuestion(question.key, {
+											...question.content,
+											hint: e.target.value || undefined,
+										})
+									}
+								/>
+							</div>
+						</CardContent>
+					</Card>
+				))}
+
+				<div className="flex flex-col sm:flex-row gap-3">
+					<Button
+						variant="outline"
+						onClick={() =>
+							setQuestions((prev) => [...(prev ?? []), createEmptyQuestion()])
+						}
+					>
+						<Plus />
+						Tambah Pertanyaan
+					</Button>
+					<Button
+						onClick={handleSave}
+						disabled={isSaving}
+						className="flex-grow"
+					>
+						{isSaving ? "Menyimpan..." : "Simpan Perubahan"}
+					</Button>
+				</div>
+
+				<Card>
+					<CardHeader>
+						<CardTitle className="text-lg">Riwayat Versi</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-2">
+						<div className="flex items-center gap-2">
+							<Badge>Versi {quiz.version}</Badge>
+							<span className="text-sm text-muted-foreground">
+								Versi saat ini · {quiz.questions.length} pertanyaan
+							</span>
+						</div>
+						{quiz.versions.map((version) => (
+							<div key={version.version} className="flex items-center gap-2">
+								<Badge variant="outline">Versi {version.version}</Badge>
+								<span className="text-sm text-muted-foreground">
+									{version.questionCount} pertanyaan · diganti{" "}
+									{formatDate(version.replacedAt)}
+								</span>
+							</div>
+						))}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * The answer key of a question, edited the way its type needs.
+ */
+function AnswerFields({
+	questionKey,
+	question,
+	onChange,
+}: {
+	questionKey: string;
+	question: QuizQuestion;
+	onChange: (question: QuizQuestion) => void;
+}) {
+	const replaceAt = <T,>(values: T[], index: number, value: T) =>
+		values.map((current, i) => (i === index ? value : current));
+	const removeAt = <T,>(values: T[], index: number) =>
+		values.filter((_, i) => i !== index);
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+		case "multiple_select": {
+			const isMultiple = question.questionType === "multiple_select";
+			const isCorrect = (optionIndex: number) =>
+				question.questionType === "multiple_select"
+					? question.correctOptionIndexes.includes(optionIndex)
+					: question.correctOptionIndex === optionIndex;
+			const toggleCorrect = (optionIndex: number) => {
+				if (question.questionType !== "multiple_select") {
+					onChange({ ...question, correctOptionIndex: optionIndex });
+					return;
+				}
+				const { correctOptionIndexes } = question;
+				onChange({
+					...question,
+					correctOptionIndexes: correctOptionIndexes.includes(optionIndex)
+						? correctOptionIndexes.filter((index) => index !== optionIndex)
+						: [...correctOptionIndexes, optionIndex].sort((a, b) => a - b),
+				});
+			};
+			const removeOption = (optionIndex: number) => {
+				const shift = (index: number) =>
+					index > optionIndex ? index - 1 : index;
+				const options = removeAt(question.options, optionIndex);
+				if (question.questionType === "multiple_select") {
+					onChange({
+						...question,
+						options,
+						correctOptionIndexes: question.correctOptionIndexes
+							.filter((index) => index !== optionIndex)
+							.map(shift),
+					});
+				} else {
+					const { correctOptionIndex } = question;
+					onChange({
+						...question,
+						options,
+						correctOptionIndex:
+							correctOptionIndex === optionIndex
+								? 0
+								: shift(correctOptionIndex),
+					});
+				}
+			};
+			const canEditOptions = question.questionType !== "true_false";
+
+			return (
+				<div className="space-y-2">
+					<p className="text-sm font-medium">
+						{isMultiple
+							? "Pilihan jawaban (tandai semua jawaban yang benar)"
+							: "Pilihan jawaban (tandai jawaban yang benar)"}
+					</p>
+					{question.options.map((option, optionIndex) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: options are positional
+							key={`${questionKey}-option-${optionIndex}`}
+							className="flex items-center gap-2"
+						>
+							<input
+								type={isMultiple ? "checkbox" : "radio"}
+								name={`correct-${questionKey}`}
+								aria-label={`Jawaban benar: opsi ${optionIndex + 1}`}
+								checked={isCorrect(optionIndex)}
+								onChange={() => toggleCorrect(optionIndex)}
+							/>
+							<Input
+								value={option}
+								disabled={!canEditOptions}
+								onChange={(e) =>
+									onChange({
+										...question,
+										options: replaceAt(
+											question.options,
+											optionIndex,
+											e.target.value,
+										),
+									})
+								}
+							/>
+							{canEditOptions && (
+								<Button
+									variant="ghost"
+									size="icon"
+									aria-label="Hapus opsi"
+									disabled={question.options.length <= MIN_OPTIONS}
+									onClick={() => removeOption(optionIndex)}
+								>
+									<X />
+								</Button>
+							)}
+						</div>
+					))}
+					{canEditOptions && question.options.length < MAX_OPTIONS && (
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() =>
+								onChange({ ...question, options: [...question.options, ""] })
+							}
+						>
+							<Plus />
+							Tambah Opsi
+						</Button>
+					)}
+				</div>
+			);
+		}
+		case "short_answer":
+			return (
+				<div className="space-y-2">
+					<p className="text-sm font-medium">Jawaban yang diterima</p>
+					<AnswerListFields
+						label="Jawaban"
+						answers={question.acceptedAnswers}
+						onChange={(acceptedAnswers) =>
+							onChange({ ...question, acceptedAnswers })
+						}
+					/>
+					<FuzzyCheckbox
+						id={`fuzzy-${questionKey}`}
+						checked={question.fuzzy ?? false}
+						onChange={(fuzzy) => onChange({ ...question, fuzzy })}
+					/>
+				</div>
+			);
+		case "fill_in_blank":
+			return (
+				<div className="space-y-3">
+					<p className="text-sm text-muted-foreground">
+						Tandai setiap isian di teks pertanyaan dengan ___ (tiga garis
+						bawah).
+					</p>
+					{question.blanks.map((answers, blankIndex) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: blanks are positional
+							key={blankIndex}
+							className="space-y-2"
+						>
+							<p className="text-sm font-medium">
+								Jawaban isian {blankIndex + 1}
+							</p>
+							<AnswerListFields
+								label={`Jawaban isian ${blankIndex + 1}`}
+								answers={answers}
+								onChange={(next) =>
+									onChange({
+										...question,
+										blanks: replaceAt(question.blanks, blankIndex, next),
+									})
+								}
+							/>
+						</div>
+					))}
+					<FuzzyCheckbox
+						id={`fuzzy-${questionKey}`}
+						checked={question.fuzzy ?? false}
+						onChange={(fuzzy) => onChange({ ...question, fuzzy })}
+					/>
+				</div>
+			);
+		case "ordering":
+			return (
+				<div className="space-y-2">
+					<p className="text-sm font-medium">
+						Urutan yang benar (akan diacak saat dikerjakan)
+					</p>
+					{question.items.map((item, itemIndex) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: items are positional
+							key={`${questionKey}-item-${itemIndex}`}
+							className="flex items-center gap-2"
+						>
+							<span className="w-6 text-sm text-muted-foreground">
+								{itemIndex + 1}.
+							</span>
+							<Input
+								aria-label={`Urutan ${itemIndex + 1}`}
+								value={item}
+								onChange={(e) =>
+									onChange({
+										...question,
+										items: replaceAt(question.items, itemIndex, e.target.value),
+									})
+								}
+							/>
+							<Button
+								variant="ghost"
+								size="icon"
+								aria-label="Hapus urutan"
+								disabled={question.items.length <= MIN_ITEMS}
+								onClick={() =>
+									onChange({
+										...question,
+										items: removeAt(question.items, itemIndex),
+									})
+								}
+							>
+								<X />
+							</Button>
+						</div>
+					))}
+					{question.items.length < MAX_ITEMS && (
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() =>
+								onChange({ ...question, items: [...question.items, ""] })
+							}
+						>
+							<Plus />
+							Tambah Urutan
+						</Button>
+					)}
+				</div>
+			);
+		case "matching":
+			return (
+				<div className="space-y-2">
+					<p className="text-sm font-medium">
+						Pasangan (sisi kanan akan diacak saat dikerjakan)
+					</p>
+					{question.pairs.map((pair, pairIndex) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: pairs are positional
+							key={`${questionKey}-pair-${pairIndex}`}
+							className="flex items-center gap-2"
+						>
+							<Input
+								aria-label={`Kiri ${pairIndex + 1}`}
+								value={pair.left}
+								onChange={(e) =>
+									onChange({
+										...question,
+										pairs: replaceAt(question.pairs, pairIndex, {
+											...pair,
+											left: e.target.value,
+										}),
+									})
+								}
+							/>
+							<Input
+								aria-label={`Kanan ${pairIndex + 1}`}
+								value={pair.right}
+								onChange={(e) =>
+									onChange({
+										...question,
+										pairs: replaceAt(question.pairs, pairIndex, {
+											...pair,
+											right: e.target.value,
+										}),
+									})
+								}
+							/>
+							<Button
+								variant="ghost"
+								size="icon"
+								aria-label="Hapus pasangan"
+								disabled={question.pairs.length <= MIN_ITEMS}
+								onClick={() =>
+									onChange({
+										...question,
+										pairs: removeAt(question.pairs, pairIndex),
+									})
+								}
+							>
+								<X />
+							</Button>
+						</div>
+					))}
+					{question.pairs.length < MAX_ITEMS && (
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() =>
+								onChange({
+									...question,
+									pairs: [...question.pairs, { left: "", right: "" }],
+								})
+							}
+						>
+							<Plus />
+							Tambah Pasangan
+						</Button>
+					)}
+				</div>
+			);
+	}
+}
+
+function AnswerListFields({
+	label,
+	answers,
+	onChange,
+}: {
+	label: string;
+	answers: string[];
+	onChange: (answers: string[]) => void;
+}) {
+	return (
+		<div className="space-y-2">
+			{answers.map((answer, answerIndex) => (
+				<div
+					// biome-ignore lint/suspicious/noArrayIndexKey: answers can repeat while typing
+					key={answerIndex}
+					className="flex items-center gap-2"
+				>
+					<Input
+						aria-label={`${label} ${answerIndex + 1}`}
+						value={answer}
+						onChange={(e) =>
+							onChange(
+								answers.map((current, i) =>
+									i === answerIndex ? e.target.value : current,
+								),
+							)
+						}
+					/>
+					<Button
+						variant="ghost"
+						size="icon"
+						aria-label="Hapus jawaban"
+						disabled={answers.length <= 1}
+						onClick={() =>
+							onChange(answers.filter((_, i) => i !== answerIndex))
+						}
+					>
+						<X />
+					</Button>
+				</div>
+			))}
+			<Button
+				variant="outline"
+				size="sm"
+				onClick={() => onChange([...answers, ""])}
+			>
+				<Plus />
+				Tambah Jawaban
+			</Button>
+		</div>
+	);
+}
+
+function FuzzyCheckbox({
+	id,
+	checked,
+	onChange,
+}: {
+	id: string;
+	checked: boolean;
+	onChange: (checked: boolean) => void;
+}) {
+	return (
+		<div className="flex items-center gap-2">
+			<input
+				id={id}
+				type="checkbox"
+				checked={checked}
+				onChange={(e) => onChange(e.target.checked)}
+			/>
+			<label htmlFor={id} className="text-sm">
+				Terima jawaban dengan sedikit salah ketik
+			</label>
+		</div>
+	);
+}
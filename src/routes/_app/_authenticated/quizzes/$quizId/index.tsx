@@ -28,9 +28,21 @@ import {
 	useNavigate,
 } from "@tanstack/react-router";
 import { validate } from "convex-helpers/validators";
-import { ChevronLeft, FileQuestion, Zap } from "lucide-react";
+import {
+	BarChart3,
+	ChevronLeft,
+	FileQuestion,
+	Pencil,
+	RotateCcw,
+	Timer,
+	TrendingUp,
+	Zap,
+} from "lucide-react";
 import Markdown from "react-markdown";
 import { toast } from "sonner";
+import { DuplicateQuizDialog } from "../-ui.duplicate-quiz";
+import { ExportQuizMenu } from "../-ui.export-quiz";
+import { ShareQuizDialog } from "../-ui.share-quiz";
 
 export const Route = createFileRoute("/_app/_authenticated/quizzes/$quizId/")({
 	component: RouteComponent,
@@ -61,6 +73,14 @@ function RouteComponent() {
 		convexQuery(api.quizzes.getQuiz, { id: quizId }),
 	);
 
+	const { data: currentUser } = useQuery(
+		convexQuery(api.users.getCurrentUser, {}),
+	);
+
+	const { data: openAttempt } = useQuery(
+		convexQuery(api.quizzes.getOpenQuizAttempt, { quizId }),
+	);
+
 	console.log({
 		attempts,
 		multiplayerRooms,
@@ -77,9 +97,11 @@ function RouteComponent() {
 			mutationFn: useConvexMutation(api.multiplayer.createRoom),
 		});
 
-	const handleStartSingleQuiz = async () => {
+	const handleStartSingleQuiz = async (
+		mode: "standard" | "adaptive" | "exam" = "standard",
+	) => {
 		try {
-			const attemptId = await startQuizAttempt({ quizId });
+			const attemptId = await startQuizAttempt({ quizId, mode });
 			// Navigate to the play page with the attempt ID
 			navigate({
 				to: "/quizzes/$quizId/play",
@@ -150,12 +172,43 @@ function RouteComponent() {
 						</div>
 					</CardContent>
 					<CardFooter className="flex flex-col sm:flex-row gap-3 pt-4">
+						{openAttempt && (
+							<Button asChild className="w-full sm:w-auto flex-grow">
+								<Link
+									to="/quizzes/$quizId/play"
+									params={{ quizId }}
+									search={{ attemptId: openAttempt._id }}
+								>
+									<RotateCcw className="mr-2 h-4 w-4" />
+									Lanjutkan Quiz ({openAttempt.answeredCount}/
+									{data.questions.length} dijawab)
+								</Link>
+							</Button>
+						)}
 						<Button
-							onClick={handleStartSingleQuiz}
+							onClick={() => handleStartSingleQuiz()}
 							className="w-full sm:w-auto flex-grow"
 						>
 							Mulai Quiz Sendiri
 						</Button>
+						<Button
+							variant="outline"
+							onClick={() => handleStartSingleQuiz("adaptive")}
+							className="w-full sm:w-auto flex-grow"
+							title="Soal berikutnya menyesuaikan dengan jawabanmu"
+						>
+							<TrendingUp className="mr-2 h-4 w-4" />
+							Mode Adaptif
+						</Button>
+						<Button
+							variant="outline"
+							onClick={() => handleStartSingleQuiz("exam")}
+							className="w-full sm:w-auto flex-grow"
+							title="Waktu 1,5 menit per soal, pembahasan muncul setelah ujian selesai"
+						>
+							<Timer className="mr-2 h-4 w-4" />
+							Mode Ujian
+						</Button>
 						<Button
 							onClick={handleStartMultiplayerQuiz}
 							disabled={isCreatingRoom}
@@ -163,6 +216,33 @@ function RouteComponent() {
 						>
 							{isCreatingRoom ? "Membuat Room..." : "Main dengan Teman"}
 						</Button>
+						{currentUser?._id === data.createdBy && (
+							<>
+								<Button asChild variant="outline" className="w-full sm:w-auto">
+									<Link to="/quizzes/$quizId/edit" params={{ quizId }}>
+										<Pencil className="mr-2 h-4 w-4" />
+										Edit Kuis
+									</Link>
+								</Button>
+								<Button asChild variant="outline" className="w-full sm:w-auto">
+									<Link to="/quizzes/$quizId/analytics" params={{ quizId }}>
+										<BarChart3 className="mr-2 h-4 w-4" />
+										Analisis
+									</Link>
+								</Button>
+								<ShareQuizDialog
+									quizId={quizId}
+									visibility={data.visibility}
+									shareSlug={data.shareSlug}
+								/>
+								<ExportQuizMenu quizId={quizId} />
+							</>
+						)}
+						{currentUser &&
+							currentUser._id !== data.createdBy &&
+							data.visibility === "public" && (
+								<DuplicateQuizDialog quizId={quizId} />
+							)}
 					</CardFooter>
 				</Card>
 				{/* Single-player History Section */}
@@ -182,7 +262,7 @@ function RouteComponent() {
 							Riwayat Permainan Sendiri
 						</h2>
 						<div className="space-y-4">
-							{attempts.map((attempt: Doc<"quiz_attempts">) => (
+							{attempts.map((attempt) => (
 								<Card key={attempt._id} className="border">
 									<CardHeader className="flex flex-row items-center justify-between pb-2 pt-2 px-4">
 										<div>
@@ -239,7 +319,7 @@ function RouteComponent() {
 										</div>
 										<div className="flex flex-col sm:flex-row gap-2 sm:items-center mt-2 sm:mt-0 self-start sm:self-center">
 											<Badge variant="outline">
-												Skor: {attempt.totalScore}
+												Skor: {attempt.totalScore ?? "-"}
 											</Badge>
 											<Badge variant="secondary">
 												EXP: {attempt.expEarned}
@@ -2,12 +2,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@cvx/_generated/api";
-import type { Doc, Id } from "@cvx/_generated/dataModel";
+import type { Id } from "@cvx/_generated/dataModel";
+import type { PlayQuestion, QuestionResponse } from "@cvx/question_types";
 import { useQuery } from "@tanstack/react-query";
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useEffect, useRef, useState } from "react"; // Added useState
 import { QuizProvider, useQuiz } from "../-quiz-context";
 import { QuizPageHeader } from "../-quiz-header"; // Added QuizPageHeader import
+import { ExamPlayer } from "../-ui.exam";
 import { Question } from "../-ui.question";
 
 export const Route = createFileRoute(
@@ -28,88 +30,89 @@ function QuizContent() {
 	const {
 		quizData,
 		currentQuestionIndex,
+		questionOrder,
 		answers,
 		isQuizStarted,
 		startQuiz,
 		setAttemptId,
 		submitAnswer,
+		requestHelp,
 		nextQuestion,
 		finishQuiz,
 		setQuizData,
 	} = useQuiz();
+	const navigate = useNavigate();
 
-	// Fetch the quiz data
+	// Fetch the quiz for this attempt; answers are revealed as they are saved
 	const { data: fetchedQuizData, isLoading: isQuizLoading } = useQuery(
-		convexQuery(api.quizzes.getQuiz, { id: quizId as Id<"quizzes"> }),
+		convexQuery(api.quizzes.getQuizForPlay, attemptId ? { attemptId } : "skip"),
 	);
 
-	// We'll only fetch the quiz data directly, and handle the attempt data in the effect
+	// Without an attempt in the URL, look for an unfinished one to resume
+	const { data: openAttempt } = useQuery(
+		convexQuery(
+			api.quizzes.getOpenQuizAttempt,
+			attemptId ? "skip" : { quizId: quizId as Id<"quizzes"> },
+		),
+	);
 
 	// Use refs to track initialization state
 	const hasInitializedRef = useRef(false);
 	const hasStartedQuizRef = useRef(false);
 
-	// First effect: Handle setting the attempt ID if present
+	// First effect: Handle setting the attempt ID if present, or resume an open
+	// attempt or start a new one, and put its ID in the URL
 	useEffect(() => {
 		if (attemptId && !isQuizStarted && !hasInitializedRef.current) {
-			console.log("Setting attempt ID from URL:", attemptId);
 			setAttemptId(attemptId);
 			hasInitializedRef.current = true;
-		}
-	}, [attemptId, isQuizStarted, setAttemptId]);
-
-	// Second effect: Handle starting a new quiz when we have the data
-	useEffect(() => {
-		// Skip if we've already started the quiz or don't have data yet
-		if (hasStartedQuizRef.current || !fetchedQuizData) {
 			return;
 		}
 
-		// For new quizzes (no attempt ID) - only start if explicitly not started
-		if (!attemptId && !isQuizStarted) {
-			console.log("Starting new quiz with data:", fetchedQuizData);
-			startQuiz(fetchedQuizData);
+		if (!attemptId && openAttempt !== undefined && !hasStartedQuizRef.current) {
 			hasStartedQuizRef.current = true;
-			return;
-		}
-
-		// For existing quizzes with attempt ID but no quiz data yet
-		// IMPORTANT: We don't call startQuiz here, just set the quiz data
-		if (attemptId && isQuizStarted && !quizData) {
-			console.log("Setting quiz data for existing attempt:", fetchedQuizData);
-			// Don't call startQuiz again as it would create a new attempt
-			// Instead, just set the quiz data directly
-			setQuizData(fetchedQuizData);
-			hasStartedQuizRef.current = true;
-			return;
+			const attempt = openAttempt
+				? Promise.resolve(openAttempt._id)
+				: startQuiz(quizId as Id<"quizzes">);
+			attempt.then((resumedAttemptId) =>
+				navigate({
+					to: "/quizzes/$quizId/play",
+					params: { quizId },
+					search: () => ({ attemptId: resumedAttemptId }),
+					replace: true,
+				}),
+			);
 		}
 	}, [
-		fetchedQuizData,
-		isQuizStarted,
 		attemptId,
-		quizData,
+		openAttempt,
+		isQuizStarted,
+		setAttemptId,
 		startQuiz,
-		setQuizData,
+		quizId,
+		navigate,
 	]);
 
-	// We'll handle loading attempt data in a future update
-	// For now, we'll focus on making the basic quiz flow work correctly
-
-	// Debug logs
-	console.log({
-		quizId,
-		attemptId,
-		isQuizStarted,
-		quizDataExists: !!quizData,
-		fetchedQuizDataExists: !!fetchedQuizData,
-		currentQuestionIndex,
-		answersCount: answers.length,
-	});
+	// A finished attempt can't be played any more, show its result instead
+	useEffect(() => {
+		if (attemptId && fetchedQuizData?.isFinished) {
+			navigate({
+				to: "/quizzes/$quizId/result",
+				params: { quizId },
+				search: () => ({ attemptId }),
+				replace: true,
+			});
+		}
+	}, [attemptId, fetchedQuizData?.isFinished, quizId, navigate]);
 
-	// If we're loading the quiz data, show loading
-	const isLoading = isQuizLoading;
+	// Second effect: Keep the quiz data in sync, so revealed answers show up
+	useEffect(() => {
+		if (fetchedQuizData) {
+			setQuizData(fetchedQuizData);
+		}
+	}, [fetchedQuizData, setQuizData]);
 
-	if (isLoading) {
+	if (isQuizLoading || (!quizData && !fetchedQuizData)) {
 		return (
 			<div className="min-h-screen container mx-auto max-w-4xl py-8">
 				<Card>
@@ -124,26 +127,6 @@ function QuizContent() {
 		);
 	}
 
-	// More detailed debug logs to help diagnose the issue
-	console.log("Detailed quiz state:", {
-		quizId,
-		attemptId,
-		isQuizStarted,
-		quizData,
-		fetchedQuizData,
-		hasInitialized: hasInitializedRef.current,
-		hasStartedQuiz: hasStartedQuizRef.current,
-		currentQuestionIndex,
-		answersCount: answers.length,
-	});
-
-	// Last resort: If we have fetchedQuizData but no quizData, force start the quiz
-	if (fetchedQuizData && !quizData && !hasStartedQuizRef.current) {
-		console.log("EMERGENCY: Forcing quiz start with fetched data");
-		startQuiz(fetchedQuizData);
-		hasStartedQuizRef.current = true;
-	}
-
 	if (!quizData) {
 		return (
 			<div className="min-h-screen container mx-auto max-w-4xl py-8">
@@ -168,8 +151,8 @@ function QuizContent() {
 	}
 
 	// Handle submitting an answer for the current question
-	const handleSubmitAnswer = async (selectedIndex: number) => {
-		await submitAnswer(selectedIndex);
+	const handleSubmitAnswer = async (response: QuestionResponse) => {
+		await submitAnswer(response);
 	};
 
 	return (
@@ -181,39 +164,51 @@ function QuizContent() {
 				onToggleTextToSpeech={toggleTextToSpeech}
 			/>
 			<main className="container mx-auto max-w-4xl px-4 py-8 pb-20">
-				<div className="flex flex-col w-full">
-					{quizData.questions
-						.filter((_, index: number) => index <= currentQuestionIndex)
-						.map(
-							(
-								question: Doc<"quizzes">["questions"][number],
-								index: number,
-							) => (
-								<Question
-									isTextToSpeechEnabled={isTextToSpeechEnabled}
-									key={`question-${question.question}-${index}`}
-									data={question}
-									onSubmitAnswer={(selectedIndex) =>
-										handleSubmitAnswer(selectedIndex)
-									}
-									onNextQuestion={
-										index === currentQuestionIndex &&
-										index === quizData.questions.length - 1
-											? finishQuiz
-											: nextQuestion
-									}
-									isLastQuestion={index === quizData.questions.length - 1}
-									isActive={index === currentQuestionIndex}
-									isAnswered={answers.some((a) => a.questionIndex === index)}
-									answeredIndex={
-										answers.find((a) => a.questionIndex === index)
-											?.selectedIndex
-									}
-									questionNumber={index}
-								/>
-							),
+				{quizData.mode === "exam" ? (
+					<ExamPlayer />
+				) : (
+					<div className="flex flex-col w-full">
+						{questionOrder
+							.slice(0, currentQuestionIndex + 1)
+							.map((questionIndex: number, position: number) => {
+								const question: PlayQuestion =
+									quizData.questions[questionIndex];
+								const answer = answers.find(
+									(a) => a.questionIndex === questionIndex,
+								);
+								const isLastQuestion = position === quizData.questionCount - 1;
+								return (
+									<Question
+										isTextToSpeechEnabled={isTextToSpeechEnabled}
+										key={`question-${question.question}-${questionIndex}`}
+										data={question}
+										onSubmitAnswer={(response) => handleSubmitAnswer(response)}
+										onRequestHelp={requestHelp}
+										onNextQuestion={
+											position === currentQuestionIndex && isLastQuestion
+												? finishQuiz
+												: nextQuestion
+										}
+										isLastQuestion={isLastQuestion}
+										isActive={position === currentQuestionIndex}
+										isAnswered={answer !== undefined}
+										answeredResponse={answer?.response}
+										isCorrect={answer?.isCorrect}
+										questionNumber={position}
+									/>
+								);
+							})}
+						{currentQuestionIndex >= questionOrder.length && (
+							<Card>
+								<CardContent className="py-6 text-center text-muted-foreground">
+									{quizData.isPreparingQuestion
+										? "Menyiapkan soal yang pas untukmu..."
+										: "Memuat soal berikutnya..."}
+								</CardContent>
+							</Card>
 						)}
-				</div>
+					</div>
+				)}
 			</main>
 		</div>
 	);
@@ -1,4 +1,6 @@
 import { Progress } from "@/components/retroui/Progress";
+import { RichText } from "@/components/rich-text";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -11,6 +13,11 @@ import {
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@cvx/_generated/api";
 import type { Id } from "@cvx/_generated/dataModel";
+import {
+	HELP_XP_COST,
+	type QuestionHelp,
+	getChosenOptions,
+} from "@cvx/question_types";
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useAction } from "convex/react";
@@ -18,6 +25,9 @@ import { ArrowLeft, Award, Check, Clock, X } from "lucide-react";
 import { useEffect, useState } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { QuestionCitation } from "../-ui.question-citation";
+import { QuestionImage } from "../-ui.question-image";
+import { ResponseInput, getInitialResponse } from "../-ui.response-input";
 
 interface QuizResultProps {
 	quizId: Id<"quizzes">;
@@ -33,6 +43,11 @@ export const Route = createFileRoute(
 	}),
 });
 
+const HELP_LABELS: Record<QuestionHelp, string> = {
+	hint: "Pakai petunjuk",
+	fifty_fifty: "Pakai 50:50",
+};
+
 function formatTime(ms: number): string {
 	const seconds = Math.floor(ms / 1000);
 	const minutes = Math.floor(seconds / 60);
@@ -45,9 +60,11 @@ function QuizResult({ quizId, attemptId }: QuizResultProps) {
 	const [isGeneratingFeedback, setIsGeneratingFeedback] =
 		useState<boolean>(false);
 
-	// Fetch quiz data
+	// Fetch quiz data, with the answer key revealed for the finished attempt
 	const { data: quiz, isLoading: isQuizLoading } = useQuery(
-		convexQuery(api.quizzes.getQuiz, { id: quizId as Id<"quizzes"> }),
+		convexQuery(api.quizzes.getQuizForPlay, {
+			attemptId: attemptId as Id<"quiz_attempts">,
+		}),
 	);
 
 	// Fetch attempt data
@@ -147,7 +164,8 @@ function QuizResult({ quizId, attemptId }: QuizResultProps) {
 	const correctAnswers = attempt.questionAnswers.filter(
 		(a) => a.isCorrect,
 	).length;
-	const totalQuestions = quiz.questions.length;
+	// Adaptive attempts only served some of the questions, in their own order
+	const totalQuestions = quiz.playOrder.length;
 	const percentage = Math.round((correctAnswers / totalQuestions) * 100);
 
 	return (
@@ -257,12 +275,18 @@ function QuizResult({ quizId, attemptId }: QuizResultProps) {
 			{/* Question Review */}
 			<h2 className="text-2xl font-bold mb-4">Question Review</h2>
 			<div className="space-y-4">
-				{quiz.questions.map((question, index) => {
-					const answer = attempt.questionAnswers.find(
-						(a) => a.questionIndex === index,
+				{quiz.playOrder.map((questionIndex, index) => {
+					const question = quiz.questions[questionIndex];
+					// Responses as the options were shown in this attempt
+					const answer = quiz.answers.find(
+						(a) => a.questionIndex === questionIndex,
 					);
 					const isCorrect = answer?.isCorrect || false;
-					const selectedIndex = answer?.selectedIndex || 0;
+					const response = answer?.response;
+					const chosenOptions = response ? getChosenOptions(response) : [];
+					const correctOptions = question.correctResponse
+						? getChosenOptions(question.correctResponse)
+						: [];
 
 					return (
 						<Card
@@ -282,49 +306,71 @@ function QuizResult({ quizId, attemptId }: QuizResultProps) {
 									) : (
 										<X className="text-red-500" />
 									)}
+									{answer?.usedHelp.map((help) => (
+										<Badge key={help} variant="secondary">
+											{HELP_LABELS[help]} (-{HELP_XP_COST[help]} XP)
+										</Badge>
+									))}
 								</div>
 							</CardHeader>
 
 							<CardContent className="space-y-3">
-								<p className="font-medium">{question.question}</p>
-
-								<div className="space-y-2">
-									{question.options.map((option, optionIndex) => {
-										let className = "p-3 rounded-md text-sm";
-
-										if (optionIndex === question.correctOptionIndex) {
-											className += " bg-green-50 border border-green-200";
-										} else if (optionIndex === selectedIndex && !isCorrect) {
-											className += " bg-red-50 border border-red-200";
-										} else {
-											className += " bg-muted/50";
-										}
-
-										return (
-											<div
-												key={`option-${option}-${
-													// biome-ignore lint/suspicious/noArrayIndexKey: <explanation>
-													optionIndex
-												}`}
-												className={className}
-											>
-												{option}
-												{optionIndex === selectedIndex &&
-													!isCorrect &&
-													" (Jawabanmu)"}
-												{optionIndex === question.correctOptionIndex &&
-													" (Jawaban Benar)"}
-											</div>
-										);
-									})}
-								</div>
+								{question.image && <QuestionImage storageId={question.image} />}
+								<RichText className="font-medium">{question.question}</RichText>
+
+								{"options" in question ? (
+									<div className="space-y-2">
+										{question.options.map((option, optionIndex) => {
+											const isChosen = chosenOptions.includes(optionIndex);
+											const isCorrectOption =
+												correctOptions.includes(optionIndex);
+											let className = "p-3 rounded-md text-sm";
+
+											if (isCorrectOption) {
+												className += " bg-green-50 border border-green-200";
+											} else if (isChosen && !isCorrect) {
+												className += " bg-red-50 border border-red-200";
+											} else {
+												className += " bg-muted/50";
+											}
+
+											return (
+												<div
+													key={`option-${option}-${
+														// biome-ignore lint/suspicious/noArrayIndexKey: <explanation>
+														optionIndex
+													}`}
+													className={className}
+												>
+													<RichText inline>{option}</RichText>
+													{isChosen && !isCorrect && " (Jawabanmu)"}
+													{isCorrectOption && " (Jawaban Benar)"}
+												</div>
+											);
+										})}
+									</div>
+								) : (
+									<ResponseInput
+										question={question}
+										value={response ?? getInitialResponse(question)}
+										isDisabled
+										isRevealed
+									/>
+								)}
 
 								<div className="mt-4 p-4 bg-muted/30 rounded-md">
 									<p className="font-medium mb-1">Penjelasan:</p>
-									<p className="text-muted-foreground">
-										{question.explanation}
-									</p>
+									<RichText className="text-muted-foreground">
+										{question.explanation ?? ""}
+									</RichText>
 								</div>
+
+								{question.citation && (
+									<QuestionCitation
+										citation={question.citation}
+										quizContext={quiz.quizContext}
+									/>
+								)}
 							</CardContent>
 						</Card>
 					);
@@ -1,21 +1,33 @@
 import { useConvexMutation } from "@convex-dev/react-query";
 import { api } from "@cvx/_generated/api";
-import type { Doc, Id } from "@cvx/_generated/dataModel";
+import type { Id } from "@cvx/_generated/dataModel";
+import type { QuestionHelp, QuestionResponse } from "@cvx/question_types";
 import { useMutation } from "@tanstack/react-query";
+import type { FunctionReturnType } from "convex/server";
 import type React from "react";
-import { createContext, useContext, useState } from "react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+
+export type PlayQuiz = FunctionReturnType<typeof api.quizzes.getQuizForPlay>;
+
+type AttemptMode = PlayQuiz["mode"];
 
 type QuestionAnswer = {
 	questionIndex: number;
-	selectedIndex: number;
-	isCorrect: boolean;
+	response: QuestionResponse;
+	// Unknown until the end of an exam
+	isCorrect?: boolean;
 	timeTaken: number; // in ms
+	usedHelp?: QuestionHelp[];
 };
 
 type QuizContextType = {
-	quizData: Doc<"quizzes"> | null;
+	quizData: PlayQuiz | null;
 	attemptId: Id<"quiz_attempts"> | null;
+	// Position of the current question in the play order, see `questionOrder`
 	currentQuestionIndex: number;
+	// Quiz question indexes in the order they're played. Adaptive attempts get
+	// each next one from the server once the previous has been answered.
+	questionOrder: number[];
 	answers: QuestionAnswer[];
 	startTime: number | null;
 	endTime: number | null;
@@ -23,12 +35,20 @@ type QuizContextType = {
 	isQuizFinished: boolean;
 
 	// Methods
-	startQuiz: (quizData: Doc<"quizzes">) => Promise<void>;
-	submitAnswer: (selectedIndex: number) => Promise<void>;
+	startQuiz: (
+		quizId: Id<"quizzes">,
+		mode?: AttemptMode,
+	) => Promise<Id<"quiz_attempts">>;
+	submitAnswer: (response: QuestionResponse) => Promise<void>;
+	// Ask for a hint or the 50:50 lifeline on the current question, the quiz
+	// data shows it once saved
+	requestHelp: (help: QuestionHelp) => Promise<void>;
 	nextQuestion: () => void;
+	// Jump to a question, for revisiting exam questions
+	goToQuestion: (position: number) => void;
 	finishQuiz: () => Promise<void>;
 	setAttemptId: (id: Id<"quiz_attempts">) => void;
-	setQuizData: (quizData: Doc<"quizzes">) => void;
+	setQuizData: (quizData: PlayQuiz) => void;
 };
 
 const QuizContext = createContext<QuizContextType | null>(null);
@@ -44,7 +64,7 @@ export const useQuiz = () => {
 export const QuizProvider: React.FC<{
 	children: React.ReactNode;
 }> = ({ children }) => {
-	const [quizData, setQuizData] = useState<Doc<"quizzes"> | null>(null);
+	const [quizData, setQuizData] = useState<PlayQuiz | null>(null);
 	const [attemptId, setAttemptId] = useState<Id<"quiz_attempts"> | null>(null);
 	const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(0);
 	const [answers, setAnswers] = useState<QuestionAnswer[]>([]);
@@ -52,6 +72,38 @@ export const QuizProvider: React.FC<{
 	const [endTime, setEndTime] = useState<number | null>(null);
 	const [isQuizStarted, setIsQuizStarted] = useState<boolean>(false);
 	const [isQuizFinished, setIsQuizFinished] = useState<boolean>(false);
+	const [questionStartedAt, setQuestionStartedAt] = useState<number | null>(
+		null,
+	);
+
+	const questionOrder = quizData?.playOrder ?? [];
+	const isCurrentQuestionServed = currentQuestionIndex < questionOrder.length;
+
+	// Pick up where a reloaded or reopened attempt left off, once its quiz data
+	// with the saved answers has loaded
+	const restoredAttemptIdRef = useRef<Id<"quiz_attempts"> | null>(null);
+	useEffect(() => {
+		if (!quizData || !attemptId || restoredAttemptIdRef.current === attemptId) {
+			return;
+		}
+		restoredAttemptIdRef.current = attemptId;
+		setAnswers(quizData.answers);
+		setStartTime(quizData.startedAt);
+		setCurrentQuestionIndex(
+			Math.max(
+				Math.min(quizData.answers.length, quizData.questionCount - 1),
+				0,
+			),
+		);
+	}, [quizData, attemptId]);
+
+	// Time each question from when it's shown, so waiting for an adaptive
+	// question to be generated doesn't count
+	useEffect(() => {
+		if (isCurrentQuestionServed) {
+			setQuestionStartedAt(Date.now());
+		}
+	}, [currentQuestionIndex, isCurrentQuestionServed]);
 
 	// Mutations
 	const { mutateAsync: startQuizAttempt } = useMutation({
@@ -62,22 +114,31 @@ export const QuizProvider: React.FC<{
 		mutationFn: useConvexMutation(api.quizzes.saveQuizAnswer),
 	});
 
+	const { mutateAsync: requestQuestionHelp } = useMutation({
+		mutationFn: useConvexMutation(api.quizzes.requestQuestionHelp),
+	});
+
 	const { mutateAsync: finishQuizAttempt } = useMutation({
 		mutationFn: useConvexMutation(api.quizzes.finishQuizAttempt),
 	});
 
-	// Start the quiz
-	const startQuiz = async (quiz: Doc<"quizzes">) => {
+	// Start the quiz. The quiz data itself is loaded for the new attempt, so that
+	// the answer key is only sent once each question has been answered.
+	const startQuiz = async (
+		quizId: Id<"quizzes">,
+		mode: AttemptMode = "standard",
+	) => {
 		try {
 			const now = Date.now();
-			const newAttemptId = await startQuizAttempt({ quizId: quiz._id });
+			const newAttemptId = await startQuizAttempt({ quizId, mode });
 
-			setQuizData(quiz);
 			setAttemptId(newAttemptId);
 			setStartTime(now);
 			setIsQuizStarted(true);
 			setCurrentQuestionIndex(0);
 			setAnswers([]);
+
+			return newAttemptId;
 		} catch (error) {
 			console.error("Failed to start quiz:", error);
 			throw error;
@@ -85,66 +146,76 @@ export const QuizProvider: React.FC<{
 	};
 
 	// Submit an answer for the current question
-	const submitAnswer = async (selectedIndex: number) => {
-		if (
-			!quizData ||
-			!attemptId ||
-			currentQuestionIndex >= quizData.questions.length
-		) {
+	const submitAnswer = async (response: QuestionResponse) => {
+		const questionIndex = questionOrder[currentQuestionIndex];
+		if (!quizData || !attemptId || questionIndex === undefined) {
 			return;
 		}
 
 		try {
 			const now = Date.now();
-			const questionStartTime = startTime || now;
-
-			// Calculate time taken to answer (using previous answer's timestamp or quiz start time)
-			const prevAnswerTime =
-				answers.length > 0
-					? answers[answers.length - 1].timeTaken + questionStartTime
-					: questionStartTime;
+			const timeTaken = now - (questionStartedAt ?? now);
 
-			const timeTaken = now - prevAnswerTime;
-
-			// Check if answer is correct
-			const isCorrect =
-				quizData.questions[currentQuestionIndex].correctOptionIndex ===
-				selectedIndex;
+			// Save to database; the answer is graded on the server
+			const { isCorrect } = await saveQuizAnswer({
+				attemptId,
+				questionIndex,
+				response,
+				timeTaken,
+			});
 
-			// Save answer
+			// Add to local state
 			const answer: QuestionAnswer = {
-				questionIndex: currentQuestionIndex,
-				selectedIndex,
+				questionIndex,
+				response,
 				isCorrect,
 				timeTaken,
 			};
+			// Later changes to an exam answer are timed from this save
+			setQuestionStartedAt(now);
 
-			// Add to local state
-			setAnswers((prev) => [...prev, answer]);
-
-			// Save to database
-			await saveQuizAnswer({
-				attemptId,
-				questionIndex: currentQuestionIndex,
-				selectedIndex,
-				isCorrect,
-				timeTaken,
-			});
+			// Exam answers can be changed, so replace any earlier one
+			setAnswers((prev) => [
+				...prev.filter((a) => a.questionIndex !== questionIndex),
+				answer,
+			]);
 		} catch (error) {
 			console.error("Failed to submit answer:", error);
 			throw error;
 		}
 	};
 
+	const requestHelp = async (help: QuestionHelp) => {
+		const questionIndex = questionOrder[currentQuestionIndex];
+		if (!attemptId || questionIndex === undefined) {
+			return;
+		}
+
+		try {
+			await requestQuestionHelp({ attemptId, questionIndex, help });
+		} catch (error) {
+			console.error("Failed to request help:", error);
+			throw error;
+		}
+	};
+
 	// Move to the next question
 	const nextQuestion = () => {
-		if (!quizData || currentQuestionIndex >= quizData.questions.length - 1) {
+		if (!quizData || currentQuestionIndex >= quizData.questionCount - 1) {
 			return;
 		}
 
 		setCurrentQuestionIndex((prev) => prev + 1);
 	};
 
+	const goToQuestion = (position: number) => {
+		if (!quizData || position < 0 || position >= quizData.questionCount) {
+			return;
+		}
+
+		setCurrentQuestionIndex(position);
+	};
+
 	// Finish the quiz
 	const finishQuiz = async () => {
 		if (!attemptId) {
@@ -153,13 +224,6 @@ export const QuizProvider: React.FC<{
 		}
 
 		try {
-			console.log(
-				"Finishing quiz with attempt ID:",
-				attemptId,
-				"(type:",
-				typeof attemptId,
-				")",
-			);
 			const now = Date.now();
 			await finishQuizAttempt({
 				attemptId,
@@ -170,12 +234,6 @@ export const QuizProvider: React.FC<{
 
 			// Navigate to result page
 			if (quizData) {
-				// Use a simpler approach to navigate with the attempt ID
-				console.log("Navigating to result page with:", {
-					quizId: quizData._id,
-					attemptId,
-				});
-
 				// Navigate to the result page with the quiz ID and attempt ID
 				const resultUrl = `/quizzes/${quizData._id}/result?attemptId=${attemptId}`;
 				window.location.href = resultUrl;
@@ -188,7 +246,6 @@ export const QuizProvider: React.FC<{
 
 	// Method to directly set the attemptId (used when resuming a quiz from URL)
 	const setAttemptIdMethod = (id: Id<"quiz_attempts">) => {
-		console.log("Setting attempt ID:", id);
 		setAttemptId(id);
 		setIsQuizStarted(true);
 
@@ -202,6 +259,7 @@ export const QuizProvider: React.FC<{
 	const contextValue: QuizContextType = {
 		quizData,
 		currentQuestionIndex,
+		questionOrder,
 		answers,
 		attemptId,
 		isQuizStarted,
@@ -212,7 +270,9 @@ export const QuizProvider: React.FC<{
 		setAttemptId: setAttemptIdMethod,
 		setQuizData,
 		submitAnswer,
+		requestHelp,
 		nextQuestion,
+		goToQuestion,
 		finishQuiz,
 	};
 
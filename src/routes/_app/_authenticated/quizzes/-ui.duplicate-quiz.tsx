@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { useMutation } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useAction } from "convex/react";
+import { CopyPlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+type EducationLevel = "sd" | "smp" | "sma" | "kuliah";
+type Language = "id" | "en";
+
+const EDUCATION_LEVEL_LABELS: Record<EducationLevel, string> = {
+	sd: "SD",
+	smp: "SMP",
+	sma: "SMA",
+	kuliah: "Kuliah",
+};
+
+interface DuplicateQuizDialogProps {
+	quizId: Id<"quizzes">;
+}
+
+export function DuplicateQuizDialog({ quizId }: DuplicateQuizDialogProps) {
+	const navigate = useNavigate();
+	const [educationLevel, setEducationLevel] = useState<EducationLevel | "same">(
+		"same",
+	);
+	const [language, setLanguage] = useState<Language | "same">("same");
+	const [isRemixing, setIsRemixing] = useState(false);
+
+	const { mutateAsync: duplicateQuiz, isPending: isDuplicating } = useMutation({
+		mutationFn: useConvexMutation(api.sharing.duplicateQuiz),
+	});
+	const remixQuiz = useAction(api.sharing.remixQuiz);
+
+	const isRetargeting = educationLevel !== "same" || language !== "same";
+
+	const handleDuplicate = async () => {
+		try {
+			let newQuizId: Id<"quizzes">;
+			if (isRetargeting) {
+				setIsRemixing(true);
+				newQuizId = await remixQuiz({
+					quizId,
+					educationLevel:
+						educationLevel === "same" ? undefined : educationLevel,
+					language: language === "same" ? undefined : language,
+				});
+			} else {
+				newQuizId = await duplicateQuiz({ quizId });
+			}
+			toast.success("Kuis berhasil disalin ke Kuisku!");
+			navigate({ to: "/quizzes/$quizId", params: { quizId: newQuizId } });
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menyalin kuis, coba lagi nanti");
+		} finally {
+			setIsRemixing(false);
+		}
+	};
+
+	const isPending = isDuplicating || isRemixing;
+
+	return (
+		<Dialog>
+			<DialogTrigger asChild>
+				<Button variant="outline" className="w-full sm:w-auto">
+					<CopyPlus className="mr-2 h-4 w-4" />
+					Salin ke Kuisku
+				</Button>
+			</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Salin Kuis</DialogTitle>
+					<DialogDescription>
+						Salin kuis ini ke Kuisku untuk kamu ubah sendiri. Pilih jenjang atau
+						bahasa lain kalau mau soalnya dibuat ulang oleh AI.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-3">
+					<Select
+						value={educationLevel}
+						onValueChange={(value) =>
+							setEducationLevel(value as EducationLevel | "same")
+						}
+					>
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="same">Jenjang sama</SelectItem>
+							{Object.entries(EDUCATION_LEVEL_LABELS).map(([value, label]) => (
+								<SelectItem key={value} value={value}>
+									Jenjang {label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select
+						value={language}
+						onValueChange={(value) => setLanguage(value as Language | "same")}
+					>
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="same">Bahasa sama</SelectItem>
+							<SelectItem value="id">Bahasa Indonesia</SelectItem>
+							<SelectItem value="en">Bahasa Inggris</SelectItem>
+						</SelectContent>
+					</Select>
+					<Button
+						className="w-full"
+						onClick={handleDuplicate}
+						disabled={isPending}
+					>
+						{isRemixing
+							? "AI sedang membuat ulang soal..."
+							: isRetargeting
+								? "Salin & Buat Ulang Soal"
+								: "Salin Kuis"}
+					</Button>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
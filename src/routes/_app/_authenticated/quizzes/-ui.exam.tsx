@@ -0,0 +1,266 @@
+import { RichText } from "@/components/rich-text";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useDoubleCheck } from "@/components/ui/use-double-check";
+import { cn } from "@/lib/utils";
+import { useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { PlayQuestion, QuestionResponse } from "@cvx/question_types";
+import { useMutation } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Clock, Flag } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useQuiz } from "./-quiz-context";
+import { escapeBlanks } from "./-ui.question";
+import { QuestionImage } from "./-ui.question-image";
+import {
+	ResponseInput,
+	getInitialResponse,
+	isResponseComplete,
+} from "./-ui.response-input";
+
+// The countdown turns red when this little time is left
+const LOW_TIME_MS = 60 * 1000;
+
+function formatRemaining(ms: number) {
+	const seconds = Math.ceil(ms / 1000);
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function useRemainingTime(endsAt: number) {
+	const [now, setNow] = useState(() => Date.now());
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(interval);
+	}, []);
+	return Math.max(endsAt - now, 0);
+}
+
+/**
+ * Plays an attempt in exam mode: one question at a time against a countdown,
+ * with answers that can be changed and flagged for another look until the
+ * exam is handed in. Correctness and explanations only show on the result
+ * page. When time runs out the server hands the exam in, and the play page
+ * moves on to the result.
+ */
+export function ExamPlayer() {
+	const {
+		quizData,
+		attemptId,
+		currentQuestionIndex,
+		questionOrder,
+		answers,
+		submitAnswer,
+		goToQuestion,
+		finishQuiz,
+	} = useQuiz();
+	const remaining = useRemainingTime(quizData?.examEndsAt ?? 0);
+	const { doubleCheck, getButtonProps } = useDoubleCheck();
+	const [isFinishing, setIsFinishing] = useState(false);
+
+	const { mutateAsync: toggleQuestionFlag } = useMutation({
+		mutationFn: useConvexMutation(api.quizzes.toggleQuestionFlag),
+	});
+
+	if (!quizData || !attemptId) {
+		return null;
+	}
+
+	const questionIndex = questionOrder[currentQuestionIndex];
+	const question = quizData.questions[questionIndex];
+	const savedAnswer = answers.find((a) => a.questionIndex === questionIndex);
+	const isFlagged = quizData.flaggedIndexes.includes(questionIndex);
+	const isTimeUp = remaining === 0;
+	const unansweredCount = questionOrder.filter(
+		(index) => !answers.some((a) => a.questionIndex === index),
+	).length;
+
+	const handleFinish = async () => {
+		setIsFinishing(true);
+		try {
+			await finishQuiz();
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menyelesaikan ujian. Coba lagi.");
+			setIsFinishing(false);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-center justify-between gap-4">
+				<div
+					className={cn(
+						"flex items-center gap-2 text-xl font-semibold tabular-nums",
+						remaining <= LOW_TIME_MS && "text-red-500",
+					)}
+				>
+					<Clock className="h-5 w-5" />
+					{isTimeUp ? "Waktu habis" : formatRemaining(remaining)}
+				</div>
+				<Button
+					variant={doubleCheck ? "destructive" : "default"}
+					disabled={isFinishing || isTimeUp}
+					{...getButtonProps({
+						onClick: doubleCheck ? handleFinish : undefined,
+					})}
+				>
+					{doubleCheck
+						? unansweredCount > 0
+							? `${unansweredCount} soal belum dijawab. Yakin selesai?`
+							: "Yakin selesai?"
+						: "Selesaikan Ujian"}
+				</Button>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				{questionOrder.map((index, position) => {
+					const isAnswered = answers.some((a) => a.questionIndex === index);
+					return (
+						<Button
+							key={index}
+							variant={isAnswered ? "default" : "outline"}
+							size="sm"
+							className={cn(
+								"relative w-10",
+								position === currentQuestionIndex &&
+									"ring-2 ring-primary ring-offset-2",
+							)}
+							onClick={() => goToQuestion(position)}
+						>
+							{position + 1}
+							{quizData.flaggedIndexes.includes(index) && (
+								<Flag className="absolute -top-1 -right-1 h-3 w-3 fill-yellow-400 text-yellow-500" />
+							)}
+						</Button>
+					);
+				})}
+			</div>
+
+			{question && (
+				<ExamQuestion
+					key={questionIndex}
+					question={question}
+					questionNumber={currentQuestionIndex}
+					savedResponse={savedAnswer?.response}
+					isDisabled={isTimeUp || isFinishing}
+					onSave={submitAnswer}
+					isFlagged={isFlagged}
+					onToggleFlag={() => toggleQuestionFlag({ attemptId, questionIndex })}
+				/>
+			)}
+
+			<div className="flex justify-between">
+				<Button
+					variant="outline"
+					disabled={currentQuestionIndex === 0}
+					onClick={() => goToQuestion(currentQuestionIndex - 1)}
+				>
+					<ChevronLeft className="mr-2 h-4 w-4" />
+					Sebelumnya
+				</Button>
+				<Button
+					variant="outline"
+					disabled={currentQuestionIndex >= questionOrder.length - 1}
+					onClick={() => goToQuestion(currentQuestionIndex + 1)}
+				>
+					Berikutnya
+					<ChevronRight className="ml-2 h-4 w-4" />
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function ExamQuestion({
+	question,
+	questionNumber,
+	savedResponse,
+	isDisabled,
+	onSave,
+	isFlagged,
+	onToggleFlag,
+}: {
+	question: PlayQuestion;
+	questionNumber: number;
+	savedResponse?: QuestionResponse;
+	isDisabled: boolean;
+	onSave: (response: QuestionResponse) => Promise<void>;
+	isFlagged: boolean;
+	onToggleFlag: () => void;
+}) {
+	const [response, setResponse] = useState<QuestionResponse>(
+		() => savedResponse ?? getInitialResponse(question),
+	);
+	const [isSaving, setIsSaving] = useState(false);
+	const isSaved =
+		savedResponse !== undefined &&
+		JSON.stringify(savedResponse) === JSON.stringify(response);
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		try {
+			await onSave(response);
+		} catch (error) {
+			console.error("Error saving answer:", error);
+			toast.error("Gagal menyimpan jawaban");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center justify-between">
+					<span>Pertanyaan {questionNumber + 1}</span>
+					<Button
+						variant={isFlagged ? "secondary" : "ghost"}
+						size="sm"
+						onClick={onToggleFlag}
+						disabled={isDisabled}
+					>
+						<Flag
+							className={cn(
+								"mr-2 h-4 w-4",
+								isFlagged && "fill-yellow-400 text-yellow-500",
+							)}
+						/>
+						{isFlagged ? "Ditandai" : "Tandai"}
+					</Button>
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{question.image && <QuestionImage storageId={question.image} />}
+				<RichText className="text-lg font-medium">
+					{question.questionType === "fill_in_blank"
+						? escapeBlanks(question.question)
+						: question.question}
+				</RichText>
+				<ResponseInput
+					question={question}
+					value={response}
+					onChange={setResponse}
+					isDisabled={isDisabled}
+					isRevealed={false}
+				/>
+				<div className="flex items-center justify-end gap-3 pt-4">
+					{isSaved && (
+						<span className="text-sm text-muted-foreground">
+							Jawaban tersimpan
+						</span>
+					)}
+					<Button
+						onClick={handleSave}
+						disabled={
+							isDisabled || isSaving || isSaved || !isResponseComplete(response)
+						}
+					>
+						Simpan Jawaban
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
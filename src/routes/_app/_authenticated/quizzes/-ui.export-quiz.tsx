@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { type QuizExportFormat, exportQuiz } from "@cvx/quiz_export";
+import { useConvex } from "convex/react";
+import { FileDown } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const EXPORT_FORMATS: { format: QuizExportFormat; label: string }[] = [
+	{ format: "moodle_xml", label: "Moodle XML" },
+	{ format: "gift", label: "GIFT (Moodle)" },
+	{ format: "qti", label: "IMS QTI 2.1 (.zip)" },
+	{ format: "kahoot_csv", label: "Kahoot (CSV)" },
+];
+
+function downloadFile(filename: string, mimeType: string, data: BlobPart) {
+	const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	// Revoking right away can cancel the download before the browser starts it
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function ExportQuizMenu({ quizId }: { quizId: Id<"quizzes"> }) {
+	const convex = useConvex();
+	const [isExporting, setIsExporting] = useState(false);
+
+	const handleExport = async (format: QuizExportFormat) => {
+		setIsExporting(true);
+		try {
+			// The answer key is only sent to the owner through the editor query
+			const quiz = await convex.query(api.quiz_editor.getQuizForEdit, {
+				quizId,
+			});
+			const file = exportQuiz(quiz, format);
+			downloadFile(file.filename, file.mimeType, file.data);
+			if (file.skippedCount > 0) {
+				toast.warning(
+					`${file.skippedCount} soal tidak diekspor karena jenis atau panjang soalnya tidak didukung format ini`,
+				);
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal mengekspor kuis");
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					variant="outline"
+					className="w-full sm:w-auto"
+					disabled={isExporting}
+				>
+					<FileDown className="mr-2 h-4 w-4" />
+					{isExporting ? "Mengekspor..." : "Ekspor"}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				{EXPORT_FORMATS.map(({ format, label }) => (
+					<DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+						{label}
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -0,0 +1,92 @@
+import { Button } from "@/components/ui/button";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Doc } from "@cvx/_generated/dataModel";
+import type { QuestionCitation as Citation } from "@cvx/citations";
+import { useQuery } from "@tanstack/react-query";
+import { BookOpen, ExternalLink } from "lucide-react";
+import { useState } from "react";
+
+// Words of the excerpt used to highlight it on a web page without an anchor
+const TEXT_FRAGMENT_WORDS = 8;
+
+const describeLocation = ({ location }: Citation) => {
+	switch (location.type) {
+		case "page":
+			return `Halaman ${location.page}`;
+		case "section":
+			return `Bagian "${location.heading}"`;
+		case "range":
+			return `Karakter ${location.start + 1}–${location.end} dari teks yang kamu berikan`;
+	}
+};
+
+/**
+ * A "see in source" toggle showing the passage of the source material that
+ * backs a question's answer, with a link to its page or section when the
+ * source can be opened.
+ */
+export function QuestionCitation({
+	citation,
+	quizContext,
+}: {
+	citation: Citation;
+	quizContext: Doc<"quizzes">["quizContext"];
+}) {
+	const [isOpen, setIsOpen] = useState(false);
+	const { location } = citation;
+
+	const { data: fileUrl } = useQuery(
+		convexQuery(
+			api.app.getFileUrl,
+			isOpen && location.type === "page" && quizContext.fileUrl
+				? { storageId: quizContext.fileUrl, contentType: "application/pdf" }
+				: "skip",
+		),
+	);
+
+	let href: string | undefined;
+	if (location.type === "page" && fileUrl) {
+		href = `${fileUrl}#page=${location.page}`;
+	} else if (location.type === "section" && quizContext.source) {
+		const fragment = location.anchor
+			? encodeURIComponent(location.anchor)
+			: `:~:text=${encodeURIComponent(
+					citation.excerpt.split(/\s+/).slice(0, TEXT_FRAGMENT_WORDS).join(" "),
+				)}`;
+		href = `${quizContext.source.split("#")[0]}#${fragment}`;
+	}
+
+	return (
+		<div className="space-y-2">
+			<Button
+				variant="outline"
+				size="sm"
+				className="flex items-center gap-2"
+				onClick={() => setIsOpen((open) => !open)}
+			>
+				<BookOpen size={14} />
+				{isOpen ? "Tutup sumber" : "Lihat di sumber"}
+			</Button>
+			{isOpen && (
+				<div className="rounded-md border p-4 space-y-2">
+					<p className="text-sm font-medium">{describeLocation(citation)}</p>
+					<blockquote className="border-l-4 pl-3 text-sm italic text-muted-foreground whitespace-pre-line">
+						{citation.excerpt}
+					</blockquote>
+					{href && (
+						<a
+							href={href}
+							target="_blank"
+							rel="noreferrer"
+							className="inline-flex items-center gap-1 text-sm underline"
+						>
+							Buka sumber
+							<ExternalLink size={14} />
+						</a>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
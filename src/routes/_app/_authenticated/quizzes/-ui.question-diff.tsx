@@ -0,0 +1,139 @@
+import { RichText } from "@/components/rich-text";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+	type QuizQuestion,
+	formatCorrectAnswer,
+	getCorrectResponse,
+} from "@cvx/question_types";
+import { Check, X } from "lucide-react";
+
+type DiffQuestion = QuizQuestion;
+
+interface QuestionDiffProps {
+	current: DiffQuestion;
+	proposed: DiffQuestion;
+	onAccept: () => void;
+	onReject: () => void;
+}
+
+function QuestionColumn({
+	label,
+	question,
+	compareTo,
+}: {
+	label: string;
+	question: DiffQuestion;
+	compareTo?: DiffQuestion;
+}) {
+	const correct = getCorrectResponse(question);
+	const correctIndexes =
+		correct.type === "choice"
+			? [correct.selectedIndex]
+			: correct.type === "choices"
+				? correct.selectedIndexes
+				: [];
+
+	// Highlight what changed compared to the current question
+	const changedClassName = (isChanged: boolean) =>
+		compareTo && isChanged ? "bg-yellow-50 dark:bg-yellow-900/30" : "";
+
+	return (
+		<div className="flex-1 space-y-2 rounded-md border p-3">
+			<p className="text-xs font-semibold uppercase text-muted-foreground">
+				{label}
+			</p>
+			<div
+				className={cn(
+					"font-medium",
+					changedClassName(question.question !== compareTo?.question),
+				)}
+			>
+				<RichText>{question.question || "-"}</RichText>
+			</div>
+			{"options" in question ? (
+				<ul className="space-y-1 text-sm">
+					{question.options.map((option, index) => {
+						const isCorrect = correctIndexes.includes(index);
+						return (
+							<li
+								key={`${label}-${option}-${
+									// biome-ignore lint/suspicious/noArrayIndexKey: options can repeat
+									index
+								}`}
+								className={cn(
+									"rounded px-2 py-1",
+									isCorrect
+										? "border border-green-200 bg-green-50 dark:bg-green-900/30"
+										: changedClassName(
+												compareTo !== undefined &&
+													"options" in compareTo &&
+													option !== compareTo.options[index],
+											),
+								)}
+							>
+								<RichText inline>{option}</RichText>
+								{isCorrect && " (Jawaban Benar)"}
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				<p
+					className={cn(
+						"text-sm",
+						changedClassName(
+							compareTo !== undefined &&
+								formatCorrectAnswer(question) !==
+									formatCorrectAnswer(compareTo),
+						),
+					)}
+				>
+					Jawaban: {formatCorrectAnswer(question)}
+				</p>
+			)}
+			<div
+				className={cn(
+					"text-sm text-muted-foreground",
+					changedClassName(question.explanation !== compareTo?.explanation),
+				)}
+			>
+				<RichText>{question.explanation}</RichText>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Shows a question next to an AI-proposed replacement for the quiz owner to
+ * accept or reject.
+ */
+export function QuestionDiff({
+	current,
+	proposed,
+	onAccept,
+	onReject,
+}: QuestionDiffProps) {
+	return (
+		<div className="space-y-3 rounded-md border-2 border-dashed p-3">
+			<div className="flex flex-col gap-3 md:flex-row">
+				<QuestionColumn label="Sekarang" question={current} />
+				<QuestionColumn
+					label="Usulan AI"
+					question={proposed}
+					compareTo={current}
+				/>
+			</div>
+			<div className="flex justify-end gap-2">
+				<Button variant="outline" size="sm" onClick={onReject}>
+					<X />
+					Tolak
+				</Button>
+				<Button size="sm" onClick={onAccept}>
+					<Check />
+					Terima
+				</Button>
+			</div>
+		</div>
+	);
+}
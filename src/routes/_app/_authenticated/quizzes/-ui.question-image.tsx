@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { useQuery } from "@tanstack/react-query";
+
+/**
+ * The figure a question is about, e.g. a diagram extracted from the source PDF.
+ */
+export function QuestionImage({
+	storageId,
+	className,
+}: {
+	storageId: Id<"_storage">;
+	className?: string;
+}) {
+	const { data: url } = useQuery(
+		convexQuery(api.app.getFileUrl, { storageId }),
+	);
+
+	if (!url) {
+		return null;
+	}
+
+	return (
+		<img
+			src={url}
+			alt="Gambar untuk soal"
+			className={cn(
+				"mx-auto max-h-80 w-auto rounded-md border bg-white object-contain",
+				className,
+			)}
+		/>
+	);
+}
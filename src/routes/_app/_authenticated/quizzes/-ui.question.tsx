@@ -1,19 +1,40 @@
+import { RichText } from "@/components/rich-text";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
-import type { Doc } from "@cvx/_generated/dataModel";
-import { Check, X } from "lucide-react";
+import {
+	BLANK_PATTERN,
+	HELP_XP_COST,
+	type PlayQuestion,
+	type QuestionHelp,
+	type QuestionResponse,
+} from "@cvx/question_types";
+import { Check, Lightbulb, X } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { QuestionImage } from "./-ui.question-image";
+import {
+	ResponseInput,
+	getInitialResponse,
+	isResponseComplete,
+} from "./-ui.response-input";
+
+// Blanks are runs of underscores, which Markdown would read as emphasis or rules
+export const escapeBlanks = (text: string) =>
+	text.replace(BLANK_PATTERN, "\\_\\_\\_");
 
 interface QuestionProps {
-	data: Doc<"quizzes">["questions"][number];
-	onSubmitAnswer: (selectedIndex: number) => Promise<void>;
+	data: PlayQuestion;
+	onSubmitAnswer: (response: QuestionResponse) => Promise<void>;
+	// Offers the question's hint and 50:50 lifeline while it's unanswered
+	onRequestHelp?: (help: QuestionHelp) => Promise<void>;
 	onNextQuestion: () => void;
 	isLastQuestion: boolean;
 	isActive: boolean;
 	isAnswered: boolean;
-	answeredIndex?: number;
+	answeredResponse?: QuestionResponse;
+	isCorrect?: boolean;
 	questionNumber: number;
 	isTextToSpeechEnabled: boolean;
 }
@@ -21,16 +42,21 @@ interface QuestionProps {
 export const Question: React.FC<QuestionProps> = ({
 	data,
 	onSubmitAnswer,
+	onRequestHelp,
 	onNextQuestion,
 	isLastQuestion,
 	isActive,
 	isAnswered,
-	answeredIndex,
+	answeredResponse,
+	isCorrect: answeredCorrectly,
 	questionNumber,
 	isTextToSpeechEnabled,
 }: QuestionProps): React.ReactElement => {
-	const [selectedOption, setSelectedOption] = useState<number | null>(null);
+	const [response, setResponse] = useState<QuestionResponse>(() =>
+		getInitialResponse(data),
+	);
 	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [isRequestingHelp, setIsRequestingHelp] = useState(false);
 	const questionRef = useRef<HTMLDivElement>(null);
 	const { speak } = useTextToSpeech({});
 
@@ -49,22 +75,19 @@ export const Question: React.FC<QuestionProps> = ({
 		}
 	}, [isActive]);
 
-	// Reset selected option when a new question becomes active
+	// Show the saved answer once the question has been answered
 	useEffect(() => {
-		if (isActive && !isAnswered) {
-			setSelectedOption(null);
-		}
-		if (isAnswered && answeredIndex !== undefined) {
-			setSelectedOption(answeredIndex);
+		if (isAnswered && answeredResponse !== undefined) {
+			setResponse(answeredResponse);
 		}
-	}, [isActive, isAnswered, answeredIndex]);
+	}, [isAnswered, answeredResponse]);
 
 	const handleSubmit = async () => {
-		if (selectedOption === null || isSubmitting || isAnswered) return;
+		if (!isResponseComplete(response) || isSubmitting || isAnswered) return;
 
 		setIsSubmitting(true);
 		try {
-			await onSubmitAnswer(selectedOption);
+			await onSubmitAnswer(response);
 		} catch (error) {
 			console.error("Error submitting answer:", error);
 		} finally {
@@ -72,8 +95,31 @@ export const Question: React.FC<QuestionProps> = ({
 		}
 	};
 
-	const isCorrect = isAnswered && selectedOption === data.correctOptionIndex;
-	const showExplanation = isAnswered;
+	const handleRequestHelp = async (help: QuestionHelp) => {
+		if (!onRequestHelp || isRequestingHelp) return;
+
+		setIsRequestingHelp(true);
+		try {
+			await onRequestHelp(help);
+		} catch (error) {
+			console.error("Error requesting help:", error);
+			toast.error("Gagal meminta bantuan");
+		} finally {
+			setIsRequestingHelp(false);
+		}
+	};
+
+	const canRequestHelp = !!onRequestHelp && isActive && !isAnswered;
+	const canRequestHint = canRequestHelp && data.hasHint && !data.hint;
+	const canRequestFiftyFifty =
+		canRequestHelp && data.hasFiftyFifty && !data.removedOptions;
+
+	// Prefer the server's grading; the answer key is only revealed after answering
+	const isCorrect =
+		isAnswered &&
+		(answeredCorrectly ??
+			JSON.stringify(response) === JSON.stringify(data.correctResponse));
+	const showExplanation = isAnswered && data.explanation !== undefined;
 
 	return (
 		<div ref={questionRef} className="mb-8 scroll-mt-8">
@@ -95,37 +141,67 @@ export const Question: React.FC<QuestionProps> = ({
 					</CardTitle>
 				</CardHeader>
 				<CardContent className="space-y-4">
+					{data.image && <QuestionImage storageId={data.image} />}
 					{/* biome-ignore lint/a11y/useKeyWithClickEvents: <explanation> */}
-					<p
+					<div
 						className="text-lg font-medium"
 						onClick={() => handleTextToSpeech(data.question)}
 					>
-						{data.question}
-					</p>
-					<div className="space-y-2">
-						{data.options.map((option, optIdx) => (
-							<QuestionOption
-								key={`${option}-${
-									// biome-ignore lint/suspicious/noArrayIndexKey: <explanation>
-									optIdx
-								}`}
-								option={option}
-								isSelected={selectedOption === optIdx}
-								isCorrect={data.correctOptionIndex === optIdx}
-								isDisabled={isAnswered || !isActive}
-								isRevealed={isAnswered}
-								onSelect={() => {
-									!isAnswered && isActive && setSelectedOption(optIdx);
-									handleTextToSpeech(option);
-								}}
-							/>
-						))}
+						<RichText>
+							{data.questionType === "fill_in_blank"
+								? escapeBlanks(data.question)
+								: data.question}
+						</RichText>
 					</div>
+					{(canRequestHint || canRequestFiftyFifty) && (
+						<div className="flex flex-wrap gap-2">
+							{canRequestHint && (
+								<Button
+									variant="outline"
+									size="sm"
+									disabled={isRequestingHelp}
+									onClick={() => handleRequestHelp("hint")}
+								>
+									<Lightbulb className="mr-2 h-4 w-4" />
+									Petunjuk (-{HELP_XP_COST.hint} XP)
+								</Button>
+							)}
+							{canRequestFiftyFifty && (
+								<Button
+									variant="outline"
+									size="sm"
+									disabled={isRequestingHelp}
+									onClick={() => handleRequestHelp("fifty_fifty")}
+								>
+									50:50 (-{HELP_XP_COST.fifty_fifty} XP)
+								</Button>
+							)}
+						</div>
+					)}
+					{data.hint && (
+						<Alert>
+							<Lightbulb className="h-4 w-4" />
+							<AlertTitle>Petunjuk</AlertTitle>
+							<AlertDescription>
+								<RichText>{data.hint}</RichText>
+							</AlertDescription>
+						</Alert>
+					)}
+					<ResponseInput
+						question={data}
+						value={response}
+						onChange={setResponse}
+						isDisabled={isAnswered || !isActive}
+						isRevealed={isAnswered && data.correctResponse !== undefined}
+						onSpeak={handleTextToSpeech}
+					/>
 
 					{showExplanation && (
 						<Alert className={isCorrect ? "bg-green-50" : "bg-red-50"}>
 							<AlertTitle>{isCorrect ? "Benar!" : "Salah!"}</AlertTitle>
-							<AlertDescription>{data.explanation}</AlertDescription>
+							<AlertDescription>
+								<RichText>{data.explanation ?? ""}</RichText>
+							</AlertDescription>
 						</Alert>
 					)}
 
@@ -133,7 +209,7 @@ export const Question: React.FC<QuestionProps> = ({
 						{!isAnswered && isActive && (
 							<Button
 								onClick={handleSubmit}
-								disabled={selectedOption === null || isSubmitting}
+								disabled={!isResponseComplete(response) || isSubmitting}
 							>
 								Kirim Jawaban
 							</Button>
@@ -150,47 +226,3 @@ export const Question: React.FC<QuestionProps> = ({
 		</div>
 	);
 };
-
-function QuestionOption({
-	option,
-	isSelected,
-	isCorrect,
-	isDisabled,
-	isRevealed,
-	onSelect,
-}: {
-	option: string;
-	isSelected: boolean;
-	isCorrect: boolean;
-	isDisabled: boolean;
-	isRevealed: boolean;
-	onSelect: () => void;
-}): React.ReactElement {
-	let buttonVariant: "outline" | "default" | "secondary" = "outline";
-	let extraClasses = "";
-
-	if (isRevealed) {
-		if (isCorrect) {
-			buttonVariant = "default";
-			extraClasses =
-				"bg-green-100 border-green-300 text-green-800 hover:bg-green-100";
-		} else if (isSelected) {
-			buttonVariant = "secondary";
-			extraClasses = "bg-red-100 border-red-300 text-red-800 hover:bg-red-100";
-		}
-	} else if (isSelected) {
-		buttonVariant = "default";
-	}
-
-	return (
-		<Button
-			type="button"
-			variant={buttonVariant}
-			className={`w-full justify-start text-left font-normal h-auto py-3 ${extraClasses}`}
-			onClick={onSelect}
-			disabled={isDisabled}
-		>
-			{option}
-		</Button>
-	);
-}
@@ -0,0 +1,403 @@
+import { RichText } from "@/components/rich-text";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { PlayQuestion, QuestionResponse } from "@cvx/question_types";
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+export const QUESTION_TYPE_LABELS: Record<
+	PlayQuestion["questionType"],
+	string
+> = {
+	multiple_choice: "Pilihan Ganda",
+	true_false: "Benar / Salah",
+	multiple_select: "Pilihan Ganda Kompleks",
+	short_answer: "Isian Singkat",
+	fill_in_blank: "Isian Rumpang",
+	ordering: "Urutan",
+	matching: "Menjodohkan",
+};
+
+/**
+ * The response a question starts with before the player answers: nothing
+ * picked or typed, and ordering items in the order they're shown.
+ */
+export const getInitialResponse = (
+	question: PlayQuestion,
+): QuestionResponse => {
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+			return { type: "choice", selectedIndex: -1 };
+		case "multiple_select":
+			return { type: "choices", selectedIndexes: [] };
+		case "short_answer":
+			return { type: "text", text: "" };
+		case "fill_in_blank":
+			return { type: "blanks", texts: Array(question.blankCount).fill("") };
+		case "ordering":
+			return { type: "order", order: question.items.map((_, index) => index) };
+		case "matching":
+			return { type: "matches", matches: question.prompts.map(() => -1) };
+	}
+};
+
+/**
+ * Whether a response is complete enough to be submitted.
+ */
+export const isResponseComplete = (response: QuestionResponse) => {
+	switch (response.type) {
+		case "choice":
+			return response.selectedIndex >= 0;
+		case "choices":
+			return response.selectedIndexes.length > 0;
+		case "text":
+			return response.text.trim() !== "";
+		case "blanks":
+			return response.texts.every((text) => text.trim() !== "");
+		case "order":
+			return true;
+		case "matches":
+			return response.matches.every((match) => match >= 0);
+	}
+};
+
+const REVEALED_CORRECT_CLASSES =
+	"bg-green-100 border-green-300 text-green-800 hover:bg-green-100";
+const REVEALED_WRONG_CLASSES =
+	"bg-red-100 border-red-300 text-red-800 hover:bg-red-100";
+
+interface ResponseInputProps {
+	question: PlayQuestion;
+	value: QuestionResponse;
+	onChange?: (value: QuestionResponse) => void;
+	isDisabled: boolean;
+	// Whether to mark the response against the revealed answer key
+	isRevealed: boolean;
+	onSpeak?: (text: string) => void;
+}
+
+/**
+ * Lets the player answer a question of any type, and shows how the answer
+ * compares to the answer key once it has been revealed.
+ */
+export function ResponseInput({
+	question,
+	value,
+	onChange,
+	isDisabled,
+	isRevealed,
+	onSpeak,
+}: ResponseInputProps): React.ReactElement | null {
+	const correct = isRevealed ? question.correctResponse : undefined;
+	const change = (response: QuestionResponse) => {
+		if (!isDisabled) {
+			onChange?.(response);
+		}
+	};
+
+	switch (question.questionType) {
+		case "multiple_choice":
+		case "true_false":
+		case "multiple_select": {
+			const isMultiple = question.questionType === "multiple_select";
+			const selected =
+				value.type === "choice"
+					? [value.selectedIndex]
+					: value.type === "choices"
+						? value.selectedIndexes
+						: [];
+			const correctIndexes =
+				correct?.type === "choice"
+					? [correct.selectedIndex]
+					: correct?.type === "choices"
+						? correct.selectedIndexes
+						: [];
+			return (
+				<div className="space-y-2">
+					{isMultiple && (
+						<p className="text-sm text-muted-foreground">
+							Pilih semua jawaban yang benar.
+						</p>
+					)}
+					{question.options.map((option, optionIndex) => (
+						<ChoiceOption
+							key={`${option}-${
+								// biome-ignore lint/suspicious/noArrayIndexKey: options can repeat
+								optionIndex
+							}`}
+							option={option}
+							isSelected={selected.includes(optionIndex)}
+							isCorrect={correctIndexes.includes(optionIndex)}
+							isRemoved={!!question.removedOptions?.includes(optionIndex)}
+							isDisabled={isDisabled}
+							isRevealed={!!correct}
+							onSelect={() => {
+								onSpeak?.(option);
+								if (!isMultiple) {
+									change({ type: "choice", selectedIndex: optionIndex });
+									return;
+								}
+								change({
+									type: "choices",
+									selectedIndexes: selected.includes(optionIndex)
+										? selected.filter((index) => index !== optionIndex)
+										: [...selected, optionIndex].sort((a, b) => a - b),
+								});
+							}}
+						/>
+					))}
+				</div>
+			);
+		}
+		case "short_answer": {
+			const text = value.type === "text" ? value.text : "";
+			return (
+				<div className="space-y-2">
+					<Input
+						aria-label="Jawaban"
+						placeholder="Tulis jawabanmu..."
+						value={text}
+						disabled={isDisabled}
+						onChange={(e) => change({ type: "text", text: e.target.value })}
+					/>
+					{isRevealed && question.acceptedAnswers && (
+						<p className="text-sm text-muted-foreground">
+							Jawaban yang diterima: {question.acceptedAnswers.join(", ")}
+						</p>
+					)}
+				</div>
+			);
+		}
+		case "fill_in_blank": {
+			const texts = value.type === "blanks" ? value.texts : [];
+			return (
+				<div className="space-y-2">
+					{Array.from({ length: question.blankCount }, (_, blankIndex) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: blanks are positional
+							key={blankIndex}
+							className="flex flex-col gap-1 sm:flex-row sm:items-center sm:gap-3"
+						>
+							<span className="text-sm font-medium sm:w-20">
+								Isian {blankIndex + 1}
+							</span>
+							<Input
+								aria-label={`Isian ${blankIndex + 1}`}
+								value={texts[blankIndex] ?? ""}
+								disabled={isDisabled}
+								onChange={(e) =>
+									change({
+										type: "blanks",
+										texts: texts.map((text, index) =>
+											index === blankIndex ? e.target.value : text,
+										),
+									})
+								}
+							/>
+							{isRevealed && question.acceptedAnswers?.[blankIndex] && (
+								<span className="text-sm text-muted-foreground sm:w-48">
+									Kunci: {question.acceptedAnswers[blankIndex]}
+								</span>
+							)}
+						</div>
+					))}
+				</div>
+			);
+		}
+		case "ordering": {
+			const order =
+				value.type === "order"
+					? value.order
+					: question.items.map((_, index) => index);
+			const move = (from: number, to: number) => {
+				const next = [...order];
+				[next[from], next[to]] = [next[to], next[from]];
+				change({ type: "order", order: next });
+			};
+			return (
+				<div className="space-y-2">
+					<p className="text-sm text-muted-foreground">
+						Urutkan dari atas ke bawah.
+					</p>
+					{order.map((itemIndex, position) => {
+						const isPositionCorrect =
+							correct?.type === "order" &&
+							correct.order[position] === itemIndex;
+						return (
+							<div
+								key={itemIndex}
+								className={`flex items-center gap-2 rounded-md border px-3 py-2 ${
+									correct
+										? isPositionCorrect
+											? REVEALED_CORRECT_CLASSES
+											: REVEALED_WRONG_CLASSES
+										: ""
+								}`}
+							>
+								<span className="w-6 text-sm text-muted-foreground">
+									{position + 1}.
+								</span>
+								<span className="flex-grow">
+									<RichText inline>{question.items[itemIndex]}</RichText>
+								</span>
+								{!isDisabled && (
+									<>
+										<Button
+											variant="ghost"
+											size="icon"
+											aria-label="Naikkan"
+											disabled={position === 0}
+											onClick={() => move(position, position - 1)}
+										>
+											<ArrowUp />
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon"
+											aria-label="Turunkan"
+											disabled={position === order.length - 1}
+											onClick={() => move(position, position + 1)}
+										>
+											<ArrowDown />
+										</Button>
+									</>
+								)}
+							</div>
+						);
+					})}
+					{correct?.type === "order" && (
+						<p className="text-sm text-muted-foreground">
+							Urutan yang benar:{" "}
+							{correct.order.map((index) => question.items[index]).join(" → ")}
+						</p>
+					)}
+				</div>
+			);
+		}
+		case "matching": {
+			const matches =
+				value.type === "matches"
+					? value.matches
+					: question.prompts.map(() => -1);
+			return (
+				<div className="space-y-2">
+					{question.prompts.map((prompt, promptIndex) => {
+						const correctMatch =
+							correct?.type === "matches"
+								? correct.matches[promptIndex]
+								: undefined;
+						const isMatchCorrect = correctMatch === matches[promptIndex];
+						return (
+							<div
+								key={prompt}
+								className={`flex flex-col gap-2 rounded-md border px-3 py-2 sm:flex-row sm:items-center ${
+									correct
+										? isMatchCorrect
+											? REVEALED_CORRECT_CLASSES
+											: REVEALED_WRONG_CLASSES
+										: ""
+								}`}
+							>
+								<span className="flex-grow">
+									<RichText inline>{prompt}</RichText>
+								</span>
+								<Select
+									value={
+										matches[promptIndex] >= 0
+											? String(matches[promptIndex])
+											: undefined
+									}
+									disabled={isDisabled}
+									onValueChange={(selected) =>
+										change({
+											type: "matches",
+											matches: matches.map((match, index) =>
+												index === promptIndex ? Number(selected) : match,
+											),
+										})
+									}
+								>
+									<SelectTrigger
+										className="w-full sm:w-56"
+										aria-label={`Pasangan untuk ${prompt}`}
+									>
+										<SelectValue placeholder="Pilih pasangan" />
+									</SelectTrigger>
+									<SelectContent>
+										{question.matches.map((match, matchIndex) => (
+											<SelectItem key={match} value={String(matchIndex)}>
+												<RichText inline>{match}</RichText>
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								{correctMatch !== undefined && !isMatchCorrect && (
+									<span className="text-sm sm:w-40">
+										Benar:{" "}
+										<RichText inline>{question.matches[correctMatch]}</RichText>
+									</span>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			);
+		}
+	}
+}
+
+function ChoiceOption({
+	option,
+	isSelected,
+	isCorrect,
+	isRemoved,
+	isDisabled,
+	isRevealed,
+	onSelect,
+}: {
+	option: string;
+	isSelected: boolean;
+	isCorrect: boolean;
+	// Taken out by the 50:50 lifeline
+	isRemoved: boolean;
+	isDisabled: boolean;
+	isRevealed: boolean;
+	onSelect: () => void;
+}): React.ReactElement {
+	let buttonVariant: "outline" | "default" | "secondary" = "outline";
+	let extraClasses = "";
+
+	if (isRevealed) {
+		if (isCorrect) {
+			buttonVariant = "default";
+			extraClasses = REVEALED_CORRECT_CLASSES;
+		} else if (isSelected) {
+			buttonVariant = "secondary";
+			extraClasses = REVEALED_WRONG_CLASSES;
+		}
+	} else if (isSelected) {
+		buttonVariant = "default";
+	}
+	if (isRemoved) {
+		extraClasses += " line-through opacity-50";
+	}
+
+	return (
+		<Button
+			type="button"
+			variant={buttonVariant}
+			className={`w-full justify-start text-left font-normal h-auto py-3 ${extraClasses}`}
+			onClick={onSelect}
+			disabled={isDisabled || isRemoved}
+		>
+			<RichText inline>{option}</RichText>
+		</Button>
+	);
+}
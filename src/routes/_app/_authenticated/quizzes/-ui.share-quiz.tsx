@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Id } from "@cvx/_generated/dataModel";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, Share2 } from "lucide-react";
+import { toast } from "sonner";
+
+type Visibility = "private" | "unlisted" | "public";
+
+const VISIBILITY_DESCRIPTIONS: Record<Visibility, string> = {
+	private: "Hanya kamu yang bisa melihat dan mengerjakan kuis ini.",
+	unlisted: "Siapa pun yang punya tautan bisa mengerjakan kuis ini.",
+	public:
+		"Kuis tampil di Jelajahi Kuis, bisa dikerjakan semua orang dan disalin ke kuis mereka.",
+};
+
+interface ShareQuizDialogProps {
+	quizId: Id<"quizzes">;
+	visibility?: Visibility;
+	shareSlug?: string;
+}
+
+export function ShareQuizDialog({
+	quizId,
+	visibility = "private",
+	shareSlug,
+}: ShareQuizDialogProps) {
+	const { mutateAsync: updateQuizVisibility, isPending } = useMutation({
+		mutationFn: useConvexMutation(api.sharing.updateQuizVisibility),
+	});
+
+	const shareUrl = shareSlug
+		? `${window.location.origin}/share/${shareSlug}`
+		: null;
+
+	const handleVisibilityChange = async (value: Visibility) => {
+		try {
+			await updateQuizVisibility({ quizId, visibility: value });
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal mengubah visibilitas kuis");
+		}
+	};
+
+	const handleCopy = async () => {
+		if (!shareUrl) return;
+		await navigator.clipboard.writeText(shareUrl);
+		toast.success("Tautan disalin!");
+	};
+
+	return (
+		<Dialog>
+			<DialogTrigger asChild>
+				<Button variant="outline" className="w-full sm:w-auto">
+					<Share2 className="mr-2 h-4 w-4" />
+					Bagikan
+				</Button>
+			</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Bagikan Kuis</DialogTitle>
+					<DialogDescription>
+						{VISIBILITY_DESCRIPTIONS[visibility]}
+					</DialogDescription>
+				</DialogHeader>
+				<Select
+					value={visibility}
+					disabled={isPending}
+					onValueChange={(value) => handleVisibilityChange(value as Visibility)}
+				>
+					<SelectTrigger className="w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="private">Privat</SelectItem>
+						<SelectItem value="unlisted">Siapa pun dengan tautan</SelectItem>
+						<SelectItem value="public">Publik</SelectItem>
+					</SelectContent>
+				</Select>
+				{visibility !== "private" && shareUrl && (
+					<div className="flex gap-2">
+						<Input readOnly value={shareUrl} />
+						<Button
+							variant="outline"
+							size="icon"
+							aria-label="Salin tautan"
+							onClick={handleCopy}
+						>
+							<Copy />
+						</Button>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,373 @@
+import { RichText } from "@/components/rich-text";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useDoubleCheck } from "@/components/ui/use-double-check";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import type { Doc } from "@cvx/_generated/dataModel";
+import { type QuizQuestion, formatCorrectAnswer } from "@cvx/question_types";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { usePaginatedQuery } from "convex/react";
+import { ChevronLeft, Search, Shuffle } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { QUESTION_TYPE_LABELS } from "./-ui.response-input";
+
+export const Route = createFileRoute("/_app/_authenticated/quizzes/bank")({
+	component: RouteComponent,
+});
+
+const PAGE_SIZE = 20;
+
+type Difficulty = "easy" | "medium" | "hard";
+type DifficultyFilter = "all" | Difficulty;
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+	easy: "Mudah",
+	medium: "Sedang",
+	hard: "Sulit",
+};
+
+const parseTags = (value: string) =>
+	value
+		.split(",")
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+
+function RouteComponent() {
+	const [searchInput, setSearchInput] = useState("");
+	const [search, setSearch] = useState("");
+	const [difficulty, setDifficulty] = useState<DifficultyFilter>("all");
+	const [tag, setTag] = useState("all");
+
+	// Debounce the search input so we don't re-query on every keystroke
+	useEffect(() => {
+		const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+		return () => clearTimeout(timeout);
+	}, [searchInput]);
+
+	const { data: tags } = useQuery(
+		convexQuery(api.question_bank.listMyQuestionTags, {}),
+	);
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.question_bank.searchQuestions,
+		{
+			search: search || undefined,
+			difficulty: difficulty === "all" ? undefined : difficulty,
+			tag: tag === "all" ? undefined : tag,
+		},
+		{ initialNumItems: PAGE_SIZE },
+	);
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-4xl">
+				<Button asChild variant="outline" className="mb-4 self-start">
+					<Link to="/quizzes">
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Kuisku
+					</Link>
+				</Button>
+
+				<h1 className="text-3xl font-bold mb-2">Bank Soal</h1>
+				<p className="text-muted-foreground mb-6">
+					Semua soal dari kuismu. Beri tag topik lalu susun kuis baru dari soal
+					yang sudah ada.
+				</p>
+
+				<AssembleQuizForm tags={tags?.map((t) => t.tag) ?? []} />
+
+				<div className="flex flex-col gap-3 md:flex-row md:items-center mb-6">
+					<div className="relative flex-grow">
+						<Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+						<Input
+							placeholder="Cari soal atau tag..."
+							value={searchInput}
+							onChange={(e) => setSearchInput(e.target.value)}
+							className="pl-9"
+						/>
+					</div>
+					<Select
+						value={difficulty}
+						onValueChange={(value) => setDifficulty(value as DifficultyFilter)}
+					>
+						<SelectTrigger className="md:w-36">
+							<SelectValue placeholder="Kesulitan" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all">Semua tingkat</SelectItem>
+							<SelectItem value="easy">Mudah</SelectItem>
+							<SelectItem value="medium">Sedang</SelectItem>
+							<SelectItem value="hard">Sulit</SelectItem>
+						</SelectContent>
+					</Select>
+					<Select value={tag} onValueChange={setTag}>
+						<SelectTrigger className="md:w-44">
+							<SelectValue placeholder="Tag" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all">Semua tag</SelectItem>
+							{tags?.map(({ tag, count }) => (
+								<SelectItem key={tag} value={tag}>
+									{tag} ({count})
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				{status === "LoadingFirstPage" && (
+					<p className="mt-8 text-center">Memuat soal...</p>
+				)}
+
+				{status !== "LoadingFirstPage" && results.length === 0 && (
+					<p className="mt-8 text-center text-muted-foreground">
+						{search || difficulty !== "all" || tag !== "all"
+							? "Tidak ada soal yang cocok."
+							: "Bank soalmu masih kosong. Buat atau impor kuis untuk mengisinya."}
+					</p>
+				)}
+
+				<div className="space-y-3">
+					{results.map((question) => (
+						<BankQuestionItem key={question._id} question={question} />
+					))}
+				</div>
+
+				{status === "CanLoadMore" && (
+					<div className="mt-6 flex justify-center">
+						<Button variant="outline" onClick={() => loadMore(PAGE_SIZE)}>
+							Muat lebih banyak
+						</Button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function AssembleQuizForm({ tags }: { tags: string[] }) {
+	const navigate = useNavigate();
+	const [title, setTitle] = useState("");
+	const [tagInput, setTagInput] = useState("");
+	const [counts, setCounts] = useState<Record<Difficulty, number>>({
+		easy: 3,
+		medium: 4,
+		hard: 3,
+	});
+
+	const { mutateAsync: assembleQuiz, isPending } = useMutation({
+		mutationFn: useConvexMutation(api.question_bank.assembleQuiz),
+	});
+
+	const handleAssemble = async () => {
+		try {
+			const quizId = await assembleQuiz({
+				title,
+				tags: parseTags(tagInput),
+				counts,
+			});
+			toast.success("Kuis berhasil disusun");
+			navigate({ to: "/quizzes/$quizId", params: { quizId } });
+		} catch (error) {
+			console.error(error);
+			toast.error(
+				"Gagal menyusun kuis. Pastikan bank soal punya cukup soal untuk tag dan tingkat kesulitan itu.",
+			);
+		}
+	};
+
+	const total = counts.easy + counts.medium + counts.hard;
+
+	return (
+		<div className="space-y-3 rounded-md border p-4 mb-6">
+			<h2 className="text-xl font-semibold">Susun Kuis</h2>
+			<div className="grid gap-3 md:grid-cols-2">
+				<div className="space-y-1">
+					<label htmlFor="assemble_title" className="text-sm font-medium">
+						Judul kuis
+					</label>
+					<Input
+						id="assemble_title"
+						value={title}
+						onChange={(e) => setTitle(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<label htmlFor="assemble_tags" className="text-sm font-medium">
+						Tag (pisahkan dengan koma, kosongkan untuk semua)
+					</label>
+					<Input
+						id="assemble_tags"
+						list="assemble_tag_options"
+						value={tagInput}
+						onChange={(e) => setTagInput(e.target.value)}
+					/>
+					<datalist id="assemble_tag_options">
+						{tags.map((tag) => (
+							<option key={tag} value={tag} />
+						))}
+					</datalist>
+				</div>
+			</div>
+			<div className="flex flex-wrap items-end gap-3">
+				{(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map((level) => (
+					<div key={level} className="space-y-1">
+						<label
+							htmlFor={`assemble_${level}`}
+							className="text-sm font-medium"
+						>
+							Soal {DIFFICULTY_LABELS[level].toLowerCase()}
+						</label>
+						<Input
+							id={`assemble_${level}`}
+							type="number"
+							min={0}
+							className="w-28"
+							value={counts[level]}
+							onChange={(e) =>
+								setCounts((current) => ({
+									...current,
+									[level]: Math.max(0, Number(e.target.value) || 0),
+								}))
+							}
+						/>
+					</div>
+				))}
+				<Button
+					onClick={handleAssemble}
+					disabled={isPending || !title.trim() || total === 0}
+				>
+					<Shuffle className="mr-2 h-4 w-4" />
+					{isPending ? "Menyusun..." : `Susun ${total} Soal`}
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function BankQuestionItem({
+	question,
+}: { question: Doc<"questions"> & { content: QuizQuestion } }) {
+	const [isEditingTags, setIsEditingTags] = useState(false);
+	const [tagInput, setTagInput] = useState(question.tags.join(", "));
+	const { doubleCheck, getButtonProps } = useDoubleCheck();
+
+	const { mutateAsync: updateTags } = useMutation({
+		mutationFn: useConvexMutation(api.question_bank.updateQuestionTags),
+	});
+	const { mutateAsync: deleteQuestion, isPending: isDeleting } = useMutation({
+		mutationFn: useConvexMutation(api.question_bank.deleteQuestion),
+	});
+
+	const handleSaveTags = async () => {
+		try {
+			await updateTags({
+				questionId: question._id,
+				tags: parseTags(tagInput),
+			});
+			setIsEditingTags(false);
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menyimpan tag");
+		}
+	};
+
+	const handleDelete = async () => {
+		try {
+			await deleteQuestion({ questionId: question._id });
+			toast.success("Soal dihapus dari bank");
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal menghapus soal");
+		}
+	};
+
+	const correctRate =
+		question.answerCount > 0
+			? Math.round((question.correctCount / question.answerCount) * 100)
+			: null;
+
+	return (
+		<div className="space-y-2 rounded-md border p-3">
+			<RichText className="font-medium">{question.content.question}</RichText>
+			<p className="text-sm text-muted-foreground">
+				Jawaban: {formatCorrectAnswer(question.content)}
+			</p>
+			<div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+				<Badge variant="outline">
+					{QUESTION_TYPE_LABELS[question.content.questionType]}
+				</Badge>
+				{question.difficulty in DIFFICULTY_LABELS && (
+					<Badge variant="secondary">
+						{DIFFICULTY_LABELS[question.difficulty as Difficulty]}
+					</Badge>
+				)}
+				<span>Dipakai di {question.usageCount} kuis</span>
+				<span>
+					·{" "}
+					{correctRate === null
+						? "Belum pernah dijawab"
+						: `${correctRate}% benar dari ${question.answerCount} jawaban`}
+				</span>
+			</div>
+
+			{isEditingTags ? (
+				<div className="flex gap-2">
+					<Input
+						value={tagInput}
+						onChange={(e) => setTagInput(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								handleSaveTags();
+							}
+						}}
+						placeholder="contoh: aljabar, kelas 8"
+						aria-label="Tag soal"
+					/>
+					<Button size="sm" onClick={handleSaveTags}>
+						Simpan
+					</Button>
+				</div>
+			) : (
+				<div className="flex flex-wrap items-center gap-2">
+					{question.tags.map((tag) => (
+						<Badge key={tag} variant="outline">
+							{tag}
+						</Badge>
+					))}
+					<Button
+						size="sm"
+						variant="ghost"
+						onClick={() => setIsEditingTags(true)}
+					>
+						{question.tags.length > 0 ? "Ubah tag" : "Tambah tag"}
+					</Button>
+					{question.usageCount === 0 && (
+						<Button
+							size="sm"
+							variant="ghost"
+							className="text-destructive"
+							disabled={isDeleting}
+							{...getButtonProps({
+								onClick: doubleCheck ? handleDelete : undefined,
+							})}
+						>
+							{doubleCheck ? "Yakin hapus?" : "Hapus"}
+						</Button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,133 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { api } from "@cvx/_generated/api";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { usePaginatedQuery } from "convex/react";
+import { ChevronLeft, FileQuestion, Search, User } from "lucide-react";
+import { useEffect, useState } from "react";
+
+export const Route = createFileRoute("/_app/_authenticated/quizzes/explore")({
+	component: RouteComponent,
+});
+
+const PAGE_SIZE = 12;
+
+const DIFFICULTY_LABELS = {
+	easy: "Mudah",
+	medium: "Sedang",
+	hard: "Sulit",
+	mix: "Campuran",
+} as const;
+
+function RouteComponent() {
+	const [searchInput, setSearchInput] = useState("");
+	const [search, setSearch] = useState("");
+
+	// Debounce the search input so we don't re-query on every keystroke
+	useEffect(() => {
+		const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+		return () => clearTimeout(timeout);
+	}, [searchInput]);
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.sharing.listPublicQuizzes,
+		{ search: search || undefined },
+		{ initialNumItems: PAGE_SIZE },
+	);
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-4xl">
+				<Button asChild variant="outline" className="mb-4 self-start">
+					<Link to="/quizzes">
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Kuisku
+					</Link>
+				</Button>
+
+				<h1 className="text-3xl font-bold mb-2">Jelajahi Kuis</h1>
+				<p className="text-muted-foreground mb-6">
+					Kuis publik dari pengguna lain. Kerjakan atau salin ke kuismu sendiri.
+				</p>
+
+				<div className="relative mb-6">
+					<Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						placeholder="Cari judul atau deskripsi kuis..."
+						value={searchInput}
+						onChange={(e) => setSearchInput(e.target.value)}
+						className="pl-9"
+					/>
+				</div>
+
+				{status === "LoadingFirstPage" && (
+					<p className="mt-8 text-center">Memuat kuis...</p>
+				)}
+
+				{status !== "LoadingFirstPage" && results.length === 0 && (
+					<p className="mt-8 text-center text-muted-foreground">
+						{search
+							? "Tidak ada kuis publik yang cocok dengan pencarianmu."
+							: "Belum ada kuis publik."}
+					</p>
+				)}
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{results.map((quiz) => (
+						<Link
+							key={quiz._id}
+							to="/quizzes/$quizId"
+							params={{ quizId: quiz._id }}
+						>
+							<Card className="h-full border hover:border-primary transition-colors">
+								<CardHeader>
+									<CardTitle className="text-xl">{quiz.title}</CardTitle>
+									<CardDescription className="line-clamp-2">
+										{quiz.description}
+									</CardDescription>
+								</CardHeader>
+								<CardContent className="space-y-3">
+									<Badge variant="secondary">
+										{DIFFICULTY_LABELS[quiz.difficulty]}
+									</Badge>
+									<div className="flex items-center gap-4 text-sm text-muted-foreground">
+										<span className="flex items-center gap-1">
+											<FileQuestion className="h-4 w-4" />
+											{quiz.questionCount} pertanyaan
+										</span>
+										{quiz.ownerUsername && (
+											<span className="flex items-center gap-1">
+												<User className="h-4 w-4" />
+												{quiz.ownerUsername}
+											</span>
+										)}
+									</div>
+								</CardContent>
+							</Card>
+						</Link>
+					))}
+				</div>
+
+				{(status === "CanLoadMore" || status === "LoadingMore") && (
+					<div className="mt-6 flex justify-center">
+						<Button
+							variant="outline"
+							onClick={() => loadMore(PAGE_SIZE)}
+							disabled={status === "LoadingMore"}
+						>
+							{status === "LoadingMore" ? "Memuat..." : "Muat lebih banyak"}
+						</Button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,101 @@
+import { Button } from "@/components/ui/button";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import { useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ChevronLeft } from "lucide-react";
+
+export const Route = createFileRoute("/_app/_authenticated/quizzes/gradebook")({
+	component: RouteComponent,
+});
+
+function formatDuration(ms: number) {
+	const totalSeconds = Math.round(ms / 1000);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	return minutes > 0 ? `${minutes}m ${seconds}d` : `${seconds}d`;
+}
+
+function RouteComponent() {
+	const { data, isLoading } = useQuery(
+		convexQuery(api.analytics.getGradebook, {}),
+	);
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-6xl">
+				<Button asChild variant="outline" className="mb-4 self-start">
+					<Link to="/quizzes">
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Kuisku
+					</Link>
+				</Button>
+
+				<h1 className="text-3xl font-bold mb-2">Buku Nilai</h1>
+				<p className="text-muted-foreground mb-6">
+					Nilai terbaik, rata-rata waktu dan jumlah percobaan setiap peserta di
+					kuis buatanmu.
+				</p>
+
+				{isLoading && <p className="text-center">Memuat buku nilai...</p>}
+
+				{data && data.learners.length === 0 && (
+					<p className="text-center text-muted-foreground">
+						Belum ada peserta yang menyelesaikan kuismu.
+					</p>
+				)}
+
+				{data && data.learners.length > 0 && (
+					<div className="overflow-x-auto rounded-md border">
+						<table className="w-full text-sm">
+							<thead className="bg-muted">
+								<tr>
+									<th className="p-3 text-left font-semibold">Peserta</th>
+									{data.quizzes.map((quiz) => (
+										<th
+											key={quiz._id}
+											className="p-3 text-left font-semibold min-w-40"
+										>
+											<Link
+												to="/quizzes/$quizId/analytics"
+												params={{ quizId: quiz._id }}
+												className="hover:underline"
+											>
+												{quiz.title}
+											</Link>
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{data.learners.map((learner) => (
+									<tr key={learner.userId} className="border-t">
+										<td className="p-3 font-medium">{learner.username}</td>
+										{data.quizzes.map((quiz) => {
+											const cell = learner.cells[quiz._id];
+											return (
+												<td key={quiz._id} className="p-3">
+													{cell ? (
+														<div>
+															<p className="font-semibold">{cell.bestScore}</p>
+															<p className="text-xs text-muted-foreground">
+																{formatDuration(cell.averageTime)} ·{" "}
+																{cell.attempts} percobaan
+															</p>
+														</div>
+													) : (
+														<span className="text-muted-foreground">-</span>
+													)}
+												</td>
+											);
+										})}
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,273 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { api } from "@cvx/_generated/api";
+import { toCsv } from "@cvx/csv";
+import { formatCorrectAnswer } from "@cvx/question_types";
+import {
+	type ImportIssue,
+	type QuizImportFormat,
+	detectImportFormat,
+	parseQuizImport,
+} from "@cvx/quiz_import";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useAction } from "convex/react";
+import { ChevronLeft, FileDown, Upload } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { QUESTION_TYPE_LABELS } from "./-ui.response-input";
+
+export const Route = createFileRoute("/_app/_authenticated/quizzes/import")({
+	component: RouteComponent,
+});
+
+// Question banks are plain text, anything bigger is unlikely to be one
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+const FORMAT_LABELS: Record<QuizImportFormat, string> = {
+	gift: "GIFT (Moodle)",
+	moodle_xml: "Moodle XML",
+	csv: "CSV",
+	aiken: "Aiken",
+};
+
+const ISSUE_LABELS: Record<ImportIssue, string> = {
+	unsupported_type: "Jenis soal tidak didukung",
+	missing_question: "Teks soal kosong",
+	too_few_options: "Minimal 2 pilihan jawaban",
+	too_many_options: "Maksimal 6 pilihan jawaban",
+	empty_option: "Ada pilihan jawaban yang kosong",
+	missing_answer: "Jawaban benar tidak ditemukan",
+	invalid_answer_key: "Kunci jawaban tidak lengkap atau tidak valid",
+};
+
+const CSV_TEMPLATE_COLUMNS = [
+	"question",
+	"option_a",
+	"option_b",
+	"option_c",
+	"option_d",
+	"answer",
+	"explanation",
+	"difficulty",
+] as const;
+
+function downloadCsvTemplate() {
+	const csv = toCsv(CSV_TEMPLATE_COLUMNS, [
+		{
+			question: "Apa ibu kota Indonesia?",
+			option_a: "Bandung",
+			option_b: "Jakarta",
+			option_c: "Surabaya",
+			option_d: "Medan",
+			answer: "B",
+			explanation: "Jakarta adalah ibu kota Indonesia.",
+			difficulty: "easy",
+		},
+	]);
+	const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = "template-impor-kuis.csv";
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+function RouteComponent() {
+	const navigate = useNavigate();
+	const importQuiz = useAction(api.quizzes.importQuiz);
+
+	const [file, setFile] = useState<{ name: string; content: string } | null>(
+		null,
+	);
+	const [format, setFormat] = useState<QuizImportFormat>("gift");
+	const [title, setTitle] = useState("");
+	const [description, setDescription] = useState("");
+	const [isImporting, setIsImporting] = useState(false);
+
+	const report = useMemo(
+		() => (file ? parseQuizImport(file.content, format) : []),
+		[file, format],
+	);
+	const validCount = report.filter((imported) => imported.question).length;
+
+	const handleFileChange = async (selected: File | undefined) => {
+		if (!selected) {
+			return;
+		}
+		if (selected.size > MAX_FILE_SIZE) {
+			toast.error("Ukuran file maksimal 2 MB");
+			return;
+		}
+		const content = await selected.text();
+		setFile({ name: selected.name, content });
+		setFormat(detectImportFormat(selected.name, content));
+		if (!title) {
+			setTitle(selected.name.replace(/\.[^.]+$/, ""));
+		}
+	};
+
+	const handleImport = async () => {
+		if (!file) {
+			return;
+		}
+		setIsImporting(true);
+		try {
+			const quizId = await importQuiz({
+				title,
+				description,
+				filename: file.name,
+				format,
+				content: file.content,
+			});
+			toast.success(`${validCount} soal berhasil diimpor`);
+			navigate({ to: "/quizzes/$quizId", params: { quizId } });
+		} catch (error) {
+			console.error(error);
+			toast.error("Gagal mengimpor kuis");
+		} finally {
+			setIsImporting(false);
+		}
+	};
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-4xl">
+				<Button asChild variant="outline" className="mb-4 self-start">
+					<Link to="/quizzes">
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Kuisku
+					</Link>
+				</Button>
+
+				<h1 className="text-3xl font-bold mb-2">Impor Kuis</h1>
+				<p className="text-muted-foreground mb-6">
+					Bawa bank soalmu dari Moodle atau file lain dalam format GIFT, Moodle
+					XML, CSV atau Aiken. Soal pilihan ganda dan benar/salah akan diimpor
+					tanpa AI, begitu juga isian singkat, isian rumpang dan menjodohkan
+					dari GIFT dan Moodle XML.
+				</p>
+
+				<div className="space-y-4 rounded-md border p-4 mb-6">
+					<div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+						<Button asChild variant="outline">
+							<label htmlFor="import_file" className="cursor-pointer">
+								<Upload className="mr-2 h-4 w-4" />
+								{file ? file.name : "Pilih file"}
+							</label>
+						</Button>
+						<input
+							id="import_file"
+							type="file"
+							accept=".gift,.txt,.xml,.csv"
+							className="sr-only"
+							onChange={(event) => handleFileChange(event.target.files?.[0])}
+						/>
+						<Select
+							value={format}
+							onValueChange={(value) => setFormat(value as QuizImportFormat)}
+						>
+							<SelectTrigger className="sm:w-48">
+								<SelectValue placeholder="Format" />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(FORMAT_LABELS).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button variant="ghost" onClick={downloadCsvTemplate}>
+							<FileDown className="mr-2 h-4 w-4" />
+							Template CSV
+						</Button>
+					</div>
+
+					<div className="space-y-1">
+						<label htmlFor="import_title" className="text-sm font-medium">
+							Judul kuis
+						</label>
+						<Input
+							id="import_title"
+							value={title}
+							onChange={(e) => setTitle(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1">
+						<label htmlFor="import_description" className="text-sm font-medium">
+							Deskripsi (opsional)
+						</label>
+						<Input
+							id="import_description"
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+						/>
+					</div>
+				</div>
+
+				{file && report.length === 0 && (
+					<p className="text-center text-muted-foreground">
+						Tidak ada soal yang ditemukan. Pastikan format file sudah benar.
+					</p>
+				)}
+
+				{report.length > 0 && (
+					<>
+						<div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between mb-3">
+							<p className="text-sm">
+								{validCount} dari {report.length} soal siap diimpor.
+								{validCount < report.length &&
+									" Soal yang bermasalah akan dilewati."}
+							</p>
+							<Button
+								onClick={handleImport}
+								disabled={isImporting || validCount === 0 || !title.trim()}
+							>
+								{isImporting ? "Mengimpor..." : `Impor ${validCount} Soal`}
+							</Button>
+						</div>
+
+						<div className="space-y-2">
+							{report.map((imported) => (
+								<div
+									key={imported.number}
+									className="flex items-start justify-between gap-3 rounded-md border p-3"
+								>
+									<div className="space-y-1">
+										<p className="font-medium whitespace-pre-line">
+											{imported.number}. {imported.text || "(tanpa teks)"}
+										</p>
+										{imported.question && (
+											<p className="text-sm text-muted-foreground">
+												{QUESTION_TYPE_LABELS[imported.question.questionType]} ·{" "}
+												jawaban: {formatCorrectAnswer(imported.question)}
+											</p>
+										)}
+										{imported.issues.map((issue) => (
+											<p key={issue} className="text-sm text-destructive">
+												{ISSUE_LABELS[issue]}
+											</p>
+										))}
+									</div>
+									{imported.question ? (
+										<Badge variant="secondary">Valid</Badge>
+									) : (
+										<Badge variant="destructive">Dilewati</Badge>
+									)}
+								</div>
+							))}
+						</div>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,9 +1,272 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { api } from "@cvx/_generated/api";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { usePaginatedQuery } from "convex/react";
+import {
+	BarChart3,
+	ChevronLeft,
+	Compass,
+	FileQuestion,
+	Library,
+	Search,
+	Trophy,
+	Upload,
+} from "lucide-react";
+import { useEffect, useState } from "react";
 
-export const Route = createFileRoute('/_app/_authenticated/quizzes/')({
-  component: RouteComponent,
-})
+export const Route = createFileRoute("/_app/_authenticated/quizzes/")({
+	component: RouteComponent,
+});
+
+const PAGE_SIZE = 12;
+
+type SourceFilter = "all" | "pdf" | "url" | "prompt" | "import" | "bank";
+type DifficultyFilter = "all" | "easy" | "medium" | "hard" | "mix";
+type SortBy = "createdAt" | "lastAttemptedAt";
+
+const SOURCE_LABELS: Record<Exclude<SourceFilter, "all">, string> = {
+	pdf: "PDF",
+	url: "Website",
+	prompt: "Prompt",
+	import: "Impor",
+	bank: "Bank Soal",
+};
+
+const DIFFICULTY_LABELS: Record<Exclude<DifficultyFilter, "all">, string> = {
+	easy: "Mudah",
+	medium: "Sedang",
+	hard: "Sulit",
+	mix: "Campuran",
+};
+
+function formatDate(timestamp: number) {
+	return new Date(timestamp).toLocaleDateString("id-ID", {
+		year: "numeric",
+		month: "long",
+		day: "numeric",
+	});
+}
 
 function RouteComponent() {
-  return <div>Hello "/_app/_authenticated/quizzes/"!</div>
+	const [searchInput, setSearchInput] = useState("");
+	const [search, setSearch] = useState("");
+	const [sourceType, setSourceType] = useState<SourceFilter>("all");
+	const [difficulty, setDifficulty] = useState<DifficultyFilter>("all");
+	const [sortBy, setSortBy] = useState<SortBy>("createdAt");
+
+	// Debounce the search input so we don't re-query on every keystroke
+	useEffect(() => {
+		const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+		return () => clearTimeout(timeout);
+	}, [searchInput]);
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.quizzes.listMyQuizzes,
+		{
+			search: search || undefined,
+			sourceType: sourceType === "all" ? undefined : sourceType,
+			difficulty: difficulty === "all" ? undefined : difficulty,
+			sortBy,
+		},
+		{ initialNumItems: PAGE_SIZE },
+	);
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<div className="w-full max-w-4xl">
+				<Button asChild variant="outline" className="mb-4 self-start">
+					<Link to={"/dashboard"}>
+						<ChevronLeft className="mr-2 h-4 w-4" />
+						Kembali ke Dashboard
+					</Link>
+				</Button>
+
+				<div className="flex items-center justify-between gap-2 mb-2">
+					<h1 className="text-3xl font-bold">Kuisku</h1>
+					<div className="flex flex-wrap justify-end gap-2">
+						<Button asChild variant="outline">
+							<Link to="/quizzes/explore">
+								<Compass className="mr-2 h-4 w-4" />
+								Jelajahi
+							</Link>
+						</Button>
+						<Button asChild variant="outline">
+							<Link to="/quizzes/bank">
+								<Library className="mr-2 h-4 w-4" />
+								Bank Soal
+							</Link>
+						</Button>
+						<Button asChild variant="outline">
+							<Link to="/quizzes/import">
+								<Upload className="mr-2 h-4 w-4" />
+								Impor
+							</Link>
+						</Button>
+						<Button asChild variant="outline">
+							<Link to="/quizzes/gradebook">
+								<BarChart3 className="mr-2 h-4 w-4" />
+								Buku Nilai
+							</Link>
+						</Button>
+					</div>
+				</div>
+				<p className="text-muted-foreground mb-6">
+					Semua kuis yang pernah kamu buat.
+				</p>
+
+				<div className="flex flex-col gap-3 md:flex-row md:items-center mb-6">
+					<div className="relative flex-grow">
+						<Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+						<Input
+							placeholder="Cari judul atau deskripsi kuis..."
+							value={searchInput}
+							onChange={(e) => setSearchInput(e.target.value)}
+							className="pl-9"
+						/>
+					</div>
+					<Select
+						value={sourceType}
+						onValueChange={(value) => setSourceType(value as SourceFilter)}
+					>
+						<SelectTrigger className="md:w-36">
+							<SelectValue placeholder="Sumber" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all">Semua sumber</SelectItem>
+							<SelectItem value="pdf">PDF</SelectItem>
+							<SelectItem value="url">Website</SelectItem>
+							<SelectItem value="prompt">Prompt</SelectItem>
+							<SelectItem value="import">Impor</SelectItem>
+							<SelectItem value="bank">Bank Soal</SelectItem>
+						</SelectContent>
+					</Select>
+					<Select
+						value={difficulty}
+						onValueChange={(value) => setDifficulty(value as DifficultyFilter)}
+					>
+						<SelectTrigger className="md:w-36">
+							<SelectValue placeholder="Kesulitan" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all">Semua tingkat</SelectItem>
+							<SelectItem value="easy">Mudah</SelectItem>
+							<SelectItem value="medium">Sedang</SelectItem>
+							<SelectItem value="hard">Sulit</SelectItem>
+							<SelectItem value="mix">Campuran</SelectItem>
+						</SelectContent>
+					</Select>
+					<Select
+						value={sortBy}
+						onValueChange={(value) => setSortBy(value as SortBy)}
+						disabled={!!search}
+					>
+						<SelectTrigger className="md:w-44">
+							<SelectValue placeholder="Urutkan" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="createdAt">Terbaru dibuat</SelectItem>
+							<SelectItem value="lastAttemptedAt">
+								Terakhir dimainkan
+							</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+
+				{status === "LoadingFirstPage" && (
+					<p className="mt-8 text-center">Memuat kuis...</p>
+				)}
+
+				{status !== "LoadingFirstPage" && results.length === 0 && (
+					<div className="mt-8 w-full text-center">
+						<p className="text-muted-foreground">
+							{search || sourceType !== "all" || difficulty !== "all"
+								? "Tidak ada kuis yang cocok dengan pencarianmu."
+								: "Kamu belum membuat kuis apa pun."}
+						</p>
+					</div>
+				)}
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{results.map((quiz) => (
+						<Link
+							key={quiz._id}
+							to="/quizzes/$quizId"
+							params={{ quizId: quiz._id }}
+						>
+							<Card className="h-full border hover:border-primary transition-colors">
+								<CardHeader>
+									<CardTitle className="text-xl">{quiz.title}</CardTitle>
+									<CardDescription className="line-clamp-2">
+										{quiz.description}
+									</CardDescription>
+								</CardHeader>
+								<CardContent className="space-y-3">
+									<div className="flex flex-wrap gap-2">
+										{quiz.sourceType in SOURCE_LABELS && (
+											<Badge variant="outline">
+												{
+													SOURCE_LABELS[
+														quiz.sourceType as keyof typeof SOURCE_LABELS
+													]
+												}
+											</Badge>
+										)}
+										<Badge variant="secondary">
+											{DIFFICULTY_LABELS[quiz.difficulty]}
+										</Badge>
+									</div>
+									<div className="flex items-center gap-4 text-sm text-muted-foreground">
+										<span className="flex items-center gap-1">
+											<FileQuestion className="h-4 w-4" />
+											{quiz.questionCount} pertanyaan
+										</span>
+										<span className="flex items-center gap-1">
+											<Trophy className="h-4 w-4" />
+											{quiz.bestScore !== null
+												? `Skor terbaik ${quiz.bestScore}`
+												: "Belum ada skor"}
+										</span>
+									</div>
+									<p className="text-xs text-muted-foreground">
+										Dibuat {formatDate(quiz._creationTime)} ·{" "}
+										{quiz.attemptCount} kali dimainkan
+										{quiz.lastAttemptedAt &&
+											` · terakhir ${formatDate(quiz.lastAttemptedAt)}`}
+									</p>
+								</CardContent>
+							</Card>
+						</Link>
+					))}
+				</div>
+
+				{(status === "CanLoadMore" || status === "LoadingMore") && (
+					<div className="mt-6 flex justify-center">
+						<Button
+							variant="outline"
+							onClick={() => loadMore(PAGE_SIZE)}
+							disabled={status === "LoadingMore"}
+						>
+							{status === "LoadingMore" ? "Memuat..." : "Muat lebih banyak"}
+						</Button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
 }
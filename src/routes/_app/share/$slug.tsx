@@ -0,0 +1,132 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Logo } from "@/components/ui/logo";
+import { SignInButton } from "@clerk/clerk-react";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { api } from "@cvx/_generated/api";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useConvexAuth } from "convex/react";
+import { FileQuestion, User } from "lucide-react";
+import { toast } from "sonner";
+
+export const Route = createFileRoute("/_app/share/$slug")({
+	component: RouteComponent,
+});
+
+const DIFFICULTY_LABELS = {
+	easy: "Mudah",
+	medium: "Sedang",
+	hard: "Sulit",
+	mix: "Campuran",
+};
+
+function RouteComponent() {
+	const { slug } = Route.useParams();
+	const navigate = useNavigate();
+	const { isAuthenticated, isLoading: isAuthLoading } = useConvexAuth();
+
+	const { data: quiz, isLoading } = useQuery(
+		convexQuery(api.sharing.getSharedQuizPreview, { slug }),
+	);
+
+	const { mutateAsync: startQuizAttempt, isPending: isStarting } = useMutation({
+		mutationFn: useConvexMutation(api.quizzes.startQuizAttempt),
+	});
+
+	const handleStart = async () => {
+		if (!quiz) return;
+		try {
+			const attemptId = await startQuizAttempt({ quizId: quiz._id });
+			navigate({
+				to: "/quizzes/$quizId/play",
+				params: { quizId: quiz._id },
+				search: () => ({ attemptId }),
+			});
+		} catch (error) {
+			console.error(error);
+			toast.error("Sepertinya ada kesalahan");
+		}
+	};
+
+	if (isLoading) {
+		return <div className="p-8 text-center">Memuat...</div>;
+	}
+
+	return (
+		<div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
+			<Link to="/" className="mb-8 flex h-10 items-center">
+				<Logo />
+			</Link>
+			<div className="w-full max-w-2xl">
+				{!quiz ? (
+					<Card>
+						<CardHeader>
+							<CardTitle>Kuis tidak ditemukan</CardTitle>
+							<CardDescription>
+								Tautan ini tidak valid atau kuisnya sudah tidak dibagikan.
+							</CardDescription>
+						</CardHeader>
+					</Card>
+				) : (
+					<Card>
+						<CardHeader>
+							<CardTitle className="text-3xl font-bold">{quiz.title}</CardTitle>
+							<CardDescription className="text-lg pt-1">
+								{quiz.description}
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-3">
+							<div className="flex items-center gap-2">
+								<FileQuestion className="h-5 w-5" />
+								<p className="text-muted-foreground">
+									{quiz.questionCount} pertanyaan
+								</p>
+								<Badge variant="outline">
+									{DIFFICULTY_LABELS[quiz.difficulty]}
+								</Badge>
+							</div>
+							{quiz.ownerUsername && (
+								<div className="flex items-center gap-2">
+									<User className="h-5 w-5" />
+									<p className="text-muted-foreground">
+										Dibuat oleh {quiz.ownerUsername}
+									</p>
+								</div>
+							)}
+						</CardContent>
+						<CardFooter>
+							{isAuthenticated ? (
+								<Button
+									className="w-full"
+									onClick={handleStart}
+									disabled={isStarting}
+								>
+									{isStarting ? "Menyiapkan kuis..." : "Mulai Kuis"}
+								</Button>
+							) : (
+								<SignInButton
+									mode="modal"
+									forceRedirectUrl={`/share/${slug}`}
+									signUpFallbackRedirectUrl={"/onboarding/username"}
+								>
+									<Button className="w-full" disabled={isAuthLoading}>
+										Masuk untuk mulai kuis
+									</Button>
+								</SignInButton>
+							)}
+						</CardFooter>
+					</Card>
+				)}
+			</div>
+		</div>
+	);
+}